@@ -5,8 +5,28 @@ import { fileURLToPath } from 'node:url';
 const CORE_ROUTES = [
   { pattern: '/.well-known/atproto-did', entrypoint: './src/pages/.well-known/atproto-did.ts' },
   { pattern: '/.well-known/did.json', entrypoint: './src/pages/.well-known/did.json.ts' },
+  { pattern: '/.well-known/oauth-authorization-server', entrypoint: './src/pages/.well-known/oauth-authorization-server.ts' },
+  { pattern: '/.well-known/oauth-protected-resource', entrypoint: './src/pages/.well-known/oauth-protected-resource.ts' },
   { pattern: '/health', entrypoint: './src/pages/health.ts' },
+  { pattern: '/oauth/authorize', entrypoint: './src/pages/oauth/authorize.ts' },
+  { pattern: '/oauth/clients', entrypoint: './src/pages/oauth/clients.ts' },
+  { pattern: '/oauth/consent', entrypoint: './src/pages/oauth/consent.ts' },
+  { pattern: '/oauth/introspect', entrypoint: './src/pages/oauth/introspect.ts' },
+  { pattern: '/oauth/jwks', entrypoint: './src/pages/oauth/jwks.ts' },
+  { pattern: '/oauth/par', entrypoint: './src/pages/oauth/par.ts' },
+  { pattern: '/oauth/revoke', entrypoint: './src/pages/oauth/revoke.ts' },
+  { pattern: '/oauth/signin', entrypoint: './src/pages/oauth/signin.ts' },
+  { pattern: '/oauth/token', entrypoint: './src/pages/oauth/token.ts' },
   { pattern: '/ready', entrypoint: './src/pages/ready.ts' },
+  { pattern: '/xrpc/com.atproto.admin.deleteAccount', entrypoint: './src/pages/xrpc/com.atproto.admin.deleteAccount.ts' },
+  { pattern: '/xrpc/com.atproto.admin.disableAccountInvites', entrypoint: './src/pages/xrpc/com.atproto.admin.disableAccountInvites.ts' },
+  { pattern: '/xrpc/com.atproto.admin.getAccountInfo', entrypoint: './src/pages/xrpc/com.atproto.admin.getAccountInfo.ts' },
+  { pattern: '/xrpc/com.atproto.admin.getAccountInfos', entrypoint: './src/pages/xrpc/com.atproto.admin.getAccountInfos.ts' },
+  { pattern: '/xrpc/com.atproto.admin.getSubjectStatus', entrypoint: './src/pages/xrpc/com.atproto.admin.getSubjectStatus.ts' },
+  { pattern: '/xrpc/com.atproto.admin.updateAccountEmail', entrypoint: './src/pages/xrpc/com.atproto.admin.updateAccountEmail.ts' },
+  { pattern: '/xrpc/com.atproto.admin.updateAccountHandle', entrypoint: './src/pages/xrpc/com.atproto.admin.updateAccountHandle.ts' },
+  { pattern: '/xrpc/com.atproto.admin.updateAccountPassword', entrypoint: './src/pages/xrpc/com.atproto.admin.updateAccountPassword.ts' },
+  { pattern: '/xrpc/com.atproto.admin.updateSubjectStatus', entrypoint: './src/pages/xrpc/com.atproto.admin.updateSubjectStatus.ts' },
   { pattern: '/xrpc/com.atproto.identity.getRecommendedDidCredentials', entrypoint: './src/pages/xrpc/com.atproto.identity.getRecommendedDidCredentials.ts' },
   { pattern: '/xrpc/com.atproto.identity.requestPlcOperationSignature', entrypoint: './src/pages/xrpc/com.atproto.identity.requestPlcOperationSignature.ts' },
   { pattern: '/xrpc/com.atproto.identity.resolveHandle', entrypoint: './src/pages/xrpc/com.atproto.identity.resolveHandle.ts' },
@@ -21,12 +41,30 @@ const CORE_ROUTES = [
   { pattern: '/xrpc/com.atproto.repo.listRecords', entrypoint: './src/pages/xrpc/com.atproto.repo.listRecords.ts' },
   { pattern: '/xrpc/com.atproto.repo.putRecord', entrypoint: './src/pages/xrpc/com.atproto.repo.putRecord.ts' },
   { pattern: '/xrpc/com.atproto.repo.uploadBlob', entrypoint: './src/pages/xrpc/com.atproto.repo.uploadBlob.ts' },
+  { pattern: '/xrpc/com.atproto.repo.importRepo', entrypoint: './src/pages/xrpc/com.atproto.repo.importRepo.ts' },
+  { pattern: '/xrpc/com.atproto.server.activateAccount', entrypoint: './src/pages/xrpc/com.atproto.server.activateAccount.ts' },
   { pattern: '/xrpc/com.atproto.server.checkAccountStatus', entrypoint: './src/pages/xrpc/com.atproto.server.checkAccountStatus.ts' },
+  { pattern: '/xrpc/com.atproto.server.confirmEmail', entrypoint: './src/pages/xrpc/com.atproto.server.confirmEmail.ts' },
+  { pattern: '/xrpc/com.atproto.server.createAccount', entrypoint: './src/pages/xrpc/com.atproto.server.createAccount.ts' },
+  { pattern: '/xrpc/com.atproto.server.createAppPassword', entrypoint: './src/pages/xrpc/com.atproto.server.createAppPassword.ts' },
+  { pattern: '/xrpc/com.atproto.server.createInviteCode', entrypoint: './src/pages/xrpc/com.atproto.server.createInviteCode.ts' },
+  { pattern: '/xrpc/com.atproto.server.createInviteCodes', entrypoint: './src/pages/xrpc/com.atproto.server.createInviteCodes.ts' },
   { pattern: '/xrpc/com.atproto.server.createSession', entrypoint: './src/pages/xrpc/com.atproto.server.createSession.ts' },
+  { pattern: '/xrpc/com.atproto.server.deactivateAccount', entrypoint: './src/pages/xrpc/com.atproto.server.deactivateAccount.ts' },
+  { pattern: '/xrpc/com.atproto.server.deleteAccount', entrypoint: './src/pages/xrpc/com.atproto.server.deleteAccount.ts' },
   { pattern: '/xrpc/com.atproto.server.deleteSession', entrypoint: './src/pages/xrpc/com.atproto.server.deleteSession.ts' },
   { pattern: '/xrpc/com.atproto.server.describeServer', entrypoint: './src/pages/xrpc/com.atproto.server.describeServer.ts' },
+  { pattern: '/xrpc/com.atproto.server.getAccountInviteCodes', entrypoint: './src/pages/xrpc/com.atproto.server.getAccountInviteCodes.ts' },
   { pattern: '/xrpc/com.atproto.server.getSession', entrypoint: './src/pages/xrpc/com.atproto.server.getSession.ts' },
+  { pattern: '/xrpc/com.atproto.server.listAppPasswords', entrypoint: './src/pages/xrpc/com.atproto.server.listAppPasswords.ts' },
   { pattern: '/xrpc/com.atproto.server.refreshSession', entrypoint: './src/pages/xrpc/com.atproto.server.refreshSession.ts' },
+  { pattern: '/xrpc/com.atproto.server.requestAccountDelete', entrypoint: './src/pages/xrpc/com.atproto.server.requestAccountDelete.ts' },
+  { pattern: '/xrpc/com.atproto.server.requestEmailConfirmation', entrypoint: './src/pages/xrpc/com.atproto.server.requestEmailConfirmation.ts' },
+  { pattern: '/xrpc/com.atproto.server.requestEmailUpdate', entrypoint: './src/pages/xrpc/com.atproto.server.requestEmailUpdate.ts' },
+  { pattern: '/xrpc/com.atproto.server.requestPasswordReset', entrypoint: './src/pages/xrpc/com.atproto.server.requestPasswordReset.ts' },
+  { pattern: '/xrpc/com.atproto.server.resetPassword', entrypoint: './src/pages/xrpc/com.atproto.server.resetPassword.ts' },
+  { pattern: '/xrpc/com.atproto.server.revokeAppPassword', entrypoint: './src/pages/xrpc/com.atproto.server.revokeAppPassword.ts' },
+  { pattern: '/xrpc/com.atproto.server.updateEmail', entrypoint: './src/pages/xrpc/com.atproto.server.updateEmail.ts' },
   { pattern: '/xrpc/com.atproto.sync.getBlocks', entrypoint: './src/pages/xrpc/com.atproto.sync.getBlocks.ts' },
   { pattern: '/xrpc/com.atproto.sync.getBlocks.json', entrypoint: './src/pages/xrpc/com.atproto.sync.getBlocks.json.ts' },
   { pattern: '/xrpc/com.atproto.sync.getCheckout', entrypoint: './src/pages/xrpc/com.atproto.sync.getCheckout.ts' },
@@ -44,6 +82,8 @@ const CORE_ROUTES = [
   // Additional atproto endpoints
   { pattern: '/xrpc/com.atproto.identity.signPlcOperation', entrypoint: './src/pages/xrpc/com.atproto.identity.signPlcOperation.ts' },
   { pattern: '/xrpc/com.atproto.server.getServiceAuth', entrypoint: './src/pages/xrpc/com.atproto.server.getServiceAuth.ts' },
+  // Alteran-specific endpoints
+  { pattern: '/xrpc/dev.alteran.identity.rotateSigningKey', entrypoint: './src/pages/xrpc/dev.alteran.identity.rotateSigningKey.ts' },
   // AppView proxy endpoints (bsky) — local-only where required
   { pattern: '/xrpc/app.bsky.actor.getPreferences', entrypoint: './src/pages/xrpc/app.bsky.actor.getPreferences.ts' },
   { pattern: '/xrpc/app.bsky.actor.putPreferences', entrypoint: './src/pages/xrpc/app.bsky.actor.putPreferences.ts' },
@@ -67,6 +107,8 @@ const DEBUG_ROUTES = [
   { pattern: '/debug/db/bootstrap', entrypoint: './src/pages/debug/db/bootstrap.ts' },
   { pattern: '/debug/db/commits', entrypoint: './src/pages/debug/db/commits.ts' },
   { pattern: '/debug/gc/blobs', entrypoint: './src/pages/debug/gc/blobs.ts' },
+  { pattern: '/debug/lookup-cache', entrypoint: './src/pages/debug/lookup-cache.ts' },
+  { pattern: '/debug/maintenance', entrypoint: './src/pages/debug/maintenance.ts' },
   { pattern: '/debug/record', entrypoint: './src/pages/debug/record.ts' },
   { pattern: '/debug/sequencer', entrypoint: './src/pages/debug/sequencer.ts' },
 ];
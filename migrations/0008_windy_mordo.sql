@@ -0,0 +1,12 @@
+CREATE TABLE `repo_import` (
+	`did` text PRIMARY KEY NOT NULL,
+	`commit_cid` text NOT NULL,
+	`rev` text NOT NULL,
+	`status` text NOT NULL,
+	`blocks_total` integer DEFAULT 0 NOT NULL,
+	`blocks_done` integer DEFAULT 0 NOT NULL,
+	`records_cursor` text,
+	`records_done` integer DEFAULT 0 NOT NULL,
+	`started_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
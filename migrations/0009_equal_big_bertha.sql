@@ -0,0 +1,14 @@
+CREATE TABLE `event_log` (
+	`seq` integer PRIMARY KEY NOT NULL,
+	`type` text NOT NULL,
+	`did` text NOT NULL,
+	`commit_cid` text,
+	`rev` text,
+	`payload` text NOT NULL,
+	`ts` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `event_log_did_idx` ON `event_log` (`did`);--> statement-breakpoint
+CREATE INDEX `event_log_commit_cid_idx` ON `event_log` (`commit_cid`);--> statement-breakpoint
+-- Backfill existing commits so cursors issued before the unified log stay valid
+INSERT INTO `event_log`("seq", "type", "did", "commit_cid", "rev", "payload", "ts") SELECT "seq", 'commit', json_extract("data", '$.did'), "cid", "rev", json_object('data', "data", 'sig', "sig"), "ts" FROM `commit_log`;
@@ -0,0 +1 @@
+ALTER TABLE `refresh_token` ADD `scope` text;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `email_token` (
+	`purpose` text NOT NULL,
+	`did` text NOT NULL,
+	`token` text NOT NULL,
+	`requested_at` integer NOT NULL,
+	PRIMARY KEY(`purpose`, `did`)
+);
+--> statement-breakpoint
+ALTER TABLE `account_state` ADD `status` text;--> statement-breakpoint
+ALTER TABLE `account_state` ADD `delete_after` integer;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `account` ADD `email_confirmed_at` integer;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `maintenance_job` (
+	`name` text PRIMARY KEY NOT NULL,
+	`last_run_at` integer,
+	`last_status` text,
+	`last_error` text,
+	`last_result` text,
+	`last_duration_ms` integer,
+	`cursor` text,
+	`updated_at` integer NOT NULL
+);
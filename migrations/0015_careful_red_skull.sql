@@ -0,0 +1,5 @@
+CREATE TABLE `identity_cache` (
+	`key` text PRIMARY KEY NOT NULL,
+	`value` text,
+	`updated_at` integer NOT NULL
+);
@@ -0,0 +1,16 @@
+CREATE TABLE `invite_code` (
+	`code` text PRIMARY KEY NOT NULL,
+	`available_uses` integer NOT NULL,
+	`disabled` integer DEFAULT false NOT NULL,
+	`for_account` text NOT NULL,
+	`created_by` text NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `invite_code_for_account_idx` ON `invite_code` (`for_account`);--> statement-breakpoint
+CREATE TABLE `invite_code_use` (
+	`code` text NOT NULL,
+	`used_by` text NOT NULL,
+	`used_at` integer NOT NULL,
+	PRIMARY KEY(`code`, `used_by`)
+);
@@ -0,0 +1,16 @@
+CREATE TABLE `invite_disabled_account` (
+	`did` text PRIMARY KEY NOT NULL,
+	`note` text,
+	`disabled_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `takedown` (
+	`kind` text NOT NULL,
+	`subject` text NOT NULL,
+	`did` text NOT NULL,
+	`ref` text,
+	`created_at` integer NOT NULL,
+	PRIMARY KEY(`kind`, `subject`)
+);
+--> statement-breakpoint
+CREATE INDEX `takedown_did_idx` ON `takedown` (`did`);
\ No newline at end of file
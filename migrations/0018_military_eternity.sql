@@ -0,0 +1 @@
+ALTER TABLE `blockstore` ADD `data` blob;
\ No newline at end of file
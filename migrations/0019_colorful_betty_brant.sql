@@ -0,0 +1,17 @@
+CREATE TABLE `oauth_device_session` (
+	`id` text PRIMARY KEY NOT NULL,
+	`did` text NOT NULL,
+	`user_agent` text,
+	`created_at` integer NOT NULL,
+	`expires_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `oauth_device_session_did_idx` ON `oauth_device_session` (`did`);--> statement-breakpoint
+CREATE TABLE `oauth_grant` (
+	`did` text NOT NULL,
+	`client_id` text NOT NULL,
+	`scope` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	PRIMARY KEY(`did`, `client_id`)
+);
@@ -0,0 +1,4 @@
+ALTER TABLE `refresh_token` ADD `client_id` text;--> statement-breakpoint
+ALTER TABLE `refresh_token` ADD `dpop_jkt` text;--> statement-breakpoint
+ALTER TABLE `refresh_token` ADD `family_id` text;--> statement-breakpoint
+CREATE INDEX `refresh_token_family_idx` ON `refresh_token` (`family_id`);
\ No newline at end of file
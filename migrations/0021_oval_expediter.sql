@@ -0,0 +1,2 @@
+ALTER TABLE `blob` ADD `created_at` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE INDEX `blob_usage_key_idx` ON `blob_usage` (`key`);
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE `blockstore_gc_mark` (
+	`cid` text PRIMARY KEY NOT NULL,
+	`walked` integer DEFAULT false NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `blockstore_gc_mark_walked_idx` ON `blockstore_gc_mark` (`walked`);--> statement-breakpoint
+ALTER TABLE `blockstore` ADD `stored_at` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
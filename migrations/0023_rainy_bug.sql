@@ -0,0 +1,16 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_blob` (
+	`cid` text NOT NULL,
+	`did` text NOT NULL,
+	`key` text NOT NULL,
+	`mime` text NOT NULL,
+	`size` integer NOT NULL,
+	`created_at` integer DEFAULT 0 NOT NULL,
+	PRIMARY KEY(`did`, `cid`)
+);
+--> statement-breakpoint
+INSERT INTO `__new_blob`("cid", "did", "key", "mime", "size", "created_at") SELECT "cid", "did", "key", "mime", "size", "created_at" FROM `blob`;--> statement-breakpoint
+DROP TABLE `blob`;--> statement-breakpoint
+ALTER TABLE `__new_blob` RENAME TO `blob`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE INDEX `blob_key_idx` ON `blob` (`key`);
\ No newline at end of file
@@ -0,0 +1,82 @@
+#!/usr/bin/env bun
+/**
+ * Regenerate src/lib/lexicon/lexicons.json from the lexicons bundled with @atproto/api.
+ *
+ * Only record lexicons (app.bsky.*, chat.bsky.*, com.atproto.*) are kept, plus the
+ * defs they reference transitively; everything else is pruned to keep the worker small.
+ *
+ * Usage:
+ *   bun scripts/generate-lexicons.ts
+ */
+import { writeFileSync } from 'fs'
+import { schemas } from '@atproto/api/dist/client/lexicons'
+
+const OUT = new URL('../src/lib/lexicon/lexicons.json', import.meta.url)
+const PREFIXES = ['app.bsky.', 'chat.bsky.', 'com.atproto.']
+
+const docs = new Map<string, any>()
+for (const doc of schemas as any[]) docs.set(doc.id, doc)
+
+// Collect "nsid#def" references reachable from record defs
+const wanted = new Set<string>()
+const queue: string[] = []
+for (const doc of docs.values()) {
+  if (!PREFIXES.some((p) => doc.id.startsWith(p))) continue
+  if (doc.defs?.main?.type === 'record') queue.push(`${doc.id}#main`)
+}
+
+// The compiled schemas carry refs as "lex:nsid#def"; the shipped JSON uses plain "nsid#def"
+const unlex = (ref: string) => (ref.startsWith('lex:') ? ref.slice(4) : ref)
+
+function resolveRef(ref: string, fromNsid: string): string {
+  ref = unlex(ref)
+  if (ref.startsWith('#')) return `${fromNsid}${ref}`
+  return ref.includes('#') ? ref : `${ref}#main`
+}
+
+function walk(node: any, fromNsid: string) {
+  if (!node || typeof node !== 'object') return
+  if (Array.isArray(node)) {
+    for (const n of node) walk(n, fromNsid)
+    return
+  }
+  if (node.type === 'ref' && typeof node.ref === 'string') queue.push(resolveRef(node.ref, fromNsid))
+  if (node.type === 'union' && Array.isArray(node.refs)) {
+    for (const r of node.refs) queue.push(resolveRef(r, fromNsid))
+  }
+  for (const v of Object.values(node)) walk(v, fromNsid)
+}
+
+while (queue.length > 0) {
+  const key = queue.pop()!
+  if (wanted.has(key)) continue
+  const [nsid, name] = key.split('#')
+  const def = docs.get(nsid)?.defs?.[name]
+  if (!def) continue
+  wanted.add(key)
+  walk(def, nsid)
+}
+
+const out: Record<string, { lexicon: 1; id: string; defs: Record<string, unknown> }> = {}
+for (const key of Array.from(wanted).sort()) {
+  const [nsid, name] = key.split('#')
+  out[nsid] ??= { lexicon: 1, id: nsid, defs: {} }
+  const { description: _d, ...def } = docs.get(nsid).defs[name]
+  out[nsid].defs[name] = stripDescriptions(def)
+}
+
+function stripDescriptions(node: any): any {
+  if (Array.isArray(node)) return node.map(stripDescriptions)
+  if (!node || typeof node !== 'object') return node
+  const res: Record<string, unknown> = {}
+  for (const [k, v] of Object.entries(node)) {
+    if (k === 'description') continue
+    if (k === 'ref' && typeof v === 'string') res[k] = unlex(v)
+    else if (k === 'refs' && Array.isArray(v)) res[k] = v.map(unlex)
+    else res[k] = stripDescriptions(v)
+  }
+  return res
+}
+
+writeFileSync(OUT, JSON.stringify(Object.values(out), null, 2) + '\n')
+console.log(`[INFO] Wrote ${Object.keys(out).length} lexicons (${wanted.size} defs) to ${OUT.pathname}`)
@@ -1,8 +1,9 @@
-import { createPdsFetchHandler } from './worker/runtime';
+import { createPdsFetchHandler, createPdsScheduledHandler } from './worker/runtime';
 import { Sequencer } from './worker/sequencer';
 
 const fetch = createPdsFetchHandler();
+const scheduled = createPdsScheduledHandler();
 
-export default { fetch };
+export default { fetch, scheduled };
 
 export { Sequencer };
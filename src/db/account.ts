@@ -1,6 +1,6 @@
-import { eq, or, lt } from 'drizzle-orm';
+import { and, eq, gt, isNotNull, isNull, or, lt, sql } from 'drizzle-orm';
 import { getDb } from './client';
-import { account, refresh_token_store, secret } from './schema';
+import { account, app_password, email_token, oauth_device_session, oauth_grant, refresh_token_store, secret } from './schema';
 import type { Env } from '../env';
 import { normalizeHandle } from '../lib/handle';
 
@@ -8,6 +8,14 @@ const NOW = () => Math.floor(Date.now());
 
 export type AccountRow = typeof account.$inferSelect;
 export type RefreshTokenRow = typeof refresh_token_store.$inferSelect;
+export type AppPasswordRow = typeof app_password.$inferSelect;
+export type EmailTokenPurpose =
+  | 'confirm_email'
+  | 'update_email'
+  | 'reset_password'
+  | 'plc_operation'
+  | 'delete_account'
+  | 'oauth_sign_in';
 
 function normalizeIdentifier(identifier: string): { did: string | null; handle: string | null } {
   if (!identifier) return { did: null, handle: null };
@@ -59,6 +67,42 @@ export async function createAccount(env: Env, data: {
     });
 }
 
+export async function getAccountByEmail(env: Env, email: string): Promise<AccountRow | null> {
+  const db = getDb(env);
+  const row = await db.select().from(account).where(eq(sql`lower(${account.email})`, email.trim().toLowerCase())).get();
+  return row ?? null;
+}
+
+/**
+ * Change the account email; the new address starts out unconfirmed
+ */
+export async function updateAccountEmail(env: Env, did: string, email: string): Promise<void> {
+  const db = getDb(env);
+  await db
+    .update(account)
+    .set({ email: email.trim().toLowerCase(), emailConfirmedAt: null, updatedAt: NOW() })
+    .where(eq(account.did, did))
+    .run();
+}
+
+export async function confirmAccountEmail(env: Env, did: string): Promise<void> {
+  const db = getDb(env);
+  await db
+    .update(account)
+    .set({ emailConfirmedAt: NOW(), updatedAt: NOW() })
+    .where(eq(account.did, did))
+    .run();
+}
+
+export async function updateAccountHandle(env: Env, did: string, handle: string): Promise<void> {
+  const db = getDb(env);
+  await db
+    .update(account)
+    .set({ handle, updatedAt: NOW() })
+    .where(eq(account.did, did))
+    .run();
+}
+
 export async function updateAccountPassword(env: Env, did: string, passwordScrypt: string): Promise<void> {
   const db = getDb(env);
   await db
@@ -73,26 +117,26 @@ export async function storeRefreshToken(env: Env, data: {
   did: string;
   expiresAt: number; // epoch seconds
   appPasswordName?: string | null;
+  scope?: string | null;
+  clientId?: string | null;
+  dpopJkt?: string | null;
+  familyId?: string | null;
 }): Promise<void> {
   const db = getDb(env);
+  const values = {
+    did: data.did,
+    expiresAt: data.expiresAt,
+    appPasswordName: data.appPasswordName ?? null,
+    scope: data.scope ?? null,
+    nextId: null,
+    clientId: data.clientId ?? null,
+    dpopJkt: data.dpopJkt ?? null,
+    familyId: data.familyId ?? null,
+  };
   await db
     .insert(refresh_token_store)
-    .values({
-      id: data.id,
-      did: data.did,
-      expiresAt: data.expiresAt,
-      appPasswordName: data.appPasswordName ?? null,
-      nextId: null,
-    })
-    .onConflictDoUpdate({
-      target: refresh_token_store.id,
-      set: {
-        did: data.did,
-        expiresAt: data.expiresAt,
-        appPasswordName: data.appPasswordName ?? null,
-        nextId: null,
-      },
-    });
+    .values({ id: data.id, ...values })
+    .onConflictDoUpdate({ target: refresh_token_store.id, set: values });
 }
 
 export async function markRefreshTokenRotated(env: Env, id: string, nextId: string, graceExpiresAt: number): Promise<void> {
@@ -104,6 +148,20 @@ export async function markRefreshTokenRotated(env: Env, id: string, nextId: stri
     .run();
 }
 
+/**
+ * Mark a token rotated unless that already happened; false when another
+ * refresh got there first (the token was reused)
+ */
+export async function claimRefreshTokenRotation(env: Env, id: string, nextId: string, expiresAt: number): Promise<boolean> {
+  const db = getDb(env);
+  const res = await db
+    .update(refresh_token_store)
+    .set({ nextId, expiresAt })
+    .where(and(eq(refresh_token_store.id, id), isNull(refresh_token_store.nextId)))
+    .run();
+  return (res.meta.changes ?? 0) > 0;
+}
+
 export async function getRefreshToken(env: Env, id: string): Promise<RefreshTokenRow | null> {
   const db = getDb(env);
   const row = await db
@@ -119,12 +177,180 @@ export async function deleteRefreshToken(env: Env, id: string): Promise<void> {
   await db.delete(refresh_token_store).where(eq(refresh_token_store.id, id)).run();
 }
 
+/**
+ * Revoke an OAuth session: every token rotated from the same authorization
+ */
+export async function deleteRefreshTokenFamily(env: Env, familyId: string): Promise<void> {
+  const db = getDb(env);
+  await db.delete(refresh_token_store).where(eq(refresh_token_store.familyId, familyId)).run();
+}
+
+export async function deleteRefreshTokensForClient(env: Env, did: string, clientId: string): Promise<void> {
+  const db = getDb(env);
+  await db
+    .delete(refresh_token_store)
+    .where(and(eq(refresh_token_store.did, did), eq(refresh_token_store.clientId, clientId)))
+    .run();
+}
+
+/**
+ * Whether the OAuth session (token family) still has a current token
+ */
+export async function isRefreshTokenFamilyLive(env: Env, familyId: string, now: number): Promise<boolean> {
+  const db = getDb(env);
+  const row = await db
+    .select({ id: refresh_token_store.id })
+    .from(refresh_token_store)
+    .where(and(eq(refresh_token_store.familyId, familyId), isNull(refresh_token_store.nextId), gt(refresh_token_store.expiresAt, now)))
+    .get();
+  return !!row;
+}
+
+/**
+ * The account's live OAuth sessions: the current (not yet rotated) token of each family
+ */
+export async function listOAuthSessions(env: Env, did: string, now: number): Promise<RefreshTokenRow[]> {
+  const db = getDb(env);
+  return db
+    .select()
+    .from(refresh_token_store)
+    .where(and(
+      eq(refresh_token_store.did, did),
+      isNotNull(refresh_token_store.clientId),
+      isNull(refresh_token_store.nextId),
+      gt(refresh_token_store.expiresAt, now),
+    ))
+    .all();
+}
+
+/**
+ * End every session of the account: refresh tokens and OAuth sign-in (device) sessions
+ */
+export async function deleteRefreshTokensForDid(env: Env, did: string): Promise<void> {
+  const db = getDb(env);
+  await db.delete(refresh_token_store).where(eq(refresh_token_store.did, did)).run();
+  await db.delete(oauth_device_session).where(eq(oauth_device_session.did, did)).run();
+}
+
 export async function cleanupExpiredRefreshTokens(env: Env, now: number): Promise<number> {
   const db = getDb(env);
   const res = await db.delete(refresh_token_store).where(lt(refresh_token_store.expiresAt, now)).run();
   return res.meta.changes ?? 0;
 }
 
+export async function createAppPassword(env: Env, data: {
+  did: string;
+  name: string;
+  passwordScrypt: string;
+  privileged: boolean;
+}): Promise<AppPasswordRow | null> {
+  const db = getDb(env);
+  const row = await db
+    .insert(app_password)
+    .values({ ...data, createdAt: NOW() })
+    .onConflictDoNothing()
+    .returning()
+    .get();
+  return row ?? null;
+}
+
+export async function listAppPasswords(env: Env, did: string): Promise<AppPasswordRow[]> {
+  const db = getDb(env);
+  return db.select().from(app_password).where(eq(app_password.did, did)).orderBy(app_password.createdAt).all();
+}
+
+export async function getAppPassword(env: Env, did: string, name: string): Promise<AppPasswordRow | null> {
+  const db = getDb(env);
+  const row = await db
+    .select()
+    .from(app_password)
+    .where(and(eq(app_password.did, did), eq(app_password.name, name)))
+    .get();
+  return row ?? null;
+}
+
+/**
+ * Delete an app password and every refresh token issued from it
+ */
+export async function revokeAppPassword(env: Env, did: string, name: string): Promise<void> {
+  const db = getDb(env);
+  await db.delete(app_password).where(and(eq(app_password.did, did), eq(app_password.name, name))).run();
+  await db
+    .delete(refresh_token_store)
+    .where(and(eq(refresh_token_store.did, did), eq(refresh_token_store.appPasswordName, name)))
+    .run();
+}
+
+/**
+ * Store a fresh one-time token for `purpose`, replacing any outstanding one
+ */
+export async function createEmailToken(env: Env, did: string, purpose: EmailTokenPurpose, token: string): Promise<void> {
+  const db = getDb(env);
+  await db
+    .insert(email_token)
+    .values({ purpose, did, token, requestedAt: NOW() })
+    .onConflictDoUpdate({
+      target: [email_token.purpose, email_token.did],
+      set: { token, requestedAt: NOW() },
+    });
+}
+
+/**
+ * Find whose outstanding token this is, for flows where the caller has no session
+ */
+export async function getEmailTokenOwner(env: Env, purpose: EmailTokenPurpose, token: string): Promise<string | null> {
+  const db = getDb(env);
+  const row = await db
+    .select({ did: email_token.did })
+    .from(email_token)
+    .where(and(eq(email_token.purpose, purpose), eq(email_token.token, token.trim().toUpperCase())))
+    .get();
+  return row?.did ?? null;
+}
+
+/**
+ * Check a one-time token; a matching token is used up even when it has expired
+ */
+export async function consumeEmailToken(
+  env: Env,
+  did: string,
+  purpose: EmailTokenPurpose,
+  token: string,
+  maxAgeMs: number,
+): Promise<'ok' | 'invalid' | 'expired'> {
+  const db = getDb(env);
+  const row = await db
+    .select()
+    .from(email_token)
+    .where(and(eq(email_token.purpose, purpose), eq(email_token.did, did)))
+    .get();
+  if (!row || row.token !== token.trim().toUpperCase()) return 'invalid';
+  await db.delete(email_token).where(and(eq(email_token.purpose, purpose), eq(email_token.did, did))).run();
+  return NOW() - row.requestedAt <= maxAgeMs ? 'ok' : 'expired';
+}
+
+/**
+ * Drop tokens requested before `before` (epoch ms); they can no longer be redeemed
+ */
+export async function cleanupExpiredEmailTokens(env: Env, before: number): Promise<number> {
+  const db = getDb(env);
+  const res = await db.delete(email_token).where(lt(email_token.requestedAt, before)).run();
+  return res.meta.changes ?? 0;
+}
+
+/**
+ * Remove the account row with its sessions, app passwords, outstanding tokens and OAuth grants
+ */
+export async function deleteAccount(env: Env, did: string): Promise<void> {
+  const db = getDb(env);
+  await db.delete(refresh_token_store).where(eq(refresh_token_store.did, did)).run();
+  await db.delete(app_password).where(eq(app_password.did, did)).run();
+  await db.delete(email_token).where(eq(email_token.did, did)).run();
+  await db.delete(oauth_device_session).where(eq(oauth_device_session.did, did)).run();
+  await db.delete(oauth_grant).where(eq(oauth_grant.did, did)).run();
+  await db.delete(account).where(eq(account.did, did)).run();
+}
+
 export async function getSecret(env: Env, key: string): Promise<string | null> {
   const db = getDb(env);
   const row = await db.select().from(secret).where(eq(secret.key, key)).get();
@@ -142,10 +368,16 @@ export async function setSecret(env: Env, key: string, value: string): Promise<v
     });
 }
 
+/**
+ * Read a secret, creating it on first use. Concurrent first callers may each
+ * run the factory, but only the first insert is kept and every caller returns
+ * that stored value.
+ */
 export async function getOrCreateSecret(env: Env, key: string, factory: () => Promise<string>): Promise<string> {
   const existing = await getSecret(env, key);
   if (existing) return existing;
   const value = await factory();
-  await setSecret(env, key, value);
-  return value;
+  const db = getDb(env);
+  await db.insert(secret).values({ key, value, updatedAt: NOW() }).onConflictDoNothing({ target: secret.key });
+  return (await getSecret(env, key)) ?? value;
 }
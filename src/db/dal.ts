@@ -1,7 +1,8 @@
 import { getDb } from './client';
-import { record, type NewRecordRow, blob_ref, blob_usage, blob_quota } from './schema';
+import { record, type NewRecordRow, blob_ref, blob_usage, blob_quota, maintenance_job, identity_cache } from './schema';
 import type { Env } from '../env';
-import { eq, inArray, and, sql } from 'drizzle-orm';
+import { eq, inArray, and, lt, lte, sql } from 'drizzle-orm';
+import { recordBlobKeys } from '../lib/blob-refs';
 
 export async function putRecord(env: Env, row: NewRecordRow) {
   const db = getDb(env);
@@ -16,6 +17,7 @@ export async function putRecord(env: Env, row: NewRecordRow) {
       json: sql.raw(`excluded.${record.json.name}`)
     }
   });
+  await setRecordBlobUsage(env, row.uri, recordBlobKeys(row.json));
 }
 
 export async function getRecord(env: Env, uri: string) {
@@ -27,6 +29,7 @@ export async function getRecord(env: Env, uri: string) {
 export async function deleteRecord(env: Env, uri: string) {
   const db = getDb(env);
   await db.delete(record).where(eq(record.uri, uri)).run();
+  await db.delete(blob_usage).where(eq(blob_usage.recordUri, uri)).run();
 }
 
 export async function listRecords(env: Env) {
@@ -44,34 +47,49 @@ export async function putBlobRef(env: Env, did: string, cid: string, key: string
   const db = getDb(env);
   await db
     .insert(blob_ref)
-    .values({ did, cid, key, mime, size })
+    .values({ did, cid, key, mime, size, createdAt: Date.now() })
     .onConflictDoUpdate({
-      target: blob_ref.cid,
+      target: [blob_ref.did, blob_ref.cid],
       set: {
-        did: sql.raw(`excluded.${blob_ref.did.name}`),
         key: sql.raw(`excluded.${blob_ref.key.name}`),
         mime: sql.raw(`excluded.${blob_ref.mime.name}`),
-        size: sql.raw(`excluded.${blob_ref.size.name}`)
+        size: sql.raw(`excluded.${blob_ref.size.name}`),
+        createdAt: sql.raw(`excluded.${blob_ref.createdAt.name}`)
       }
     });
 }
 
 export async function setRecordBlobUsage(env: Env, uri: string, keys: string[]) {
-  const db = getDb(env);
-  // remove existing usage for this record
-  await db.delete(blob_usage).where(eq(blob_usage.recordUri, uri)).run();
-  // insert new usage
-  for (const key of keys) {
-    await db.insert(blob_usage).values({ recordUri: uri, key }).run();
-  }
+  await env.DB.batch(blobUsageStatements(env, uri, keys));
 }
 
-export async function listOrphanBlobKeys(env: Env): Promise<string[]> {
-  const db = getDb(env);
-  // select keys in blob that are not referenced in blob_usage
-  const all = await db.select().from(blob_ref).all();
-  const used = new Set((await db.select().from(blob_usage).all()).map((u) => u.key));
-  return all.map((b) => b.key).filter((k) => !used.has(k));
+/**
+ * Statements replacing a record's blob usage, for callers that batch their own writes
+ */
+export function blobUsageStatements(env: Env, uri: string, keys: string[]) {
+  return [
+    env.DB.prepare('DELETE FROM blob_usage WHERE record_uri = ?').bind(uri),
+    ...[...new Set(keys)].map((key) =>
+      env.DB.prepare('INSERT OR IGNORE INTO blob_usage (record_uri, key) VALUES (?, ?)').bind(uri, key),
+    ),
+  ];
+}
+
+/**
+ * Keys of blobs no record references, in key order, that were uploaded
+ * before `uploadedBefore`
+ */
+export async function listOrphanBlobKeys(
+  env: Env,
+  opts: { uploadedBefore: number; after?: string | null; limit?: number },
+): Promise<string[]> {
+  const res = await env.DB.prepare(
+    `SELECT DISTINCT key FROM blob
+     WHERE key > ? AND created_at < ?
+       AND NOT EXISTS (SELECT 1 FROM blob_usage WHERE blob_usage.key = blob.key)
+     ORDER BY key LIMIT ?`
+  ).bind(opts.after ?? '', opts.uploadedBefore, opts.limit ?? 100).all<{ key: string }>();
+  return (res.results ?? []).map((row) => row.key);
 }
 
 export async function deleteBlobByKey(env: Env, key: string) {
@@ -145,8 +163,117 @@ export async function setAccountActive(env: Env, did: string, active: boolean) {
     .run();
 }
 
+export type AccountStatus = 'deactivated' | 'takendown' | 'deleted';
+
+/**
+ * Set the account's lifecycle status; `null` reactivates it
+ */
+export async function setAccountStatus(
+  env: Env,
+  did: string,
+  status: AccountStatus | null,
+  opts: { deleteAfter?: number | null } = {},
+) {
+  const db = getDb(env);
+  const { account_state } = await import('./schema');
+  const values = { active: status === null, status, delete_after: opts.deleteAfter ?? null };
+  await db.insert(account_state)
+    .values({ did, ...values, created_at: Date.now() })
+    .onConflictDoUpdate({ target: account_state.did, set: values })
+    .run();
+}
+
+/**
+ * Deactivated accounts whose deleteAfter has passed, oldest deadline first
+ */
+export async function listAccountsDueForDeletion(env: Env, now: number, limit = 50): Promise<string[]> {
+  const db = getDb(env);
+  const { account_state } = await import('./schema');
+  const rows = await db
+    .select({ did: account_state.did })
+    .from(account_state)
+    .where(and(eq(account_state.status, 'deactivated'), lte(account_state.delete_after, now)))
+    .orderBy(account_state.delete_after)
+    .limit(limit)
+    .all();
+  return rows.map((row) => row.did);
+}
+
+/**
+ * Drop every repo row for `did` (records, blocks, commits, blob refs).
+ * Returns the R2 keys of its blobs that no other account uploaded, so the
+ * caller can delete those objects.
+ */
+export async function deleteRepoData(env: Env, did: string): Promise<string[]> {
+  const db = getDb(env);
+  const { repo_root, commit_log, blockstore, repo_import } = await import('./schema');
+  // R2 objects are keyed by content, so another account's upload of the same bytes shares one
+  const res = await env.DB.prepare(
+    `SELECT DISTINCT key FROM blob AS mine
+     WHERE did = ? AND NOT EXISTS (SELECT 1 FROM blob AS other WHERE other.key = mine.key AND other.did != mine.did)`
+  ).bind(did).all<{ key: string }>();
+  const blobs = res.results ?? [];
+  const uris = db.select({ uri: record.uri }).from(record).where(eq(record.did, did));
+  await db.delete(blob_usage).where(inArray(blob_usage.recordUri, uris)).run();
+  await db.delete(record).where(eq(record.did, did)).run();
+  await db.delete(blob_ref).where(eq(blob_ref.did, did)).run();
+  await db.delete(blob_quota).where(eq(blob_quota.did, did)).run();
+  await db.delete(repo_import).where(eq(repo_import.did, did)).run();
+  await db.delete(repo_root).where(eq(repo_root.did, did)).run();
+  await db.delete(commit_log).where(sql`json_extract(${commit_log.data}, '$.did') = ${did}`).run();
+  // Blocks are content-addressed and may be shared with other hosted repos; once
+  // none remain the blockstore is cleared, otherwise the blockstore GC reclaims them
+  const remaining = await db.select({ did: repo_root.did }).from(repo_root).limit(1).get();
+  if (!remaining) await db.delete(blockstore).run();
+  return blobs.map((b) => b.key);
+}
+
 export async function isAccountActive(env: Env, did: string): Promise<boolean> {
   const state = await getAccountState(env, did);
   // If no account state exists, assume active (backward compatibility)
   return state?.active ?? true;
 }
+
+// Scheduled maintenance job state
+export type MaintenanceJobRow = typeof maintenance_job.$inferSelect;
+
+export async function listMaintenanceJobStates(env: Env): Promise<MaintenanceJobRow[]> {
+  const db = getDb(env);
+  return db.select().from(maintenance_job).all();
+}
+
+export async function saveMaintenanceJobState(env: Env, state: Omit<MaintenanceJobRow, 'updatedAt'>) {
+  const db = getDb(env);
+  const values = { ...state, updatedAt: Date.now() };
+  await db.insert(maintenance_job)
+    .values(values)
+    .onConflictDoUpdate({ target: maintenance_job.name, set: values })
+    .run();
+}
+
+// Shared tier of the lookup caches (see src/lib/lookup-cache.ts)
+export type IdentityCacheRow = typeof identity_cache.$inferSelect;
+
+export async function getIdentityCacheEntry(env: Env, key: string): Promise<IdentityCacheRow | null> {
+  const db = getDb(env);
+  return (await db.select().from(identity_cache).where(eq(identity_cache.key, key)).get()) ?? null;
+}
+
+export async function putIdentityCacheEntry(env: Env, row: IdentityCacheRow) {
+  const db = getDb(env);
+  await db.insert(identity_cache)
+    .values(row)
+    .onConflictDoUpdate({ target: identity_cache.key, set: row })
+    .run();
+}
+
+export async function deleteIdentityCacheEntry(env: Env, key: string) {
+  const db = getDb(env);
+  await db.delete(identity_cache).where(eq(identity_cache.key, key)).run();
+}
+
+export async function pruneIdentityCache(env: Env, before: number): Promise<number> {
+  const db = getDb(env);
+  const res = await db.delete(identity_cache).where(lt(identity_cache.updatedAt, before)).run();
+  return res.meta.changes ?? 0;
+}
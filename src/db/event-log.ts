@@ -0,0 +1,80 @@
+import type { Env } from '../env';
+import { drizzle } from 'drizzle-orm/d1';
+import { and, desc, eq, gt, inArray, lt } from 'drizzle-orm';
+import { event_log } from './schema';
+
+export type EventType = 'commit' | 'identity' | 'account' | 'sync';
+export type EventLogRow = typeof event_log.$inferSelect;
+
+/**
+ * Append an event with an explicit seq (the Sequencer is the only writer and
+ * hands out seqs itself).
+ */
+export async function appendEvent(env: Env, row: {
+  seq: number;
+  type: EventType;
+  did: string;
+  commitCid?: string | null;
+  rev?: string | null;
+  payload: unknown;
+  ts: number;
+}): Promise<void> {
+  const db = drizzle(env.DB);
+  await db
+    .insert(event_log)
+    .values({
+      seq: row.seq,
+      type: row.type,
+      did: row.did,
+      commitCid: row.commitCid ?? null,
+      rev: row.rev ?? null,
+      payload: JSON.stringify(row.payload ?? {}),
+      ts: row.ts,
+    })
+    .run();
+}
+
+export async function getEventsAfter(env: Env, cursor: number, limit: number): Promise<EventLogRow[]> {
+  const db = drizzle(env.DB);
+  return db.select().from(event_log).where(gt(event_log.seq, cursor)).orderBy(event_log.seq).limit(limit).all();
+}
+
+export async function getLatestEventSeq(env: Env): Promise<number | null> {
+  const db = drizzle(env.DB);
+  const row = await db.select({ seq: event_log.seq }).from(event_log).orderBy(desc(event_log.seq)).limit(1).get();
+  return row?.seq ?? null;
+}
+
+/**
+ * Oldest retained seq; anything before it has been pruned
+ */
+export async function getOldestEventSeq(env: Env): Promise<number | null> {
+  const db = drizzle(env.DB);
+  const row = await db.select({ seq: event_log.seq }).from(event_log).orderBy(event_log.seq).limit(1).get();
+  return row?.seq ?? null;
+}
+
+export async function getCommitEvent(env: Env, commitCid: string): Promise<EventLogRow | undefined> {
+  const db = drizzle(env.DB);
+  return db
+    .select()
+    .from(event_log)
+    .where(and(eq(event_log.type, 'commit'), eq(event_log.commitCid, commitCid)))
+    .limit(1)
+    .get();
+}
+
+/**
+ * The repo event (commit or sync) that precedes `seq` for a DID — used for a
+ * commit's `since` and `prevData`.
+ */
+export async function getPreviousRepoEvent(env: Env, did: string, seq: number): Promise<EventLogRow | undefined> {
+  const db = drizzle(env.DB);
+  return db
+    .select()
+    .from(event_log)
+    .where(and(eq(event_log.did, did), inArray(event_log.type, ['commit', 'sync']), lt(event_log.seq, seq)))
+    .orderBy(desc(event_log.seq))
+    .limit(1)
+    .get();
+}
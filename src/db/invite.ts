@@ -0,0 +1,124 @@
+import { and, asc, eq, inArray, sql } from 'drizzle-orm';
+import { getDb } from './client';
+import { invite_code, invite_code_use, invite_disabled_account } from './schema';
+import type { Env } from '../env';
+
+export type InviteCodeRow = typeof invite_code.$inferSelect;
+export type InviteCodeUseRow = typeof invite_code_use.$inferSelect;
+
+export async function createInviteCode(env: Env, data: {
+  code: string;
+  availableUses: number;
+  forAccount: string;
+  createdBy: string;
+}): Promise<void> {
+  await createInviteCodes(env, [data]);
+}
+
+export async function createInviteCodes(env: Env, codes: Array<{
+  code: string;
+  availableUses: number;
+  forAccount: string;
+  createdBy: string;
+}>): Promise<void> {
+  if (codes.length === 0) return;
+  const db = getDb(env);
+  const now = Date.now();
+  await db
+    .insert(invite_code)
+    .values(codes.map((data) => ({ ...data, disabled: false, createdAt: now })))
+    .run();
+}
+
+/**
+ * Codes issued to an account, oldest first
+ */
+export async function listInviteCodesForAccount(env: Env, did: string): Promise<InviteCodeRow[]> {
+  const db = getDb(env);
+  return db.select().from(invite_code).where(eq(invite_code.forAccount, did)).orderBy(asc(invite_code.createdAt)).all();
+}
+
+/**
+ * Number of codes an account has minted from its own allowance
+ */
+export async function countInviteCodesCreatedBy(env: Env, did: string): Promise<number> {
+  const db = getDb(env);
+  const row = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(invite_code)
+    .where(and(eq(invite_code.forAccount, did), eq(invite_code.createdBy, did)))
+    .get();
+  return row?.count ?? 0;
+}
+
+export async function getInviteCodeUses(env: Env, codes: string[]): Promise<InviteCodeUseRow[]> {
+  if (codes.length === 0) return [];
+  const db = getDb(env);
+  return db.select().from(invite_code_use).where(inArray(invite_code_use.code, codes)).orderBy(asc(invite_code_use.usedAt)).all();
+}
+
+export async function getInviteCode(env: Env, code: string): Promise<InviteCodeRow | null> {
+  const db = getDb(env);
+  const row = await db.select().from(invite_code).where(eq(invite_code.code, code)).get();
+  return row ?? null;
+}
+
+/**
+ * Record `usedBy` redeeming `code`. The use is only inserted while the code is
+ * enabled and has uses left, so concurrent signups cannot overdraw it.
+ * Returns false when the code is unknown, disabled or used up.
+ */
+export async function redeemInviteCode(env: Env, code: string, usedBy: string): Promise<boolean> {
+  const db = getDb(env);
+  const res = await db.run(sql`
+    INSERT INTO ${invite_code_use} (code, used_by, used_at)
+    SELECT ${invite_code.code}, ${usedBy}, ${Date.now()} FROM ${invite_code}
+    WHERE ${invite_code.code} = ${code}
+      AND ${invite_code.disabled} = 0
+      AND ${invite_code.availableUses} > (SELECT count(*) FROM ${invite_code_use} WHERE ${invite_code_use.code} = ${code})
+  `);
+  return (res.meta.changes ?? 0) > 0;
+}
+
+/**
+ * Hand a use recorded under a placeholder (see reserveInviteUse) to the account
+ * that ended up redeeming it
+ */
+export async function reassignInviteCodeUse(env: Env, code: string, from: string, to: string): Promise<void> {
+  const db = getDb(env);
+  await db
+    .update(invite_code_use)
+    .set({ usedBy: to })
+    .where(and(eq(invite_code_use.code, code), eq(invite_code_use.usedBy, from)))
+    .run();
+}
+
+/**
+ * Give a use back, e.g. when the signup that redeemed it failed
+ */
+export async function releaseInviteCodeUse(env: Env, code: string, usedBy: string): Promise<void> {
+  const db = getDb(env);
+  await db
+    .delete(invite_code_use)
+    .where(and(eq(invite_code_use.code, code), eq(invite_code_use.usedBy, usedBy)))
+    .run();
+}
+
+export async function areInvitesDisabled(env: Env, did: string): Promise<boolean> {
+  const db = getDb(env);
+  const row = await db.select().from(invite_disabled_account).where(eq(invite_disabled_account.did, did)).get();
+  return !!row;
+}
+
+/**
+ * Stop the account minting codes and disable the codes already issued to it
+ */
+export async function disableInvitesForAccount(env: Env, did: string, note: string | null): Promise<void> {
+  const db = getDb(env);
+  await db.update(invite_code).set({ disabled: true }).where(eq(invite_code.forAccount, did)).run();
+  await db
+    .insert(invite_disabled_account)
+    .values({ did, note, disabledAt: Date.now() })
+    .onConflictDoUpdate({ target: invite_disabled_account.did, set: { note } })
+    .run();
+}
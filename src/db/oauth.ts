@@ -0,0 +1,70 @@
+import { and, asc, eq, lt } from 'drizzle-orm';
+import { getDb } from './client';
+import { oauth_device_session, oauth_grant } from './schema';
+import type { Env } from '../env';
+
+export type DeviceSessionRow = typeof oauth_device_session.$inferSelect;
+export type OAuthGrantRow = typeof oauth_grant.$inferSelect;
+
+export async function createDeviceSession(env: Env, data: {
+  id: string;
+  did: string;
+  userAgent: string | null;
+  expiresAt: number;
+}): Promise<void> {
+  const db = getDb(env);
+  await db.insert(oauth_device_session).values({ ...data, createdAt: Date.now() }).run();
+}
+
+export async function getDeviceSession(env: Env, id: string): Promise<DeviceSessionRow | null> {
+  const db = getDb(env);
+  const row = await db.select().from(oauth_device_session).where(eq(oauth_device_session.id, id)).get();
+  return row ?? null;
+}
+
+export async function deleteDeviceSession(env: Env, id: string): Promise<void> {
+  const db = getDb(env);
+  await db.delete(oauth_device_session).where(eq(oauth_device_session.id, id)).run();
+}
+
+/**
+ * Drop device sessions that expired before `now` (epoch ms)
+ */
+export async function cleanupExpiredDeviceSessions(env: Env, now: number): Promise<number> {
+  const db = getDb(env);
+  const res = await db.delete(oauth_device_session).where(lt(oauth_device_session.expiresAt, now)).run();
+  return res.meta.changes ?? 0;
+}
+
+export async function getOAuthGrant(env: Env, did: string, clientId: string): Promise<OAuthGrantRow | null> {
+  const db = getDb(env);
+  const row = await db
+    .select()
+    .from(oauth_grant)
+    .where(and(eq(oauth_grant.did, did), eq(oauth_grant.clientId, clientId)))
+    .get();
+  return row ?? null;
+}
+
+/**
+ * Clients the account has authorized, oldest first
+ */
+export async function listOAuthGrants(env: Env, did: string): Promise<OAuthGrantRow[]> {
+  const db = getDb(env);
+  return db.select().from(oauth_grant).where(eq(oauth_grant.did, did)).orderBy(asc(oauth_grant.createdAt)).all();
+}
+
+export async function putOAuthGrant(env: Env, data: { did: string; clientId: string; scope: string }): Promise<void> {
+  const db = getDb(env);
+  const now = Date.now();
+  await db
+    .insert(oauth_grant)
+    .values({ ...data, createdAt: now, updatedAt: now })
+    .onConflictDoUpdate({ target: [oauth_grant.did, oauth_grant.clientId], set: { scope: data.scope, updatedAt: now } })
+    .run();
+}
+
+export async function deleteOAuthGrant(env: Env, did: string, clientId: string): Promise<void> {
+  const db = getDb(env);
+  await db.delete(oauth_grant).where(and(eq(oauth_grant.did, did), eq(oauth_grant.clientId, clientId))).run();
+}
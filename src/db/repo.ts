@@ -5,21 +5,27 @@ import { repo_root, commit_log } from './schema';
 import { RepoManager } from '../services/repo-manager';
 import { createCommit, signCommit, commitCid, generateTid, serializeCommit } from '../lib/commit';
 import { CID } from 'multiformats/cid';
-import { resolveSecret } from '../lib/secrets';
+import { getPrimaryDid } from '../lib/accounts';
+import { getRepoSigningKey } from '../lib/signing-key';
 import { encodeBlocksForCommit } from '../services/car';
 
-export async function getRoot(env: Env) {
+/**
+ * Head of a hosted repo (default: the operator account's)
+ */
+export async function getRoot(env: Env, did?: string) {
   const db = drizzle(env.DB);
-  const did = (await resolveSecret(env.PDS_DID)) ?? 'did:example:single-user';
-  return db.select().from(repo_root).where(eq(repo_root.did, did)).get();
+  const repoDid = did ?? (await getPrimaryDid(env));
+  return db.select().from(repo_root).where(eq(repo_root.did, repoDid)).get();
 }
 
 /**
- * Bump the repository root to a new revision with signed commit
+ * Bump the repository root to a new revision with signed commit.
+ * `opts.did` picks the repo; it defaults to the operator account's.
  */
 export async function bumpRoot(env: Env, prevMstRoot?: CID, currentMstRoot?: CID, opts?: {
   ops?: import('../lib/firehose/frames').RepoOp[];
   newMstBlocks?: Array<[CID, Uint8Array]>;
+  did?: string;
 }): Promise<{
   commitCid: string;
   rev: string;
@@ -30,17 +36,17 @@ export async function bumpRoot(env: Env, prevMstRoot?: CID, currentMstRoot?: CID
   blocks: string; // base64-encoded CAR
 }> {
   const db = drizzle(env.DB);
-  const did = (await resolveSecret(env.PDS_DID)) ?? 'did:example:single-user';
+  const did = opts?.did ?? (await getPrimaryDid(env));
 
   // Resolve signing key (use ephemeral dev key if not configured and not production)
-  const signingKey = await getSigningKey(env);
+  const signingKey = await getSigningKey(env, did);
 
   // Get current repo state
   const row = await db.select().from(repo_root).where(eq(repo_root.did, did)).get();
   const prevCommitCid = row?.commitCid ? CID.parse(row.commitCid) : null;
 
   // Get the current MST root (prefer caller-provided pointer if available)
-  const repoManager = new RepoManager(env);
+  const repoManager = new RepoManager(env, did);
   const mstRootCid = currentMstRoot
     ? currentMstRoot
     : await (async () => {
@@ -129,9 +135,9 @@ export async function appendCommit(env: Env, cid: string, rev: string, data: str
 // Cache for dev-mode ephemeral signing key (hex string)
 let cachedDevSigningKey: string | undefined;
 
-async function getSigningKey(env: Env): Promise<string> {
-  const configured = await resolveSecret((env as any).REPO_SIGNING_KEY);
-  if (configured && configured.trim() !== '') return configured.trim();
+async function getSigningKey(env: Env, did: string): Promise<string> {
+  const configured = await getRepoSigningKey(env, did);
+  if (configured) return configured;
 
   const envName = (env as any).ENVIRONMENT || 'development';
   if (envName !== 'production') {
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, index, primaryKey, uniqueIndex } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, blob, index, primaryKey, uniqueIndex } from 'drizzle-orm/sqlite-core';
 
 export const secret = sqliteTable('secret', {
   key: text('key').primaryKey().notNull(),
@@ -11,6 +11,7 @@ export const account = sqliteTable('account', {
   handle: text('handle').notNull(),
   passwordScrypt: text('password_scrypt'),
   email: text('email'),
+  emailConfirmedAt: integer('email_confirmed_at', { mode: 'number' }),
   createdAt: integer('created_at', { mode: 'number' }).notNull(),
   updatedAt: integer('updated_at', { mode: 'number' }).notNull(),
 }, (table) => ({
@@ -22,9 +23,38 @@ export const refresh_token_store = sqliteTable('refresh_token', {
   did: text('did').notNull(),
   expiresAt: integer('expires_at', { mode: 'number' }).notNull(),
   appPasswordName: text('app_password_name'),
+  // OAuth scope the session was granted; null for password and app-password sessions
+  scope: text('scope'),
   nextId: text('next_id'),
+  // OAuth sessions only: the client and DPoP key the token was issued to, and the
+  // id of the first token of the session, shared by every token rotated from it
+  clientId: text('client_id'),
+  dpopJkt: text('dpop_jkt'),
+  familyId: text('family_id'),
 }, (table) => ({
   didIdx: index('refresh_token_did_idx').on(table.did),
+  familyIdx: index('refresh_token_family_idx').on(table.familyId),
+}));
+
+export const app_password = sqliteTable('app_password', {
+  did: text('did').notNull(),
+  name: text('name').notNull(),
+  passwordScrypt: text('password_scrypt').notNull(),
+  privileged: integer('privileged', { mode: 'boolean' }).notNull().default(false),
+  createdAt: integer('created_at', { mode: 'number' }).notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.did, table.name] }),
+}));
+
+// One-time tokens sent to the account owner (account deletion, email and PLC flows).
+// At most one outstanding token per purpose; requesting again replaces it.
+export const email_token = sqliteTable('email_token', {
+  purpose: text('purpose').notNull(),
+  did: text('did').notNull(),
+  token: text('token').notNull(),
+  requestedAt: integer('requested_at', { mode: 'number' }).notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.purpose, table.did] }),
 }));
 
 export const repo_root = sqliteTable('repo_root', {
@@ -46,14 +76,22 @@ export const record = sqliteTable('record', {
   cidIdx: index('record_cid_idx').on(table.cid),
 }));
 
+// One row per account that uploaded a blob; accounts uploading the same bytes share the R2 object (`key`)
 export const blob_ref = sqliteTable('blob', {
-  cid: text('cid').primaryKey().notNull(),
+  cid: text('cid').notNull(),
   did: text('did').notNull(),
   key: text('key').notNull(),
   mime: text('mime').notNull(),
   size: integer('size').notNull(),
-});
+  // Upload time; blob GC leaves blobs alone until their record has had time to reference them
+  createdAt: integer('created_at', { mode: 'number' }).notNull().default(0),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.did, table.cid] }),
+  // Index for finding the other rows that share an R2 object
+  keyIdx: index('blob_key_idx').on(table.key),
+}));
 
+// The R2 keys each record's blobs are stored under, kept by putRecord/deleteRecord
 export const blob_usage = sqliteTable('blob_usage', {
   recordUri: text('record_uri').notNull(),
   key: text('key').notNull(),
@@ -62,6 +100,8 @@ export const blob_usage = sqliteTable('blob_usage', {
   pk: primaryKey({ columns: [table.recordUri, table.key] }),
   // Index for GC queries (finding blobs by record)
   recordUriIdx: index('blob_usage_record_uri_idx').on(table.recordUri),
+  // Index for GC queries (is a blob referenced at all)
+  keyIdx: index('blob_usage_key_idx').on(table.key),
 }));
 
 // Commit log stores full commit history for firehose and sync
@@ -80,14 +120,44 @@ export const commit_log = sqliteTable('commit_log', {
   seqIdx: index('commit_log_seq_idx').on(table.seq),
 }));
 
+// Firehose event log: every event the Sequencer emits (#commit, #identity, #account, #sync)
+// shares one seq space, so a subscriber replaying from a cursor sees all types in order.
+// Payload is type-specific JSON (commit: data/sig/ops/blocks; identity: handle; account: active/status; sync: blocks).
+export const event_log = sqliteTable('event_log', {
+  seq: integer('seq').primaryKey(),
+  type: text('type').notNull(), // 'commit' | 'identity' | 'account' | 'sync'
+  did: text('did').notNull(),
+  commitCid: text('commit_cid'), // commit and sync events
+  rev: text('rev'), // commit and sync events
+  payload: text('payload').notNull(),
+  ts: integer('ts').notNull(),
+}, (table) => ({
+  didIdx: index('event_log_did_idx').on(table.did),
+  commitCidIdx: index('event_log_commit_cid_idx').on(table.commitCid),
+}));
+
 // Blockstore stores MST nodes (Merkle Search Tree blocks)
 // Each MST node is stored as a CBOR-encoded block identified by its CID
 // GC policy: Remove blocks not referenced by recent commits (keep blocks from last N commits)
+// Blocks are written to `data` (BLOB); `bytes` holds base64 TEXT from before the
+// switch until the blockstore-binary-migration job converts the row
 export const blockstore = sqliteTable('blockstore', {
   cid: text('cid').primaryKey(),
   bytes: text('bytes'),
+  data: blob('data', { mode: 'buffer' }),
+  // Last write (epoch ms); the blockstore GC only removes blocks written before its cycle began
+  storedAt: integer('stored_at', { mode: 'number' }).notNull().default(0),
 });
 
+// Blocks the current blockstore GC cycle has found reachable (see src/lib/blockstore-gc.ts);
+// `walked` is set once a node's children have been marked too
+export const blockstore_gc_mark = sqliteTable('blockstore_gc_mark', {
+  cid: text('cid').primaryKey().notNull(),
+  walked: integer('walked', { mode: 'boolean' }).notNull().default(false),
+}, (table) => ({
+  walkedIdx: index('blockstore_gc_mark_walked_idx').on(table.walked),
+}));
+
 export const login_attempts = sqliteTable('login_attempts', {
   ip: text('ip').primaryKey().notNull(),
   attempts: integer('attempts').notNull().default(0),
@@ -107,8 +177,115 @@ export const blob_quota = sqliteTable('blob_quota', {
 export const account_state = sqliteTable('account_state', {
   did: text('did').primaryKey().notNull(),
   active: integer('active', { mode: 'boolean' }).notNull().default(false),
+  status: text('status'), // null when active; 'deactivated' | 'takendown' | 'deleted'
+  delete_after: integer('delete_after'), // epoch ms a deactivated account may be deleted after
   created_at: integer('created_at').notNull(),
 });
 
+// Progress of an in-flight com.atproto.repo.importRepo call.
+// The CAR is processed in chunks; a retried call with the same root resumes from here.
+export const repo_import = sqliteTable('repo_import', {
+  did: text('did').primaryKey().notNull(),
+  commitCid: text('commit_cid').notNull(),
+  rev: text('rev').notNull(),
+  status: text('status').notNull(), // 'blocks' | 'records' | 'complete'
+  blocksTotal: integer('blocks_total').notNull().default(0),
+  blocksDone: integer('blocks_done').notNull().default(0),
+  recordsCursor: text('records_cursor'), // last MST key written to the record table
+  recordsDone: integer('records_done').notNull().default(0),
+  startedAt: integer('started_at').notNull(),
+  updatedAt: integer('updated_at').notNull(),
+});
+
+// Scheduled maintenance job state (see src/lib/maintenance.ts).
+// A non-null cursor means the last run hit its time budget and resumes on the next invocation.
+export const maintenance_job = sqliteTable('maintenance_job', {
+  name: text('name').primaryKey().notNull(),
+  lastRunAt: integer('last_run_at'),
+  lastStatus: text('last_status'), // 'ok' | 'partial' | 'error'
+  lastError: text('last_error'),
+  lastResult: text('last_result'), // JSON summary returned by the job
+  lastDurationMs: integer('last_duration_ms'),
+  cursor: text('cursor'),
+  updatedAt: integer('updated_at').notNull(),
+});
+
+// Shared tier of the lookup caches: handle -> DID, DID -> document, OAuth client metadata
+// (see src/lib/lookup-cache.ts). A null value records a miss so unresolvable lookups are not
+// re-fetched on every request.
+export const identity_cache = sqliteTable('identity_cache', {
+  key: text('key').primaryKey().notNull(), // '<cache name>:<key>', e.g. 'handle:alice.example.com', 'doc:did:plc:…'
+  value: text('value'), // JSON; null when resolution found nothing
+  updatedAt: integer('updated_at').notNull(),
+});
+
+// Invite codes gating com.atproto.server.createAccount in multi-account mode.
+// forAccount is the account the code was issued to ('admin' for operator-issued codes).
+export const invite_code = sqliteTable('invite_code', {
+  code: text('code').primaryKey().notNull(),
+  availableUses: integer('available_uses').notNull(),
+  disabled: integer('disabled', { mode: 'boolean' }).notNull().default(false),
+  forAccount: text('for_account').notNull(),
+  createdBy: text('created_by').notNull(),
+  createdAt: integer('created_at').notNull(),
+}, (table) => ({
+  forAccountIdx: index('invite_code_for_account_idx').on(table.forAccount),
+}));
+
+export const invite_code_use = sqliteTable('invite_code_use', {
+  code: text('code').notNull(),
+  usedBy: text('used_by').notNull(),
+  usedAt: integer('used_at').notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.code, table.usedBy] }),
+}));
+
+// Accounts whose invites were disabled by com.atproto.admin.disableAccountInvites:
+// they mint no new codes and the codes issued to them stop working.
+export const invite_disabled_account = sqliteTable('invite_disabled_account', {
+  did: text('did').primaryKey().notNull(),
+  note: text('note'),
+  disabledAt: integer('disabled_at').notNull(),
+});
+
+// Moderation takedowns applied through com.atproto.admin.updateSubjectStatus.
+// subject is the DID for 'repo', the at:// URI for 'record' and the CID for 'blob';
+// did is the repo the subject belongs to. Records and blobs stay in the repo (history
+// is not rewritten) but are withheld from read and sync endpoints.
+export const takedown = sqliteTable('takedown', {
+  kind: text('kind').notNull(), // 'repo' | 'record' | 'blob'
+  subject: text('subject').notNull(),
+  did: text('did').notNull(),
+  ref: text('ref'), // moderation reference supplied by the admin
+  createdAt: integer('created_at').notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.kind, table.subject] }),
+  didIdx: index('takedown_did_idx').on(table.did),
+}));
+
+// Browser sign-ins on the OAuth authorization pages (/oauth/signin). The device
+// cookie carries a random token; only its SHA-256 is stored, as id.
+export const oauth_device_session = sqliteTable('oauth_device_session', {
+  id: text('id').primaryKey().notNull(),
+  did: text('did').notNull(),
+  userAgent: text('user_agent'),
+  createdAt: integer('created_at').notNull(),
+  expiresAt: integer('expires_at').notNull(),
+}, (table) => ({
+  didIdx: index('oauth_device_session_did_idx').on(table.did),
+}));
+
+// OAuth clients an account has authorized, with the scopes consented to so far.
+// A grant covering a request's scope skips the consent screen (and allows prompt=none).
+export const oauth_grant = sqliteTable('oauth_grant', {
+  did: text('did').notNull(),
+  clientId: text('client_id').notNull(),
+  scope: text('scope').notNull(),
+  createdAt: integer('created_at').notNull(),
+  updatedAt: integer('updated_at').notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.did, table.clientId] }),
+}));
+
 export type RecordRow = typeof record.$inferSelect;
 export type NewRecordRow = typeof record.$inferInsert;
@@ -0,0 +1,74 @@
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { getDb } from './client';
+import { account_state, record, takedown } from './schema';
+import type { Env } from '../env';
+
+export type TakedownKind = 'repo' | 'record' | 'blob';
+export type TakedownRow = typeof takedown.$inferSelect;
+
+export async function getTakedown(env: Env, kind: TakedownKind, subject: string): Promise<TakedownRow | null> {
+  const db = getDb(env);
+  const row = await db.select().from(takedown).where(and(eq(takedown.kind, kind), eq(takedown.subject, subject))).get();
+  return row ?? null;
+}
+
+export async function putTakedown(env: Env, data: { kind: TakedownKind; subject: string; did: string; ref: string | null }): Promise<void> {
+  const db = getDb(env);
+  await db
+    .insert(takedown)
+    .values({ ...data, createdAt: Date.now() })
+    .onConflictDoUpdate({ target: [takedown.kind, takedown.subject], set: { ref: data.ref } })
+    .run();
+}
+
+export async function deleteTakedown(env: Env, kind: TakedownKind, subject: string): Promise<void> {
+  const db = getDb(env);
+  await db.delete(takedown).where(and(eq(takedown.kind, kind), eq(takedown.subject, subject))).run();
+}
+
+export async function listTakedownSubjects(env: Env, kind: TakedownKind, did: string): Promise<string[]> {
+  const db = getDb(env);
+  const rows = await db
+    .select({ subject: takedown.subject })
+    .from(takedown)
+    .where(and(eq(takedown.kind, kind), eq(takedown.did, did)))
+    .all();
+  return rows.map((row) => row.subject);
+}
+
+/**
+ * Current record block CIDs of the repo's taken-down records
+ */
+export async function listTakendownRecordCids(env: Env, did: string): Promise<string[]> {
+  const db = getDb(env);
+  const rows = await db
+    .select({ cid: record.cid })
+    .from(takedown)
+    .innerJoin(record, eq(record.uri, takedown.subject))
+    .where(and(eq(takedown.kind, 'record'), eq(takedown.did, did)))
+    .all();
+  return rows.map((row) => row.cid);
+}
+
+/**
+ * Which of `cids` are record blocks of a taken-down record or of a record in a
+ * taken-down repo, in any repo (the blockstore is shared between accounts)
+ */
+export async function listWithheldRecordCids(env: Env, cids: string[]): Promise<string[]> {
+  const db = getDb(env);
+  const withheld = new Set<string>();
+  // D1 caps bound parameters per statement
+  for (let i = 0; i < cids.length; i += 90) {
+    const rows = await db
+      .select({ cid: record.cid })
+      .from(record)
+      .where(and(
+        inArray(record.cid, cids.slice(i, i + 90)),
+        sql`(EXISTS (SELECT 1 FROM ${takedown} WHERE ${takedown.kind} = 'record' AND ${takedown.subject} = ${record.uri})
+          OR EXISTS (SELECT 1 FROM ${account_state} WHERE ${account_state.did} = ${record.did} AND ${account_state.status} = 'takendown'))`,
+      ))
+      .all();
+    for (const row of rows) withheld.add(row.cid);
+  }
+  return [...withheld];
+}
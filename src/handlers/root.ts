@@ -1,4 +1,5 @@
 import type { APIContext } from 'astro';
+import { getAccountHandle } from '../lib/actor';
 
 const HTML_TEMPLATE = (
   handle: string,
@@ -96,7 +97,7 @@ const HTML_TEMPLATE = (
 
 export async function GET({ locals }: APIContext) {
   const { env } = locals.runtime ?? {};
-  const handle = String(env?.PDS_HANDLE ?? 'unknown.handle');
+  const handle = env ? await getAccountHandle(env) : 'unknown.handle';
   const did = String(env?.PDS_DID ?? 'did:plc:unknown');
 
   return new Response(HTML_TEMPLATE(handle, did), {
@@ -0,0 +1,183 @@
+import type { Env } from '../env';
+import { getOrCreateSecret, getSecret, setSecret } from '../db/account';
+import { calculateJwkThumbprint, exportJWK, generateKeyPair, importJWK, type JWK } from 'jose';
+
+/**
+ * Access token signing keys
+ *
+ * Access tokens are ES256 JWTs whose `kid` names a key in a ring kept in the
+ * `secret` table. The newest active key signs; every key in the ring verifies
+ * and is published at /oauth/jwks. A rotation adds a key that is published
+ * for KEY_PUBLISH_DELAY_SECONDS before it starts signing, so verifiers that
+ * cache the JWKS see it first, and the key it replaces stays in the ring until
+ * the last token it signed has expired.
+ */
+
+const KEY_RING_SECRET = 'access_token_keys';
+/** A new key is published this long before it signs */
+export const KEY_PUBLISH_DELAY_SECONDS = 60 * 60;
+/** The scheduled rotation replaces a signing key once it is this old */
+export const KEY_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+/** Keys are re-read from D1 at most this often per isolate, and when a token names an unknown kid */
+const RING_CACHE_MS = 60_000;
+
+export interface AccessTokenKey {
+  kid: string;
+  privateJwk: JWK;
+  publicJwk: JWK;
+  createdAt: number;
+  /** When the key starts signing (unix seconds) */
+  activatesAt: number;
+}
+
+interface KeyRing {
+  /** When the first key was created (unix seconds) */
+  createdAt: number;
+  keys: AccessTokenKey[];
+}
+
+const ringCache = new WeakMap<object, { ring: KeyRing; loadedAt: number }>();
+const importedKeys = new Map<string, CryptoKey>();
+
+async function createKey(now: number, activatesAt: number): Promise<AccessTokenKey> {
+  const { privateKey, publicKey } = await generateKeyPair('ES256', { extractable: true });
+  const publicJwk = await exportJWK(publicKey);
+  return {
+    kid: await calculateJwkThumbprint(publicJwk),
+    privateJwk: await exportJWK(privateKey),
+    publicJwk,
+    createdAt: now,
+    activatesAt,
+  };
+}
+
+function parseRing(raw: string | null): KeyRing | null {
+  if (!raw) return null;
+  try {
+    const ring = JSON.parse(raw);
+    return Array.isArray(ring?.keys) && ring.keys.length && typeof ring.createdAt === 'number' ? ring : null;
+  } catch {
+    return null;
+  }
+}
+
+async function saveRing(env: Env, ring: KeyRing): Promise<void> {
+  await setSecret(env, KEY_RING_SECRET, JSON.stringify(ring));
+  ringCache.set(env.DB, { ring, loadedAt: Date.now() });
+}
+
+async function getKeyRing(env: Env, opts: { fresh?: boolean } = {}): Promise<KeyRing> {
+  const cached = ringCache.get(env.DB);
+  if (cached && !opts.fresh && Date.now() - cached.loadedAt < RING_CACHE_MS) return cached.ring;
+
+  const raw = await getOrCreateSecret(env, KEY_RING_SECRET, async () => {
+    const now = Math.floor(Date.now() / 1000);
+    return JSON.stringify({ createdAt: now, keys: [await createKey(now, now)] });
+  });
+  const ring = parseRing(raw);
+  if (!ring) throw new Error('access token key ring is corrupt');
+  ringCache.set(env.DB, { ring, loadedAt: Date.now() });
+  return ring;
+}
+
+/**
+ * Every key in the ring, newest first; the first key is created on demand
+ */
+export async function getAccessTokenKeys(env: Env, opts: { fresh?: boolean } = {}): Promise<AccessTokenKey[]> {
+  return (await getKeyRing(env, opts)).keys;
+}
+
+/**
+ * The key new access tokens are signed with: the newest key that is active
+ */
+export async function getSigningKey(env: Env): Promise<{ kid: string; key: CryptoKey }> {
+  const now = Math.floor(Date.now() / 1000);
+  const keys = await getAccessTokenKeys(env);
+  const current = keys.find((k) => k.activatesAt <= now) ?? keys[keys.length - 1];
+  return { kid: current.kid, key: await importKey(current, 'private') };
+}
+
+/**
+ * The public key for `kid`, or null when it is not (or no longer) in the ring
+ */
+export async function getVerificationKey(env: Env, kid: string): Promise<CryptoKey | null> {
+  let entry = (await getAccessTokenKeys(env)).find((k) => k.kid === kid);
+  // Another isolate may have rotated since the ring was cached
+  if (!entry) entry = (await getAccessTokenKeys(env, { fresh: true })).find((k) => k.kid === kid);
+  return entry ? importKey(entry, 'public') : null;
+}
+
+/**
+ * When the ring's first key was created; access tokens issued earlier were
+ * HS256-signed with the session secret
+ */
+export async function getKeyRingCreatedAt(env: Env): Promise<number> {
+  return (await getKeyRing(env)).createdAt;
+}
+
+async function importKey(entry: AccessTokenKey, which: 'private' | 'public'): Promise<CryptoKey> {
+  const cacheKey = `${which}:${entry.kid}`;
+  let key = importedKeys.get(cacheKey);
+  if (!key) {
+    key = (await importJWK(which === 'private' ? entry.privateJwk : entry.publicJwk, 'ES256')) as CryptoKey;
+    importedKeys.set(cacheKey, key);
+  }
+  return key;
+}
+
+/**
+ * Public keys for /oauth/jwks
+ */
+export async function getAccessTokenJwks(env: Env): Promise<{ keys: JWK[] }> {
+  const keys = await getAccessTokenKeys(env);
+  return { keys: keys.map((k) => ({ ...k.publicJwk, kid: k.kid, alg: 'ES256', use: 'sig' })) };
+}
+
+/**
+ * Add a key that starts signing after the publish delay, and drop keys whose
+ * tokens can no longer be valid: those replaced by an active key more than
+ * `accessTtlSeconds` ago
+ */
+export async function rotateAccessTokenKey(
+  env: Env,
+  opts: { accessTtlSeconds: number; now?: number },
+): Promise<{ kid: string; activatesAt: number; removed: string[] }> {
+  const now = opts.now ?? Math.floor(Date.now() / 1000);
+  const existing = parseRing(await getSecret(env, KEY_RING_SECRET));
+  const next = await createKey(now, existing ? now + KEY_PUBLISH_DELAY_SECONDS : now);
+  const { keep, removed } = pruneKeys([next, ...(existing?.keys ?? [])], now, opts.accessTtlSeconds);
+  await saveRing(env, { createdAt: existing?.createdAt ?? now, keys: keep });
+  return { kid: next.kid, activatesAt: next.activatesAt, removed };
+}
+
+/**
+ * Rotate when the newest key is older than KEY_MAX_AGE_SECONDS, then prune;
+ * run by the scheduled maintenance job
+ */
+export async function rotateAccessTokenKeyIfDue(
+  env: Env,
+  opts: { accessTtlSeconds: number; now?: number },
+): Promise<{ rotated: string | null; removed: string[] }> {
+  const now = opts.now ?? Math.floor(Date.now() / 1000);
+  const ring = await getKeyRing(env, { fresh: true });
+  if (now - ring.keys[0].createdAt >= KEY_MAX_AGE_SECONDS) {
+    const rotation = await rotateAccessTokenKey(env, { ...opts, now });
+    return { rotated: rotation.kid, removed: rotation.removed };
+  }
+  const { keep, removed } = pruneKeys(ring.keys, now, opts.accessTtlSeconds);
+  if (removed.length) await saveRing(env, { ...ring, keys: keep });
+  return { rotated: null, removed };
+}
+
+function pruneKeys(keys: AccessTokenKey[], now: number, accessTtlSeconds: number): { keep: AccessTokenKey[]; removed: string[] } {
+  const keep: AccessTokenKey[] = [];
+  const removed: string[] = [];
+  // The newest key that is already active; everything older stopped signing when it activated
+  let replacedAt: number | null = null;
+  for (const key of keys) {
+    if (replacedAt !== null && replacedAt + accessTtlSeconds < now) removed.push(key.kid);
+    else keep.push(key);
+    if (replacedAt === null && key.activatesAt <= now) replacedAt = key.activatesAt;
+  }
+  return { keep, removed };
+}
@@ -0,0 +1,48 @@
+import type { Env } from '../env';
+import { deleteAccount } from '../db/account';
+import { deleteRepoData, listAccountsDueForDeletion, setAccountStatus } from '../db/dal';
+import { R2BlobStore } from '../services/r2-blob-store';
+import { logger } from './logger';
+import { notifySequencerAccount } from './sequencer';
+
+/**
+ * Permanently delete an account: its repo rows, the blobs no other account
+ * uploaded, and the account row; the DID stays in account_state as `deleted`
+ * and relays get an #account event
+ */
+export async function deleteAccountAndRepo(env: Env, did: string): Promise<void> {
+  const blobKeys = await deleteRepoData(env, did);
+  const store = new R2BlobStore(env);
+  for (const key of blobKeys) {
+    await store.delete(key).catch((err) => console.warn('deleteAccount: failed to delete blob', key, err));
+  }
+  await deleteAccount(env, did);
+  await setAccountStatus(env, did, 'deleted');
+  await notifySequencerAccount(env, { did, active: false, status: 'deleted' });
+}
+
+/**
+ * Delete deactivated accounts whose deactivateAccount `deleteAfter` has
+ * passed, until the deadline. Reactivating clears deleteAfter, so an account
+ * that came back in time is never listed.
+ *
+ * @returns Accounts deleted, and whether any due ones are left for the next run
+ */
+export async function deleteExpiredDeactivatedAccounts(env: Env, opts: {
+  deadline: number;
+  now?: number;
+}): Promise<{ deleted: number; remaining: boolean }> {
+  const now = opts.now ?? Date.now();
+  let deleted = 0;
+  while (Date.now() < opts.deadline) {
+    const due = await listAccountsDueForDeletion(env, now, 10);
+    if (due.length === 0) return { deleted, remaining: false };
+    for (const did of due) {
+      if (Date.now() >= opts.deadline) break;
+      await deleteAccountAndRepo(env, did);
+      deleted++;
+    }
+  }
+  logger.info('account_deletion', { message: 'Out of time, resuming next run', deleted });
+  return { deleted, remaining: true };
+}
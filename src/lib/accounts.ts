@@ -0,0 +1,91 @@
+import type { Env } from '../env';
+import { getAccountByIdentifier } from '../db/account';
+import { getAccountState } from '../db/dal';
+import { getAccountHandle } from './actor';
+import { AccountTakedown, AuthRequired, InvalidRequest } from './errors';
+import { normalizeHandle } from './handle';
+import { resolveSecret } from './secrets';
+
+/**
+ * Hosted Accounts
+ *
+ * Single-user mode (the default) hosts exactly one repo, PDS_DID. With
+ * PDS_MULTI_ACCOUNT=true every row of the `account` table is a hosted repo:
+ * writes go to the authenticated account's repo and reads to the repo named
+ * by the request. PDS_DID stays the server's own identity and the operator's
+ * account in both modes.
+ */
+
+export function isMultiAccount(env: Env): boolean {
+  return String(env.PDS_MULTI_ACCOUNT ?? '').toLowerCase() === 'true';
+}
+
+/**
+ * DID of the operator account (PDS_DID)
+ */
+export async function getPrimaryDid(env: Env): Promise<string> {
+  return (await resolveSecret(env.PDS_DID)) ?? 'did:example:single-user';
+}
+
+/**
+ * Whether `did` is the operator account, which administers the PDS
+ */
+export async function isOperator(env: Env, did: string): Promise<boolean> {
+  return did === (await getPrimaryDid(env));
+}
+
+/**
+ * Handle suffixes new accounts may register under (`.pds.example.com`).
+ * Defaults to subdomains of PDS_HOSTNAME.
+ */
+export function getAvailableUserDomains(env: Env): string[] {
+  const configured = (env.PDS_USER_DOMAINS ?? '')
+    .split(',')
+    .map((domain) => normalizeHandle(domain))
+    .filter(Boolean)
+    .map((domain) => (domain.startsWith('.') ? domain : `.${domain}`));
+  if (configured.length > 0) return configured;
+  return env.PDS_HOSTNAME ? [`.${normalizeHandle(env.PDS_HOSTNAME)}`] : [];
+}
+
+/**
+ * Whether a normalized handle is a name under one of the service's user
+ * domains, which this PDS answers for itself
+ */
+export function isServiceHandle(env: Env, handle: string): boolean {
+  return getAvailableUserDomains(env).some((domain) => handle.endsWith(domain) && handle.length > domain.length);
+}
+
+/**
+ * DID of the hosted repo a `repo`/`did` parameter (DID or handle) names, or
+ * null when it is not hosted here. An empty value means the operator account.
+ */
+export async function resolveHostedRepo(env: Env, repo: string | null | undefined): Promise<string | null> {
+  const primary = await getPrimaryDid(env);
+  const identifier = (repo ?? '').trim();
+  if (!identifier || identifier === primary) return primary;
+
+  const account = await getAccountByIdentifier(env, identifier).catch(() => null);
+  if (!account) {
+    // The operator account may not have a row yet; it then answers to PDS_HANDLE
+    const handle = await getAccountHandle(env, primary);
+    return normalizeHandle(identifier) === normalizeHandle(handle) ? primary : null;
+  }
+  if (account.did === primary || isMultiAccount(env)) return account.did;
+  return null;
+}
+
+/**
+ * The repo a write goes to: the authenticated account's. A `repo` naming any
+ * other account is rejected, as is any write by a taken-down account.
+ */
+export async function resolveWritableRepo(env: Env, authDid: string, repo: string | null | undefined): Promise<string> {
+  if (repo && repo !== authDid) {
+    const did = await resolveHostedRepo(env, repo);
+    if (!did) throw new InvalidRequest(`Could not find repo: ${repo}`);
+    if (did !== authDid) throw new AuthRequired(`Not authorized to write to ${repo}`);
+  }
+  const state = await getAccountState(env, authDid).catch(() => null);
+  if (state?.status === 'takendown') throw new AccountTakedown();
+  return authDid;
+}
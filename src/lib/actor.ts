@@ -1,4 +1,5 @@
 import { getDb } from '../db/client';
+import { getAccountByIdentifier } from '../db/account';
 import { record } from '../db/schema';
 import { resolveSecret } from './secrets';
 import type { Env } from '../env';
@@ -79,9 +80,19 @@ export async function fetchProfileRecord(env: Env, did: string): Promise<Profile
   return null;
 }
 
+/**
+ * The account's current handle. The `account` row is the source of truth;
+ * PDS_HANDLE only seeds it and answers until the account exists.
+ */
+export async function getAccountHandle(env: Env, did?: string): Promise<string> {
+  const accountDid = did ?? (await resolveSecret(env.PDS_DID)) ?? 'did:example:single-user';
+  const account = await getAccountByIdentifier(env, accountDid).catch(() => null);
+  return account?.handle ?? (await resolveSecret(env.PDS_HANDLE)) ?? 'user.example.com';
+}
+
 export async function getPrimaryActor(env: Env): Promise<PrimaryActor> {
   const did = (await resolveSecret(env.PDS_DID)) ?? 'did:example:single-user';
-  const handle = (await resolveSecret(env.PDS_HANDLE)) ?? 'user.example.com';
+  const handle = await getAccountHandle(env, did);
 
   const profile = await fetchProfileRecord(env, did);
 
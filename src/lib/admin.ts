@@ -0,0 +1,73 @@
+import type { Env } from '../env';
+import { getAccountByIdentifier } from '../db/account';
+import { areInvitesDisabled } from '../db/invite';
+import { getAccountInviteCodeViews } from './invites';
+import { resolveSecret } from './secrets';
+
+/**
+ * Admin Authentication
+ *
+ * The com.atproto.admin.* API is authenticated with PDS_ADMIN_PASSWORD rather
+ * than an account session, sent either as HTTP Basic (`admin:<password>`, as
+ * the reference PDS expects) or as `Bearer <password>`. With no password
+ * configured the admin API is disabled.
+ */
+
+const ADMIN_USERNAME = 'admin';
+
+function timingSafeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+function presentedPassword(header: string): string | null {
+  const [scheme, value] = header.split(' ', 2);
+  if (!value) return null;
+  if (scheme.toLowerCase() === 'bearer') return value.trim();
+  if (scheme.toLowerCase() !== 'basic') return null;
+  try {
+    const decoded = atob(value.trim());
+    const sep = decoded.indexOf(':');
+    if (sep < 0 || decoded.slice(0, sep) !== ADMIN_USERNAME) return null;
+    return decoded.slice(sep + 1);
+  } catch {
+    return null;
+  }
+}
+
+export async function isAdminRequest(request: Request, env: Env): Promise<boolean> {
+  const expected = (await resolveSecret(env.PDS_ADMIN_PASSWORD))?.trim();
+  if (!expected) return false;
+  const header = request.headers.get('authorization');
+  const password = header ? presentedPassword(header) : null;
+  return password !== null && timingSafeEqual(password, expected);
+}
+
+export function adminUnauthorized(): Response {
+  return new Response(JSON.stringify({ error: 'AuthRequired', message: 'Admin authentication required' }), {
+    status: 401,
+    headers: { 'Content-Type': 'application/json', 'WWW-Authenticate': 'Basic realm="admin"' },
+  });
+}
+
+/**
+ * com.atproto.admin.defs#accountView for a hosted account; null when unknown
+ */
+export async function getAdminAccountView(env: Env, did: string): Promise<Record<string, unknown> | null> {
+  const account = await getAccountByIdentifier(env, did);
+  if (!account || account.did !== did) return null;
+  return {
+    did: account.did,
+    handle: account.handle,
+    ...(account.email ? { email: account.email } : {}),
+    ...(account.emailConfirmedAt ? { emailConfirmedAt: new Date(account.emailConfirmedAt).toISOString() } : {}),
+    indexedAt: new Date(account.createdAt).toISOString(),
+    invitesDisabled: await areInvitesDisabled(env, did),
+    invites: await getAccountInviteCodeViews(env, did, { includeUsed: true }),
+  };
+}
@@ -1,6 +1,8 @@
 import type { Env } from '../env';
-import { getRuntimeString } from './secrets';
 import { authenticateRequest, unauthorized } from './auth';
+import { AccountTakedown } from './errors';
+import { IdentityResolutionError, resolveDid, type DidDocument } from './identity';
+import { getRepoSigningKey } from './signing-key';
 
 const DEFAULT_APPVIEW_URL = 'https://api.bsky.app';
 const DEFAULT_APPVIEW_DID = 'did:web:api.bsky.app';
@@ -20,8 +22,6 @@ type ServiceId = 'bsky_appview' | 'bsky_chat' | 'atproto_labeler';
 interface ServiceConfig { id: ServiceId; url: string; did: string }
 
 
-const didDocumentCache = new Map<string, Promise<unknown>>();
-
 function encodeBase64Url(bytes: Uint8Array): string {
   let binary = '';
   for (let i = 0; i < bytes.length; i++) {
@@ -43,39 +43,7 @@ function randomHex(bytes = 16): string {
 
 interface ProxyTarget { did: string; url: string }
 
-type AuthScope =
-  | 'com.atproto.access'
-  | 'com.atproto.appPass'
-  | 'com.atproto.appPassPrivileged'
-  | 'com.atproto.signupQueued'
-  | 'com.atproto.takendown';
-
-const DEFAULT_ACCESS_SCOPE: AuthScope = 'com.atproto.access';
-const TAKENDOWN_SCOPE: AuthScope = 'com.atproto.takendown';
-const PRIVILEGED_SCOPES = new Set<AuthScope>([
-  'com.atproto.access',
-  'com.atproto.appPassPrivileged',
-]);
-
-const PRIVILEGED_METHODS = new Set<string>([
-  'chat.bsky.actor.deleteAccount',
-  'chat.bsky.actor.exportAccountData',
-  'chat.bsky.convo.deleteMessageForSelf',
-  'chat.bsky.convo.getConvo',
-  'chat.bsky.convo.getConvoForMembers',
-  'chat.bsky.convo.getLog',
-  'chat.bsky.convo.getMessages',
-  'chat.bsky.convo.leaveConvo',
-  'chat.bsky.convo.listConvos',
-  'chat.bsky.convo.muteConvo',
-  'chat.bsky.convo.sendMessage',
-  'chat.bsky.convo.sendMessageBatch',
-  'chat.bsky.convo.unmuteConvo',
-  'chat.bsky.convo.updateRead',
-  'com.atproto.server.createAccount',
-]);
-
-const PROTECTED_METHODS = new Set<string>([
+export const PROTECTED_METHODS = new Set<string>([
   'com.atproto.admin.sendEmail',
   'com.atproto.identity.requestPlcOperationSignature',
   'com.atproto.identity.signPlcOperation',
@@ -98,27 +66,6 @@ const PROTECTED_METHODS = new Set<string>([
 
 class ProxyHeaderError extends Error {}
 
-function resolveAuthScope(scope: unknown): AuthScope {
-  if (typeof scope !== 'string') {
-    return DEFAULT_ACCESS_SCOPE;
-  }
-
-  switch (scope) {
-    case 'access':
-      // Map internal session token scope to official value
-      return 'com.atproto.access';
-    case 'com.atproto.access':
-    case 'com.atproto.appPass':
-    case 'com.atproto.appPassPrivileged':
-    case 'com.atproto.signupQueued':
-    case 'com.atproto.takendown':
-      return scope;
-    default:
-      console.warn('Unknown auth scope, treating as access scope', scope);
-      return DEFAULT_ACCESS_SCOPE;
-  }
-}
-
 function parseProxyHeader(header: string): { did: string; serviceId: string } {
   const value = header.trim();
   const hashIndex = value.indexOf('#');
@@ -170,63 +117,17 @@ async function resolveProxyTargetWithRegistry(
   return { did, url: endpoint };
 }
 
-async function resolveDidDocument(env: Env, did: string): Promise<any> {
-  const existing = didDocumentCache.get(did);
-  if (existing) {
-    return existing;
-  }
-
-  const loader = fetchDidDocument(env, did).catch((error) => {
-    didDocumentCache.delete(did);
-    throw error;
-  });
-
-  didDocumentCache.set(did, loader);
-  return loader;
-}
-
-async function fetchDidDocument(_env: Env, did: string): Promise<any> {
-  let url: string;
-  if (did.startsWith('did:web:')) {
-    url = buildDidWebUrl(did);
-  } else if (did.startsWith('did:plc:')) {
-    url = `https://plc.directory/${did}`;
-  } else {
-    throw new ProxyHeaderError('unsupported DID method');
+export async function resolveDidDocument(env: Env, did: string): Promise<any> {
+  let doc: DidDocument | null;
+  try {
+    doc = await resolveDid(env, did);
+  } catch (error) {
+    throw new ProxyHeaderError(error instanceof IdentityResolutionError ? error.message : 'failed to resolve DID document');
   }
-
-  const res = await fetch(url, {
-    headers: {
-      accept: 'application/did+json, application/json;q=0.9',
-    },
-  });
-
-  if (!res.ok) {
+  if (!doc) {
     throw new ProxyHeaderError('failed to resolve DID document');
   }
-
-  return res.json();
-}
-
-function buildDidWebUrl(did: string): string {
-  const suffix = did.slice('did:web:'.length);
-  const parts = suffix.split(':').map((segment) => {
-    try {
-      return decodeURIComponent(segment);
-    } catch {
-      throw new ProxyHeaderError('invalid did:web encoding');
-    }
-  });
-
-  const host = parts.shift();
-  if (!host) throw new ProxyHeaderError('invalid did:web value');
-
-  if (parts.length === 0) {
-    return `https://${host}/.well-known/did.json`;
-  }
-
-  const path = parts.join('/');
-  return `https://${host}/${path}/did.json`;
+  return doc;
 }
 
 function getServiceEndpointFromDidDoc(didDoc: any, did: string, serviceId: string): string | null {
@@ -345,8 +246,8 @@ async function createServiceJwt(
   };
   if (lexiconMethod) payload.lxm = lexiconMethod;
 
-  // Always ES256K: sign with secp256k1 using REPO_SIGNING_KEY
-  const priv = ((await getRuntimeString(env, 'REPO_SIGNING_KEY', '')) ?? '').trim();
+  // Always ES256K: sign with secp256k1 using the repo signing key
+  const priv = (await getRepoSigningKey(env, issuerDid)) ?? '';
   if (!priv) throw new Error('REPO_SIGNING_KEY not configured for ES256K service-auth');
 
   // Service-auth uses a standard JWT header with ES256K
@@ -463,21 +364,9 @@ export async function proxyAppView({ request, env, lxm, fallback }: ProxyAppView
     );
   }
 
-  const scope = resolveAuthScope(auth.claims.scope);
-  if (scope === TAKENDOWN_SCOPE) {
+  if (auth.scopes.kind === 'takendown') {
     console.log('proxyAppView: Account is takendown');
-    return new Response(JSON.stringify({ error: 'AccountTakendown' }), {
-      status: 403,
-      headers: { 'Content-Type': 'application/json' },
-    });
-  }
-
-  if (!PRIVILEGED_SCOPES.has(scope) && PRIVILEGED_METHODS.has(lxm)) {
-    console.log('proxyAppView: Insufficient privileges for method');
-    return new Response(JSON.stringify({ error: 'InvalidToken' }), {
-      status: 401,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return new AccountTakedown().toResponse();
   }
 
   // Do not short-circuit to fallback; exercise upstream so we can surface real errors
@@ -501,6 +390,12 @@ export async function proxyAppView({ request, env, lxm, fallback }: ProxyAppView
     }
   }
 
+  const audience = proxyHeader ? proxyHeader.trim() : `${target.did}#${defaultService.id}`;
+  if (!auth.scopes.allowsRpc(lxm, audience)) {
+    console.log('proxyAppView: Insufficient scope for method');
+    return auth.scopes.deny(`rpc:${lxm}?aud=${audience}`).toResponse();
+  }
+
   const originalUrl = new URL(request.url);
   const upstreamUrl = new URL(target.url);
   upstreamUrl.pathname = originalUrl.pathname;
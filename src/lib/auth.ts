@@ -1,10 +1,12 @@
 import type { APIContext } from 'astro';
 import type { Env } from '../env';
 import { verifyJwt, type JwtClaims } from './jwt';
+import { AuthScopes } from './scopes';
 
 export interface AuthContext {
   token: string;
   claims: JwtClaims;
+  scopes: AuthScopes;
 }
 
 export async function isAuthorized(request: Request, env: Env): Promise<boolean> {
@@ -72,5 +74,5 @@ export async function authenticateRequest(request: Request, env: Env): Promise<A
   if (!ver || !ver.valid) return null;
   const claims = ver.payload as JwtClaims;
   if (claims.t !== 'access') return null;
-  return { token, claims };
+  return { token, claims, scopes: AuthScopes.parse(claims.scope) };
 }
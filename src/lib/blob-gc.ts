@@ -0,0 +1,96 @@
+import type { Env } from '../env';
+import { blobUsageStatements, listOrphanBlobKeys } from '../db/dal';
+import { recordBlobKeys } from './blob-refs';
+import { logger } from './logger';
+
+/**
+ * Blob garbage collection
+ *
+ * `blob_usage` lists the R2 keys each record references; putRecord and
+ * deleteRecord keep it current and repo imports fill it as records are
+ * indexed. Records written before usage was tracked are covered by
+ * backfillBlobUsage, and only once it has been through every record can
+ * deleteOrphanBlobs trust that an unlisted key is unused.
+ */
+
+/** Uploads are left alone this long: clients upload a blob before writing the record that uses it */
+export const BLOB_GC_GRACE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Recompute blob usage from the stored record JSON, in uri order, a batch at
+ * a time until the deadline.
+ *
+ * @param env - Worker environment
+ * @param opts.after - Resume after this uri (the cursor from the previous run)
+ * @param opts.deadline - Epoch ms to stop by
+ * @param opts.batchSize - Records per round trip (default: 100)
+ * @returns Records indexed, and the cursor to resume from (null once done)
+ */
+export async function backfillBlobUsage(env: Env, opts: {
+  after?: string | null;
+  deadline: number;
+  batchSize?: number;
+}): Promise<{ records: number; cursor: string | null }> {
+  const batchSize = opts.batchSize ?? 100;
+  let cursor = opts.after ?? '';
+  let records = 0;
+
+  while (Date.now() < opts.deadline) {
+    const res = await env.DB.prepare(
+      `SELECT uri, json FROM record WHERE uri > ? ORDER BY uri LIMIT ?`
+    ).bind(cursor, batchSize).all<{ uri: string; json: string }>();
+    const rows = res.results ?? [];
+    if (rows.length === 0) return { records, cursor: null };
+
+    await env.DB.batch(rows.flatMap((row) => blobUsageStatements(env, row.uri, recordBlobKeys(row.json))));
+    records += rows.length;
+    cursor = rows[rows.length - 1].uri;
+    if (rows.length < batchSize) return { records, cursor: null };
+  }
+
+  logger.info('blob_gc', { message: 'Usage backfill out of time, resuming next run', records, cursor });
+  return { records, cursor };
+}
+
+/**
+ * Delete blobs no record references that were uploaded before
+ * `uploadedBefore`, in key order, until the deadline. The `blob` row goes
+ * first and only while the key is still unreferenced, so a record written in
+ * the meantime keeps its blob.
+ *
+ * @param env - Worker environment
+ * @param opts.after - Resume after this key (the cursor from the previous run)
+ * @param opts.deadline - Epoch ms to stop by
+ * @param opts.uploadedBefore - Epoch ms; newer uploads are kept
+ * @param opts.batchSize - Keys listed per round trip (default: 100)
+ * @returns Blobs deleted, and the cursor to resume from (null once done)
+ */
+export async function deleteOrphanBlobs(env: Env, opts: {
+  after?: string | null;
+  deadline: number;
+  uploadedBefore: number;
+  batchSize?: number;
+}): Promise<{ deleted: number; cursor: string | null }> {
+  const batchSize = opts.batchSize ?? 100;
+  let cursor = opts.after ?? '';
+  let deleted = 0;
+
+  while (Date.now() < opts.deadline) {
+    const keys = await listOrphanBlobKeys(env, { uploadedBefore: opts.uploadedBefore, after: cursor, limit: batchSize });
+    if (keys.length === 0) return { deleted, cursor: null };
+
+    for (const key of keys) {
+      const res = await env.DB.prepare(
+        `DELETE FROM blob WHERE key = ? AND NOT EXISTS (SELECT 1 FROM blob_usage WHERE blob_usage.key = blob.key)`
+      ).bind(key).run();
+      if (!res.meta.changes) continue;
+      await env.BLOBS.delete(key);
+      deleted++;
+    }
+    cursor = keys[keys.length - 1];
+    if (keys.length < batchSize) return { deleted, cursor: null };
+  }
+
+  logger.info('blob_gc', { message: 'Out of time, resuming next run', deleted, cursor });
+  return { deleted, cursor };
+}
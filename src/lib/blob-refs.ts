@@ -5,6 +5,9 @@
  * Used during migration and for blob usage tracking.
  */
 
+import { CID } from 'multiformats/cid';
+import { sha256 } from 'multiformats/hashes/sha2';
+
 /**
  * Extract all blob CIDs from a record object
  *
@@ -84,6 +87,26 @@ export function extractBskyBlobRefs(record: any): Set<string> {
   return refs;
 }
 
+/**
+ * R2 key a blob is stored under: R2BlobStore.put keys blobs by the base64url
+ * SHA-256 of their bytes, which is the digest in the blob's CID
+ *
+ * @param cid - Blob CID
+ * @returns The R2 key, or null for an invalid or non-SHA-256 CID
+ */
+export function blobKeyForCid(cid: string): string | null {
+  let link: CID;
+  try {
+    link = CID.parse(cid);
+  } catch {
+    return null;
+  }
+  if (link.multihash.code !== sha256.code) return null;
+  let s = '';
+  for (const b of link.multihash.digest) s += String.fromCharCode(b);
+  return `blobs/by-cid/${btoa(s).replaceAll('+', '-').replaceAll('/', '_').replace(/=+$/, '')}`;
+}
+
 /**
  * Convert blob references to R2 keys
  *
@@ -91,5 +114,19 @@ export function extractBskyBlobRefs(record: any): Set<string> {
  * @returns Array of R2 keys
  */
 export function blobCidsToKeys(cids: Set<string>): string[] {
-  return Array.from(cids).map(cid => `blobs/by-cid/${cid}`);
-}
\ No newline at end of file
+  return Array.from(cids).map(blobKeyForCid).filter((key): key is string => key !== null);
+}
+
+/**
+ * R2 keys of the blobs a record references, from its stored JSON
+ *
+ * @param json - The record as stored in the record table
+ * @returns R2 keys (empty for unparseable JSON)
+ */
+export function recordBlobKeys(json: string): string[] {
+  try {
+    return blobCidsToKeys(extractBlobRefs(JSON.parse(json)));
+  } catch {
+    return [];
+  }
+}
@@ -1,176 +1,200 @@
 import type { Env } from '../env';
 import { drizzle } from 'drizzle-orm/d1';
-import { blockstore, commit_log } from '../db/schema';
-import { desc, notInArray, eq } from 'drizzle-orm';
+import { blockstore } from '../db/schema';
+import { sql } from 'drizzle-orm';
 import { logger } from './logger';
 import { CID } from 'multiformats/cid';
 import * as dagCbor from '@ipld/dag-cbor';
+import { D1Blockstore } from './mst/blockstore';
 
 /**
- * Collect CIDs referenced by recent commits
- * This traverses the MST structure to find all blocks that are still in use
+ * Blockstore garbage collection
+ *
+ * Mark and sweep, resumable across invocations. The mark phase seeds
+ * `blockstore_gc_mark` with the recent commits and every repo's head, then
+ * walks the MST a batch of nodes at a time, marking children as it goes; the
+ * table is the work queue, so the cursor only records the phase. The sweep
+ * then deletes unmarked blocks in cid order, a batch per statement.
+ *
+ * Blocks written after the cycle began are never removed: a commit stores
+ * its MST nodes before it moves the repo head. While a repo import is
+ * unfinished its blocks are not reachable from any head yet, so no cycle
+ * starts or sweeps until it completes.
  */
-async function collectReferencedCids(env: Env, keepCommits: number = 10000): Promise<Set<string>> {
-  const db = drizzle(env.DB);
-  const referenced = new Set<string>();
 
-  // Get recent commits
-  const commits = await db
-    .select()
-    .from(commit_log)
-    .orderBy(desc(commit_log.seq))
-    .limit(keepCommits)
-    .all();
-
-  logger.debug('blockstore_gc', { message: 'Collecting referenced CIDs', commits: commits.length });
-
-  // For each commit, parse the commit data and collect referenced CIDs
-  for (const commit of commits) {
-    try {
-      const commitData = JSON.parse(commit.data);
-
-      // Add the commit CID itself
-      referenced.add(commit.cid);
-
-      // Add the data CID (MST root)
-      if (commitData.data) {
-        referenced.add(commitData.data);
-
-        // Traverse the MST to collect all node CIDs
-        await traverseMst(env, commitData.data, referenced);
-      }
+interface GcCursor {
+  phase: 'mark' | 'sweep';
+  /** When the cycle began (epoch ms) */
+  startedAt: number;
+  /** Sweep position: the last cid checked */
+  after?: string;
+}
 
-      // Add prev commit CID if present
-      if (commitData.prev) {
-        referenced.add(commitData.prev);
-      }
-    } catch (error) {
-      logger.warn('blockstore_gc', {
-        message: 'Failed to parse commit data',
-        cid: commit.cid,
-        error: String(error)
-      });
-    }
+function parseCursor(cursor: string | null | undefined): GcCursor | null {
+  if (!cursor) return null;
+  try {
+    const parsed = JSON.parse(cursor);
+    return parsed?.phase === 'mark' || parsed?.phase === 'sweep' ? parsed : null;
+  } catch {
+    return null;
   }
+}
 
-  return referenced;
+async function hasPendingImport(env: Env): Promise<boolean> {
+  const row = await env.DB.prepare(`SELECT did FROM repo_import WHERE status != 'complete' LIMIT 1`).first();
+  return row !== null;
 }
 
 /**
- * Recursively traverse MST nodes to collect all CIDs
+ * Mark the commits in the retention window and every repo's head commit, with
+ * their MST roots queued for walking. Safe to repeat: marked rows are kept.
  */
-async function traverseMst(env: Env, rootCid: string, referenced: Set<string>): Promise<void> {
-  const db = drizzle(env.DB);
-  const visited = new Set<string>();
-  const queue = [rootCid];
-
-  while (queue.length > 0) {
-    const cidStr = queue.shift()!;
+async function seedMarks(env: Env, keepCommits: number): Promise<void> {
+  const recent = `SELECT cid, data FROM commit_log ORDER BY seq DESC LIMIT ?`;
+  // A quiet repo's head can fall outside the recent window when several repos share the log
+  const heads = `SELECT cid, data FROM commit_log WHERE cid IN (SELECT commit_cid FROM repo_root)`;
+  const stmts = [];
+  for (const [commits, binds] of [[recent, [keepCommits]], [heads, []]] as const) {
+    stmts.push(
+      env.DB.prepare(`INSERT OR IGNORE INTO blockstore_gc_mark (cid, walked) SELECT cid, 1 FROM (${commits})`).bind(...binds),
+      env.DB.prepare(
+        `INSERT OR IGNORE INTO blockstore_gc_mark (cid, walked)
+         SELECT json_extract(data, '$.prev'), 1 FROM (${commits}) WHERE json_extract(data, '$.prev') IS NOT NULL`
+      ).bind(...binds),
+      env.DB.prepare(
+        `INSERT OR IGNORE INTO blockstore_gc_mark (cid, walked)
+         SELECT json_extract(data, '$.data'), 0 FROM (${commits}) WHERE json_extract(data, '$.data') IS NOT NULL`
+      ).bind(...binds),
+    );
+  }
+  await env.DB.batch(stmts);
+}
 
-    if (visited.has(cidStr)) continue;
-    visited.add(cidStr);
-    referenced.add(cidStr);
+/** MST links decode as CIDs; older nodes may hold raw CID bytes */
+function linkString(value: unknown): string | null {
+  const cid = CID.asCID(value) ?? (value instanceof Uint8Array ? CID.decode(value) : null);
+  return cid ? cid.toString() : null;
+}
 
+/**
+ * Walk one batch of queued MST nodes: mark their subtrees (queued) and record
+ * values (leaves). Returns false when the queue is empty.
+ */
+async function walkMarks(env: Env, batchSize: number): Promise<boolean> {
+  const res = await env.DB.prepare(`SELECT cid FROM blockstore_gc_mark WHERE walked = 0 LIMIT ?`)
+    .bind(batchSize).all<{ cid: string }>();
+  const queued = (res.results ?? []).map((row) => row.cid);
+  if (queued.length === 0) return false;
+
+  const cids: CID[] = [];
+  for (const cid of queued) {
     try {
-      // Load the block
-      const block = await db
-        .select()
-        .from(blockstore)
-        .where(eq(blockstore.cid, cidStr))
-        .get();
-
-      if (!block || !block.bytes) continue;
-
-      // Decode the CBOR data (workers-safe base64)
-      const bin = atob(block.bytes);
-      const bytes = new Uint8Array(bin.length);
-      for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
-      const data = dagCbor.decode(bytes) as any;
-
-      // If this is an MST node, collect child CIDs
-      if (data.l) {
-        // Left subtree
-        const leftCid = CID.decode(data.l);
-        queue.push(leftCid.toString());
-      }
+      cids.push(CID.parse(cid));
+    } catch {
+      // Not a CID; nothing to walk
+    }
+  }
+  const { blocks } = await new D1Blockstore(env).getMany(cids);
 
-      if (data.e) {
-        // Entries with subtrees
-        for (const entry of data.e) {
-          if (entry.t) {
-            const treeCid = CID.decode(entry.t);
-            queue.push(treeCid.toString());
-          }
-          if (entry.v) {
-            // Record value CID
-            const valueCid = CID.decode(entry.v);
-            referenced.add(valueCid.toString());
-          }
-        }
+  const mark = (cid: string, walked: boolean) =>
+    env.DB.prepare(`INSERT OR IGNORE INTO blockstore_gc_mark (cid, walked) VALUES (?, ?)`).bind(cid, walked ? 1 : 0);
+  const stmts = [];
+  for (const [cid, bytes] of blocks) {
+    try {
+      const node = dagCbor.decode(bytes) as any;
+      const left = linkString(node?.l);
+      if (left) stmts.push(mark(left, false));
+      for (const entry of Array.isArray(node?.e) ? node.e : []) {
+        const subtree = linkString(entry?.t);
+        if (subtree) stmts.push(mark(subtree, false));
+        const value = linkString(entry?.v);
+        if (value) stmts.push(mark(value, true));
       }
     } catch (error) {
-      logger.warn('blockstore_gc', {
-        message: 'Failed to traverse MST node',
-        cid: cidStr,
-        error: String(error)
-      });
+      logger.warn('blockstore_gc', { message: 'Failed to traverse MST node', cid, error: String(error) });
     }
   }
+  // Missing and undecodable nodes count as walked too; their cids stay marked
+  for (const cid of queued) stmts.push(env.DB.prepare(`UPDATE blockstore_gc_mark SET walked = 1 WHERE cid = ?`).bind(cid));
+  await env.DB.batch(stmts);
+  return true;
 }
 
 /**
- * Remove orphaned blocks from the blockstore
- * Keeps blocks referenced by recent commits (default: last 10000 commits)
+ * Delete unmarked blocks written before the cycle began, for the next batch of
+ * cids after `after`. Returns the last cid checked, or null at the end.
+ */
+async function sweepBatch(env: Env, after: string, startedAt: number, batchSize: number): Promise<{ removed: number; last: string | null }> {
+  const res = await env.DB.prepare(`SELECT cid FROM blockstore WHERE cid > ? ORDER BY cid LIMIT ?`)
+    .bind(after, batchSize).all<{ cid: string }>();
+  const rows = res.results ?? [];
+  if (rows.length === 0) return { removed: 0, last: null };
+
+  const last = rows[rows.length - 1].cid;
+  const deleted = await env.DB.prepare(
+    `DELETE FROM blockstore
+     WHERE cid > ? AND cid <= ? AND stored_at < ?
+       AND NOT EXISTS (SELECT 1 FROM blockstore_gc_mark m WHERE m.cid = blockstore.cid)`
+  ).bind(after, last, startedAt).run();
+  return { removed: deleted.meta.changes ?? 0, last: rows.length < batchSize ? null : last };
+}
+
+/**
+ * Remove blocks no longer reachable from the recent commits (default: last
+ * 10000) or any repo's head, working until the deadline.
  *
  * @param env - Worker environment
- * @param keepCommits - Number of recent commits to preserve blocks for (default: 10000)
- * @returns Number of blocks removed
+ * @param opts.cursor - The cursor from the previous run, to resume the cycle
+ * @param opts.deadline - Epoch ms to stop by
+ * @param opts.keepCommits - Number of recent commits to preserve blocks for (default: 10000)
+ * @param opts.batchSize - Nodes walked or blocks swept per round trip (default: 100)
+ * @returns Blocks removed, and the cursor to resume from (null once the cycle is done)
  */
-export async function pruneOrphanedBlocks(env: Env, keepCommits: number = 10000): Promise<number> {
-  const db = drizzle(env.DB);
-
-  // Collect all CIDs referenced by recent commits
-  const referenced = await collectReferencedCids(env, keepCommits);
-
-  logger.info('blockstore_gc', {
-    message: 'Collected referenced CIDs',
-    count: referenced.size
-  });
-
-  // Get all blocks
-  const allBlocks = await db.select({ cid: blockstore.cid }).from(blockstore).all();
-
-  // Find orphaned blocks
-  const orphaned = allBlocks
-    .map(b => b.cid)
-    .filter(cid => cid && !referenced.has(cid));
+export async function pruneOrphanedBlocks(env: Env, opts: {
+  cursor?: string | null;
+  deadline: number;
+  keepCommits?: number;
+  batchSize?: number;
+}): Promise<{ removed: number; cursor: string | null; waitingForImport?: boolean }> {
+  const keepCommits = opts.keepCommits ?? 10000;
+  const batchSize = opts.batchSize ?? 100;
+  let removed = 0;
 
-  if (orphaned.length === 0) {
-    logger.debug('blockstore_gc', { message: 'No orphaned blocks to remove' });
-    return 0;
+  if (await hasPendingImport(env)) {
+    // Abandon the cycle; the marks are rebuilt once the import is done
+    logger.info('blockstore_gc', { message: 'Repo import in progress, skipping' });
+    return { removed, cursor: null, waitingForImport: true };
   }
 
-  // Delete orphaned blocks in batches
-  const batchSize = 100;
-  let removed = 0;
+  let state = parseCursor(opts.cursor);
+  if (!state) {
+    await env.DB.prepare(`DELETE FROM blockstore_gc_mark`).run();
+    state = { phase: 'mark', startedAt: Date.now() };
+    await seedMarks(env, keepCommits);
+  }
 
-  for (let i = 0; i < orphaned.length; i += batchSize) {
-    const batch = orphaned.slice(i, i + batchSize);
-    const result = await db
-      .delete(blockstore)
-      .where(notInArray(blockstore.cid, Array.from(referenced)))
-      .run();
+  while (Date.now() < opts.deadline) {
+    if (state.phase === 'mark') {
+      if (await walkMarks(env, batchSize)) continue;
+      // Heads may have moved while marking; walk whatever new nodes they bring
+      await seedMarks(env, keepCommits);
+      if (await walkMarks(env, batchSize)) continue;
+      state = { phase: 'sweep', startedAt: state.startedAt, after: '' };
+      continue;
+    }
 
-    removed += result.meta.changes || 0;
+    const batch = await sweepBatch(env, state.after ?? '', state.startedAt, batchSize);
+    removed += batch.removed;
+    if (batch.last === null) {
+      await env.DB.prepare(`DELETE FROM blockstore_gc_mark`).run();
+      logger.info('blockstore_gc', { message: 'Pruned orphaned blocks', removed });
+      return { removed, cursor: null };
+    }
+    state = { ...state, after: batch.last };
   }
 
-  logger.info('blockstore_gc', {
-    message: 'Pruned orphaned blocks',
-    removed,
-    kept: referenced.size
-  });
-
-  return removed;
+  logger.info('blockstore_gc', { message: 'Out of time, resuming next run', phase: state.phase, removed });
+  return { removed, cursor: JSON.stringify(state) };
 }
 
 /**
@@ -181,17 +205,17 @@ export async function getBlockstoreStats(env: Env): Promise<{
   totalSize: number;
 }> {
   const db = drizzle(env.DB);
-  const blocks = await db.select().from(blockstore).all();
-
-  const totalSize = blocks.reduce((sum, block) => {
-    if (!block.bytes) return sum;
-    // Approximate decoded size by counting base64 length * 3/4
-    const len = Math.floor((block.bytes.length * 3) / 4);
-    return sum + len;
-  }, 0);
+  // Unconverted rows are sized from their base64 length * 3/4
+  const row = await db
+    .select({
+      total: sql<number>`count(*)`,
+      totalSize: sql<number>`coalesce(sum(coalesce(length(${blockstore.data}), length(${blockstore.bytes}) * 3 / 4)), 0)`,
+    })
+    .from(blockstore)
+    .get();
 
   return {
-    total: blocks.length,
-    totalSize,
+    total: row?.total ?? 0,
+    totalSize: row?.totalSize ?? 0,
   };
 }
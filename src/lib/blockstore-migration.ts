@@ -0,0 +1,62 @@
+import type { Env } from '../env';
+import { logger } from './logger';
+import { decodeBase64Block, toBlobParam } from './mst/blockstore';
+
+/**
+ * Convert legacy base64 blockstore rows to BLOBs.
+ *
+ * Blocks used to be stored as base64 TEXT in `blockstore.bytes`; they are now
+ * written to `blockstore.data` (BLOB). Rows from before the switch are rewritten
+ * here in cid order, a batch at a time, until the deadline. D1Blockstore reads
+ * fall back to `bytes` for rows not yet converted, so this runs in the
+ * background without downtime and can stop and resume anywhere.
+ *
+ * @param env - Worker environment
+ * @param opts.after - Resume after this cid (the cursor from the previous run)
+ * @param opts.deadline - Epoch ms to stop by
+ * @param opts.batchSize - Rows read and rewritten per round trip (default: 100)
+ * @returns Rows converted, and the cursor to resume from (null once done)
+ */
+export async function convertLegacyBlocks(env: Env, opts: {
+  after?: string | null;
+  deadline: number;
+  batchSize?: number;
+}): Promise<{ converted: number; cursor: string | null }> {
+  const batchSize = opts.batchSize ?? 100;
+  let cursor = opts.after ?? '';
+  let converted = 0;
+
+  while (Date.now() < opts.deadline) {
+    const res = await env.DB.prepare(
+      `SELECT cid, bytes FROM blockstore
+       WHERE cid > ? AND data IS NULL AND bytes IS NOT NULL AND bytes != ''
+       ORDER BY cid LIMIT ?`
+    ).bind(cursor, batchSize).all<{ cid: string; bytes: string }>();
+    const rows = res.results ?? [];
+    if (rows.length === 0) return { converted, cursor: null };
+
+    const stmts = [];
+    for (const row of rows) {
+      let bytes: Uint8Array;
+      try {
+        bytes = decodeBase64Block(row.bytes);
+      } catch (error) {
+        // Left as is (reads fail the same way); the cursor moves past it
+        logger.warn('blockstore_migration', { message: 'Skipping undecodable block', cid: row.cid, error: String(error) });
+        continue;
+      }
+      // A concurrent put may already have written the BLOB
+      stmts.push(
+        env.DB.prepare(`UPDATE blockstore SET data = ?, bytes = NULL WHERE cid = ? AND data IS NULL`)
+          .bind(toBlobParam(bytes), row.cid)
+      );
+    }
+    if (stmts.length > 0) await env.DB.batch(stmts);
+    converted += stmts.length;
+    cursor = rows[rows.length - 1].cid;
+    if (rows.length < batchSize) return { converted, cursor: null };
+  }
+
+  logger.info('blockstore_migration', { message: 'Out of time, resuming next run', converted, cursor });
+  return { converted, cursor };
+}
@@ -95,9 +95,9 @@ export function getCacheKey(request: Request, prefix?: string): string {
 }
 
 /**
- * Get cached response from Cache API
+ * The Workers default cache, or null outside the Workers runtime
  */
-function resolveDefaultCache(): Cache | null {
+export function resolveDefaultCache(): Cache | null {
   if (typeof caches === 'undefined') {
     return null;
   }
@@ -108,6 +108,9 @@ function resolveDefaultCache(): Cache | null {
   }
 }
 
+/**
+ * Get cached response from Cache API
+ */
 export async function getCachedResponse(
   request: Request,
   options?: { prefix?: string }
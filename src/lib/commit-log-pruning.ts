@@ -1,7 +1,7 @@
 import type { Env } from '../env';
 import { drizzle } from 'drizzle-orm/d1';
-import { commit_log } from '../db/schema';
-import { lt, desc } from 'drizzle-orm';
+import { commit_log, event_log, repo_root } from '../db/schema';
+import { and, lt, desc, notInArray } from 'drizzle-orm';
 import { logger } from './logger';
 
 /**
@@ -10,6 +10,7 @@ import { logger } from './logger';
  *
  * This is safe because:
  * - The current repo state is preserved in the MST and record tables
+ * - Each repo's head commit is kept, however old (quiet accounts in multi-account mode)
  * - Recent commits are kept for firehose subscribers
  * - Very old commits are not needed for sync operations
  *
@@ -35,16 +36,34 @@ export async function pruneOldCommits(env: Env, keepCount: number = 10000): Prom
     return 0;
   }
 
-  // Delete all commits older than the threshold
+  // Delete all commits older than the threshold, except repo heads
+  const heads = db.select({ cid: repo_root.commitCid }).from(repo_root);
   const result = await db
     .delete(commit_log)
-    .where(lt(commit_log.seq, threshold.seq))
+    .where(and(lt(commit_log.seq, threshold.seq), notInArray(commit_log.cid, heads)))
     .run();
 
   const pruned = result.meta.changes || 0;
+
+  // The firehose event log (commits plus identity/account/sync events) keeps the
+  // same window; replay below its oldest seq starts from the horizon.
+  const eventThreshold = await db
+    .select({ seq: event_log.seq })
+    .from(event_log)
+    .orderBy(desc(event_log.seq))
+    .limit(1)
+    .offset(keepCount)
+    .get();
+  let prunedEvents = 0;
+  if (eventThreshold) {
+    const eventResult = await db.delete(event_log).where(lt(event_log.seq, eventThreshold.seq)).run();
+    prunedEvents = eventResult.meta.changes || 0;
+  }
+
   logger.info('commit_log_pruning', {
     message: 'Pruned old commits',
     pruned,
+    prunedEvents,
     threshold: threshold.seq,
     kept: keepCount
   });
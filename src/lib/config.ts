@@ -28,6 +28,10 @@ const OPTIONAL_VARS = {
   PDS_BSKY_CHAT_DID: 'did:web:api.bsky.chat',
   PDS_OZONE_URL: 'https://mod.bsky.app',
   PDS_OZONE_DID: 'did:plc:ar7c4by46qjdydhdevvrndac',
+  // Host accounts besides PDS_DID (createAccount with invite codes)
+  PDS_MULTI_ACCOUNT: 'false',
+  PDS_INVITE_REQUIRED: 'true',
+  PDS_INVITE_CODES_PER_ACCOUNT: '0',
 } as const;
 
 /**
@@ -108,6 +112,25 @@ export function validateConfig(env: Env): ConfigValidationResult {
     warnings.push(`PDS_RATE_LIMIT_PER_MIN must be a positive number (got: ${optional.PDS_RATE_LIMIT_PER_MIN})`);
   }
 
+  const multiAccount = optional.PDS_MULTI_ACCOUNT.toLowerCase();
+  if (multiAccount !== 'true' && multiAccount !== 'false') {
+    warnings.push(`PDS_MULTI_ACCOUNT must be 'true' or 'false' (got: ${optional.PDS_MULTI_ACCOUNT})`);
+  } else if (multiAccount === 'true' && !env.PDS_PLC_ROTATION_KEY) {
+    warnings.push('PDS_MULTI_ACCOUNT is enabled but PDS_PLC_ROTATION_KEY is not set - createAccount cannot register DIDs');
+  }
+
+  const inviteRequired = optional.PDS_INVITE_REQUIRED.toLowerCase();
+  if (inviteRequired !== 'true' && inviteRequired !== 'false') {
+    warnings.push(`PDS_INVITE_REQUIRED must be 'true' or 'false' (got: ${optional.PDS_INVITE_REQUIRED})`);
+  } else if (inviteRequired === 'false' && multiAccount === 'true') {
+    warnings.push('PDS_INVITE_REQUIRED is disabled - anyone can create an account on this PDS');
+  }
+
+  const invitesPerAccount = Number(optional.PDS_INVITE_CODES_PER_ACCOUNT);
+  if (!Number.isInteger(invitesPerAccount) || invitesPerAccount < 0) {
+    warnings.push(`PDS_INVITE_CODES_PER_ACCOUNT must be a non-negative integer (got: ${optional.PDS_INVITE_CODES_PER_ACCOUNT})`);
+  }
+
   // Check for signing key
   if (!env.REPO_SIGNING_KEY) {
     warnings.push('REPO_SIGNING_KEY is not set - repository commits will not be signed');
@@ -0,0 +1,78 @@
+import type { Env } from '../env';
+import { formatMultikey } from '@atproto/crypto/dist/did';
+import { getAccountHandle } from './actor';
+import { invalidateCache } from './cache';
+import type { DidDocument } from './identity';
+import { getRepoSigningKey, importSigningKey } from './signing-key';
+
+/**
+ * did:web Support
+ *
+ * A did:web account has no PLC directory entry: its DID document is whatever
+ * `https://<host>/.well-known/did.json` serves. This PDS generates that
+ * document from the stored handle, the current signing key and the service
+ * endpoint, so handle changes and key rotations take effect as soon as the
+ * cached copy is purged (which happens on every #identity event).
+ */
+
+const DID_JSON_PATH = '/.well-known/did.json';
+
+export function isDidWeb(did: string): boolean {
+  return did.startsWith('did:web:');
+}
+
+/**
+ * Host a did:web identifier resolves to (`did:web:example.com%3A8443` → `example.com:8443`).
+ * Only host-level DIDs are supported; path-based ones return null.
+ */
+export function getDidWebHost(did: string): string | null {
+  if (!isDidWeb(did)) return null;
+  const parts = did.slice('did:web:'.length).split(':');
+  if (parts.length !== 1 || !parts[0]) return null;
+  try {
+    return decodeURIComponent(parts[0]).toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The account's DID document as this PDS publishes it
+ */
+export async function buildDidDocument(env: Env, did: string, hostname: string): Promise<DidDocument> {
+  const handle = await getAccountHandle(env, did);
+
+  let publicKeyMultibase: string | undefined;
+  const signingKey = await getRepoSigningKey(env, did);
+  if (signingKey) {
+    try {
+      const kp = await importSigningKey(signingKey);
+      publicKeyMultibase = formatMultikey(kp.jwtAlg, kp.publicKeyBytes());
+    } catch (error) {
+      console.warn('Failed to encode REPO_SIGNING_KEY', error);
+    }
+  }
+
+  return {
+    '@context': ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/multikey/v1'],
+    id: did,
+    alsoKnownAs: [`at://${handle}`],
+    verificationMethod: publicKeyMultibase
+      ? [{ id: `${did}#atproto`, type: 'Multikey', controller: did, publicKeyMultibase }]
+      : [],
+    service: [{ id: `${did}#atproto_pds`, type: 'AtprotoPersonalDataServer', serviceEndpoint: `https://${hostname}` }],
+  };
+}
+
+/**
+ * Drop the edge-cached did.json for the DID's host and the PDS host
+ */
+export async function purgeDidDocumentCache(env: Env, did: string): Promise<void> {
+  const hosts = new Set<string>();
+  const didHost = getDidWebHost(did);
+  if (didHost) hosts.add(didHost);
+  if (env.PDS_HOSTNAME) hosts.add(env.PDS_HOSTNAME.toLowerCase());
+  for (const host of hosts) {
+    await invalidateCache(new Request(`https://${host}${DID_JSON_PATH}`));
+  }
+}
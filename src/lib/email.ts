@@ -0,0 +1,151 @@
+import type { Env } from '../env';
+import type { AccountRow, EmailTokenPurpose } from '../db/account';
+import { InvalidRequest, XRPCError } from './errors';
+import { getRuntimeString, resolveSecret } from './secrets';
+
+/**
+ * Email delivery
+ *
+ * Mail goes out through one of three transports, picked by PDS_EMAIL_TRANSPORT
+ * or, when unset, by what is configured:
+ * - `cloudflare`: a Cloudflare Email Workers `send_email` binding (EMAIL)
+ * - `http`: POST JSON to an SMTP-over-HTTP relay (PDS_EMAIL_HTTP_URL)
+ * - `log`: keep an in-memory outbox, and print to the Worker logs under
+ *   `ENVIRONMENT=development`; only ever picked explicitly
+ *
+ * Messages carry one-time tokens, so outside development and test they are
+ * never written to the logs: the log transport refuses to start there, and with
+ * no transport configured sending fails with EmailNotConfigured.
+ */
+
+export const EMAIL_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  send(message: OutgoingEmail): Promise<void>;
+}
+
+/**
+ * Messages handed to the log transport, newest last
+ */
+export const outbox: OutgoingEmail[] = [];
+
+const LOG_TRANSPORT_ENVIRONMENTS = new Set(['development', 'test']);
+
+class LogTransport implements EmailTransport {
+  constructor(private readonly print: boolean) {}
+
+  async send(message: OutgoingEmail): Promise<void> {
+    outbox.push(message);
+    if (this.print) {
+      console.log(`email (log transport) to ${message.to}: ${message.subject}\n${message.text}`);
+    }
+  }
+}
+
+class CloudflareTransport implements EmailTransport {
+  constructor(private readonly binding: SendEmail) {}
+
+  async send(message: OutgoingEmail): Promise<void> {
+    const { EmailMessage } = await import('cloudflare:email');
+    const raw = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Message-ID: <${crypto.randomUUID()}@${message.from.split('@')[1] ?? 'localhost'}>`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+      '',
+      message.text,
+    ].join('\r\n');
+    await this.binding.send(new EmailMessage(message.from, message.to, raw));
+  }
+}
+
+class HttpTransport implements EmailTransport {
+  constructor(private readonly url: string, private readonly token: string | undefined) {}
+
+  async send(message: OutgoingEmail): Promise<void> {
+    const res = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+      body: JSON.stringify(message),
+    });
+    if (!res.ok) {
+      throw new Error(`Email relay responded ${res.status}: ${await res.text().catch(() => '')}`);
+    }
+  }
+}
+
+export async function getEmailTransport(env: Env): Promise<EmailTransport> {
+  const configured = await getRuntimeString(env, 'PDS_EMAIL_TRANSPORT', '');
+  const httpUrl = await getRuntimeString(env, 'PDS_EMAIL_HTTP_URL', '');
+  const kind = configured || (env.EMAIL ? 'cloudflare' : httpUrl ? 'http' : '');
+
+  switch (kind) {
+    case 'cloudflare':
+      if (!env.EMAIL) throw new Error('PDS_EMAIL_TRANSPORT=cloudflare but the EMAIL binding is missing');
+      return new CloudflareTransport(env.EMAIL);
+    case 'http':
+      if (!httpUrl) throw new Error('PDS_EMAIL_TRANSPORT=http but PDS_EMAIL_HTTP_URL is not set');
+      return new HttpTransport(httpUrl, await resolveSecret(env.PDS_EMAIL_HTTP_TOKEN));
+    case 'log': {
+      const environment = env.ENVIRONMENT ?? '';
+      if (!LOG_TRANSPORT_ENVIRONMENTS.has(environment)) {
+        throw new Error(`PDS_EMAIL_TRANSPORT=log is only allowed with ENVIRONMENT=development or test, not "${environment}"`);
+      }
+      return new LogTransport(environment === 'development');
+    }
+    case '':
+      throw new XRPCError('EmailNotConfigured', 'This PDS has no email transport; set PDS_EMAIL_HTTP_URL or an EMAIL binding', 501);
+    default:
+      throw new Error(`Unknown PDS_EMAIL_TRANSPORT: ${kind}`);
+  }
+}
+
+const TOKEN_EMAILS: Record<EmailTokenPurpose, { subject: string; intro: string }> = {
+  confirm_email: { subject: 'Confirm your email', intro: 'Use this code to confirm the email address for' },
+  update_email: { subject: 'Email update requested', intro: 'Use this code to change the email address for' },
+  reset_password: { subject: 'Password reset requested', intro: 'Use this code to reset the password for' },
+  plc_operation: { subject: 'PLC update requested', intro: 'Use this code to sign an identity (PLC) update for' },
+  delete_account: { subject: 'Account deletion requested', intro: 'Use this code to permanently delete' },
+  oauth_sign_in: { subject: 'Sign-in code', intro: 'Use this code to finish signing in to an app as' },
+};
+
+/**
+ * Email a one-time token to the account owner. `to` overrides the recipient
+ * (e.g. confirming a new address). Throws an XRPCError when the account has no
+ * email address or no transport is configured.
+ */
+export async function sendEmailToken(
+  env: Env,
+  account: Pick<AccountRow, 'handle' | 'email'>,
+  purpose: EmailTokenPurpose,
+  token: string,
+  to?: string,
+): Promise<void> {
+  const recipient = to ?? account.email;
+  if (!recipient) throw new InvalidRequest('Account does not have an email address');
+  const transport = await getEmailTransport(env);
+  const hostname = await getRuntimeString(env, 'PDS_HOSTNAME', 'localhost');
+  const from = (await getRuntimeString(env, 'PDS_EMAIL_FROM', '')) || `noreply@${hostname}`;
+  const { subject, intro } = TOKEN_EMAILS[purpose];
+  const message: OutgoingEmail = {
+    from,
+    to: recipient,
+    subject,
+    text: `${intro} @${account.handle}:\n\n${token}\n\nThe code expires in ${EMAIL_TOKEN_TTL_MS / 60000} minutes. If you did not request it, you can ignore this email.\n`,
+  };
+  await transport.send(message);
+}
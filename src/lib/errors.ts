@@ -46,6 +46,13 @@ export class InvalidRequest extends XRPCError {
   }
 }
 
+export class InvalidRecord extends XRPCError {
+  constructor(message: string = 'Record does not match its lexicon', details?: Record<string, unknown>) {
+    super('InvalidRecord', message, 400, details);
+    this.name = 'InvalidRecord';
+  }
+}
+
 // 401 - Unauthorized
 export class AuthRequired extends XRPCError {
   constructor(message: string = 'Authentication required', details?: Record<string, unknown>) {
@@ -54,6 +61,13 @@ export class AuthRequired extends XRPCError {
   }
 }
 
+export class AccountTakedown extends XRPCError {
+  constructor(message: string = 'Account has been taken down', details?: Record<string, unknown>) {
+    super('AccountTakedown', message, 401, details);
+    this.name = 'AccountTakedown';
+  }
+}
+
 export class InvalidToken extends XRPCError {
   constructor(message: string = 'Invalid or expired token', details?: Record<string, unknown>) {
     super('InvalidToken', message, 401, details);
@@ -69,6 +83,13 @@ export class Forbidden extends XRPCError {
   }
 }
 
+export class InsufficientScope extends XRPCError {
+  constructor(message: string = 'Token scope does not allow this action', details?: Record<string, unknown>) {
+    super('InsufficientScope', message, 403, details);
+    this.name = 'InsufficientScope';
+  }
+}
+
 // 404 - Not Found
 export class NotFound extends XRPCError {
   constructor(message: string = 'Resource not found', details?: Record<string, unknown>) {
@@ -101,7 +122,9 @@ export const USER_FRIENDLY_MESSAGES: Record<string, string> = {
   AuthRequired: 'Please log in to continue.',
   InvalidToken: 'Your session has expired. Please log in again.',
   InvalidRequest: 'The request contains invalid data. Please check your input.',
+  InvalidRecord: 'The record is not valid for its collection. Please check its fields.',
   Forbidden: 'You do not have permission to perform this action.',
+  InsufficientScope: 'This app was not granted permission to do that. Sign in again to grant it.',
   NotFound: 'The requested resource could not be found.',
   RateLimitExceeded: 'Too many requests. Please try again later.',
   InternalServerError: 'An unexpected error occurred. Please try again.',
@@ -140,7 +140,7 @@ export interface CommitMessage {
   ops: RepoOp[];
   blobs: CID[];
   time: string; // ISO 8601
-  prevData?: CID; // Previous MST root
+  prevData?: CID; // Previous MST root (sync v1.1)
 }
 
 export interface IdentityMessage {
@@ -162,7 +162,9 @@ export interface SyncMessage {
   seq: number;
   did: string;
   time: string;
-  active: boolean;
+  rev?: string;
+  blocks?: Uint8Array; // CAR slice containing the signed commit block
+  active?: boolean;
   status?: string;
 }
 
@@ -196,7 +198,7 @@ export function createAccountFrame(data: AccountMessage): MessageFrame<AccountMe
 }
 
 /**
- * Create a #sync frame (alias/compat for account-status changes)
+ * Create a #sync frame (repo state reset, e.g. after importRepo)
  */
 export function createSyncFrame(data: SyncMessage): MessageFrame<SyncMessage> {
   return new MessageFrame(data, '#sync');
@@ -87,4 +87,4 @@ export function getHandleDomain(handle: string): string {
 export function isSubdomain(handle: string): boolean {
   const parts = handle.split('.');
   return parts.length > 2;
-}
\ No newline at end of file
+}
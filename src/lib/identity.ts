@@ -0,0 +1,231 @@
+import type { Env } from '../env';
+import { normalizeHandle } from './handle';
+import { LookupCache, type LookupOptions } from './lookup-cache';
+
+/**
+ * Identity Resolution
+ *
+ * Resolves handles to DIDs (`_atproto` TXT record, then
+ * `https://<handle>/.well-known/atproto-did`) and DIDs to documents (did:plc
+ * via the PLC directory, did:web via did.json) without going through the
+ * AppView. Results, misses included, go through the lookup caches and are
+ * dropped when this PDS emits an #identity event for the DID.
+ */
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+
+/** Age after which a cached result is refreshed in the background */
+export const IDENTITY_CACHE_STALE_MS = HOUR;
+/** Age after which a cached result is no longer served without a refresh */
+export const IDENTITY_CACHE_MAX_AGE_MS = 24 * HOUR;
+/** Misses are retried sooner so a newly published handle or DID shows up quickly */
+const NEGATIVE_CACHE_TTL_MS = 5 * MINUTE;
+
+const PLC_DIRECTORY = 'https://plc.directory';
+const DOH_URL = 'https://cloudflare-dns.com/dns-query';
+
+/**
+ * Look up TXT record values for a DNS name
+ */
+export type TxtResolver = (name: string) => Promise<string[]>;
+
+export interface IdentityResolverOptions extends LookupOptions {
+  resolveTxt?: TxtResolver;
+  timeoutMs?: number;
+}
+
+export interface DidDocument {
+  id: string;
+  alsoKnownAs?: string[];
+  verificationMethod?: Array<Record<string, any>>;
+  service?: Array<Record<string, any>>;
+  [key: string]: unknown;
+}
+
+export interface ResolvedIdentity {
+  did: string;
+  /** Only set when the handle and the DID document point at each other */
+  handle: string | null;
+  didDoc: DidDocument;
+}
+
+export const handleCache = new LookupCache<string>({
+  name: 'handle',
+  staleMs: IDENTITY_CACHE_STALE_MS,
+  maxAgeMs: IDENTITY_CACHE_MAX_AGE_MS,
+  negativeTtlMs: NEGATIVE_CACHE_TTL_MS,
+});
+
+export const didDocumentCache = new LookupCache<DidDocument>({
+  name: 'doc',
+  staleMs: IDENTITY_CACHE_STALE_MS,
+  maxAgeMs: IDENTITY_CACHE_MAX_AGE_MS,
+  negativeTtlMs: NEGATIVE_CACHE_TTL_MS,
+});
+
+/** Resolution failed for a reason other than the identity not existing */
+export class IdentityResolutionError extends Error {}
+
+/**
+ * Resolve TXT records with DNS-over-HTTPS (JSON API)
+ */
+export const dohResolveTxt: TxtResolver = async (name) => {
+  const url = `${DOH_URL}?name=${encodeURIComponent(name)}&type=TXT`;
+  const res = await fetch(url, { headers: { accept: 'application/dns-json' }, signal: AbortSignal.timeout(3000) });
+  if (!res.ok) return [];
+  const body = (await res.json()) as { Answer?: Array<{ type: number; data: string }> };
+  // TXT answers (type 16) arrive as quoted strings, possibly split into chunks
+  return (body.Answer ?? [])
+    .filter((answer) => answer.type === 16)
+    .map((answer) => answer.data.replace(/^"|"$/g, '').replace(/"\s*"/g, ''));
+};
+
+async function resolveHandleDns(handle: string, resolveTxt: TxtResolver): Promise<string | null> {
+  const records = await resolveTxt(`_atproto.${handle}`).catch(() => []);
+  const dids = records.filter((r) => r.startsWith('did=')).map((r) => r.slice('did='.length).trim());
+  // More than one DID is ambiguous and resolves to none
+  return dids.length === 1 && dids[0].startsWith('did:') ? dids[0] : null;
+}
+
+async function resolveHandleHttp(handle: string, timeoutMs: number): Promise<string | null> {
+  try {
+    const res = await fetch(`https://${handle}/.well-known/atproto-did`, { signal: AbortSignal.timeout(timeoutMs) });
+    if (!res.ok) return null;
+    const did = (await res.text()).split('\n')[0].trim();
+    return did.startsWith('did:') ? did : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a handle to a DID via its `_atproto` TXT record, falling back to
+ * `https://<handle>/.well-known/atproto-did`. Uncached.
+ */
+export async function resolveHandleToDid(handle: string, opts: IdentityResolverOptions = {}): Promise<string | null> {
+  const dnsDid = await resolveHandleDns(handle, opts.resolveTxt ?? dohResolveTxt);
+  if (dnsDid) return dnsDid;
+  return resolveHandleHttp(handle, opts.timeoutMs ?? 3000);
+}
+
+/**
+ * URL of the document for a did:plc or did:web identifier
+ */
+export function getDidDocumentUrl(did: string): string {
+  if (did.startsWith('did:plc:')) {
+    return `${PLC_DIRECTORY}/${did}`;
+  }
+  if (!did.startsWith('did:web:')) {
+    throw new IdentityResolutionError('unsupported DID method');
+  }
+
+  const parts = did.slice('did:web:'.length).split(':').map((segment) => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      throw new IdentityResolutionError('invalid did:web encoding');
+    }
+  });
+
+  const host = parts.shift();
+  if (!host) throw new IdentityResolutionError('invalid did:web value');
+
+  if (parts.length === 0) {
+    return `https://${host}/.well-known/did.json`;
+  }
+  return `https://${host}/${parts.join('/')}/did.json`;
+}
+
+/**
+ * Fetch a DID document. Returns null when the DID does not exist; throws when
+ * the lookup itself fails. Uncached.
+ */
+export async function fetchDidDocument(did: string, opts: IdentityResolverOptions = {}): Promise<DidDocument | null> {
+  const url = getDidDocumentUrl(did);
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      headers: { accept: 'application/did+json, application/json;q=0.9' },
+      signal: AbortSignal.timeout(opts.timeoutMs ?? 3000),
+    });
+  } catch {
+    throw new IdentityResolutionError('failed to resolve DID document');
+  }
+
+  // 410 is how the PLC directory reports a tombstoned DID
+  if (res.status === 404 || res.status === 410) return null;
+  if (!res.ok) {
+    throw new IdentityResolutionError('failed to resolve DID document');
+  }
+
+  const doc = (await res.json().catch(() => null)) as DidDocument | null;
+  if (!doc || doc.id !== did) {
+    throw new IdentityResolutionError('DID document does not match DID');
+  }
+  return doc;
+}
+
+/**
+ * Resolve a handle to a DID (cached)
+ */
+export async function resolveHandle(env: Env, handle: string, opts: IdentityResolverOptions = {}): Promise<string | null> {
+  const normalized = normalizeHandle(handle);
+  return handleCache.get(env, normalized, () => resolveHandleToDid(normalized, opts), opts);
+}
+
+/**
+ * Resolve a DID to its document (cached)
+ */
+export async function resolveDid(env: Env, did: string, opts: IdentityResolverOptions = {}): Promise<DidDocument | null> {
+  // Reject unsupported methods before touching the cache
+  getDidDocumentUrl(did);
+  return didDocumentCache.get(env, did, () => fetchDidDocument(did, opts), opts);
+}
+
+/**
+ * The handle claimed by a DID document (first `at://` alias)
+ */
+export function getHandleFromDidDoc(doc: DidDocument): string | null {
+  const aka = (doc.alsoKnownAs ?? []).find((value) => typeof value === 'string' && value.startsWith('at://'));
+  return aka ? normalizeHandle(aka.slice('at://'.length)) : null;
+}
+
+/**
+ * Resolve a handle or DID and check that both directions agree: the handle
+ * must resolve to the DID and the DID document must list the handle. When
+ * they disagree the identity is returned with `handle: null`.
+ */
+export async function resolveIdentity(env: Env, identifier: string, opts: IdentityResolverOptions = {}): Promise<ResolvedIdentity | null> {
+  if (identifier.startsWith('did:')) {
+    const didDoc = await resolveDid(env, identifier, opts);
+    if (!didDoc) return null;
+    const claimed = getHandleFromDidDoc(didDoc);
+    const handle = claimed && (await resolveHandle(env, claimed, opts)) === identifier ? claimed : null;
+    return { did: identifier, handle, didDoc };
+  }
+
+  const handle = normalizeHandle(identifier);
+  const did = await resolveHandle(env, handle, opts);
+  if (!did) return null;
+  const didDoc = await resolveDid(env, did, opts);
+  if (!didDoc) return null;
+  return { did, handle: getHandleFromDidDoc(didDoc) === handle ? handle : null, didDoc };
+}
+
+/**
+ * Forget cached lookups for a DID whose identity just changed: its document,
+ * the handle it is emitted with and the handle its cached document claimed
+ */
+export async function invalidateIdentity(env: Env, identity: { did: string; handle?: string }): Promise<void> {
+  const previous = await didDocumentCache.peek(env, identity.did).catch(() => null);
+  const handles = new Set<string>();
+  if (identity.handle) handles.add(normalizeHandle(identity.handle));
+  const claimed = previous ? getHandleFromDidDoc(previous) : null;
+  if (claimed) handles.add(claimed);
+
+  await didDocumentCache.invalidate(env, identity.did);
+  for (const handle of handles) {
+    await handleCache.invalidate(env, handle);
+  }
+}
@@ -0,0 +1,142 @@
+import type { Env } from '../env';
+import {
+  areInvitesDisabled,
+  countInviteCodesCreatedBy,
+  createInviteCodes,
+  getInviteCode,
+  getInviteCodeUses,
+  listInviteCodesForAccount,
+  reassignInviteCodeUse,
+  redeemInviteCode,
+  releaseInviteCodeUse,
+  type InviteCodeRow,
+} from '../db/invite';
+import { isMultiAccount } from './accounts';
+import { XRPCError } from './errors';
+import { generateInviteCode } from './password';
+
+/**
+ * Invite Codes
+ *
+ * In multi-account mode createAccount requires an invite code unless
+ * PDS_INVITE_REQUIRED=false. The operator mints codes with createInviteCode(s)
+ * (recorded as created by 'admin'); each account may additionally mint up to
+ * PDS_INVITE_CODES_PER_ACCOUNT single-use codes of its own through
+ * getAccountInviteCodes?createAvailable=true.
+ *
+ * A signup takes its use of the code before the DID is registered with PLC,
+ * recorded under a placeholder until the account exists, so signups racing
+ * for the last use cannot leave an orphaned did:plc.
+ */
+
+/** createdBy / forAccount value of operator-issued codes */
+export const ADMIN_INVITE_ACCOUNT = 'admin';
+
+export interface InviteCodeView {
+  code: string;
+  available: number;
+  disabled: boolean;
+  forAccount: string;
+  createdBy: string;
+  createdAt: string;
+  uses: Array<{ usedBy: string; usedAt: string }>;
+}
+
+/** A use of an invite code held by a signup in progress */
+export interface InviteReservation {
+  code: string;
+  usedBy: string;
+}
+
+export function isInviteCodeRequired(env: Env): boolean {
+  return isMultiAccount(env) && String(env.PDS_INVITE_REQUIRED ?? 'true').toLowerCase() !== 'false';
+}
+
+export function getInviteAllowance(env: Env): number {
+  const allowance = parseInt(env.PDS_INVITE_CODES_PER_ACCOUNT ?? '0', 10);
+  return Number.isInteger(allowance) && allowance > 0 ? allowance : 0;
+}
+
+/**
+ * Mint `count` codes of `useCount` uses each for `forAccount`
+ */
+export async function mintInviteCodes(env: Env, opts: {
+  count: number;
+  useCount: number;
+  forAccount: string;
+  createdBy: string;
+}): Promise<string[]> {
+  const hostname = env.PDS_HOSTNAME ?? 'pds';
+  const codes = Array.from({ length: opts.count }, () => generateInviteCode(hostname));
+  await createInviteCodes(
+    env,
+    codes.map((code) => ({ code, availableUses: opts.useCount, forAccount: opts.forAccount, createdBy: opts.createdBy })),
+  );
+  return codes;
+}
+
+/**
+ * Mint whatever is left of the account's allowance (nothing once an admin has
+ * disabled the account's invites)
+ */
+export async function mintAvailableInviteCodes(env: Env, did: string): Promise<string[]> {
+  if (await areInvitesDisabled(env, did)) return [];
+  const remaining = getInviteAllowance(env) - (await countInviteCodesCreatedBy(env, did));
+  if (remaining <= 0) return [];
+  return mintInviteCodes(env, { count: remaining, useCount: 1, forAccount: did, createdBy: did });
+}
+
+/**
+ * Take a use of `code` for a signup whose DID does not exist yet. Returns null
+ * when no code was given and none is required; throws InvalidInviteCode when
+ * the code is missing, unknown, disabled or used up.
+ */
+export async function reserveInviteUse(env: Env, code: string): Promise<InviteReservation | null> {
+  if (!code) {
+    if (isInviteCodeRequired(env)) throw new XRPCError('InvalidInviteCode', 'An invite code is required', 400);
+    return null;
+  }
+  const invite = await getInviteCode(env, code);
+  if (!invite || invite.disabled) throw new XRPCError('InvalidInviteCode', 'Invite code not recognized', 400);
+  const usedBy = `pending:${crypto.randomUUID()}`;
+  if (!(await redeemInviteCode(env, code, usedBy))) {
+    throw new XRPCError('InvalidInviteCode', 'Invite code has no uses left', 400);
+  }
+  return { code, usedBy };
+}
+
+/**
+ * Record the new account as the one that redeemed the reserved use
+ */
+export async function claimInviteUse(env: Env, reservation: InviteReservation | null, did: string): Promise<void> {
+  if (reservation) await reassignInviteCodeUse(env, reservation.code, reservation.usedBy, did);
+}
+
+/**
+ * Give the reserved use back after a failed signup
+ */
+export async function releaseInviteUse(env: Env, reservation: InviteReservation | null): Promise<void> {
+  if (reservation) await releaseInviteCodeUse(env, reservation.code, reservation.usedBy);
+}
+
+/**
+ * Codes issued to an account with their uses, as com.atproto.server.defs#inviteCode
+ */
+export async function getAccountInviteCodeViews(env: Env, did: string, opts: { includeUsed: boolean }): Promise<InviteCodeView[]> {
+  const rows = await listInviteCodesForAccount(env, did);
+  const uses = await getInviteCodeUses(env, rows.map((row) => row.code));
+  const views = rows.map((row) => toView(row, uses.filter((use) => use.code === row.code)));
+  return opts.includeUsed ? views : views.filter((view) => view.available > 0);
+}
+
+function toView(row: InviteCodeRow, uses: Array<{ usedBy: string; usedAt: number }>): InviteCodeView {
+  return {
+    code: row.code,
+    available: Math.max(row.availableUses - uses.length, 0),
+    disabled: row.disabled,
+    forAccount: row.forAccount,
+    createdBy: row.createdBy,
+    createdAt: new Date(row.createdAt).toISOString(),
+    uses: uses.map((use) => ({ usedBy: use.usedBy, usedAt: new Date(use.usedAt).toISOString() })),
+  };
+}
@@ -0,0 +1,81 @@
+import { CID } from 'multiformats/cid';
+import { isValidTid } from '../commit';
+
+/**
+ * Lexicon string formats
+ *
+ * Syntax checks follow the atproto specs (https://atproto.com/specs/lexicon#string-formats).
+ * They are deliberately syntactic only: no DNS, DID resolution or record lookups.
+ */
+
+const DATETIME_RE = /^[0-9]{4}-[01][0-9]-[0-3][0-9]T[0-2][0-9]:[0-6][0-9]:[0-6][0-9](\.[0-9]{1,20})?(Z|([+-][0-2][0-9]:[0-5][0-9]))$/;
+const DID_RE = /^did:[a-z]+:[a-zA-Z0-9._:%-]*[a-zA-Z0-9._-]$/;
+const HANDLE_RE = /^([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/;
+const NSID_RE = /^[a-zA-Z]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)+(\.[a-zA-Z]([a-zA-Z0-9]{0,62})?)$/;
+const URI_RE = /^\w+:(?:\/\/)?[^\s/][^\s]*$/;
+const LANGUAGE_RE = /^(i|[a-z]{2,3})(-[a-zA-Z0-9]+)*$/;
+const RECORD_KEY_RE = /^[a-zA-Z0-9_~.:-]{1,512}$/;
+
+export function isValidDatetime(value: string): boolean {
+  if (value.length > 64 || !DATETIME_RE.test(value)) return false;
+  if (value.endsWith('-00:00')) return false;
+  return !Number.isNaN(Date.parse(value));
+}
+
+export function isValidDid(value: string): boolean {
+  return value.length <= 2048 && DID_RE.test(value);
+}
+
+export function isValidHandleSyntax(value: string): boolean {
+  return value.length <= 253 && HANDLE_RE.test(value);
+}
+
+export function isValidNsid(value: string): boolean {
+  return value.length <= 317 && NSID_RE.test(value);
+}
+
+export function isValidRecordKey(value: string): boolean {
+  return value !== '.' && value !== '..' && RECORD_KEY_RE.test(value);
+}
+
+export function isValidAtUri(value: string): boolean {
+  if (value.length > 8192 || !value.startsWith('at://')) return false;
+  const [path, ...rest] = value.slice('at://'.length).split('#');
+  if (rest.length > 1) return false;
+  const parts = path.split('/');
+  const authority = parts[0];
+  if (!isValidDid(authority) && !isValidHandleSyntax(authority)) return false;
+  if (parts.length > 1 && parts[1] !== '' && !isValidNsid(parts[1])) return false;
+  if (parts.length > 2 && parts[2] !== '' && !isValidRecordKey(parts[2])) return false;
+  return parts.length <= 3;
+}
+
+export function isValidCid(value: string): boolean {
+  try {
+    CID.parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a string against a lexicon `format`. Unknown formats pass, matching
+ * the reference implementation's forward-compatibility behaviour.
+ */
+export function checkFormat(format: string, value: string): boolean {
+  switch (format) {
+    case 'datetime': return isValidDatetime(value);
+    case 'uri': return value.length <= 8192 && URI_RE.test(value);
+    case 'at-uri': return isValidAtUri(value);
+    case 'did': return isValidDid(value);
+    case 'handle': return isValidHandleSyntax(value);
+    case 'at-identifier': return isValidDid(value) || isValidHandleSyntax(value);
+    case 'nsid': return isValidNsid(value);
+    case 'cid': return isValidCid(value);
+    case 'language': return LANGUAGE_RE.test(value);
+    case 'tid': return isValidTid(value);
+    case 'record-key': return isValidRecordKey(value);
+    default: return true;
+  }
+}
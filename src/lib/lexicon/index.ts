@@ -0,0 +1,2 @@
+export { validateRecord, hasRecordLexicon, type ValidationStatus } from './validator';
+export { checkFormat } from './formats';
@@ -0,0 +1,256 @@
+import { CID } from 'multiformats/cid';
+import { InvalidRecord } from '../errors';
+import { checkFormat } from './formats';
+import lexiconDocs from './lexicons.json';
+
+/**
+ * Lexicon record validation
+ *
+ * Validates record JSON (as sent to createRecord/putRecord/applyWrites) against the
+ * record lexicons in lexicons.json, regenerated with `bun scripts/generate-lexicons.ts`.
+ * Blobs, CID links and bytes are expected in their JSON forms
+ * (`{$type:'blob',ref:{$link}}`, `{$link}`, `{$bytes}`).
+ */
+
+export type ValidationStatus = 'valid' | 'unknown';
+
+interface LexDef {
+  type: string;
+  [key: string]: any;
+}
+
+interface LexiconDoc {
+  id: string;
+  defs: Record<string, LexDef>;
+}
+
+const defs = new Map<string, LexDef>();
+for (const doc of lexiconDocs as unknown as LexiconDoc[]) {
+  for (const [name, def] of Object.entries(doc.defs)) {
+    defs.set(`${doc.id}#${name}`, def);
+  }
+}
+
+/**
+ * Whether a record lexicon is shipped for this collection
+ */
+export function hasRecordLexicon(collection: string): boolean {
+  return defs.get(`${collection}#main`)?.type === 'record';
+}
+
+/**
+ * Validate a record for a write, mirroring the reference PDS:
+ * - `validate: false` skips validation (no status is reported)
+ * - known collections are always validated and throw InvalidRecord on failure
+ * - unknown collections are accepted as 'unknown' unless `validate: true`
+ */
+export function validateRecord(
+  collection: string,
+  rkey: string | undefined,
+  record: unknown,
+  validate?: boolean,
+): ValidationStatus | undefined {
+  if (validate === false) return undefined;
+
+  const def = defs.get(`${collection}#main`);
+  if (!def || def.type !== 'record') {
+    if (validate === true) throw new InvalidRecord(`Lexicon not found: ${collection}`);
+    return 'unknown';
+  }
+
+  if (!isObject(record)) throw new InvalidRecord('Record must be an object');
+  if (record.$type !== collection) {
+    throw new InvalidRecord(`Invalid $type: expected ${collection}, got ${String(record.$type)}`);
+  }
+  if (typeof def.key === 'string' && def.key.startsWith('literal:') && rkey !== undefined) {
+    const literal = def.key.slice('literal:'.length);
+    if (rkey !== literal) throw new InvalidRecord(`Record key must be "${literal}" for ${collection}`);
+  }
+
+  validateValue(def.record, record, 'Record', collection);
+  return 'valid';
+}
+
+function fail(message: string): never {
+  throw new InvalidRecord(message);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function resolveRef(ref: string, nsid: string): { key: string; nsid: string } {
+  const full = ref.startsWith('#') ? `${nsid}${ref}` : ref.includes('#') ? ref : `${ref}#main`;
+  return { key: full, nsid: full.split('#')[0] };
+}
+
+function utf8Length(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
+
+let segmenter: Intl.Segmenter | undefined;
+function graphemeLength(value: string): number {
+  if (typeof Intl !== 'undefined' && typeof (Intl as any).Segmenter === 'function') {
+    segmenter ??= new Intl.Segmenter();
+    let n = 0;
+    for (const _ of segmenter.segment(value)) n++;
+    return n;
+  }
+  return Array.from(value).length;
+}
+
+function validateValue(def: LexDef, value: unknown, path: string, nsid: string): void {
+  switch (def.type) {
+    case 'ref': {
+      const target = resolveRef(def.ref, nsid);
+      const targetDef = defs.get(target.key);
+      if (!targetDef) fail(`${path}: lexicon definition not found: ${target.key}`);
+      return validateValue(targetDef, value, path, target.nsid);
+    }
+    case 'union':
+      return validateUnion(def, value, path, nsid);
+    case 'object':
+      return validateObject(def, value, path, nsid);
+    case 'array': {
+      if (!Array.isArray(value)) fail(`${path} must be an array`);
+      if (typeof def.maxLength === 'number' && value.length > def.maxLength) {
+        fail(`${path} must not have more than ${def.maxLength} elements`);
+      }
+      if (typeof def.minLength === 'number' && value.length < def.minLength) {
+        fail(`${path} must not have fewer than ${def.minLength} elements`);
+      }
+      value.forEach((item, i) => validateValue(def.items, item, `${path}/${i}`, nsid));
+      return;
+    }
+    case 'string':
+      return validateString(def, value, path);
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isInteger(value)) fail(`${path} must be an integer`);
+      if (def.const !== undefined && value !== def.const) fail(`${path} must be ${def.const}`);
+      if (Array.isArray(def.enum) && !def.enum.includes(value)) fail(`${path} must be one of (${def.enum.join('|')})`);
+      if (typeof def.maximum === 'number' && value > def.maximum) fail(`${path} can not be greater than ${def.maximum}`);
+      if (typeof def.minimum === 'number' && value < def.minimum) fail(`${path} can not be less than ${def.minimum}`);
+      return;
+    }
+    case 'boolean': {
+      if (typeof value !== 'boolean') fail(`${path} must be a boolean`);
+      if (def.const !== undefined && value !== def.const) fail(`${path} must be ${def.const}`);
+      return;
+    }
+    case 'blob':
+      return validateBlob(def, value, path);
+    case 'cid-link': {
+      if (!isObject(value) || typeof value.$link !== 'string') fail(`${path} must be a CID link`);
+      try { CID.parse(value.$link); } catch { fail(`${path} must be a CID link`); }
+      return;
+    }
+    case 'bytes': {
+      if (!isObject(value) || typeof value.$bytes !== 'string') fail(`${path} must be a byte array`);
+      let len: number;
+      try { len = atob(value.$bytes.replace(/-/g, '+').replace(/_/g, '/')).length; } catch { fail(`${path} must be a byte array`); }
+      if (typeof def.maxLength === 'number' && len > def.maxLength) fail(`${path} must not be larger than ${def.maxLength} bytes`);
+      if (typeof def.minLength === 'number' && len < def.minLength) fail(`${path} must not be smaller than ${def.minLength} bytes`);
+      return;
+    }
+    case 'unknown':
+      if (!isObject(value)) fail(`${path} must be an object`);
+      return;
+    case 'null':
+      if (value !== null) fail(`${path} must be null`);
+      return;
+    default:
+      fail(`${path}: unexpected lexicon type ${def.type}`);
+  }
+}
+
+function validateObject(def: LexDef, value: unknown, path: string, nsid: string): void {
+  if (!isObject(value)) fail(`${path} must be an object`);
+  const properties: Record<string, LexDef> = def.properties ?? {};
+  const nullable: string[] = Array.isArray(def.nullable) ? def.nullable : [];
+
+  for (const key of (def.required ?? []) as string[]) {
+    if (value[key] === undefined || (value[key] === null && !nullable.includes(key))) {
+      fail(`${path} must have the property "${key}"`);
+    }
+  }
+
+  for (const [key, propDef] of Object.entries(properties)) {
+    const v = value[key];
+    if (v === undefined) continue;
+    if (v === null && nullable.includes(key)) continue;
+    validateValue(propDef, v, `${path}/${key}`, nsid);
+  }
+}
+
+function validateUnion(def: LexDef, value: unknown, path: string, nsid: string): void {
+  if (!isObject(value) || typeof value.$type !== 'string') {
+    fail(`${path} must be an object which includes the "$type" property`);
+  }
+  const $type = value.$type.endsWith('#main') ? value.$type.slice(0, -'#main'.length) : value.$type;
+  const refs: string[] = Array.isArray(def.refs) ? def.refs : [];
+  for (const ref of refs) {
+    const target = resolveRef(ref, nsid);
+    const short = target.key.endsWith('#main') ? target.nsid : target.key;
+    if (short === $type) {
+      const targetDef = defs.get(target.key);
+      if (!targetDef) fail(`${path}: lexicon definition not found: ${target.key}`);
+      return validateValue(targetDef, value, path, target.nsid);
+    }
+  }
+  if (def.closed) fail(`${path} $type must be one of ${refs.join(', ')}`);
+  // Open unions accept types we don't know about
+}
+
+function validateString(def: LexDef, value: unknown, path: string): void {
+  if (typeof value !== 'string') fail(`${path} must be a string`);
+  if (def.const !== undefined && value !== def.const) fail(`${path} must be ${def.const}`);
+  if (Array.isArray(def.enum) && !def.enum.includes(value)) fail(`${path} must be one of (${def.enum.join('|')})`);
+
+  if (typeof def.maxLength === 'number' || typeof def.minLength === 'number') {
+    // Lexicon string lengths count UTF-8 bytes
+    const len = utf8Length(value);
+    if (typeof def.maxLength === 'number' && len > def.maxLength) fail(`${path} must not be longer than ${def.maxLength} characters`);
+    if (typeof def.minLength === 'number' && len < def.minLength) fail(`${path} must not be shorter than ${def.minLength} characters`);
+  }
+  if (typeof def.maxGraphemes === 'number' || typeof def.minGraphemes === 'number') {
+    const len = graphemeLength(value);
+    if (typeof def.maxGraphemes === 'number' && len > def.maxGraphemes) fail(`${path} must not be longer than ${def.maxGraphemes} graphemes`);
+    if (typeof def.minGraphemes === 'number' && len < def.minGraphemes) fail(`${path} must not be shorter than ${def.minGraphemes} graphemes`);
+  }
+  if (typeof def.format === 'string' && !checkFormat(def.format, value)) {
+    fail(`${path} must be a valid ${def.format}`);
+  }
+}
+
+function validateBlob(def: LexDef, value: unknown, path: string): void {
+  if (!isObject(value)) fail(`${path} should be a blob ref`);
+
+  let mimeType: unknown;
+  let size: number | undefined;
+  if (value.$type === 'blob') {
+    if (!isObject(value.ref) || typeof value.ref.$link !== 'string') fail(`${path} should be a blob ref`);
+    try { CID.parse(value.ref.$link); } catch { fail(`${path} should be a blob ref`); }
+    if (typeof value.size !== 'number' || !Number.isInteger(value.size) || value.size < 0) fail(`${path} should be a blob ref`);
+    mimeType = value.mimeType;
+    size = value.size;
+  } else if (typeof value.cid === 'string') {
+    // Legacy blob ref: { cid, mimeType }
+    mimeType = value.mimeType;
+  } else {
+    fail(`${path} should be a blob ref`);
+  }
+  if (typeof mimeType !== 'string' || mimeType === '') fail(`${path} should be a blob ref`);
+
+  if (Array.isArray(def.accept) && !def.accept.some((pattern: string) => mimeMatches(pattern, mimeType as string))) {
+    fail(`${path} mime type ${mimeType} is not accepted (expected ${def.accept.join(', ')})`);
+  }
+  if (typeof def.maxSize === 'number' && size !== undefined && size > def.maxSize) {
+    fail(`${path} is too big: ${size} bytes (max ${def.maxSize})`);
+  }
+}
+
+function mimeMatches(pattern: string, mime: string): boolean {
+  if (pattern === '*/*') return true;
+  if (pattern.endsWith('/*')) return mime.startsWith(pattern.slice(0, -1));
+  return pattern === mime;
+}
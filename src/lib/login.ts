@@ -0,0 +1,80 @@
+import { drizzle } from 'drizzle-orm/d1';
+import { eq } from 'drizzle-orm';
+import type { Env } from '../env';
+import { login_attempts } from '../db/schema';
+import { createAccount, getAccountByIdentifier, type AccountRow } from '../db/account';
+import { getAccountState } from '../db/dal';
+import { hashPassword } from './password';
+import { getRuntimeString } from './secrets';
+
+/**
+ * Password sign-in shared by createSession and the OAuth sign-in page: the
+ * single-user account bootstrap from USER_PASSWORD and per-IP lockout after
+ * repeated failures.
+ */
+
+const MAX_LOGIN_ATTEMPTS = 5;
+const LOCKOUT_DURATION_SEC = 15 * 60; // 15 minutes
+
+export function getClientIp(request: Request): string {
+  return request.headers.get('cf-connecting-ip') || request.headers.get('x-forwarded-for') || 'unknown';
+}
+
+/**
+ * Seconds until the IP may try again; 0 when it is not locked out
+ */
+export async function getLoginLockout(env: Env, ip: string): Promise<number> {
+  const db = drizzle(env.DB);
+  const now = Math.floor(Date.now() / 1000);
+  const attempt = await db.select().from(login_attempts).where(eq(login_attempts.ip, ip)).get();
+  return attempt?.locked_until && attempt.locked_until > now ? attempt.locked_until - now : 0;
+}
+
+/**
+ * Count a failed attempt; true when it locked the IP out
+ */
+export async function recordFailedLogin(env: Env, ip: string): Promise<boolean> {
+  const db = drizzle(env.DB);
+  const now = Math.floor(Date.now() / 1000);
+  const attempt = await db.select().from(login_attempts).where(eq(login_attempts.ip, ip)).get();
+  const attempts = (attempt?.attempts || 0) + 1;
+  const lockedUntil = attempts >= MAX_LOGIN_ATTEMPTS ? now + LOCKOUT_DURATION_SEC : null;
+
+  if (attempt) {
+    await db.update(login_attempts)
+      .set({ attempts, locked_until: lockedUntil, last_attempt: now })
+      .where(eq(login_attempts.ip, ip))
+      .run();
+  } else {
+    await db.insert(login_attempts).values({ ip, attempts, locked_until: lockedUntil, last_attempt: now }).run();
+  }
+  return lockedUntil !== null;
+}
+
+export async function clearFailedLogins(env: Env, ip: string): Promise<void> {
+  const db = drizzle(env.DB);
+  await db.delete(login_attempts).where(eq(login_attempts.ip, ip)).run();
+}
+
+/**
+ * Account for a sign-in identifier (handle or DID). A single-user deployment
+ * that has never had a session gets its account row created from USER_PASSWORD.
+ */
+export async function findLoginAccount(env: Env, identifier: string): Promise<AccountRow | null> {
+  const account = await getAccountByIdentifier(env, identifier);
+  if (account) return account;
+
+  const fallbackPassword = await getRuntimeString(env, 'USER_PASSWORD', '');
+  const fallbackDid = (await getRuntimeString(env, 'PDS_DID', 'did:example:single-user')) ?? 'did:example:single-user';
+  // A deleted account stays deleted even though USER_PASSWORD is still configured
+  const deleted = (await getAccountState(env, fallbackDid))?.status === 'deleted';
+  if (!fallbackPassword || deleted) return null;
+
+  const fallbackHandle = (await getRuntimeString(env, 'PDS_HANDLE', identifier)) ?? identifier;
+  await createAccount(env, {
+    did: fallbackDid,
+    handle: fallbackHandle,
+    passwordScrypt: await hashPassword(fallbackPassword),
+  });
+  return getAccountByIdentifier(env, identifier);
+}
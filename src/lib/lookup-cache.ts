@@ -0,0 +1,271 @@
+import type { Env } from '../env';
+import { deleteIdentityCacheEntry, getIdentityCacheEntry, putIdentityCacheEntry } from '../db/dal';
+import { resolveDefaultCache } from './cache';
+import { logger } from './logger';
+import { metrics, METRICS } from './metrics';
+
+/**
+ * Lookup Cache
+ *
+ * Two-tier cache for remote lookups: DID documents, handles and OAuth client
+ * metadata. Each isolate keeps a small LRU in memory; behind it sits a shared
+ * store that survives isolate restarts, selected with PDS_LOOKUP_CACHE:
+ * the `identity_cache` D1 table (default), the Cache API, or nothing.
+ *
+ * Misses are cached for a shorter time than hits. Fresh entries are returned
+ * as-is, stale ones are returned while a background refresh runs, and expired
+ * ones are loaded again before answering (falling back to the expired value if
+ * the load fails).
+ */
+
+export interface CacheEntry {
+  /** JSON, or null for a cached miss */
+  value: string | null;
+  updatedAt: number;
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | null>;
+  put(key: string, entry: CacheEntry, maxAgeMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface LookupCacheOptions {
+  /** Key namespace in the shared store and metrics label */
+  name: string;
+  /** Age after which a hit is refreshed in the background */
+  staleMs: number;
+  /** Age after which a hit is no longer served without a refresh */
+  maxAgeMs: number;
+  /** Age after which a cached miss is retried */
+  negativeTtlMs: number;
+  /** Entries kept in memory per isolate */
+  maxEntries?: number;
+}
+
+export interface LookupOptions {
+  /** Keeps background refreshes alive after the response is sent (ctx.waitUntil) */
+  waitUntil?: (promise: Promise<unknown>) => void;
+  /** Skip cached values and load (the result is still cached) */
+  noCache?: boolean;
+}
+
+export interface LookupCacheStats {
+  name: string;
+  hits: number;
+  stale: number;
+  misses: number;
+  hitRate: number;
+  memoryEntries: number;
+}
+
+type LookupResult = 'hit' | 'stale' | 'miss';
+
+const CACHE_API_ORIGIN = 'https://lookup-cache.invalid';
+
+class D1Store implements CacheStore {
+  constructor(private env: Env) {}
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const row = await getIdentityCacheEntry(this.env, key);
+    return row ? { value: row.value, updatedAt: row.updatedAt } : null;
+  }
+
+  async put(key: string, entry: CacheEntry): Promise<void> {
+    await putIdentityCacheEntry(this.env, { key, ...entry });
+  }
+
+  async delete(key: string): Promise<void> {
+    await deleteIdentityCacheEntry(this.env, key);
+  }
+}
+
+class CacheApiStore implements CacheStore {
+  constructor(private cache: Cache) {}
+
+  private request(key: string): Request {
+    return new Request(`${CACHE_API_ORIGIN}/${encodeURIComponent(key)}`);
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const res = await this.cache.match(this.request(key));
+    return res ? ((await res.json()) as CacheEntry) : null;
+  }
+
+  async put(key: string, entry: CacheEntry, maxAgeMs: number): Promise<void> {
+    const res = new Response(JSON.stringify(entry), {
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': `max-age=${Math.ceil(maxAgeMs / 1000)}` },
+    });
+    await this.cache.put(this.request(key), res);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.cache.delete(this.request(key));
+  }
+}
+
+const noStore: CacheStore = {
+  async get() {
+    return null;
+  },
+  async put() {},
+  async delete() {},
+};
+
+function getStore(env: Env): CacheStore {
+  const kind = String(env.PDS_LOOKUP_CACHE ?? 'd1').toLowerCase();
+  if (kind === 'memory') return noStore;
+  if (kind === 'cache-api') {
+    const cache = resolveDefaultCache();
+    return cache ? new CacheApiStore(cache) : noStore;
+  }
+  return new D1Store(env);
+}
+
+const registry: LookupCache<unknown>[] = [];
+
+export class LookupCache<T> {
+  private memory = new Map<string, CacheEntry>();
+  private counts: Record<LookupResult, number> = { hit: 0, stale: 0, miss: 0 };
+
+  constructor(readonly options: LookupCacheOptions) {
+    registry.push(this as LookupCache<unknown>);
+  }
+
+  /**
+   * Cached value for `key`, calling `load` when there is none or it has expired.
+   * `load` returns null for "does not exist" (cached as a miss) and throws for
+   * failures (not cached).
+   */
+  async get(env: Env, key: string, load: () => Promise<T | null>, opts: LookupOptions = {}): Promise<T | null> {
+    const store = getStore(env);
+    const refresh = async () => {
+      const value = await load();
+      await this.write(store, key, { value: value === null ? null : JSON.stringify(value), updatedAt: Date.now() });
+      return value;
+    };
+
+    const entry = opts.noCache ? null : await this.read(store, key);
+    if (!entry) {
+      this.count('miss');
+      return refresh();
+    }
+
+    const age = Date.now() - entry.updatedAt;
+    if (entry.value === null) {
+      if (age < this.options.negativeTtlMs) {
+        this.count('hit');
+        return null;
+      }
+      this.count('miss');
+      return refresh();
+    }
+
+    const value = JSON.parse(entry.value) as T;
+    if (age < this.options.staleMs) {
+      this.count('hit');
+      return value;
+    }
+
+    if (age < this.options.maxAgeMs) {
+      this.count('stale');
+      const pending = refresh().catch((error) => {
+        logger.warn('lookup-cache', { message: 'Background refresh failed', cache: this.options.name, key, error: String(error) });
+      });
+      opts.waitUntil?.(pending);
+      return value;
+    }
+
+    this.count('miss');
+    try {
+      return await refresh();
+    } catch (error) {
+      // An outdated answer beats none while the source is unreachable
+      logger.warn('lookup-cache', { message: 'Serving expired entry', cache: this.options.name, key, error: String(error) });
+      return value;
+    }
+  }
+
+  /**
+   * Cached value for `key` regardless of age, without loading
+   */
+  async peek(env: Env, key: string): Promise<T | null> {
+    const entry = await this.read(getStore(env), key);
+    return entry?.value ? (JSON.parse(entry.value) as T) : null;
+  }
+
+  async invalidate(env: Env, key: string): Promise<void> {
+    this.memory.delete(key);
+    await getStore(env)
+      .delete(this.storeKey(key))
+      .catch((error) => {
+        logger.warn('lookup-cache', { message: 'Failed to invalidate entry', cache: this.options.name, key, error: String(error) });
+      });
+  }
+
+  /** Drop the in-memory tier and counters (the shared store is left alone) */
+  clear(): void {
+    this.memory.clear();
+    this.counts = { hit: 0, stale: 0, miss: 0 };
+  }
+
+  stats(): LookupCacheStats {
+    const { hit, stale, miss } = this.counts;
+    const total = hit + stale + miss;
+    return {
+      name: this.options.name,
+      hits: hit,
+      stale,
+      misses: miss,
+      hitRate: total ? (hit + stale) / total : 0,
+      memoryEntries: this.memory.size,
+    };
+  }
+
+  private storeKey(key: string): string {
+    return `${this.options.name}:${key}`;
+  }
+
+  private async read(store: CacheStore, key: string): Promise<CacheEntry | null> {
+    const cached = this.memory.get(key);
+    if (cached) {
+      // Re-insert to mark as most recently used
+      this.memory.delete(key);
+      this.memory.set(key, cached);
+      return cached;
+    }
+    const stored = await store.get(this.storeKey(key)).catch(() => null);
+    if (stored) this.remember(key, stored);
+    return stored;
+  }
+
+  private async write(store: CacheStore, key: string, entry: CacheEntry): Promise<void> {
+    this.remember(key, entry);
+    const ttl = entry.value === null ? this.options.negativeTtlMs : this.options.maxAgeMs;
+    await store.put(this.storeKey(key), entry, ttl).catch((error) => {
+      logger.warn('lookup-cache', { message: 'Failed to write entry', cache: this.options.name, key, error: String(error) });
+    });
+  }
+
+  private remember(key: string, entry: CacheEntry): void {
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+    const max = this.options.maxEntries ?? 1000;
+    while (this.memory.size > max) {
+      const oldest = this.memory.keys().next().value as string;
+      this.memory.delete(oldest);
+    }
+  }
+
+  private count(result: LookupResult): void {
+    this.counts[result]++;
+    metrics.increment(METRICS.LOOKUP_CACHE_TOTAL, 1, { cache: this.options.name, result });
+  }
+}
+
+/**
+ * Hit rates of every lookup cache in this isolate
+ */
+export function getLookupCacheStats(): LookupCacheStats[] {
+  return registry.map((cache) => cache.stats());
+}
@@ -0,0 +1,284 @@
+import type { Env } from '../env';
+import { cleanupExpiredEmailTokens } from '../db/account';
+import { cleanupExpiredDeviceSessions } from '../db/oauth';
+import {
+  listMaintenanceJobStates,
+  pruneIdentityCache,
+  saveMaintenanceJobState,
+  type MaintenanceJobRow,
+} from '../db/dal';
+import { rotateAccessTokenKeyIfDue } from './access-token-keys';
+import { deleteExpiredDeactivatedAccounts } from './account-deletion';
+import { BLOB_GC_GRACE_MS, backfillBlobUsage, deleteOrphanBlobs } from './blob-gc';
+import { pruneOrphanedBlocks } from './blockstore-gc';
+import { convertLegacyBlocks } from './blockstore-migration';
+import { pruneOldCommits } from './commit-log-pruning';
+import { EMAIL_TOKEN_TTL_MS } from './email';
+import { IDENTITY_CACHE_MAX_AGE_MS } from './identity';
+import { logger } from './logger';
+import { pruneRateLimitWindows } from './ratelimit';
+import { ACCESS_TTL_SECONDS } from './session-tokens';
+import { cleanupExpiredTokens } from './token-cleanup';
+
+/**
+ * Scheduled Maintenance
+ *
+ * The Worker's `scheduled` handler runs every due job in the registry. Each job
+ * gets a wall-clock budget; jobs that can work incrementally stop at the
+ * deadline and return a cursor, which is persisted in `maintenance_job` and
+ * handed back on the next invocation (a pending cursor makes the job due
+ * immediately). Budgets are cooperative: a job that cannot be split is
+ * expected to finish within its budget.
+ */
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Total time for one invocation; Cron Triggers get 30s of CPU by default */
+export const DEFAULT_MAINTENANCE_BUDGET_MS = 25_000;
+
+export interface MaintenanceRun {
+  /** Cursor saved by the previous run when it stopped early */
+  cursor: string | null;
+  /** Epoch ms to stop by */
+  deadline: number;
+}
+
+export interface MaintenanceResult {
+  /** Set when there is work left; the job resumes from here next time */
+  cursor?: string | null;
+  /** Summary shown in the /debug report */
+  result?: Record<string, unknown>;
+}
+
+export interface MaintenanceJob {
+  name: string;
+  /** Minimum time between completed runs */
+  intervalMs: number;
+  /** Wall-clock budget for a single invocation */
+  budgetMs: number;
+  run(env: Env, run: MaintenanceRun): Promise<MaintenanceResult>;
+}
+
+export interface MaintenanceJobStatus {
+  name: string;
+  intervalMs: number | null;
+  budgetMs: number | null;
+  lastRunAt: number | null;
+  lastStatus: string | null;
+  lastError: string | null;
+  lastResult: Record<string, unknown> | null;
+  lastDurationMs: number | null;
+  cursor: string | null;
+  nextRunAt: number | null;
+}
+
+export interface RunMaintenanceOptions {
+  jobs?: MaintenanceJob[];
+  budgetMs?: number;
+  /** Run these jobs even if they are not due */
+  force?: string[];
+  now?: () => number;
+}
+
+export const DEFAULT_MAINTENANCE_JOBS: MaintenanceJob[] = [
+  {
+    name: 'token-cleanup',
+    intervalMs: HOUR,
+    budgetMs: 5_000,
+    async run(env) {
+      const refreshTokens = await cleanupExpiredTokens(env);
+      const emailTokens = await cleanupExpiredEmailTokens(env, Date.now() - EMAIL_TOKEN_TTL_MS);
+      const deviceSessions = await cleanupExpiredDeviceSessions(env, Date.now());
+      return { result: { refreshTokens, emailTokens, deviceSessions } };
+    },
+  },
+  {
+    name: 'rate-limit-cleanup',
+    intervalMs: HOUR,
+    budgetMs: 5_000,
+    async run(env) {
+      // Only the current window is consulted; keep the previous one for in-flight requests
+      const removed = await pruneRateLimitWindows(env, Date.now() - MINUTE);
+      return { result: { removed } };
+    },
+  },
+  {
+    name: 'access-token-key-rotation',
+    intervalMs: DAY,
+    budgetMs: 5_000,
+    async run(env) {
+      const { rotated, removed } = await rotateAccessTokenKeyIfDue(env, { accessTtlSeconds: ACCESS_TTL_SECONDS });
+      return { result: { rotated, removed: removed.length } };
+    },
+  },
+  {
+    name: 'deactivated-account-deletion',
+    intervalMs: HOUR,
+    budgetMs: 5_000,
+    async run(env, { deadline }) {
+      const { deleted, remaining } = await deleteExpiredDeactivatedAccounts(env, { deadline });
+      // Any cursor makes the job due again next invocation; the list itself is the progress
+      return { cursor: remaining ? 'pending' : null, result: { deleted } };
+    },
+  },
+  {
+    name: 'identity-cache-cleanup',
+    intervalMs: DAY,
+    budgetMs: 5_000,
+    async run(env) {
+      // Entries past their max age are never served, only re-resolved
+      const removed = await pruneIdentityCache(env, Date.now() - IDENTITY_CACHE_MAX_AGE_MS);
+      return { result: { removed } };
+    },
+  },
+  {
+    name: 'commit-log-pruning',
+    intervalMs: DAY,
+    budgetMs: 5_000,
+    async run(env) {
+      const pruned = await pruneOldCommits(env);
+      return { result: { pruned } };
+    },
+  },
+  {
+    name: 'blockstore-gc',
+    intervalMs: DAY,
+    budgetMs: 10_000,
+    async run(env, { cursor, deadline }) {
+      const outcome = await pruneOrphanedBlocks(env, { cursor, deadline });
+      if (outcome.waitingForImport) return { result: { removed: 0, waitingFor: 'repo_import' } };
+      return { cursor: outcome.cursor, result: { removed: outcome.removed } };
+    },
+  },
+  {
+    name: 'blockstore-binary-migration',
+    intervalMs: DAY,
+    budgetMs: 10_000,
+    async run(env, { cursor, deadline }) {
+      const outcome = await convertLegacyBlocks(env, { after: cursor, deadline });
+      return { cursor: outcome.cursor, result: { converted: outcome.converted } };
+    },
+  },
+  {
+    name: 'blob-usage-backfill',
+    // Writes keep usage current; the weekly pass repairs anything they missed
+    intervalMs: 7 * DAY,
+    budgetMs: 5_000,
+    async run(env, { cursor, deadline }) {
+      const outcome = await backfillBlobUsage(env, { after: cursor, deadline });
+      return { cursor: outcome.cursor, result: { records: outcome.records } };
+    },
+  },
+  {
+    name: 'blob-gc',
+    intervalMs: DAY,
+    budgetMs: 5_000,
+    async run(env, { cursor, deadline }) {
+      // Until the backfill has been through every record, missing usage does not mean unused
+      const backfill = (await listMaintenanceJobStates(env)).find((s) => s.name === 'blob-usage-backfill');
+      if (backfill?.lastStatus !== 'ok') return { result: { deleted: 0, waitingFor: 'blob-usage-backfill' } };
+      const outcome = await deleteOrphanBlobs(env, { after: cursor, deadline, uploadedBefore: Date.now() - BLOB_GC_GRACE_MS });
+      return { cursor: outcome.cursor, result: { deleted: outcome.deleted } };
+    },
+  },
+];
+
+function isDue(job: MaintenanceJob, state: MaintenanceJobRow | undefined, now: number): boolean {
+  if (!state?.lastRunAt || state.cursor !== null) return true;
+  return now >= state.lastRunAt + job.intervalMs;
+}
+
+/**
+ * Run every due job once, in registry order, within the overall budget.
+ * Jobs that do not fit in the remaining budget wait for the next invocation.
+ */
+export async function runMaintenance(env: Env, options: RunMaintenanceOptions = {}): Promise<MaintenanceJobStatus[]> {
+  const jobs = options.jobs ?? DEFAULT_MAINTENANCE_JOBS;
+  const now = options.now ?? Date.now;
+  const force = new Set(options.force ?? []);
+  const stopAt = now() + (options.budgetMs ?? DEFAULT_MAINTENANCE_BUDGET_MS);
+  const states = new Map((await listMaintenanceJobStates(env)).map((s) => [s.name, s]));
+
+  for (const job of jobs) {
+    const state = states.get(job.name);
+    if (!force.has(job.name) && !isDue(job, state, now())) continue;
+    if (now() + job.budgetMs > stopAt) {
+      logger.info('maintenance', { message: 'Out of budget, deferring job', job: job.name });
+      continue;
+    }
+
+    const startedAt = now();
+    const cursor = state?.cursor ?? null;
+    let next: Omit<MaintenanceJobRow, 'updatedAt'>;
+    try {
+      const outcome = await job.run(env, { cursor, deadline: startedAt + job.budgetMs });
+      const nextCursor = outcome.cursor ?? null;
+      const durationMs = now() - startedAt;
+      next = {
+        name: job.name,
+        lastRunAt: startedAt,
+        lastStatus: nextCursor === null ? 'ok' : 'partial',
+        lastError: null,
+        lastResult: outcome.result ? JSON.stringify(outcome.result) : null,
+        lastDurationMs: durationMs,
+        cursor: nextCursor,
+      };
+      if (durationMs > job.budgetMs) {
+        logger.warn('maintenance', { message: 'Job overran its budget', job: job.name, duration: durationMs, budgetMs: job.budgetMs });
+      }
+    } catch (error) {
+      logger.error('maintenance', { message: 'Job failed', job: job.name, error: String(error) });
+      // Keep the cursor so the retry resumes where the failed run started
+      next = {
+        name: job.name,
+        lastRunAt: startedAt,
+        lastStatus: 'error',
+        lastError: error instanceof Error ? error.message : String(error),
+        lastResult: null,
+        lastDurationMs: now() - startedAt,
+        cursor,
+      };
+    }
+    await saveMaintenanceJobState(env, next);
+    states.set(job.name, { ...next, updatedAt: now() });
+  }
+
+  return describeJobs(jobs, [...states.values()]);
+}
+
+/**
+ * Registry jobs merged with their persisted state, plus state rows for jobs no longer registered
+ */
+export async function getMaintenanceStatus(env: Env, jobs: MaintenanceJob[] = DEFAULT_MAINTENANCE_JOBS): Promise<MaintenanceJobStatus[]> {
+  return describeJobs(jobs, await listMaintenanceJobStates(env));
+}
+
+function describeJobs(jobs: MaintenanceJob[], states: MaintenanceJobRow[]): MaintenanceJobStatus[] {
+  const byName = new Map(states.map((s) => [s.name, s]));
+  const describe = (name: string, job: MaintenanceJob | undefined): MaintenanceJobStatus => {
+    const state = byName.get(name);
+    let nextRunAt: number | null = null;
+    if (job) {
+      nextRunAt = !state?.lastRunAt || state.cursor !== null ? 0 : state.lastRunAt + job.intervalMs;
+    }
+    return {
+      name,
+      intervalMs: job?.intervalMs ?? null,
+      budgetMs: job?.budgetMs ?? null,
+      lastRunAt: state?.lastRunAt ?? null,
+      lastStatus: state?.lastStatus ?? null,
+      lastError: state?.lastError ?? null,
+      lastResult: state?.lastResult ? JSON.parse(state.lastResult) : null,
+      lastDurationMs: state?.lastDurationMs ?? null,
+      cursor: state?.cursor ?? null,
+      nextRunAt,
+    };
+  };
+  const known = new Set(jobs.map((j) => j.name));
+  return [
+    ...jobs.map((job) => describe(job.name, job)),
+    ...states.filter((s) => !known.has(s.name)).map((s) => describe(s.name, undefined)),
+  ];
+}
@@ -151,6 +151,7 @@ export const METRICS = {
   RATE_LIMIT_HITS: 'rate_limit_hits',
   WS_CLIENTS: 'ws_clients',
   ERRORS_TOTAL: 'errors_total',
+  LOOKUP_CACHE_TOTAL: 'lookup_cache_total',
 
   // Histograms
   REQUEST_DURATION_MS: 'request_duration_ms',
@@ -0,0 +1,138 @@
+import type { Env } from '../env';
+import { deleteRefreshTokensForDid } from '../db/account';
+import { getAccountState, setAccountStatus } from '../db/dal';
+import {
+  deleteTakedown,
+  getTakedown,
+  listTakedownSubjects,
+  listTakendownRecordCids,
+  listWithheldRecordCids,
+  putTakedown,
+  type TakedownKind,
+} from '../db/takedown';
+import { notifySequencerAccount } from './sequencer';
+
+/**
+ * Moderation
+ *
+ * Takedowns of whole repos, single records and single blobs, applied through
+ * com.atproto.admin.updateSubjectStatus. A taken-down repo is marked
+ * `takendown` in account_state (so its sessions, writes, sync endpoints and
+ * firehose events stop); records and blobs are only withheld from readers and
+ * remain part of the repo's history: repo CARs keep the MST nodes that commit
+ * to a taken-down record but leave out its block.
+ */
+
+export type ModerationSubject =
+  | { $type: 'com.atproto.admin.defs#repoRef'; did: string }
+  | { $type: 'com.atproto.repo.strongRef'; uri: string; cid: string }
+  | { $type: 'com.atproto.admin.defs#repoBlobRef'; did: string; cid: string };
+
+export interface TakedownStatus {
+  applied: boolean;
+  ref?: string;
+}
+
+function subjectKey(subject: ModerationSubject): { kind: TakedownKind; key: string; did: string } {
+  switch (subject.$type) {
+    case 'com.atproto.admin.defs#repoRef':
+      return { kind: 'repo', key: subject.did, did: subject.did };
+    case 'com.atproto.repo.strongRef':
+      return { kind: 'record', key: subject.uri, did: subject.uri.replace(/^at:\/\//, '').split('/')[0] };
+    case 'com.atproto.admin.defs#repoBlobRef':
+      return { kind: 'blob', key: subject.cid, did: subject.did };
+  }
+}
+
+/**
+ * Validate an updateSubjectStatus/getSubjectStatus subject; null when malformed
+ */
+export function parseSubject(value: any): ModerationSubject | null {
+  if (!value || typeof value !== 'object') return null;
+  switch (value.$type) {
+    case 'com.atproto.admin.defs#repoRef':
+      return typeof value.did === 'string' && value.did.startsWith('did:') ? { $type: value.$type, did: value.did } : null;
+    case 'com.atproto.repo.strongRef':
+      return typeof value.uri === 'string' && value.uri.startsWith('at://did:') && typeof value.cid === 'string'
+        ? { $type: value.$type, uri: value.uri, cid: value.cid }
+        : null;
+    case 'com.atproto.admin.defs#repoBlobRef':
+      return typeof value.did === 'string' && typeof value.cid === 'string' && value.cid
+        ? { $type: value.$type, did: value.did, cid: value.cid }
+        : null;
+    default:
+      return null;
+  }
+}
+
+export async function getTakedownStatus(env: Env, subject: ModerationSubject): Promise<TakedownStatus> {
+  const { kind, key } = subjectKey(subject);
+  const row = await getTakedown(env, kind, key);
+  if (kind === 'repo' && !row) {
+    // Takedowns recorded before the takedown table existed live only in account_state
+    return { applied: (await getAccountState(env, key))?.status === 'takendown' };
+  }
+  return row ? { applied: true, ...(row.ref ? { ref: row.ref } : {}) } : { applied: false };
+}
+
+/**
+ * Apply or lift a takedown. Taking down a repo also ends its sessions and emits
+ * an #account event; lifting it reactivates the account.
+ */
+export async function setTakedownStatus(env: Env, subject: ModerationSubject, status: TakedownStatus): Promise<void> {
+  const { kind, key, did } = subjectKey(subject);
+  if (status.applied) {
+    await putTakedown(env, { kind, subject: key, did, ref: status.ref ?? null });
+  } else {
+    await deleteTakedown(env, kind, key);
+  }
+  if (kind !== 'repo') return;
+
+  if (status.applied) {
+    await setAccountStatus(env, did, 'takendown');
+    await deleteRefreshTokensForDid(env, did);
+    await notifySequencerAccount(env, { did, active: false, status: 'takendown' });
+  } else if ((await getAccountState(env, did))?.status === 'takendown') {
+    await setAccountStatus(env, did, null);
+    await notifySequencerAccount(env, { did, active: true });
+  }
+}
+
+export async function isRepoTakendown(env: Env, did: string): Promise<boolean> {
+  const state = await getAccountState(env, did).catch(() => null);
+  return state?.status === 'takendown';
+}
+
+export async function isRecordTakendown(env: Env, uri: string): Promise<boolean> {
+  // takedown table missing (fresh database): nothing has been taken down
+  return !!(await getTakedown(env, 'record', uri).catch(() => null));
+}
+
+export async function isBlobTakendown(env: Env, cid: string): Promise<boolean> {
+  return !!(await getTakedown(env, 'blob', cid).catch(() => null));
+}
+
+/**
+ * The repo's taken-down record URIs, record block CIDs and blob CIDs, for
+ * filtering listings and CARs
+ */
+export async function getRepoTakedowns(env: Env, did: string): Promise<{
+  recordUris: Set<string>;
+  recordCids: Set<string>;
+  blobCids: Set<string>;
+}> {
+  const [recordUris, recordCids, blobCids] = await Promise.all([
+    listTakedownSubjects(env, 'record', did).catch(() => []),
+    listTakendownRecordCids(env, did).catch(() => []),
+    listTakedownSubjects(env, 'blob', did).catch(() => []),
+  ]);
+  return { recordUris: new Set(recordUris), recordCids: new Set(recordCids), blobCids: new Set(blobCids) };
+}
+
+/**
+ * The record blocks among `cids` that sync.getBlocks must withhold: those of
+ * taken-down records and of records in taken-down repos
+ */
+export async function getWithheldBlockCids(env: Env, cids: string[]): Promise<Set<string>> {
+  return new Set(await listWithheldRecordCids(env, cids).catch(() => []));
+}
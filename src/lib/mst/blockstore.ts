@@ -20,7 +20,56 @@ export interface ReadableBlockstore {
  */
 export interface WritableBlockstore extends ReadableBlockstore {
   put(cid: CID, bytes: Uint8Array): Promise<void>;
-  putMany(blocks: Map<CID, Uint8Array>): Promise<void>;
+  putMany(blocks: Map<CID, Uint8Array>, opts?: { overwrite?: boolean }): Promise<void>;
+}
+
+/**
+ * Decode a legacy base64 `bytes` value
+ */
+export function decodeBase64Block(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+const HEX_VALUES = (() => {
+  const table = new Uint8Array(128);
+  for (let i = 0; i < 16; i++) table['0123456789ABCDEF'.charCodeAt(i)] = i;
+  return table;
+})();
+
+function decodeHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length >> 1);
+  for (let i = 0, j = 0; i < bytes.length; i++, j += 2) {
+    bytes[i] = (HEX_VALUES[hex.charCodeAt(j)] << 4) | HEX_VALUES[hex.charCodeAt(j + 1)];
+  }
+  return bytes;
+}
+
+/**
+ * Columns to select for rowToBlock. The D1 binding returns BLOB columns as JSON
+ * arrays of numbers, several times slower to transfer and parse than the same
+ * bytes as SQLite's hex() text, so blocks are read back hex-encoded.
+ */
+const BLOCK_COLUMNS = 'hex(data) AS hex, bytes';
+
+/**
+ * Block bytes from a blockstore row: the `data` BLOB, or the base64 `bytes`
+ * TEXT of a row the binary migration has not converted yet. Empty rows count
+ * as missing.
+ */
+function rowToBlock(row: { hex?: string | null; bytes?: string | null }): Uint8Array | null {
+  if (row.hex) return decodeHex(row.hex);
+  if (row.bytes) return decodeBase64Block(row.bytes);
+  return null;
+}
+
+/**
+ * Copy into a standalone ArrayBuffer for binding as a BLOB
+ */
+export function toBlobParam(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
 }
 
 /**
@@ -31,24 +80,20 @@ export class D1Blockstore implements WritableBlockstore {
 
   async get(cid: CID): Promise<Uint8Array | null> {
     const row = await this.env.DB.prepare(
-      `SELECT bytes FROM blockstore WHERE cid = ? LIMIT 1`
-    ).bind(cid.toString()).first();
+      `SELECT ${BLOCK_COLUMNS} FROM blockstore WHERE cid = ? LIMIT 1`
+    ).bind(cid.toString()).first<{ hex: string | null; bytes: string | null }>();
 
     if (!row) return null;
-    const base64 = (row as any).bytes as string | null | undefined;
-    if (!base64 || base64.length === 0) return null;
-    return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+    return rowToBlock(row);
   }
 
   async has(cid: CID): Promise<boolean> {
     // Treat rows with NULL or empty bytes as missing
     const row = await this.env.DB.prepare(
-      `SELECT bytes FROM blockstore WHERE cid = ? LIMIT 1`
+      `SELECT 1 AS found FROM blockstore WHERE cid = ? AND (length(data) > 0 OR length(bytes) > 0) LIMIT 1`
     ).bind(cid.toString()).first();
 
-    if (!row) return false;
-    const bytes = (row as any).bytes as string | null | undefined;
-    return typeof bytes === 'string' && bytes.length > 0;
+    return !!row;
   }
 
   async getMany(cids: CID[]): Promise<{ blocks: Map<string, Uint8Array>; missing: CID[] }> {
@@ -64,17 +109,15 @@ export class D1Blockstore implements WritableBlockstore {
     for (let i = 0; i < cids.length; i += BATCH) {
       const chunk = cids.slice(i, i + BATCH);
       const placeholders = new Array(chunk.length).fill('?').join(',');
-      const stmt = this.env.DB.prepare(`SELECT cid, bytes FROM blockstore WHERE cid IN (${placeholders})`);
+      const stmt = this.env.DB.prepare(`SELECT cid, ${BLOCK_COLUMNS} FROM blockstore WHERE cid IN (${placeholders})`);
       const binds = chunk.map((c) => c.toString());
       const res = await stmt.bind(...binds).all();
-      const rows = (res.results ?? []) as Array<{ cid: string; bytes: string }>;
+      const rows = (res.results ?? []) as Array<{ cid: string; hex: string | null; bytes: string | null }>;
       const got = new Set<string>();
       for (const row of rows) {
         got.add(row.cid);
-        if (row.bytes && row.bytes.length > 0) {
-          const u8 = Uint8Array.from(atob(row.bytes), (c) => c.charCodeAt(0));
-          blocks.set(row.cid, u8);
-        }
+        const bytes = rowToBlock(row);
+        if (bytes) blocks.set(row.cid, bytes);
       }
       for (const c of chunk) {
         if (!got.has(c.toString())) missing.push(c);
@@ -86,19 +129,11 @@ export class D1Blockstore implements WritableBlockstore {
 
   async put(cid: CID, bytes: Uint8Array): Promise<void> {
     const cidStr = cid.toString();
-    // Encode Uint8Array to base64 string for storage. Chunk to avoid call-stack limits.
-    let binary = '';
-    const CHUNK_SIZE = 0x8000;
-    for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
-      binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
-    }
-    const base64 = btoa(binary);
-
-    // Always upsert: replace rows with NULL/empty bytes
+    // Always upsert: replace rows with NULL/empty bytes or a legacy base64 copy
     try {
       await this.env.DB.prepare(
-        `INSERT OR REPLACE INTO blockstore (cid, bytes) VALUES (?, ?)`
-      ).bind(cidStr, base64).run();
+        `INSERT OR REPLACE INTO blockstore (cid, data, bytes, stored_at) VALUES (?, ?, NULL, ?)`
+      ).bind(cidStr, toBlobParam(bytes), Date.now()).run();
     } catch (error: any) {
       console.error(JSON.stringify({
         level: 'error',
@@ -111,25 +146,21 @@ export class D1Blockstore implements WritableBlockstore {
     }
   }
 
-  async putMany(blocks: Map<CID, Uint8Array>): Promise<void> {
+  /**
+   * Store blocks in batches. With `overwrite: false` existing rows are left
+   * untouched, for blocks from untrusted input such as a repo import.
+   */
+  async putMany(blocks: Map<CID, Uint8Array>, opts: { overwrite?: boolean } = {}): Promise<void> {
     const BATCH_SIZE = 100;
     const entries = Array.from(blocks.entries());
+    const now = Date.now();
+    const verb = opts.overwrite === false ? 'INSERT OR IGNORE' : 'INSERT OR REPLACE';
     for (let i = 0; i < entries.length; i += BATCH_SIZE) {
       const batch = entries.slice(i, i + BATCH_SIZE);
-      const stmts = [] as Array<ReturnType<typeof this.env.DB['prepare']>>;
-      for (const [cid, bytes] of batch) {
-        const cidStr = cid.toString();
-        let binary = '';
-        const CHUNK_SIZE = 0x8000;
-        for (let j = 0; j < bytes.length; j += CHUNK_SIZE) {
-          binary += String.fromCharCode(...bytes.subarray(j, j + CHUNK_SIZE));
-        }
-        const base64 = btoa(binary);
-        stmts.push(
-          this.env.DB.prepare(`INSERT OR REPLACE INTO blockstore (cid, bytes) VALUES (?, ?)`)
-            .bind(cidStr, base64)
-        );
-      }
+      const stmts = batch.map(([cid, bytes]) =>
+        this.env.DB.prepare(`${verb} INTO blockstore (cid, data, bytes, stored_at) VALUES (?, ?, NULL, ?)`)
+          .bind(cid.toString(), toBlobParam(bytes), now)
+      );
       if (stmts.length > 0) {
         await this.env.DB.batch(stmts);
       }
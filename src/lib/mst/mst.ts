@@ -559,6 +559,34 @@ export class MST {
     }
   }
 
+  /**
+   * Get the MST nodes that prove the presence or absence of a key, plus the
+   * neighbouring subtree edges that removing (or re-adding) it would touch.
+   * The union of these proofs for a commit's ops is enough to invert the ops
+   * and recompute the previous root (sync v1.1).
+   */
+  async getCoveringProof(key: string): Promise<BlockMap> {
+    const blocks = new BlockMap();
+    const { cid, bytes } = await this.serialize();
+    blocks.set(cid, bytes);
+
+    const entries = await this.getEntries();
+    const index = await this.findGtOrEqualLeafIndex(key);
+    const found = entries[index];
+    const prev = entries[index - 1];
+
+    if (found && found.isLeaf() && found.key === key) {
+      // Deleting the key merges the subtrees on either side of it
+      const next = entries[index + 1];
+      if (prev?.isTree()) blocks.addMap(await prev.getCoveringProof(key));
+      if (next?.isTree()) blocks.addMap(await next.getCoveringProof(key));
+    } else if (prev?.isTree()) {
+      blocks.addMap(await prev.getCoveringProof(key));
+    }
+
+    return blocks;
+  }
+
   isTree(): this is MST {
     return true;
   }
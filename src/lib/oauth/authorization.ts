@@ -0,0 +1,126 @@
+import type { Env } from '../../env';
+import { deletePar, loadPar, saveCode, type ParRecord } from './store';
+import { expandScope } from './permissions';
+
+/**
+ * Authorization request flow shared by /oauth/authorize, /oauth/signin and
+ * /oauth/consent: a pushed request (PAR) is looked up by its request_uri, the
+ * browser's account signs in, consents unless an earlier grant already covers
+ * the scope, and the client is sent back with a code or an error.
+ */
+
+const REQUEST_URI_PREFIX = 'urn:ietf:params:oauth:request_uri:';
+const CODE_TTL_SEC = 600;
+
+export interface AuthorizationRequest {
+  id: string;
+  requestUri: string;
+  par: ParRecord;
+}
+
+export function getIssuer(request: Request): string {
+  const url = new URL(request.url);
+  return `${url.protocol}//${url.host}`;
+}
+
+/**
+ * The pending request named by request_uri; a message for the user otherwise
+ */
+export async function loadAuthorizationRequest(
+  env: Env,
+  requestUri: string,
+  clientId?: string | null,
+): Promise<AuthorizationRequest | { error: string }> {
+  const id = requestUri.startsWith(REQUEST_URI_PREFIX) ? requestUri.slice(REQUEST_URI_PREFIX.length) : '';
+  if (!/^[A-Za-z0-9]+$/.test(id)) return { error: 'invalid request_uri' };
+  const par = await loadPar(env, id);
+  if (!par || !par.client_id) return { error: 'request expired or not found' };
+  if (clientId && clientId !== par.client_id) return { error: 'client_id mismatch' };
+  return { id, requestUri, par };
+}
+
+/**
+ * URL of an authorization page (signin, consent, authorize) for the request
+ */
+export function authorizationPageUrl(issuer: string, page: string, req: AuthorizationRequest, extra: Record<string, string> = {}): string {
+  const url = new URL(`/oauth/${page}`, issuer);
+  url.searchParams.set('request_uri', req.requestUri);
+  url.searchParams.set('client_id', req.par.client_id);
+  for (const [key, value] of Object.entries(extra)) url.searchParams.set(key, value);
+  return url.toString();
+}
+
+/**
+ * PDS_REQUIRE_CONSENT=0 lets a signed-in account authorize new clients without
+ * the consent screen
+ */
+export function isConsentRequired(env: Env): boolean {
+  return String(env.PDS_REQUIRE_CONSENT ?? '1') !== '0';
+}
+
+export function splitScope(scope: string): string[] {
+  return scope.split(' ').filter(Boolean);
+}
+
+/**
+ * Whether a grant for `granted` already includes every scope in `requested`
+ */
+export function scopeCovers(granted: string, requested: string): boolean {
+  const have = new Set(splitScope(granted));
+  return splitScope(requested).every((scope) => have.has(scope));
+}
+
+export function mergeScopes(a: string, b: string): string {
+  return [...new Set([...splitScope(a), ...splitScope(b)])].join(' ');
+}
+
+/**
+ * A login_hint names the account by handle or DID
+ */
+export function matchesLoginHint(account: { did: string; handle: string }, hint: string | undefined): boolean {
+  if (!hint) return true;
+  const normalized = hint.trim().replace(/^@/, '').toLowerCase();
+  return normalized === account.did.toLowerCase() || normalized === account.handle.toLowerCase();
+}
+
+/**
+ * Issue the authorization code for `did` and return the client redirect. The
+ * code carries `scope` (the requested scope unless the user narrowed it) with
+ * its permission sets expanded, which is what the access tokens will hold.
+ */
+export async function approveAuthorization(env: Env, req: AuthorizationRequest, did: string, issuer: string, scope = req.par.scope): Promise<string> {
+  const code = crypto.randomUUID().replace(/-/g, '');
+  const now = Math.floor(Date.now() / 1000);
+  await saveCode(env, code, {
+    code,
+    client_id: req.par.client_id,
+    redirect_uri: req.par.redirect_uri,
+    code_challenge: req.par.code_challenge,
+    scope: expandScope(scope, req.par.permissionSets),
+    dpopJkt: req.par.dpopJkt,
+    did,
+    createdAt: now,
+    expiresAt: now + CODE_TTL_SEC,
+    used: false,
+  });
+  await deletePar(env, req.id);
+
+  const redirect = new URL(req.par.redirect_uri);
+  redirect.searchParams.set('state', req.par.state);
+  redirect.searchParams.set('iss', issuer);
+  redirect.searchParams.set('code', code);
+  return redirect.toString();
+}
+
+/**
+ * End the request with an OAuth error (access_denied, login_required,
+ * consent_required) and return the client redirect
+ */
+export async function rejectAuthorization(env: Env, req: AuthorizationRequest, error: string, issuer: string): Promise<string> {
+  await deletePar(env, req.id);
+  const redirect = new URL(req.par.redirect_uri);
+  redirect.searchParams.set('state', req.par.state);
+  redirect.searchParams.set('iss', issuer);
+  redirect.searchParams.set('error', error);
+  return redirect.toString();
+}
@@ -1,4 +1,15 @@
 import { decodeProtectedHeader, importJWK, compactVerify, type JWK as JoseJWK } from 'jose';
+import type { Env } from '../../env';
+import { LookupCache, type LookupOptions } from '../lookup-cache';
+
+const MINUTE = 60_000;
+
+export const clientMetadataCache = new LookupCache<any>({
+  name: 'client',
+  staleMs: 10 * MINUTE,
+  maxAgeMs: 60 * MINUTE,
+  negativeTtlMs: MINUTE,
+});
 
 export function isHttpsUrl(u: string): boolean {
   try {
@@ -13,11 +24,111 @@ export function isHttpsUrl(u: string): boolean {
   }
 }
 
-export async function fetchClientMetadata(client_id: string): Promise<any> {
+/**
+ * The loopback client used during development: client_id is `http://localhost`
+ * with no port or path, optionally followed by `redirect_uri` and `scope`
+ * query parameters. It has no metadata document; see loopbackClientMetadata.
+ */
+export function isLoopbackClientId(client_id: string): boolean {
+  return /^http:\/\/localhost(\?|$)/.test(client_id);
+}
+
+/**
+ * http://127.0.0.1 or http://[::1] with any port. `localhost` is not accepted
+ * because it can resolve elsewhere (RFC 8252 section 8.3).
+ */
+export function isLoopbackRedirectUri(u: string): boolean {
+  try {
+    const url = new URL(u);
+    return url.protocol === 'http:' && (url.hostname === '127.0.0.1' || url.hostname === '[::1]') && !url.username && !url.password;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Implied metadata of a loopback client; throws when a redirect_uri parameter
+ * is not a loopback address
+ */
+export function loopbackClientMetadata(client_id: string): any {
+  const params = new URL(client_id).searchParams;
+  const redirectUris = params.getAll('redirect_uri');
+  for (const uri of redirectUris) {
+    if (!isLoopbackRedirectUri(uri)) throw new Error('loopback client redirect_uri must be http://127.0.0.1 or http://[::1]');
+  }
+  return {
+    client_id,
+    application_type: 'native',
+    redirect_uris: redirectUris.length ? redirectUris : ['http://127.0.0.1/', 'http://[::1]/'],
+    scope: params.get('scope') || 'atproto',
+    response_types: ['code'],
+    grant_types: ['authorization_code', 'refresh_token'],
+    token_endpoint_auth_method: 'none',
+    dpop_bound_access_tokens: true,
+  };
+}
+
+/**
+ * Why a client may not use redirect_uri, or null when it may. The URI must be
+ * registered in the client metadata (loopback URIs match on any port) and fit
+ * the client's profile:
+ * - web clients redirect to https
+ * - native clients may also use a loopback address or a private-use scheme
+ *   named after their client_id host in reverse order, e.g.
+ *   `com.example.app:/callback` for https://app.example.com/client-metadata.json
+ * - the loopback client redirects only to loopback addresses
+ */
+export function checkRedirectUri(client_id: string, meta: any, redirect_uri: string): string | null {
+  const registered: string[] = Array.isArray(meta?.redirect_uris) ? meta.redirect_uris : [];
+  if (!registered.some((uri) => redirectUriMatches(uri, redirect_uri))) return 'redirect_uri not registered';
+
+  if (isLoopbackClientId(client_id)) {
+    return isLoopbackRedirectUri(redirect_uri) ? null : 'loopback client must redirect to http://127.0.0.1 or http://[::1]';
+  }
+  if (isHttpsUrl(redirect_uri)) return null;
+  if (meta?.application_type !== 'native') return 'redirect_uri must be https URL';
+  if (isLoopbackRedirectUri(redirect_uri)) return null;
+  return isNativeSchemeUri(client_id, redirect_uri) ? null : 'redirect_uri scheme must be the client_id host in reverse order, followed by :/';
+}
+
+function redirectUriMatches(registered: string, requested: string): boolean {
+  if (registered === requested) return true;
+  if (!isLoopbackRedirectUri(registered) || !isLoopbackRedirectUri(requested)) return false;
+  const a = new URL(registered);
+  const b = new URL(requested);
+  a.port = b.port = '';
+  return a.toString() === b.toString();
+}
+
+function isNativeSchemeUri(client_id: string, redirect_uri: string): boolean {
+  const colon = redirect_uri.indexOf(':');
+  if (colon < 0) return false;
+  // A single slash after the scheme: `scheme:/path`, never `scheme://authority`
+  if (redirect_uri[colon + 1] !== '/' || redirect_uri[colon + 2] === '/') return false;
+  try {
+    const host = new URL(client_id).hostname.toLowerCase();
+    return redirect_uri.slice(0, colon) === host.split('.').reverse().join('.');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Client metadata document for a client_id URL (cached); throws when it cannot be fetched
+ */
+export async function fetchClientMetadata(env: Env, client_id: string, opts: LookupOptions = {}): Promise<any> {
+  if (isLoopbackClientId(client_id)) return loopbackClientMetadata(client_id);
+  const meta = await clientMetadataCache.get(env, client_id, () => loadClientMetadata(client_id), opts);
+  if (!meta) throw new Error('client metadata not found');
+  return meta;
+}
+
+async function loadClientMetadata(client_id: string): Promise<any> {
   const ctl = new AbortController();
   const t = setTimeout(() => ctl.abort(), 3000);
   try {
     const res = await fetch(client_id, { signal: ctl.signal });
+    if (res.status === 404 || res.status === 410) return null;
     if (!res.ok) throw new Error(`client metadata fetch failed: ${res.status}`);
     const ctype = res.headers.get('content-type') || '';
     if (!ctype.includes('application/json') && !ctype.includes('json'))
@@ -28,6 +139,39 @@ export async function fetchClientMetadata(client_id: string): Promise<any> {
   }
 }
 
+const JWT_BEARER = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+
+export type ClientAuthentication =
+  | { clientId: string; meta: any }
+  | { error: 'invalid_request' | 'invalid_client'; description: string };
+
+/**
+ * Authenticate the client of a token, revocation or introspection request.
+ * Public clients only name themselves with client_id; clients registered with
+ * token_endpoint_auth_method=private_key_jwt must also send a valid assertion.
+ */
+export async function authenticateClient(env: Env, issuerOrigin: string, form: URLSearchParams): Promise<ClientAuthentication> {
+  const clientId = form.get('client_id') || '';
+  if (!clientId) return { error: 'invalid_request', description: 'client_id required' };
+
+  let meta: any = null;
+  try { meta = await fetchClientMetadata(env, clientId); } catch {}
+  if (meta?.token_endpoint_auth_method === 'private_key_jwt') {
+    let jwks = meta?.jwks;
+    if (!jwks && typeof meta?.jwks_uri === 'string') {
+      try { jwks = await (await fetch(meta.jwks_uri)).json(); } catch {}
+    }
+    const assertion = form.get('client_assertion') || '';
+    if (!assertion || form.get('client_assertion_type') !== JWT_BEARER) {
+      return { error: 'invalid_client', description: 'Missing client assertion' };
+    }
+    if (!jwks || !(await verifyClientAssertion(clientId, issuerOrigin, assertion, jwks))) {
+      return { error: 'invalid_client', description: 'Invalid client assertion' };
+    }
+  }
+  return { clientId, meta };
+}
+
 // removed local b64url/DER helpers in favor of jose
 
 export async function verifyClientAssertion(client_id: string, issuerOrigin: string, assertionJwt: string, jwks: any): Promise<boolean> {
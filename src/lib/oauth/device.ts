@@ -0,0 +1,110 @@
+import type { Env } from '../../env';
+import { getAccountByIdentifier } from '../../db/account';
+import { getAccountState } from '../../db/dal';
+import { createDeviceSession, deleteDeviceSession, getDeviceSession } from '../../db/oauth';
+import { sha256b64url } from './dpop';
+
+/**
+ * Browser sessions for the OAuth authorization pages
+ *
+ * Signing in on /oauth/signin sets a device cookie (HttpOnly, Secure,
+ * SameSite=Lax, __Host- prefixed) that identifies the account on later
+ * authorization requests from the same browser. Forms on these pages carry a
+ * CSRF token matched against a second cookie (double submit), and POSTs from
+ * another origin are refused outright.
+ */
+
+const DEVICE_COOKIE = '__Host-oauth-device';
+const CSRF_COOKIE = '__Host-oauth-csrf';
+const DEVICE_SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface SignedInAccount {
+  sessionId: string;
+  did: string;
+  handle: string;
+  /** When the device session started (epoch ms) */
+  signedInAt: number;
+}
+
+function randomToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function cookie(name: string, value: string, maxAgeSec: number): string {
+  return `${name}=${value}; Path=/; Max-Age=${maxAgeSec}; HttpOnly; Secure; SameSite=Lax`;
+}
+
+export function readCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('cookie');
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) return rest.join('=') || null;
+  }
+  return null;
+}
+
+/**
+ * Start a device session for `did`; returns the Set-Cookie header value
+ */
+export async function startDeviceSession(env: Env, did: string, request: Request): Promise<string> {
+  const token = randomToken();
+  await createDeviceSession(env, {
+    id: await sha256b64url(token),
+    did,
+    userAgent: request.headers.get('user-agent')?.slice(0, 256) ?? null,
+    expiresAt: Date.now() + DEVICE_SESSION_TTL_MS,
+  });
+  return cookie(DEVICE_COOKIE, token, DEVICE_SESSION_TTL_MS / 1000);
+}
+
+/**
+ * The account signed in on this browser, if its session is current and the
+ * account can still sign in
+ */
+export async function getSignedInAccount(env: Env, request: Request): Promise<SignedInAccount | null> {
+  const token = readCookie(request, DEVICE_COOKIE);
+  if (!token) return null;
+  const session = await getDeviceSession(env, await sha256b64url(token)).catch(() => null);
+  if (!session || session.expiresAt <= Date.now()) return null;
+
+  const state = await getAccountState(env, session.did).catch(() => null);
+  if (state?.status === 'takendown' || state?.status === 'deleted') return null;
+  const account = await getAccountByIdentifier(env, session.did);
+  if (!account) return null;
+  return { sessionId: session.id, did: account.did, handle: account.handle, signedInAt: session.createdAt };
+}
+
+/**
+ * Sign the browser out; returns the Set-Cookie header value that clears the cookie
+ */
+export async function endDeviceSession(env: Env, request: Request): Promise<string> {
+  const token = readCookie(request, DEVICE_COOKIE);
+  if (token) await deleteDeviceSession(env, await sha256b64url(token));
+  return cookie(DEVICE_COOKIE, '', 0);
+}
+
+/**
+ * The browser's CSRF token, with the Set-Cookie header value when a new one was minted
+ */
+export function getCsrfToken(request: Request): { token: string; setCookie: string | null } {
+  const existing = readCookie(request, CSRF_COOKIE);
+  if (existing && /^[A-Za-z0-9_-]{43}$/.test(existing)) return { token: existing, setCookie: null };
+  const token = randomToken();
+  return { token, setCookie: cookie(CSRF_COOKIE, token, DEVICE_SESSION_TTL_MS / 1000) };
+}
+
+/**
+ * A form POST is genuine when it comes from this origin and echoes the CSRF cookie
+ */
+export function verifyCsrf(request: Request, form: URLSearchParams): boolean {
+  const origin = request.headers.get('origin');
+  if (origin && origin !== new URL(request.url).origin) return false;
+  const expected = readCookie(request, CSRF_COOKIE);
+  const submitted = form.get('csrf') ?? '';
+  if (!expected || expected.length !== submitted.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ submitted.charCodeAt(i);
+  return diff === 0;
+}
@@ -0,0 +1,227 @@
+import type { Env } from '../../env';
+import { dohResolveTxt, resolveDid, type TxtResolver } from '../identity';
+import { isValidDid } from '../lexicon/formats';
+import { LookupCache, type LookupOptions } from '../lookup-cache';
+import { parsePermission, REPO_ACTIONS, STATIC_SCOPES, type Permission } from '../scopes';
+
+/**
+ * OAuth permissions
+ *
+ * Validates the scope of an authorization request, resolves the permission
+ * sets it includes (`include:<nsid>`, a `permission-set` lexicon published by
+ * the owner of the NSID's domain), describes each scope for the consent screen
+ * and turns the scopes the user granted into the concrete permissions an
+ * access token carries.
+ */
+
+const MINUTE = 60_000;
+
+/**
+ * A resolved permission set, stored with the authorization request
+ */
+export interface PermissionSet {
+  nsid: string;
+  title: string | null;
+  detail: string | null;
+  /** Concrete `repo:` and `rpc:` scopes the set grants */
+  scopes: string[];
+}
+
+export const permissionSetCache = new LookupCache<PermissionSet>({
+  name: 'lexicon',
+  staleMs: 60 * MINUTE,
+  maxAgeMs: 24 * 60 * MINUTE,
+  negativeTtlMs: 5 * MINUTE,
+});
+
+export interface PermissionSetOptions extends LookupOptions {
+  resolveTxt?: TxtResolver;
+}
+
+/**
+ * Check every scope of an authorization request and resolve its permission
+ * sets (keyed by the `include:` scope); an error message for invalid_scope otherwise
+ */
+export async function validateScope(
+  env: Env,
+  scope: string,
+  opts: PermissionSetOptions = {},
+): Promise<{ permissionSets: Record<string, PermissionSet> } | { error: string }> {
+  const tokens = scope.split(' ').filter(Boolean);
+  if (!tokens.includes('atproto')) return { error: 'scope must include atproto' };
+
+  const permissionSets: Record<string, PermissionSet> = {};
+  for (const token of tokens) {
+    if (STATIC_SCOPES.has(token)) continue;
+    const permission = parsePermission(token);
+    if (!permission) return { error: `unsupported scope "${token}"` };
+    if (permission.resource !== 'include') continue;
+    try {
+      const set = await resolvePermissionSet(env, permission.nsid, opts);
+      if (!set) return { error: `permission set ${permission.nsid} not found` };
+      permissionSets[token] = { ...set, scopes: set.scopes.map((s) => withAudience(s, permission.aud)).filter((s): s is string => s !== null) };
+    } catch {
+      return { error: `permission set ${permission.nsid} could not be resolved` };
+    }
+  }
+  return { permissionSets };
+}
+
+/**
+ * Scopes for an access token: `include:` scopes are replaced by the
+ * permissions of their set
+ */
+export function expandScope(scope: string, permissionSets: Record<string, PermissionSet> = {}): string {
+  const out: string[] = [];
+  for (const token of scope.split(' ').filter(Boolean)) {
+    out.push(...(token.startsWith('include:') ? permissionSets[token]?.scopes ?? [] : [token]));
+  }
+  return [...new Set(out)].join(' ');
+}
+
+/**
+ * The requested scopes the user left selected on the consent screen; atproto
+ * cannot be deselected
+ */
+export function selectScope(requested: string, selected: string[]): string {
+  const keep = new Set([...selected, 'atproto']);
+  return requested.split(' ').filter((token) => token && keep.has(token)).join(' ');
+}
+
+/**
+ * One line of the consent screen for a scope
+ */
+export function describeScope(token: string, permissionSets: Record<string, PermissionSet> = {}): string {
+  switch (token) {
+    case 'atproto':
+      return 'Confirm which account you are';
+    case 'transition:generic':
+      return 'Read and change everything an app password can: posts, likes, follows, profile, preferences and uploads';
+    case 'transition:chat.bsky':
+      return 'Read and send direct messages';
+    case 'transition:email':
+      return 'See your email address';
+  }
+  const permission = parsePermission(token);
+  return permission ? describePermission(permission, permissionSets[token]) : token;
+}
+
+function describePermission(permission: Permission, set?: PermissionSet): string {
+  switch (permission.resource) {
+    case 'repo': {
+      const actions = permission.actions.length === REPO_ACTIONS.length ? ['create', 'update', 'delete'] : permission.actions;
+      const what = permission.collections.includes('*') ? 'any kind of record' : `${permission.collections.join(', ')} records`;
+      return `${capitalize(listWords(actions))} ${what} in your repository`;
+    }
+    case 'blob': {
+      const kinds = permission.accept.map((mime) => {
+        if (mime === '*/*') return 'files of any type';
+        const [type, subtype] = mime.split('/');
+        return subtype === '*' ? `${type} files` : `${mime} files`;
+      });
+      return `Upload ${listWords(kinds)}`;
+    }
+    case 'rpc': {
+      const methods = permission.lxms.includes('*') ? 'any method' : permission.lxms.join(', ');
+      const service = permission.aud === '*' ? 'any service' : permission.aud;
+      return `Call ${methods} on ${service} as you`;
+    }
+    case 'account': {
+      const read = { email: 'See your email address', repo: 'Export your repository', status: 'See whether your account is active' };
+      const manage = { email: 'Change your email address', repo: 'Import records into your repository', status: 'Activate or deactivate your account' };
+      return (permission.action === 'manage' ? manage : read)[permission.attr];
+    }
+    case 'identity':
+      return permission.attr === 'handle' ? 'Change your handle' : 'Change your handle and DID document, including your signing keys';
+    case 'include': {
+      const name = set?.title || permission.nsid;
+      return set?.detail ? `${name}: ${set.detail}` : name;
+    }
+  }
+}
+
+function listWords(words: string[]): string {
+  if (words.length <= 1) return words.join('');
+  return `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Resolve a permission set lexicon (cached): the NSID's authority domain names
+ * the publishing DID in a `_lexicon` TXT record, and the lexicon is that
+ * repository's com.atproto.lexicon.schema record keyed by NSID. Returns null
+ * when the lexicon does not exist or is not a permission set; throws when
+ * resolution fails.
+ */
+export async function resolvePermissionSet(env: Env, nsid: string, opts: PermissionSetOptions = {}): Promise<PermissionSet | null> {
+  return permissionSetCache.get(env, nsid, () => loadPermissionSet(env, nsid, opts), opts);
+}
+
+async function loadPermissionSet(env: Env, nsid: string, opts: PermissionSetOptions): Promise<PermissionSet | null> {
+  const segments = nsid.split('.');
+  const authority = segments.slice(0, -1).reverse().join('.');
+  const records = await (opts.resolveTxt ?? dohResolveTxt)(`_lexicon.${authority}`);
+  const dids = records.filter((r) => r.startsWith('did=')).map((r) => r.slice('did='.length).trim());
+  if (dids.length !== 1 || !isValidDid(dids[0])) return null;
+  const did = dids[0];
+
+  const doc = await resolveDid(env, did, opts);
+  const service = (doc?.service ?? []).find((s) => s?.id === '#atproto_pds' || s?.id === `${did}#atproto_pds`);
+  if (typeof service?.serviceEndpoint !== 'string') return null;
+
+  const url = new URL('/xrpc/com.atproto.repo.getRecord', service.serviceEndpoint);
+  url.searchParams.set('repo', did);
+  url.searchParams.set('collection', 'com.atproto.lexicon.schema');
+  url.searchParams.set('rkey', nsid);
+  const res = await fetch(url.toString(), { signal: AbortSignal.timeout(3000) });
+  if (res.status === 400 || res.status === 404) return null;
+  if (!res.ok) throw new Error(`lexicon fetch failed: ${res.status}`);
+
+  const lexicon = ((await res.json()) as any)?.value;
+  const main = lexicon?.defs?.main;
+  if (lexicon?.id !== nsid || main?.type !== 'permission-set' || !Array.isArray(main.permissions)) return null;
+  return {
+    nsid,
+    title: typeof main.title === 'string' ? main.title : null,
+    detail: typeof main.detail === 'string' ? main.detail : null,
+    scopes: main.permissions.flatMap((p: any) => permissionSetScopes(nsid, p)),
+  };
+}
+
+/**
+ * Scopes for one entry of a permission set. Sets only grant `repo` and `rpc`
+ * permissions within their own namespace; anything else is dropped. An rpc
+ * permission with `inheritAud` takes the audience of the include: scope,
+ * filled in by withAudience.
+ */
+function permissionSetScopes(nsid: string, p: any): string[] {
+  const namespace = `${nsid.split('.').slice(0, -1).join('.')}.`;
+  const inNamespace = (value: unknown): value is string => typeof value === 'string' && value.startsWith(namespace);
+  if (p?.type !== 'permission') return [];
+
+  if (p.resource === 'repo' && Array.isArray(p.collection)) {
+    const actions: string[] = Array.isArray(p.action) ? p.action.filter((a: unknown) => REPO_ACTIONS.includes(a as any)) : [];
+    const query = actions.length && actions.length < REPO_ACTIONS.length ? `?${actions.map((a) => `action=${a}`).join('&')}` : '';
+    return p.collection.filter(inNamespace).map((c: string) => `repo:${c}${query}`).filter((s: string) => parsePermission(s));
+  }
+  if (p.resource === 'rpc' && Array.isArray(p.lxm)) {
+    const aud = p.inheritAud === true ? '{aud}' : typeof p.aud === 'string' ? encodeAudience(p.aud) : null;
+    if (!aud) return [];
+    return p.lxm.filter(inNamespace).map((lxm: string) => `rpc:${lxm}?aud=${aud}`);
+  }
+  return [];
+}
+
+function withAudience(scope: string, aud: string | null): string | null {
+  if (!scope.includes('{aud}')) return parsePermission(scope) ? scope : null;
+  if (!aud) return null;
+  const filled = scope.replace('{aud}', encodeAudience(aud));
+  return parsePermission(filled) ? filled : null;
+}
+
+function encodeAudience(aud: string): string {
+  return encodeURIComponent(aud).replace(/%3A/gi, ':');
+}
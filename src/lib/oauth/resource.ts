@@ -1,11 +1,18 @@
 import type { Env } from '../../env';
 import { verifyAccessToken } from '../session-tokens';
+import { AuthScopes } from '../scopes';
 import { decodeProtectedHeader, importJWK, compactVerify, type JWK as JoseJWK } from 'jose';
 
 const NONCE_PDS_KEY = 'oauth_dpop_nonce_pds';
 
 type ResourceAuthErrorCode = 'use_dpop_nonce' | 'expired_token' | 'invalid_token';
 
+export interface ResourceAuth {
+  did: string;
+  token: string;
+  scopes: AuthScopes;
+}
+
 export class ResourceAuthError extends Error {
   public readonly code: ResourceAuthErrorCode;
   public readonly nonce?: string;
@@ -41,7 +48,7 @@ async function getNonce(env: Env): Promise<string> {
   return v;
 }
 
-export async function verifyResourceRequest(env: Env, request: Request): Promise<{ did: string; token: string } | null> {
+export async function verifyResourceRequest(env: Env, request: Request): Promise<ResourceAuth | null> {
   const auth = request.headers.get('authorization');
   if (!auth) return null;
 
@@ -59,13 +66,13 @@ export async function verifyResourceRequest(env: Env, request: Request): Promise
 
   if (scheme === 'bearer') {
     const payload = await verifyAccessTokenOrThrow(env, token);
-    return { did: payload.sub as string, token };
+    return { did: payload.sub as string, token, scopes: AuthScopes.parse(payload.scope) };
   }
 
   return null;
 }
 
-async function verifyDpopAccess(env: Env, request: Request, accessToken: string) {
+async function verifyDpopAccess(env: Env, request: Request, accessToken: string): Promise<ResourceAuth> {
   const nonce = await getNonce(env);
   const dpop = request.headers.get('DPoP');
   if (!dpop) {
@@ -96,7 +103,7 @@ async function verifyDpopAccess(env: Env, request: Request, accessToken: string)
   // already verified above, nothing else to do
 
   const tokenPayload = await verifyAccessTokenOrThrow(env, accessToken);
-  return { did: tokenPayload.sub as string, token: accessToken };
+  return { did: tokenPayload.sub as string, token: accessToken, scopes: AuthScopes.parse(tokenPayload.scope) };
 }
 
 async function verifyAccessTokenOrThrow(env: Env, token: string) {
@@ -133,7 +140,7 @@ export async function dpopResourceUnauthorized(env: Env, message?: string, nonce
  * Hybrid authentication that supports both DPoP (OAuth) and Bearer (legacy XRPC) tokens.
  * Tries DPoP first, then falls back to Bearer for backward compatibility with official Bluesky apps.
  */
-export async function verifyResourceRequestHybrid(env: Env, request: Request): Promise<{ did: string; token: string } | null> {
+export async function verifyResourceRequestHybrid(env: Env, request: Request): Promise<ResourceAuth | null> {
   const auth = request.headers.get('authorization');
   if (!auth) return null;
 
@@ -154,7 +161,7 @@ export async function verifyResourceRequestHybrid(env: Env, request: Request): P
     const token = auth.slice(7).trim();
     const payloadJwt = await verifyAccessToken(env, token).catch(() => null);
     if (!payloadJwt) return null;
-    return { did: payloadJwt.sub as string, token };
+    return { did: payloadJwt.sub as string, token, scopes: AuthScopes.parse(payloadJwt.scope) };
   }
 
   return null;
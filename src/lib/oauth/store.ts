@@ -1,8 +1,10 @@
 import type { Env } from '../../env';
 import { getSecret, setSecret } from '../../db/account';
+import type { PermissionSet } from './permissions';
 
 const PAR_PREFIX = 'oauth:par:';
 const CODE_PREFIX = 'oauth:code:';
+const SIGN_IN_PREFIX = 'oauth:signin:';
 
 export interface ParRecord {
   client_id: string;
@@ -12,6 +14,9 @@ export interface ParRecord {
   scope: string;
   state: string;
   login_hint?: string;
+  prompt?: string;
+  /** Permission sets named by include: scopes, resolved when the request was pushed */
+  permissionSets?: Record<string, PermissionSet>;
   dpopJkt: string;
   createdAt: number;
   expiresAt: number;
@@ -30,6 +35,14 @@ export interface CodeRecord {
   used?: boolean;
 }
 
+/**
+ * A password sign-in waiting for its emailed code
+ */
+export interface PendingSignIn {
+  did: string;
+  expiresAt: number;
+}
+
 export async function savePar(env: Env, id: string, rec: ParRecord): Promise<void> {
   await setSecret(env, PAR_PREFIX + id, JSON.stringify(rec));
 }
@@ -75,3 +88,23 @@ export async function consumeCode(env: Env, code: string): Promise<CodeRecord |
   await setSecret(env, CODE_PREFIX + code, JSON.stringify(rec));
   return rec;
 }
+
+export async function savePendingSignIn(env: Env, id: string, rec: PendingSignIn): Promise<void> {
+  await setSecret(env, SIGN_IN_PREFIX + id, JSON.stringify(rec));
+}
+
+export async function loadPendingSignIn(env: Env, id: string): Promise<PendingSignIn | null> {
+  const raw = await getSecret(env, SIGN_IN_PREFIX + id);
+  if (!raw) return null;
+  try {
+    const rec = JSON.parse(raw) as PendingSignIn;
+    if (!rec.did || rec.expiresAt < Math.floor(Date.now() / 1000)) return null;
+    return rec;
+  } catch {
+    return null;
+  }
+}
+
+export async function deletePendingSignIn(env: Env, id: string): Promise<void> {
+  await setSecret(env, SIGN_IN_PREFIX + id, JSON.stringify({}));
+}
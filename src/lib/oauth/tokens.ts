@@ -0,0 +1,62 @@
+import type { Env } from '../../env';
+import {
+  deleteRefreshToken,
+  deleteRefreshTokenFamily,
+  getRefreshToken,
+  isRefreshTokenFamilyLive,
+  type RefreshTokenRow,
+} from '../../db/account';
+import { verifyAccessToken, verifyRefreshToken } from '../session-tokens';
+
+/**
+ * Look up OAuth tokens presented to /oauth/revoke and /oauth/introspect. A
+ * token only resolves for the client it was issued to; anything else (another
+ * client's token, a password session, garbage) resolves to null.
+ */
+
+export type PresentedToken =
+  | { type: 'refresh_token'; sessionId: string; row: RefreshTokenRow }
+  | { type: 'access_token'; sessionId: string; payload: Awaited<ReturnType<typeof verifyAccessToken>> };
+
+export async function resolveClientToken(env: Env, token: string, clientId: string, hint?: string | null): Promise<PresentedToken | null> {
+  const lookups = hint === 'access_token' ? [resolveAccess, resolveRefresh] : [resolveRefresh, resolveAccess];
+  for (const lookup of lookups) {
+    const found = await lookup(env, token, clientId);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * End an OAuth session: delete every refresh token of its family, plus
+ * `tokenId` itself, since tokens issued before sessions were tracked are not
+ * part of a family
+ */
+export async function revokeSession(env: Env, sessionId: string, tokenId: string | null): Promise<void> {
+  await deleteRefreshTokenFamily(env, sessionId);
+  if (tokenId) await deleteRefreshToken(env, tokenId);
+}
+
+async function resolveRefresh(env: Env, token: string, clientId: string): Promise<PresentedToken | null> {
+  const verification = await verifyRefreshToken(env, token).catch(() => null);
+  if (!verification?.decoded?.jti) return null;
+  const row = await getRefreshToken(env, verification.decoded.jti);
+  if (!row || row.clientId !== clientId) return null;
+  return { type: 'refresh_token', sessionId: row.familyId ?? row.id, row };
+}
+
+async function resolveAccess(env: Env, token: string, clientId: string): Promise<PresentedToken | null> {
+  const payload = await verifyAccessToken(env, token).catch(() => null);
+  if (!payload || payload.client_id !== clientId || typeof payload.sid !== 'string') return null;
+  return { type: 'access_token', sessionId: payload.sid, payload };
+}
+
+/**
+ * Whether the token can still be used: refresh tokens until rotated, revoked
+ * or expired; access tokens until expiry, as long as their session is live
+ */
+export async function isTokenActive(env: Env, token: PresentedToken): Promise<boolean> {
+  const now = Math.floor(Date.now() / 1000);
+  if (token.type === 'refresh_token') return !token.row.nextId && token.row.expiresAt > now;
+  return isRefreshTokenFamilyLive(env, token.sessionId, now);
+}
@@ -0,0 +1,93 @@
+/**
+ * HTML for the OAuth sign-in, consent and authorized-apps pages. Pages are
+ * never cached or framed.
+ */
+
+export function esc(s: string): string {
+  return s.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', '\'': '&#39;' } as any)[c]);
+}
+
+const STYLE = `
+  body { font-family: system-ui, -apple-system, Segoe UI, Roboto, sans-serif; padding: 2rem; color: #222; }
+  .card { max-width: 560px; margin: 0 auto; border: 1px solid #ddd; border-radius: 8px; padding: 1.5rem; }
+  .client { display: flex; gap: 12px; align-items: center; }
+  img.logo { width: 40px; height: 40px; border-radius: 6px; object-fit: cover; }
+  .muted { color: #555; font-size: 12px; }
+  .error { background: #fdecea; color: #8a1c12; padding: 8px 12px; border-radius: 6px; }
+  label { display: block; margin-top: 0.75rem; font-size: 14px; }
+  input[type=text], input[type=password] { width: 100%; box-sizing: border-box; padding: 8px; margin-top: 4px; border: 1px solid #ccc; border-radius: 6px; }
+  .actions { display: flex; gap: 12px; margin-top: 1rem; }
+  button { padding: 8px 14px; border-radius: 6px; border: 0; cursor: pointer; font-size: 14px; }
+  button.primary { background: #0a66ff; color: #fff; }
+  button.secondary { background: #eee; color: #333; }
+  ul.permissions { list-style: none; padding: 0; }
+  ul.permissions label { margin-top: 0.5rem; }
+  ul.permissions ul { margin: 4px 0 0 1.5rem; padding: 0; }
+  .scope { background: #f5f5f7; display: inline-block; padding: 2px 8px; border-radius: 999px; margin-right: 6px; font-size: 12px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 1rem; }
+  td { padding: 8px 4px; border-top: 1px solid #eee; vertical-align: top; }
+`;
+
+const PAGE_HEADERS = {
+  'Content-Type': 'text/html; charset=utf-8',
+  'Cache-Control': 'no-store',
+  'X-Frame-Options': 'DENY',
+  'Content-Security-Policy': "frame-ancestors 'none'",
+  'Referrer-Policy': 'same-origin',
+};
+
+export function renderPage(title: string, body: string, opts: { status?: number; setCookies?: Array<string | null> } = {}): Response {
+  const html = `<!doctype html>
+  <html>
+    <head>
+      <meta charset="utf-8" />
+      <meta name="viewport" content="width=device-width, initial-scale=1" />
+      <title>${esc(title)}</title>
+      <style>${STYLE}</style>
+    </head>
+    <body>
+      <div class="card">
+        ${body}
+      </div>
+    </body>
+  </html>`;
+  const headers = new Headers(PAGE_HEADERS);
+  for (const value of opts.setCookies ?? []) if (value) headers.append('Set-Cookie', value);
+  return new Response(html, { status: opts.status ?? 200, headers });
+}
+
+export function errorPage(status: number, message: string): Response {
+  return renderPage('Error', `<p class="error">${esc(message)}</p>`, { status });
+}
+
+/**
+ * 302 for GET navigations, 303 after a form POST
+ */
+export function redirect(location: string, status: 302 | 303 = 302, setCookies: Array<string | null> = []): Response {
+  const headers = new Headers({ Location: location, 'Cache-Control': 'no-store' });
+  for (const value of setCookies) if (value) headers.append('Set-Cookie', value);
+  return new Response(null, { status, headers });
+}
+
+export function hiddenFields(fields: Record<string, string>): string {
+  return Object.entries(fields)
+    .map(([name, value]) => `<input type="hidden" name="${esc(name)}" value="${esc(value)}" />`)
+    .join('\n');
+}
+
+/**
+ * Client display name and logo from its metadata document, falling back to the client_id host
+ */
+export function clientHeader(clientId: string, meta: any): string {
+  let fallback = clientId;
+  try { fallback = new URL(clientId).host; } catch {}
+  const name = typeof meta?.client_name === 'string' && meta.client_name ? meta.client_name : fallback;
+  const logo = typeof meta?.logo_uri === 'string' && meta.logo_uri.startsWith('https://') ? meta.logo_uri : '';
+  return `<div class="client">
+    ${logo ? `<img class="logo" src="${esc(logo)}" alt="" />` : ''}
+    <div>
+      <div style="font-weight:600;">${esc(name)}</div>
+      <div class="muted">${esc(clientId)}</div>
+    </div>
+  </div>`;
+}
@@ -31,6 +31,35 @@ export async function verifyPassword(password: string, stored: string | null): P
   return candidate === hashHex;
 }
 
+const APP_PASSWORD_CHARS = 'abcdefghijklmnopqrstuvwxyz234567';
+
+/**
+ * Generate an app password in the usual xxxx-xxxx-xxxx-xxxx form
+ */
+export function generateAppPassword(): string {
+  const bytes = randomBytes(16);
+  const chars = Array.from(bytes, (b) => APP_PASSWORD_CHARS[b % APP_PASSWORD_CHARS.length]);
+  return [0, 4, 8, 12].map((i) => chars.slice(i, i + 4).join('')).join('-');
+}
+
+const EMAIL_TOKEN_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Generate a one-time token in the XXXXX-XXXXX form sent to the account owner
+ */
+export function generateEmailToken(): string {
+  const chars = Array.from(randomBytes(10), (b) => EMAIL_TOKEN_CHARS[b % EMAIL_TOKEN_CHARS.length]);
+  return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+}
+
+/**
+ * Generate an invite code in the usual <host>-xxxxx-xxxxx form (`pds-example-com-ab2cd-ef3gh`)
+ */
+export function generateInviteCode(hostname: string): string {
+  const chars = Array.from(randomBytes(10), (b) => APP_PASSWORD_CHARS[b % APP_PASSWORD_CHARS.length]);
+  return `${hostname.replace(/\./g, '-')}-${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+}
+
 export async function rehashIfNeeded(password: string, stored: string | null): Promise<string | null> {
   if (!stored) return null;
   const [saltHex] = stored.split(':');
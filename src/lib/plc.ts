@@ -0,0 +1,185 @@
+import type { Env } from '../env';
+import { XRPCError } from './errors';
+import { resolveSecret } from './secrets';
+import { getDidWebHost, isDidWeb } from './did-web';
+
+/**
+ * PLC directory operations
+ *
+ * Builds, signs and submits `plc_operation` updates for the account DID using
+ * the server-held PDS_PLC_ROTATION_KEY (hex-encoded secp256k1), which must be
+ * one of the DID's current rotation keys.
+ */
+
+const PLC_DIRECTORY = 'https://plc.directory';
+
+export interface PlcService {
+  type: string;
+  endpoint: string;
+}
+
+/** Fields of a PLC update; anything left out keeps its current value */
+export interface PlcUpdate {
+  rotationKeys?: string[];
+  alsoKnownAs?: string[];
+  verificationMethods?: Record<string, string>;
+  services?: Record<string, PlcService>;
+}
+
+/**
+ * Reject PLC operations for a did:web account, whose document is served by
+ * this PDS rather than the PLC directory
+ */
+export function assertPlcDid(did: string): void {
+  if (!isDidWeb(did)) return;
+  const host = getDidWebHost(did);
+  const where = host ? ` Its DID document is served from https://${host}/.well-known/did.json.` : '';
+  throw new XRPCError('InvalidRequest', `${did} is a did:web identity; PLC operations do not apply.${where}`, 400);
+}
+
+/**
+ * Sign an update on top of the DID's latest operation
+ */
+export async function signPlcUpdate(env: Env, did: string, update: PlcUpdate): Promise<Record<string, unknown>> {
+  assertPlcDid(did);
+  // MUST be the rotation key currently present in the PLC document.
+  const privHex = ((await resolveSecret(env.PDS_PLC_ROTATION_KEY as any)) || '').trim();
+  if (!privHex) {
+    throw new XRPCError('ServerMisconfigured', 'PDS_PLC_ROTATION_KEY is not configured', 500);
+  }
+  // Lazy-load deps compatible with Workers runtime
+  const { Secp256k1Keypair } = await import('@atproto/crypto');
+  const dagCbor: any = await import('@ipld/dag-cbor');
+  const { sha256 } = await import('multiformats/hashes/sha2');
+  const { CID } = await import('multiformats/cid');
+  const u8a: any = await import('uint8arrays');
+
+  const signer = await Secp256k1Keypair.import(privHex);
+
+  // Fetch last op for prev CID
+  const lastRes = await fetch(`${PLC_DIRECTORY}/${encodeURIComponent(did)}/log/last`);
+  if (!lastRes.ok) {
+    const text = await lastRes.text();
+    throw new XRPCError('PlcFetchFailed', `Failed to fetch last op: ${text}`, lastRes.status);
+  }
+  const lastOp = await lastRes.json();
+  if ((lastOp as any)?.type === 'plc_tombstone') {
+    throw new XRPCError('DidTombstoned', 'DID is tombstoned', 400);
+  }
+  const lastOpCbor = dagCbor.encode(lastOp);
+  const mh = await sha256.digest(lastOpCbor);
+  const prevCid = CID.createV1(dagCbor.code, mh);
+
+  // Current document data as defaults
+  const doc = await getPlcData(did);
+
+  const rotationKeys = update.rotationKeys ?? doc.rotationKeys ?? [];
+  const alsoKnownAs = update.alsoKnownAs ?? doc.alsoKnownAs ?? [];
+  const verificationMethods = update.verificationMethods ?? doc.verificationMethods ?? {};
+  const services = update.services ?? doc.services ?? {};
+
+  if (!services.atproto_pds || typeof services.atproto_pds !== 'object') {
+    throw new XRPCError('InvalidRequest', 'Missing atproto_pds service in PLC operation', 400);
+  }
+  if (!services.atproto_pds.type) {
+    services.atproto_pds.type = 'AtprotoPersonalDataServer';
+  }
+
+  // sanity: ensure our configured rotation key is included
+  const signerDid = signer.did();
+  if (!rotationKeys.includes(signerDid)) {
+    throw new XRPCError(
+      'RotationKeyMismatch',
+      `Configured PDS_PLC_ROTATION_KEY (${signerDid}) is not present in PLC rotationKeys. Update PLC or your configuration.`,
+      400,
+    );
+  }
+
+  const unsignedOp = {
+    type: 'plc_operation',
+    rotationKeys,
+    verificationMethods,
+    alsoKnownAs,
+    services,
+    prev: prevCid.toString(),
+  } as Record<string, unknown>;
+
+  const bytes = dagCbor.encode(unsignedOp);
+  const sig = await signer.sign(bytes);
+  const sigB64 = (u8a.toString as any)(sig, 'base64url');
+  return { ...unsignedOp, sig: sigB64 };
+}
+
+/**
+ * Current PLC document data (rotation keys, verification methods, aka, services)
+ */
+export async function getPlcData(did: string): Promise<Required<PlcUpdate>> {
+  const dataRes = await fetch(`${PLC_DIRECTORY}/${encodeURIComponent(did)}/data`);
+  if (!dataRes.ok) {
+    const text = await dataRes.text();
+    throw new XRPCError('PlcFetchFailed', `Failed to fetch document data: ${text}`, dataRes.status);
+  }
+  return (await dataRes.json()) as Required<PlcUpdate>;
+}
+
+export async function submitPlcOperation(did: string, operation: Record<string, unknown>): Promise<void> {
+  assertPlcDid(did);
+  const res = await fetch(`${PLC_DIRECTORY}/${encodeURIComponent(did)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(operation),
+  });
+  if (!res.ok) {
+    const errorText = await res.text();
+    throw new XRPCError('PlcOperationFailed', `PLC directory rejected operation (${res.status}): ${errorText}`, res.status);
+  }
+}
+
+/**
+ * Point the PLC document's alsoKnownAs at a new handle, keeping any non-handle aliases
+ */
+export async function updatePlcHandle(env: Env, did: string, handle: string): Promise<void> {
+  const { alsoKnownAs } = await getPlcData(did);
+  const operation = await signPlcUpdate(env, did, {
+    alsoKnownAs: [`at://${handle}`, ...(alsoKnownAs ?? []).filter((aka) => !aka.startsWith('at://'))],
+  });
+  await submitPlcOperation(did, operation);
+}
+
+/**
+ * Register a new did:plc with a genesis operation signed by PDS_PLC_ROTATION_KEY,
+ * which becomes the DID's only rotation key. Returns the DID.
+ */
+export async function createPlcDid(env: Env, opts: {
+  signingKey: string;
+  handle: string;
+  endpoint: string;
+}): Promise<string> {
+  const privHex = ((await resolveSecret(env.PDS_PLC_ROTATION_KEY as any)) || '').trim();
+  if (!privHex) {
+    throw new XRPCError('ServerMisconfigured', 'PDS_PLC_ROTATION_KEY is not configured', 500);
+  }
+  const { Secp256k1Keypair } = await import('@atproto/crypto');
+  const dagCbor: any = await import('@ipld/dag-cbor');
+  const { sha256 } = await import('multiformats/hashes/sha2');
+  const { base32 } = await import('multiformats/bases/base32');
+  const u8a: any = await import('uint8arrays');
+
+  const signer = await Secp256k1Keypair.import(privHex);
+  const unsignedOp = {
+    type: 'plc_operation',
+    rotationKeys: [signer.did()],
+    verificationMethods: { atproto: opts.signingKey },
+    alsoKnownAs: [`at://${opts.handle}`],
+    services: { atproto_pds: { type: 'AtprotoPersonalDataServer', endpoint: opts.endpoint } },
+    prev: null,
+  } as Record<string, unknown>;
+  const sig = await signer.sign(dagCbor.encode(unsignedOp));
+  const signedOp = { ...unsignedOp, sig: (u8a.toString as any)(sig, 'base64url') };
+
+  // did:plc identifier: first 24 chars of base32(sha256(genesis op))
+  const digest = await sha256.digest(dagCbor.encode(signedOp));
+  const did = `did:plc:${base32.baseEncode(digest.digest).slice(0, 24)}`;
+  await submitPlcOperation(did, signedOp);
+  return did;
+}
@@ -1,5 +1,5 @@
 import type { Env } from '../env';
-import { resolveSecret } from './secrets';
+import { getPrimaryDid } from './accounts';
 
 let tableEnsured = false;
 
@@ -13,10 +13,9 @@ async function ensureTable(env: Env) {
 
 // No defaults — return empty when nothing stored to avoid local fallbacks
 
-export async function getActorPreferences(env: Env): Promise<{ did: string; preferences: any[] }> {
+export async function getActorPreferences(env: Env, accountDid?: string): Promise<{ did: string; preferences: any[] }> {
   await ensureTable(env);
-  const did = await resolveSecret(env.PDS_DID);
-  if (!did) throw new Error('PDS_DID is not configured');
+  const did = accountDid ?? (await getPrimaryDid(env));
   const row = await env.DB.prepare('SELECT json FROM actor_preferences WHERE did = ?')
     .bind(did)
     .first<{ json: string }>();
@@ -34,10 +33,9 @@ export async function getActorPreferences(env: Env): Promise<{ did: string; pref
   }
 }
 
-export async function setActorPreferences(env: Env, preferences: any[]): Promise<void> {
+export async function setActorPreferences(env: Env, preferences: any[], accountDid?: string): Promise<void> {
   await ensureTable(env);
-  const did = await resolveSecret(env.PDS_DID);
-  if (!did) throw new Error('PDS_DID is not configured');
+  const did = accountDid ?? (await getPrimaryDid(env));
   const now = Date.now();
   await env.DB.prepare(
     'INSERT INTO actor_preferences (did, json, updated_at) VALUES (?, ?, ?) ON CONFLICT(did) DO UPDATE SET json = excluded.json, updated_at = excluded.updated_at'
@@ -1,14 +1,20 @@
 import type { Env } from '../env';
 
+const RATE_LIMIT_TABLE = "CREATE TABLE IF NOT EXISTS rate_limit (ip TEXT NOT NULL, bucket TEXT NOT NULL, window INTEGER NOT NULL, count INTEGER NOT NULL, PRIMARY KEY (ip,bucket,window))";
+const WINDOW_MS = 60_000;
+/** Requests that send mail; not raised by PDS_RATE_LIMIT_PER_MIN */
+const EMAIL_LIMIT_PER_MIN = 5;
+
 // Rate limiting (best-effort, D1 based)
-export async function checkRate(env: Env, request: Request, bucket: 'writes' | 'blob'): Promise<Response | null> {
+export async function checkRate(env: Env, request: Request, bucket: 'writes' | 'blob' | 'email'): Promise<Response | null> {
   try {
-    const limit = Number((env.PDS_RATE_LIMIT_PER_MIN as string | undefined) ?? (bucket === 'blob' ? 30 : 60));
+    const limit = bucket === 'email'
+      ? EMAIL_LIMIT_PER_MIN
+      : Number((env.PDS_RATE_LIMIT_PER_MIN as string | undefined) ?? (bucket === 'blob' ? 30 : 60));
     const now = Date.now();
-    const windowMs = 60_000;
-    const win = Math.floor(now / windowMs);
+    const win = Math.floor(now / WINDOW_MS);
     const ip = request.headers.get('cf-connecting-ip') ?? request.headers.get('x-forwarded-for') ?? '127.0.0.1';
-    await env.DB.exec("CREATE TABLE IF NOT EXISTS rate_limit (ip TEXT NOT NULL, bucket TEXT NOT NULL, window INTEGER NOT NULL, count INTEGER NOT NULL, PRIMARY KEY (ip,bucket,window))");
+    await env.DB.exec(RATE_LIMIT_TABLE);
     const row: any = await env.DB.prepare('SELECT count FROM rate_limit WHERE ip=? AND bucket=? AND window=?').bind(ip, bucket, win).first();
     const count = row?.count ? Number(row.count) : 0;
     if (count >= limit) return rateLimited();
@@ -29,6 +35,15 @@ export async function checkRate(env: Env, request: Request, bucket: 'writes' | '
   }
 }
 
+/**
+ * Delete counters for windows that ended before `before` (epoch ms)
+ */
+export async function pruneRateLimitWindows(env: Env, before: number): Promise<number> {
+  await env.DB.exec(RATE_LIMIT_TABLE);
+  const res = await env.DB.prepare('DELETE FROM rate_limit WHERE window < ?').bind(Math.floor(before / WINDOW_MS)).run();
+  return res.meta.changes ?? 0;
+}
+
 function rateLimited() {
   return new Response(JSON.stringify({ error: 'RateLimited' }), { status: 429 });
 }
@@ -0,0 +1,367 @@
+import type { Env } from '../env';
+import { drizzle } from 'drizzle-orm/d1';
+import { eq, sql } from 'drizzle-orm';
+import { CID } from 'multiformats/cid';
+import * as dagCbor from '@ipld/dag-cbor';
+import { repo_import, repo_root } from '../db/schema';
+import { blobUsageStatements } from '../db/dal';
+import { appendCommit } from '../db/repo';
+import { recordBlobKeys } from './blob-refs';
+import { parseCarFile, validateBlock, type CarBlock } from './car-reader';
+import { verifyCommit, type SignedCommit } from './commit';
+import { D1Blockstore, type ReadableBlockstore } from './mst/blockstore';
+import { MST } from './mst';
+import { encodeBlocksToCAR } from '../services/car';
+import { notifySequencerSync } from './sequencer';
+import { resolveDidDocument } from './appview';
+import { getPrimaryDid } from './accounts';
+import { getRepoSigningKey, importSigningKey } from './signing-key';
+import { InvalidRequest } from './errors';
+
+/**
+ * Repository import (com.atproto.repo.importRepo)
+ *
+ * The CAR is applied in two phases — raw blocks into the blockstore, then one
+ * `record` row per MST leaf — in batches, checking a wall-clock budget after
+ * each batch. Progress is persisted in `repo_import`, so when the budget runs
+ * out the caller can re-send the same CAR and the import picks up where it
+ * stopped. Sending a CAR with a different root restarts from scratch.
+ *
+ * Most clients (goat, @atproto/api) never retry importRepo, so the budget only
+ * applies to CARs above PDS_IMPORT_SYNC_MAX_BLOCKS; anything smaller is
+ * imported in a single call however long it takes.
+ */
+
+const BATCH_SIZE = 100;
+const DEFAULT_TIME_BUDGET_MS = 20_000;
+const DEFAULT_SYNC_MAX_BLOCKS = 10_000;
+
+export type ImportStatus = 'blocks' | 'records' | 'complete';
+
+export interface ImportProgress {
+  did: string;
+  commitCid: string;
+  rev: string;
+  status: ImportStatus;
+  blocksTotal: number;
+  blocksDone: number;
+  recordsDone: number;
+}
+
+export interface ImportResult {
+  complete: boolean;
+  progress: ImportProgress;
+}
+
+/**
+ * In-memory blockstore over the parsed CAR, used to walk the imported MST
+ * without reading back from D1.
+ */
+class CarBlockstore implements ReadableBlockstore {
+  private readonly blocks = new Map<string, CarBlock>();
+  private readonly checked = new Set<string>();
+
+  constructor(blocks: CarBlock[]) {
+    for (const block of blocks) this.blocks.set(block.cid.toString(), block);
+  }
+
+  /** A resumed import reads blocks from a CAR it has not checked yet, so every block is checked on first use */
+  private async bytes(cid: CID): Promise<Uint8Array | null> {
+    const key = cid.toString();
+    const block = this.blocks.get(key);
+    if (!block) return null;
+    if (!this.checked.has(key)) {
+      if (!(await validateBlock(block))) throw new InvalidRequest(`Block ${key} does not match its CID`);
+      this.checked.add(key);
+    }
+    return block.bytes;
+  }
+
+  async get(cid: CID): Promise<Uint8Array | null> {
+    return this.bytes(cid);
+  }
+
+  async has(cid: CID): Promise<boolean> {
+    return this.blocks.has(cid.toString());
+  }
+
+  async getMany(cids: CID[]): Promise<{ blocks: Map<string, Uint8Array>; missing: CID[] }> {
+    const blocks = new Map<string, Uint8Array>();
+    const missing: CID[] = [];
+    for (const cid of cids) {
+      const bytes = await this.bytes(cid);
+      if (bytes) blocks.set(cid.toString(), bytes);
+      else missing.push(cid);
+    }
+    return { blocks, missing };
+  }
+
+  async readObj<T>(cid: CID): Promise<T> {
+    const bytes = await this.bytes(cid);
+    if (!bytes) throw new InvalidRequest(`Block missing from CAR: ${cid.toString()}`);
+    return dagCbor.decode(bytes) as T;
+  }
+}
+
+/**
+ * Import a repository CAR for a hosted account (`opts.did`, default: the
+ * operator account), continuing any in-progress import of the same root.
+ * Throws InvalidRequest for malformed or unverifiable input.
+ */
+export async function importRepo(
+  env: Env,
+  carBytes: Uint8Array,
+  opts?: { timeBudgetMs?: number; syncMaxBlocks?: number; did?: string },
+): Promise<ImportResult> {
+  const started = Date.now();
+  const budget = opts?.timeBudgetMs ?? getTimeBudget(env);
+  const syncMaxBlocks = opts?.syncMaxBlocks ?? getSyncMaxBlocks(env);
+
+  const did = opts?.did ?? (await getPrimaryDid(env));
+
+  let parsed: ReturnType<typeof parseCarFile>;
+  try {
+    parsed = parseCarFile(carBytes);
+  } catch (e: any) {
+    throw new InvalidRequest(`Invalid CAR file: ${e?.message ?? String(e)}`);
+  }
+  const { header, blocks } = parsed;
+  const outOfTime = () => blocks.length > syncMaxBlocks && Date.now() - started >= budget;
+
+  const root = header.roots[0];
+  const commitBlock = root ? blocks.find((b) => b.cid.equals(root)) : undefined;
+  if (!root || !commitBlock) throw new InvalidRequest('CAR root commit block not found');
+  if (!(await validateBlock(commitBlock))) throw new InvalidRequest('Commit block does not match its CID');
+
+  const commit = decodeCommit(commitBlock.bytes);
+  if (commit.did !== did) {
+    throw new InvalidRequest(`Repo belongs to ${commit.did}, not ${did}`);
+  }
+  if (!(await verifyImportedCommit(env, commit))) {
+    throw new InvalidRequest('Could not verify commit signature');
+  }
+
+  const db = drizzle(env.DB);
+  const commitCid = root.toString();
+  let row = await db.select().from(repo_import).where(eq(repo_import.did, did)).get();
+
+  if (row && row.commitCid === commitCid && row.status === 'complete') {
+    return { complete: true, progress: toProgress(row) };
+  }
+
+  if (!row || row.commitCid !== commitCid) {
+    // New import (or a different CAR): discard records indexed from any previous attempt
+    await env.DB.batch([
+      env.DB.prepare('DELETE FROM blob_usage WHERE record_uri IN (SELECT uri FROM record WHERE did = ?)').bind(did),
+      env.DB.prepare('DELETE FROM record WHERE did = ?').bind(did),
+    ]);
+    const now = Date.now();
+    const fresh = {
+      did,
+      commitCid,
+      rev: commit.rev,
+      status: 'blocks' as const,
+      blocksTotal: blocks.length,
+      blocksDone: 0,
+      recordsCursor: null,
+      recordsDone: 0,
+      startedAt: now,
+      updatedAt: now,
+    };
+    await db
+      .insert(repo_import)
+      .values(fresh)
+      .onConflictDoUpdate({
+        target: repo_import.did,
+        set: {
+          commitCid: fresh.commitCid,
+          rev: fresh.rev,
+          status: fresh.status,
+          blocksTotal: fresh.blocksTotal,
+          blocksDone: 0,
+          recordsCursor: null,
+          recordsDone: 0,
+          startedAt: now,
+          updatedAt: now,
+        },
+      })
+      .run();
+    row = fresh;
+  }
+
+  const progress = toProgress(row);
+  let recordsCursor = row.recordsCursor ?? undefined;
+
+  const save = async () => {
+    await db
+      .update(repo_import)
+      .set({
+        status: progress.status,
+        blocksDone: progress.blocksDone,
+        recordsCursor: recordsCursor ?? null,
+        recordsDone: progress.recordsDone,
+        updatedAt: Date.now(),
+      })
+      .where(eq(repo_import.did, did))
+      .run();
+  };
+
+  // Phase 1: raw blocks
+  if (progress.status === 'blocks') {
+    const store = new D1Blockstore(env);
+    while (progress.blocksDone < blocks.length) {
+      const batch = new Map<CID, Uint8Array>();
+      for (const block of blocks.slice(progress.blocksDone, progress.blocksDone + BATCH_SIZE)) {
+        if (!(await validateBlock(block))) {
+          // Nothing of this CAR can be trusted; drop the import rather than leave it pending
+          await db.delete(repo_import).where(eq(repo_import.did, did)).run();
+          throw new InvalidRequest(`Block ${block.cid.toString()} does not match its CID`);
+        }
+        batch.set(block.cid, block.bytes);
+      }
+      // Existing blocks are never replaced by imported bytes
+      await store.putMany(batch, { overwrite: false });
+      progress.blocksDone += batch.size;
+      if (progress.blocksDone >= blocks.length) progress.status = 'records';
+      await save();
+      if (outOfTime()) return { complete: false, progress };
+    }
+  }
+
+  // Phase 2: index records from the MST
+  if (progress.status === 'records') {
+    const carStore = new CarBlockstore(blocks);
+    const mst = MST.load(carStore, commit.data);
+    while (true) {
+      const leaves = await mst.list(BATCH_SIZE, recordsCursor);
+      if (leaves.length === 0) break;
+
+      const now = Date.now();
+      const stmts = [];
+      for (const leaf of leaves) {
+        const value = await carStore.readObj<unknown>(leaf.value);
+        const uri = `at://${did}/${leaf.key}`;
+        const json = JSON.stringify(value);
+        stmts.push(
+          env.DB.prepare('INSERT OR REPLACE INTO record (uri, did, cid, json, created_at) VALUES (?, ?, ?, ?, ?)')
+            .bind(uri, did, leaf.value.toString(), json, now),
+          ...blobUsageStatements(env, uri, recordBlobKeys(json)),
+        );
+      }
+      await env.DB.batch(stmts);
+
+      recordsCursor = leaves[leaves.length - 1].key;
+      progress.recordsDone += leaves.length;
+      await save();
+      if (leaves.length < BATCH_SIZE) break;
+      if (outOfTime()) return { complete: false, progress };
+    }
+  }
+
+  // Finalize: point the repo at the imported commit and announce it
+  const commitData = JSON.stringify({
+    did: commit.did,
+    version: commit.version,
+    data: commit.data.toString(),
+    rev: commit.rev,
+    prev: commit.prev?.toString() || null,
+  });
+  let s = '';
+  for (const b of commit.sig) s += String.fromCharCode(b);
+  const logged = await env.DB.prepare('SELECT seq FROM commit_log WHERE cid = ? LIMIT 1').bind(commitCid).first();
+  if (!logged) await appendCommit(env, commitCid, commit.rev, commitData, btoa(s));
+
+  await db
+    .insert(repo_root)
+    .values({ did, commitCid, rev: commit.rev })
+    .onConflictDoUpdate({
+      target: repo_root.did,
+      set: {
+        commitCid: sql.raw(`excluded.${repo_root.commitCid.name}`),
+        rev: sql.raw(`excluded.${repo_root.rev.name}`),
+      },
+    })
+    .run();
+
+  progress.status = 'complete';
+  await save();
+
+  const car = encodeBlocksToCAR(root, [{ cid: root, bytes: commitBlock.bytes }]);
+  let carB64 = '';
+  for (const b of car) carB64 += String.fromCharCode(b);
+  await notifySequencerSync(env, { did, commitCid, rev: commit.rev, data: commitData, blocks: btoa(carB64) });
+
+  return { complete: true, progress };
+}
+
+function getTimeBudget(env: Env): number {
+  const n = parseInt(env.PDS_IMPORT_TIME_BUDGET_MS ?? '', 10);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_TIME_BUDGET_MS;
+}
+
+function getSyncMaxBlocks(env: Env): number {
+  const n = parseInt(env.PDS_IMPORT_SYNC_MAX_BLOCKS ?? '', 10);
+  return Number.isFinite(n) && n >= 0 ? n : DEFAULT_SYNC_MAX_BLOCKS;
+}
+
+function toProgress(row: typeof repo_import.$inferSelect): ImportProgress {
+  return {
+    did: row.did,
+    commitCid: row.commitCid,
+    rev: row.rev,
+    status: row.status as ImportStatus,
+    blocksTotal: row.blocksTotal,
+    blocksDone: row.blocksDone,
+    recordsDone: row.recordsDone,
+  };
+}
+
+function decodeCommit(bytes: Uint8Array): SignedCommit {
+  const obj = dagCbor.decode(bytes) as any;
+  const data = obj ? CID.asCID(obj.data) : null;
+  if (
+    !obj ||
+    typeof obj.did !== 'string' ||
+    typeof obj.rev !== 'string' ||
+    typeof obj.version !== 'number' ||
+    !data ||
+    !(obj.sig instanceof Uint8Array)
+  ) {
+    throw new InvalidRequest('CAR root is not a repo commit');
+  }
+  return {
+    did: obj.did,
+    version: obj.version,
+    data,
+    rev: obj.rev,
+    prev: CID.asCID(obj.prev) ?? null,
+    sig: obj.sig,
+  };
+}
+
+/**
+ * Check the commit signature against this PDS's signing key first (re-import of
+ * our own export), then against the #atproto key in the account's DID document
+ * (migration from another PDS, before the PLC update).
+ */
+async function verifyImportedCommit(env: Env, commit: SignedCommit): Promise<boolean> {
+  const priv = await getRepoSigningKey(env, commit.did);
+  if (priv) {
+    try {
+      const kp = await importSigningKey(priv);
+      if (await verifyCommit(commit, kp.did())) return true;
+    } catch {}
+  }
+
+  try {
+    const doc = await resolveDidDocument(env, commit.did);
+    const methods: any[] = Array.isArray(doc?.verificationMethod) ? doc.verificationMethod : [];
+    const atproto = methods.find((m) => typeof m?.id === 'string' && m.id.endsWith('#atproto'));
+    if (atproto && typeof atproto.publicKeyMultibase === 'string') {
+      return await verifyCommit(commit, `did:key:${atproto.publicKeyMultibase}`);
+    }
+  } catch (e) {
+    console.warn('importRepo: failed to resolve DID document', e);
+  }
+  return false;
+}
@@ -0,0 +1,282 @@
+import { AccountTakedown, InsufficientScope, InvalidToken, XRPCError } from './errors';
+import { isValidDid, isValidNsid } from './lexicon/formats';
+
+/**
+ * Token scopes
+ *
+ * Access tokens carry one of the legacy session scopes (full access, app
+ * password, privileged app password, takendown) or, for OAuth sessions, the
+ * space-separated scope string the user consented to. AuthScopes parses either
+ * form once so routes can ask what the caller may do.
+ */
+
+export type RepoAction = 'create' | 'update' | 'delete';
+export type AccountAttr = 'email' | 'repo' | 'status';
+export type AccountAction = 'read' | 'manage';
+export type IdentityAttr = 'handle' | '*';
+
+type ScopeKind = 'access' | 'appPass' | 'appPassPrivileged' | 'signupQueued' | 'takendown' | 'oauth';
+
+interface RepoPermission { collections: string[]; actions: RepoAction[] }
+interface RpcPermission { lxms: string[]; aud: string }
+interface AccountPermission { attr: AccountAttr; action: AccountAction }
+
+/**
+ * One granular OAuth permission (`repo:`, `blob:`, `rpc:`, `account:`,
+ * `identity:`) or a reference to a permission set (`include:`)
+ */
+export type Permission =
+  | ({ resource: 'repo' } & RepoPermission)
+  | { resource: 'blob'; accept: string[] }
+  | ({ resource: 'rpc' } & RpcPermission)
+  | ({ resource: 'account' } & AccountPermission)
+  | { resource: 'identity'; attr: IdentityAttr }
+  | { resource: 'include'; nsid: string; aud: string | null };
+
+export const REPO_ACTIONS: RepoAction[] = ['create', 'update', 'delete'];
+
+/**
+ * Scopes that are not granular permissions: `atproto`, required in every
+ * OAuth request, and the transition scopes that stand in for app passwords
+ */
+export const STATIC_SCOPES = new Set(['atproto', 'transition:generic', 'transition:chat.bsky', 'transition:email']);
+
+/**
+ * Methods that app-password sessions may only call with a privileged app password
+ */
+export const PRIVILEGED_METHODS = new Set<string>([
+  'chat.bsky.actor.deleteAccount',
+  'chat.bsky.actor.exportAccountData',
+  'chat.bsky.convo.deleteMessageForSelf',
+  'chat.bsky.convo.getConvo',
+  'chat.bsky.convo.getConvoForMembers',
+  'chat.bsky.convo.getLog',
+  'chat.bsky.convo.getMessages',
+  'chat.bsky.convo.leaveConvo',
+  'chat.bsky.convo.listConvos',
+  'chat.bsky.convo.muteConvo',
+  'chat.bsky.convo.sendMessage',
+  'chat.bsky.convo.sendMessageBatch',
+  'chat.bsky.convo.unmuteConvo',
+  'chat.bsky.convo.updateRead',
+  'com.atproto.server.createAccount',
+]);
+
+/**
+ * Split `prefix:positional?key=a&key=b` into its positional value and params
+ */
+function splitScope(token: string): { prefix: string; positional: string | null; params: URLSearchParams } {
+  const q = token.indexOf('?');
+  const head = q === -1 ? token : token.slice(0, q);
+  const params = new URLSearchParams(q === -1 ? '' : token.slice(q + 1));
+  const colon = head.indexOf(':');
+  if (colon === -1) return { prefix: head, positional: null, params };
+  return { prefix: head.slice(0, colon), positional: decodeURIComponent(head.slice(colon + 1)), params };
+}
+
+const isMimePattern = (value: string) => /^([a-z0-9.+-]+|\*)\/([a-z0-9.+-]+|\*)$/i.test(value) && !/^\*\/[^*]/.test(value);
+const isAudience = (value: string) => value === '*' || isValidDid(value.split('#')[0]);
+
+/**
+ * Parse a granular permission; null when the token is not one or is malformed
+ */
+export function parsePermission(token: string): Permission | null {
+  let parts: ReturnType<typeof splitScope>;
+  try {
+    parts = splitScope(token);
+  } catch {
+    return null;
+  }
+  const { prefix, positional, params } = parts;
+  switch (prefix) {
+    case 'repo': {
+      const collections = positional ? [positional] : params.getAll('collection');
+      const actions = params.getAll('action');
+      if (!collections.length || !collections.every((c) => c === '*' || isValidNsid(c))) return null;
+      if (!actions.every((a) => REPO_ACTIONS.includes(a as RepoAction))) return null;
+      return { resource: 'repo', collections, actions: actions.length ? (actions as RepoAction[]) : REPO_ACTIONS };
+    }
+    case 'blob': {
+      const accept = positional ? [positional] : params.getAll('accept');
+      if (!accept.length || !accept.every(isMimePattern)) return null;
+      return { resource: 'blob', accept };
+    }
+    case 'rpc': {
+      const lxms = positional ? [positional] : params.getAll('lxm');
+      const aud = params.get('aud');
+      if (!aud || !isAudience(aud) || !lxms.length || !lxms.every((l) => l === '*' || isValidNsid(l))) return null;
+      // A wildcard method is only meaningful for a specific audience
+      if (aud === '*' && lxms.includes('*')) return null;
+      return { resource: 'rpc', lxms, aud };
+    }
+    case 'account': {
+      const attr = positional ?? params.get('attr');
+      const action = params.get('action') ?? 'read';
+      if (attr !== 'email' && attr !== 'repo' && attr !== 'status') return null;
+      if (action !== 'read' && action !== 'manage') return null;
+      return { resource: 'account', attr, action };
+    }
+    case 'identity': {
+      const attr = positional ?? params.get('attr');
+      if (attr !== 'handle' && attr !== '*') return null;
+      return { resource: 'identity', attr };
+    }
+    case 'include': {
+      const aud = params.get('aud');
+      if (!positional || !isValidNsid(positional) || (aud !== null && (aud === '*' || !isAudience(aud)))) return null;
+      return { resource: 'include', nsid: positional, aud };
+    }
+    default:
+      return null;
+  }
+}
+
+function mimeMatches(pattern: string, mime: string): boolean {
+  if (pattern === '*/*') return true;
+  const [type, subtype] = pattern.toLowerCase().split('/');
+  const [mimeType, mimeSubtype] = mime.toLowerCase().split('/');
+  return type === mimeType && (subtype === '*' || subtype === mimeSubtype);
+}
+
+function audMatches(granted: string, aud: string | undefined): boolean {
+  // Calls answered by the PDS itself have no upstream audience
+  if (aud === undefined || granted === '*' || granted === aud) return true;
+  // A bare DID matches any of its services
+  return !aud.includes('#') && granted.split('#')[0] === aud;
+}
+
+export class AuthScopes {
+  private readonly oauth = new Set<string>();
+  private readonly repo: RepoPermission[] = [];
+  private readonly blob: string[] = [];
+  private readonly rpc: RpcPermission[] = [];
+  private readonly account: AccountPermission[] = [];
+  private readonly identity = new Set<IdentityAttr>();
+
+  private constructor(readonly kind: ScopeKind, readonly raw: string) {}
+
+  static parse(scope: string | undefined | null): AuthScopes {
+    switch (scope ?? 'access') {
+      case 'access':
+      case 'com.atproto.access':
+        return new AuthScopes('access', 'com.atproto.access');
+      case 'com.atproto.appPass':
+        return new AuthScopes('appPass', 'com.atproto.appPass');
+      case 'com.atproto.appPassPrivileged':
+        return new AuthScopes('appPassPrivileged', 'com.atproto.appPassPrivileged');
+      case 'com.atproto.signupQueued':
+        return new AuthScopes('signupQueued', 'com.atproto.signupQueued');
+      case 'com.atproto.takendown':
+        return new AuthScopes('takendown', 'com.atproto.takendown');
+    }
+
+    const scopes = new AuthScopes('oauth', scope!);
+    for (const token of scope!.split(/\s+/).filter(Boolean)) {
+      scopes.oauth.add(token);
+      scopes.addGranular(token);
+    }
+    return scopes;
+  }
+
+  private addGranular(token: string) {
+    const permission = parsePermission(token);
+    switch (permission?.resource) {
+      case 'repo':
+        this.repo.push({ collections: permission.collections, actions: permission.actions });
+        break;
+      case 'blob':
+        this.blob.push(...permission.accept);
+        break;
+      case 'rpc':
+        this.rpc.push({ lxms: permission.lxms, aud: permission.aud });
+        break;
+      case 'account':
+        this.account.push({ attr: permission.attr, action: permission.action });
+        break;
+      case 'identity':
+        this.identity.add(permission.attr);
+        break;
+      // Permission sets are expanded into the scopes above before a token is issued
+    }
+  }
+
+  /** OAuth `transition:generic`, which grants what an app password would */
+  private get generic(): boolean {
+    return this.oauth.has('transition:generic');
+  }
+
+  private get appPassword(): boolean {
+    return this.kind === 'appPass' || this.kind === 'appPassPrivileged';
+  }
+
+  /**
+   * Whether the session was created with the account password
+   */
+  hasFullAccess(): boolean {
+    return this.kind === 'access';
+  }
+
+  /**
+   * Full access or a privileged app password
+   */
+  hasPrivilegedAccess(): boolean {
+    return this.kind === 'access' || this.kind === 'appPassPrivileged';
+  }
+
+  allowsRepo(collection: string, action: RepoAction): boolean {
+    if (this.kind === 'access' || this.appPassword || this.generic) return true;
+    return this.repo.some((p) =>
+      p.actions.includes(action) && (p.collections.includes('*') || p.collections.includes(collection)),
+    );
+  }
+
+  allowsBlob(mime: string): boolean {
+    if (this.kind === 'access' || this.appPassword || this.generic) return true;
+    return this.blob.some((pattern) => mimeMatches(pattern, mime));
+  }
+
+  /**
+   * Whether the caller may invoke `lxm` on `aud` (a `did#service` reference).
+   * Leave `aud` undefined for methods the PDS answers itself; pass `*` as
+   * `lxm` for a service token that is not bound to one method.
+   */
+  allowsRpc(lxm: string, aud?: string): boolean {
+    if (lxm === '*') {
+      return this.hasPrivilegedAccess() || this.rpc.some((p) => p.lxms.includes('*') && audMatches(p.aud, aud));
+    }
+    if (this.kind === 'access' || this.kind === 'appPassPrivileged') return true;
+    if (this.kind === 'appPass') return !PRIVILEGED_METHODS.has(lxm);
+    if (this.kind !== 'oauth') return false;
+    if (lxm.startsWith('chat.bsky.') && this.oauth.has('transition:chat.bsky')) return true;
+    if (this.generic && !PRIVILEGED_METHODS.has(lxm)) return true;
+    return this.rpc.some((p) => (p.lxms.includes('*') || p.lxms.includes(lxm)) && audMatches(p.aud, aud));
+  }
+
+  allowsAccount(attr: AccountAttr, action: AccountAction): boolean {
+    if (this.kind === 'access') return true;
+    // App passwords can see the account email but never manage the account
+    if (this.appPassword) return attr === 'email' && action === 'read';
+    if (attr === 'email' && action === 'read' && this.oauth.has('transition:email')) return true;
+    return this.account.some((p) => p.attr === attr && (p.action === 'manage' || action === 'read'));
+  }
+
+  allowsIdentity(attr: IdentityAttr): boolean {
+    if (this.kind === 'access') return true;
+    if (attr === 'handle' && (this.appPassword || this.generic)) return true;
+    return this.identity.has('*') || this.identity.has(attr);
+  }
+
+  /**
+   * Error to answer with when a check above fails; `required` names the missing permission
+   */
+  deny(required: string): XRPCError {
+    switch (this.kind) {
+      case 'oauth':
+        return new InsufficientScope(`Missing required scope "${required}"`);
+      case 'takendown':
+        return new AccountTakedown();
+      default:
+        return new InvalidToken('Bad token scope');
+    }
+  }
+}
@@ -11,6 +11,7 @@ const SECRET_KEYS = [
   "SESSION_JWT_SECRET",
   "REPO_SIGNING_KEY",
   "PDS_PLC_ROTATION_KEY",
+  "PDS_ADMIN_PASSWORD",
 ] as const satisfies readonly (keyof Env)[];
 
 function isSecretStoreBinding(value: unknown): value is SecretsStoreSecret {
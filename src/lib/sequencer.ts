@@ -1,6 +1,8 @@
 import type { Env } from '../env';
+import { invalidateIdentity } from './identity';
+import { purgeDidDocumentCache } from './did-web';
 
-export async function notifySequencer(env: Env, obj: unknown) {
+async function postToSequencer(env: Env, path: string, obj: unknown) {
   if (!env.SEQUENCER) {
     console.warn('notifySequencer: SEQUENCER binding missing');
     return;
@@ -8,12 +10,43 @@ export async function notifySequencer(env: Env, obj: unknown) {
   try {
     const id = env.SEQUENCER.idFromName('default');
     const stub = env.SEQUENCER.get(id);
-    await stub.fetch('https://sequencer/commit', {
+    const res = await stub.fetch(`https://sequencer${path}`, {
       method: 'POST',
       headers: { 'content-type': 'application/json' },
       body: JSON.stringify(obj),
     });
+    if (!res.ok) console.warn(`notifySequencer: sequencer answered ${res.status} to ${path}`);
   } catch (e) {
-    console.warn('notifySequencer: failed to POST /commit to sequencer', e);
+    console.warn(`notifySequencer: failed to POST ${path} to sequencer`, e);
   }
 }
+
+export async function notifySequencer(env: Env, obj: unknown) {
+  await postToSequencer(env, '/commit', obj);
+}
+
+/**
+ * Announce a repo state reset (#sync) — used after importRepo replaces the repo
+ * wholesale, so relays refetch instead of trying to apply a diff.
+ */
+export async function notifySequencerSync(env: Env, obj: { did: string; commitCid: string; rev: string; data: string; blocks: string }) {
+  await postToSequencer(env, '/sync', obj);
+}
+
+/**
+ * Announce an account status change (#account)
+ */
+export async function notifySequencerAccount(env: Env, obj: { did: string; active: boolean; status?: string }) {
+  await postToSequencer(env, '/account', obj);
+}
+
+/**
+ * Announce that the account's DID document or handle may have changed (#identity).
+ * Cached lookups for the DID and the served did.json are dropped first, so this
+ * PDS (and, for did:web, everyone else) sees the new document.
+ */
+export async function notifySequencerIdentity(env: Env, obj: { did: string; handle?: string }) {
+  await invalidateIdentity(env, obj);
+  await purgeDidDocumentCache(env, obj.did);
+  await postToSequencer(env, '/identity', obj);
+}
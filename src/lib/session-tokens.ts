@@ -2,11 +2,12 @@ import { bytesToHex, randomBytes } from '@noble/hashes/utils.js';
 import type { Env } from '../env';
 import { getRuntimeString } from './secrets';
 import { getOrCreateSecret } from '../db/account';
-import { SignJWT, jwtVerify, type JWTPayload } from 'jose';
+import { SignJWT, decodeProtectedHeader, errors, jwtVerify, type JWTPayload } from 'jose';
+import { getKeyRingCreatedAt, getSigningKey, getVerificationKey } from './access-token-keys';
 
 const SESSION_SECRET_KEY = 'session_jwt_secret';
 const GRACE_PERIOD_SECONDS = 2 * 60 * 60;
-const ACCESS_TTL_SECONDS = 120 * 60; // 120 minutes
+export const ACCESS_TTL_SECONDS = 120 * 60; // 120 minutes
 const REFRESH_TTL_SECONDS = 90 * 24 * 60 * 60; // 90 days
 
 async function loadSecret(env: Env): Promise<string> {
@@ -31,20 +32,46 @@ async function getServiceDid(env: Env): Promise<string> {
   return did;
 }
 
-export async function issueSessionTokens(env: Env, did: string, opts: { jti?: string } = {}) {
+/**
+ * Legacy access-token scope for a session: full access, or one of the app-password
+ * scopes. OAuth sessions carry their granted scope string instead.
+ */
+export type SessionScope = 'access' | 'com.atproto.appPass' | 'com.atproto.appPassPrivileged';
+
+export function appPasswordScope(privileged: boolean): SessionScope {
+  return privileged ? 'com.atproto.appPassPrivileged' : 'com.atproto.appPass';
+}
+
+/**
+ * Issue an access/refresh pair. Access tokens are ES256-signed with the current
+ * key of the access token key ring (see access-token-keys.ts), so anyone can
+ * verify them against /oauth/jwks; refresh tokens are only ever read by this
+ * PDS and stay HS256 with the session secret. OAuth sessions pass their client
+ * and session (refresh token family) ids, which access tokens carry as
+ * `client_id` and `sid`.
+ */
+export async function issueSessionTokens(env: Env, did: string, opts: {
+  jti?: string;
+  scope?: string;
+  clientId?: string;
+  sessionId?: string;
+} = {}) {
   const jwtKey = await getJwtKey(env);
   const serviceDid = await getServiceDid(env);
   const now = Math.floor(Date.now() / 1000);
 
   const accessExp = now + ACCESS_TTL_SECONDS;
   const accessPayload: TokenPayload = {
-    scope: 'access',
+    scope: opts.scope ?? 'access',
     aud: serviceDid,
     sub: did,
     iat: now,
     exp: accessExp,
+    ...(opts.clientId ? { client_id: opts.clientId } : {}),
+    ...(opts.sessionId ? { sid: opts.sessionId } : {}),
   };
-  const accessJwt = await signJwt(jwtKey, 'at+jwt', accessPayload);
+  const signingKey = await getSigningKey(env);
+  const accessJwt = await signJwt(signingKey.key, 'at+jwt', accessPayload, signingKey.kid);
 
   const jti = opts.jti ?? generateTokenId();
   const refreshExp = now + REFRESH_TTL_SECONDS;
@@ -87,10 +114,25 @@ export async function verifyRefreshToken(env: Env, token: string) {
   } as const;
 }
 
+/**
+ * Verify an access token against any key in the ring. HS256 tokens from before
+ * the ring existed are accepted until the last of them has expired.
+ */
 export async function verifyAccessToken(env: Env, token: string) {
-  const key = await getJwtKey(env);
   const serviceDid = await getServiceDid(env);
+  const { alg, kid } = decodeProtectedHeader(token);
+  let key: CryptoKey | Uint8Array | null = null;
+  if (alg === 'ES256' && typeof kid === 'string') {
+    key = await getVerificationKey(env, kid);
+  } else if (alg === 'HS256') {
+    const ringCreatedAt = await getKeyRingCreatedAt(env);
+    if (Math.floor(Date.now() / 1000) < ringCreatedAt + ACCESS_TTL_SECONDS) key = await getJwtKey(env);
+  }
+  if (!key) throw new errors.JWKSNoMatchingKey('Unknown access token key');
   const { header, payload } = await decodeAndVerifyJwt(key, token, 'at+jwt', serviceDid);
+  if (header.alg === 'HS256' && payload.iat >= (await getKeyRingCreatedAt(env))) {
+    throw new errors.JWTInvalid('HS256 access token issued after ES256 signing began');
+  }
   if (header.typ !== 'at+jwt') {
     throw new Error('Invalid token type');
   }
@@ -117,12 +159,12 @@ type TokenPayload = {
 
 type RefreshTokenPayload = TokenPayload & { jti: string };
 
-type TokenHeader = { alg: 'HS256'; typ: 'at+jwt' | 'refresh+jwt' };
+type TokenHeader = { alg: 'HS256' | 'ES256'; typ: 'at+jwt' | 'refresh+jwt'; kid?: string };
 
-async function signJwt(key: Uint8Array, typ: TokenHeader['typ'], payload: TokenPayload): Promise<string> {
+async function signJwt(key: Uint8Array | CryptoKey, typ: TokenHeader['typ'], payload: TokenPayload, kid?: string): Promise<string> {
   // jose will set standard claims via dedicated methods; we also keep custom claims in payload
   const signer = new SignJWT(payload as JWTPayload)
-    .setProtectedHeader({ alg: 'HS256', typ })
+    .setProtectedHeader(kid ? { alg: 'ES256', typ, kid } : { alg: 'HS256', typ })
     .setSubject(payload.sub)
     .setAudience(payload.aud)
     .setIssuedAt(payload.iat)
@@ -130,9 +172,9 @@ async function signJwt(key: Uint8Array, typ: TokenHeader['typ'], payload: TokenP
   return await signer.sign(key);
 }
 
-async function decodeAndVerifyJwt(key: Uint8Array, token: string, expectedTyp: TokenHeader['typ'], audience: string) {
+async function decodeAndVerifyJwt(key: Uint8Array | CryptoKey, token: string, expectedTyp: TokenHeader['typ'], audience: string) {
   const { payload, protectedHeader } = await jwtVerify(token, key, {
-    algorithms: ['HS256'],
+    algorithms: [key instanceof Uint8Array ? 'HS256' : 'ES256'],
     audience,
   });
   if (protectedHeader.typ !== expectedTyp) {
@@ -0,0 +1,134 @@
+import type { Env } from '../env';
+import type { Secp256k1Keypair } from '@atproto/crypto';
+import { consumeEmailToken } from '../db/account';
+import { bumpRoot } from '../db/repo';
+import { EMAIL_TOKEN_TTL_MS } from './email';
+import { XRPCError } from './errors';
+import { getAccountHandle } from './actor';
+import { getPlcData, signPlcUpdate, submitPlcOperation } from './plc';
+import { notifySequencerIdentity, notifySequencerSync } from './sequencer';
+import { getRepoSigningKey, importSigningKey, storeRepoSigningKey } from './signing-key';
+
+/**
+ * Signing Key Rotation
+ *
+ * Moves the account to a new repo signing key. For did:plc the DID document is
+ * updated with a PLC operation signed by PDS_PLC_ROTATION_KEY; did:web
+ * documents are served from the stored key and follow automatically.
+ */
+
+export interface RotateSigningKeyOptions {
+  /** New private key (32-byte hex or base64); generated when omitted */
+  privateKey?: string;
+  /** Report the verification methods the DID document would get, but sign and change nothing */
+  dryRun?: boolean;
+  /**
+   * The emailed token from requestPlcOperationSignature; required before a
+   * PLC operation is submitted, as for signPlcOperation
+   */
+  token?: string;
+}
+
+export interface SigningKeyRotation {
+  did: string;
+  dryRun: boolean;
+  /** did:key of the key being replaced, if one was configured */
+  previousKey: string | null;
+  newKey: string;
+  /** The DID document's verification methods after the rotation (did:plc only) */
+  verificationMethods: Record<string, string> | null;
+  /** The signed and submitted PLC operation (did:plc only; null on a dry run) */
+  plcOperation: Record<string, unknown> | null;
+  /** Head commit re-signed with the new key */
+  commit: { cid: string; rev: string } | null;
+}
+
+/**
+ * Replace the repo signing key: point the DID document's #atproto verification
+ * method at the new key (PLC operation for did:plc), store the key, re-sign the
+ * head commit and announce the change with #identity and #sync.
+ *
+ * The emailed token is checked before anything is signed, and nothing is
+ * stored until the PLC directory has accepted the operation, so a failed
+ * rotation leaves the old key in place. Should storing the key fail
+ * after that, the DID document is pointed back at the old key.
+ */
+export async function rotateSigningKey(env: Env, did: string, opts: RotateSigningKeyOptions = {}): Promise<SigningKeyRotation> {
+  let next: Secp256k1Keypair;
+  if (opts.privateKey) {
+    try {
+      next = await importSigningKey(opts.privateKey);
+    } catch {
+      throw new XRPCError('InvalidRequest', 'privateKey must be a 32-byte secp256k1 key (hex or base64)', 400);
+    }
+  } else {
+    const { Secp256k1Keypair } = await import('@atproto/crypto');
+    next = await Secp256k1Keypair.create({ exportable: true });
+  }
+  const newKey = next.did();
+
+  const current = await getRepoSigningKey(env, did);
+  const previousKey = current ? (await importSigningKey(current)).did() : null;
+  if (previousKey === newKey) {
+    throw new XRPCError('InvalidRequest', 'New signing key is the current signing key', 400);
+  }
+
+  const isPlc = did.startsWith('did:plc:');
+  const original = isPlc ? (await getPlcData(did)).verificationMethods ?? {} : null;
+  const verificationMethods = original ? { ...original, atproto: newKey } : null;
+
+  // A signed operation could be submitted by whoever receives it, so a dry run gets none
+  if (opts.dryRun) {
+    return { did, dryRun: true, previousKey, newKey, verificationMethods, plcOperation: null, commit: null };
+  }
+
+  let plcOperation: Record<string, unknown> | null = null;
+  if (original && verificationMethods) {
+    await confirmPlcToken(env, did, opts.token);
+    plcOperation = await signPlcUpdate(env, did, { verificationMethods });
+    await submitPlcOperation(did, plcOperation);
+    try {
+      await storeRepoSigningKey(env, next, did);
+    } catch (error) {
+      await restoreVerificationMethods(env, did, original, error);
+    }
+  } else {
+    await storeRepoSigningKey(env, next, did);
+  }
+
+  // Same tree, new signature: relays verify the repo against the new key from here on
+  const head = await bumpRoot(env, undefined, undefined, { ops: [], did });
+
+  await notifySequencerIdentity(env, { did, handle: await getAccountHandle(env, did) });
+  await notifySequencerSync(env, { did, commitCid: head.commitCid, rev: head.rev, data: head.commitData, blocks: head.blocks });
+
+  return { did, dryRun: false, previousKey, newKey, verificationMethods, plcOperation, commit: { cid: head.commitCid, rev: head.rev } };
+}
+
+async function confirmPlcToken(env: Env, did: string, token: string | undefined): Promise<void> {
+  if (!token) {
+    throw new XRPCError('InvalidRequest', 'email confirmation token required to sign PLC operations', 400);
+  }
+  const status = await consumeEmailToken(env, did, 'plc_operation', token, EMAIL_TOKEN_TTL_MS);
+  if (status === 'invalid') throw new XRPCError('InvalidToken', 'Token is invalid', 400);
+  if (status === 'expired') throw new XRPCError('ExpiredToken', 'Token is expired', 400);
+}
+
+/**
+ * The directory accepted the new key but it could not be stored: put the old
+ * verification methods back so the DID document matches the key still in use
+ */
+async function restoreVerificationMethods(env: Env, did: string, verificationMethods: Record<string, string>, cause: unknown): Promise<never> {
+  const reason = cause instanceof Error ? cause.message : String(cause);
+  try {
+    await submitPlcOperation(did, await signPlcUpdate(env, did, { verificationMethods }));
+  } catch (error) {
+    console.error('rotateSigningKey: restoring the PLC document failed:', error);
+    throw new XRPCError(
+      'SigningKeyMismatch',
+      `The PLC document names the new signing key, but it could not be stored (${reason}) and the document could not be restored; rotate again to recover`,
+      500,
+    );
+  }
+  throw new XRPCError('SigningKeyNotStored', `The new signing key could not be stored (${reason}); the PLC document was restored to the previous key`, 500);
+}
@@ -0,0 +1,65 @@
+import type { Env } from '../env';
+import type { Secp256k1Keypair } from '@atproto/crypto';
+import { getSecret, setSecret } from '../db/account';
+import { getRuntimeString, resolveSecret } from './secrets';
+import { getPrimaryDid } from './accounts';
+
+/**
+ * Repo Signing Key
+ *
+ * The key that signs repo commits and service-auth JWTs. REPO_SIGNING_KEY is
+ * the operator account's initial key; once rotated, the new key is kept in the
+ * `secret` table and takes precedence, so rotation does not require
+ * redeploying the Worker. Accounts created in multi-account mode only ever
+ * have a stored key.
+ */
+
+const SIGNING_KEY_SECRET = 'repo_signing_key';
+
+async function secretKeyFor(env: Env, did?: string): Promise<string | null> {
+  if (!did || did === (await getPrimaryDid(env))) return null;
+  return `${SIGNING_KEY_SECRET}:${did}`;
+}
+
+/**
+ * Current repo signing key for `did` (default: the operator account): the
+ * stored key if there is one, else REPO_SIGNING_KEY for the operator account
+ */
+export async function getRepoSigningKey(env: Env, did?: string): Promise<string | undefined> {
+  const accountKey = await secretKeyFor(env, did);
+  try {
+    const stored = await getSecret(env, accountKey ?? SIGNING_KEY_SECRET);
+    if (stored) return stored;
+  } catch {
+    // secret table missing (fresh database); fall back to configuration
+  }
+  if (accountKey) return undefined;
+  const configured = (await resolveSecret(env.REPO_SIGNING_KEY))?.trim();
+  if (configured) return configured;
+  return ((await getRuntimeString(env, 'REPO_SIGNING_KEY', '')) ?? '').trim() || undefined;
+}
+
+/**
+ * Import a secp256k1 private key given as 32-byte hex or base64
+ */
+export async function importSigningKey(privateKey: string): Promise<Secp256k1Keypair> {
+  const { Secp256k1Keypair } = await import('@atproto/crypto');
+  const cleaned = privateKey.trim();
+  if (/^[0-9a-fA-F]{64}$/.test(cleaned)) {
+    return Secp256k1Keypair.import(cleaned, { exportable: true });
+  }
+  const bin = atob(cleaned.replace(/\s+/g, ''));
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return Secp256k1Keypair.import(bytes, { exportable: true });
+}
+
+/**
+ * Store the signing key for `did` (default: the operator account, where it
+ * replaces REPO_SIGNING_KEY from now on)
+ */
+export async function storeRepoSigningKey(env: Env, keypair: Secp256k1Keypair, did?: string): Promise<void> {
+  let hex = '';
+  for (const b of await keypair.export()) hex += b.toString(16).padStart(2, '0');
+  await setSecret(env, (await secretKeyFor(env, did)) ?? SIGNING_KEY_SECRET, hex);
+}
@@ -1,7 +1,24 @@
 import type { APIContext } from 'astro';
+import { getPrimaryDid, resolveHostedRepo } from '../../lib/accounts';
 
 export const prerender = false;
 
-export function GET({ locals }: APIContext) {
-  return new Response(locals.runtime.env.PDS_DID ?? '');
-}
\ No newline at end of file
+/**
+ * Handle verification over HTTPS: answers a hosted account's DID on its stored
+ * handle's domain (and the operator DID on the PDS host itself), so a domain
+ * still routed here after a handle change no longer claims the account.
+ */
+export async function GET({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+  const host = new URL(request.url).hostname.toLowerCase();
+  const pdsHost = (env.PDS_HOSTNAME as string | undefined)?.toLowerCase();
+  const isLocal = host === 'localhost' || host.startsWith('127.') || host === '::1';
+
+  const did = await resolveHostedRepo(env, host);
+  if (did) return new Response(did, { headers: { 'Content-Type': 'text/plain' } });
+
+  if (pdsHost && host !== pdsHost && !isLocal) {
+    return new Response('User not found', { status: 404, headers: { 'Content-Type': 'text/plain' } });
+  }
+  return new Response(await getPrimaryDid(env), { headers: { 'Content-Type': 'text/plain' } });
+}
@@ -1,5 +1,6 @@
 import type { APIContext } from 'astro';
 import { withCache, CACHE_CONFIGS } from '../../lib/cache';
+import { STATIC_SCOPES } from '../../lib/scopes';
 
 export const prerender = false;
 
@@ -15,11 +16,17 @@ export async function GET({ locals, request }: APIContext) {
         pushed_authorization_request_endpoint: `${origin}/oauth/par`,
         authorization_endpoint: `${origin}/oauth/authorize`,
         token_endpoint: `${origin}/oauth/token`,
-        scopes_supported: 'atproto transition:generic',
+        revocation_endpoint: `${origin}/oauth/revoke`,
+        introspection_endpoint: `${origin}/oauth/introspect`,
+        jwks_uri: `${origin}/oauth/jwks`,
+        // Granular permissions are parameterised, so only their resource prefixes are listed
+        scopes_supported: [...STATIC_SCOPES, 'repo', 'blob', 'rpc', 'account', 'identity', 'include'],
         response_types_supported: ['code'],
         grant_types_supported: ['authorization_code', 'refresh_token'],
         code_challenge_methods_supported: ['S256'],
         token_endpoint_auth_methods_supported: ['none', 'private_key_jwt'],
+        revocation_endpoint_auth_methods_supported: ['none', 'private_key_jwt'],
+        introspection_endpoint_auth_methods_supported: ['none', 'private_key_jwt'],
         dpop_signing_alg_values_supported: ['ES256'],
       };
       return new Response(JSON.stringify(json, null, 2), {
@@ -1,16 +1,14 @@
 import type { APIContext } from 'astro';
-import { listOrphanBlobKeys, deleteBlobByKey } from '../../../db/dal';
+import { DEFAULT_MAINTENANCE_JOBS, runMaintenance } from '../../../lib/maintenance';
 
 export const prerender = false;
 
 export async function POST({ locals }: APIContext) {
   const { env } = locals.runtime;
-  const keys = await listOrphanBlobKeys(env);
-  let deleted = 0;
-  for (const key of keys) {
-    await env.BLOBS.delete(key).catch(() => {});
-    await deleteBlobByKey(env, key);
-    deleted++;
-  }
-  return new Response(JSON.stringify({ deleted }), { headers: { 'Content-Type': 'application/json' } });
+  // The GC only deletes once the usage backfill has finished, so run both
+  const jobs = DEFAULT_MAINTENANCE_JOBS.filter((job) => job.name === 'blob-usage-backfill' || job.name === 'blob-gc');
+  const status = await runMaintenance(env, { jobs, force: jobs.map((job) => job.name) });
+  const gc = status.find((job) => job.name === 'blob-gc');
+  const deleted = gc?.lastResult?.deleted ?? 0;
+  return new Response(JSON.stringify({ deleted, jobs: status }), { headers: { 'Content-Type': 'application/json' } });
 }
@@ -0,0 +1,11 @@
+import type { APIContext } from 'astro';
+import { getLookupCacheStats } from '../../lib/lookup-cache';
+
+export const prerender = false;
+
+/**
+ * Hit rates and in-memory size of the DID, handle and client metadata caches in this isolate
+ */
+export async function GET(_ctx: APIContext) {
+  return new Response(JSON.stringify({ caches: getLookupCacheStats() }), { headers: { 'Content-Type': 'application/json' } });
+}
@@ -0,0 +1,33 @@
+import type { APIContext } from 'astro';
+import { adminUnauthorized, isAdminRequest } from '../../lib/admin';
+import { DEFAULT_MAINTENANCE_JOBS, getMaintenanceStatus, runMaintenance } from '../../lib/maintenance';
+
+export const prerender = false;
+
+/**
+ * Status of the scheduled maintenance jobs: last run, result, pending cursor and next due time
+ */
+export async function GET({ locals }: APIContext) {
+  const { env } = locals.runtime;
+  const jobs = await getMaintenanceStatus(env);
+  return new Response(JSON.stringify({ jobs }), { headers: { 'Content-Type': 'application/json' } });
+}
+
+/**
+ * Run maintenance now; `?job=<name>` (repeatable) forces those jobs even if they are not due.
+ * Requires the admin password (see src/lib/admin.ts).
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+  if (!(await isAdminRequest(request, env))) return adminUnauthorized();
+  const force = new URL(request.url).searchParams.getAll('job');
+  const unknown = force.filter((name) => !DEFAULT_MAINTENANCE_JOBS.some((job) => job.name === name));
+  if (unknown.length) {
+    return new Response(JSON.stringify({ error: 'InvalidRequest', message: `Unknown job: ${unknown.join(', ')}` }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+  const jobs = await runMaintenance(env, { force });
+  return new Response(JSON.stringify({ jobs }), { headers: { 'Content-Type': 'application/json' } });
+}
@@ -1,78 +1,64 @@
 import type { APIContext } from 'astro';
-import { loadPar, saveCode, deletePar } from '../../lib/oauth/store';
+import { getOAuthGrant, putOAuthGrant } from '../../db/oauth';
+import {
+  approveAuthorization,
+  authorizationPageUrl,
+  getIssuer,
+  isConsentRequired,
+  loadAuthorizationRequest,
+  matchesLoginHint,
+  mergeScopes,
+  rejectAuthorization,
+  scopeCovers,
+} from '../../lib/oauth/authorization';
+import { isLoopbackClientId } from '../../lib/oauth/clients';
+import { getSignedInAccount } from '../../lib/oauth/device';
+import { errorPage, redirect } from '../../lib/oauth/ui';
 
 export const prerender = false;
 
-function parseRequestUri(u: string): string | null {
-  const p = 'urn:ietf:params:oauth:request_uri:';
-  if (!u || !u.startsWith(p)) return null;
-  const id = u.slice(p.length);
-  return /^[A-Za-z0-9]+$/.test(id) ? id : null;
-}
-
+/**
+ * OAuth authorization endpoint
+ * Sends the browser to /oauth/signin unless the account it is signed in as can
+ * answer the request (prompt=login forces a fresh sign-in), then issues the code
+ * straight away when a remembered grant covers the requested scope, or shows
+ * the consent screen. Loopback clients always get the consent screen. prompt=none never shows a page: it fails with
+ * login_required or consent_required instead.
+ */
 export async function GET({ locals, request }: APIContext) {
   const { env } = locals.runtime;
   const url = new URL(request.url);
-  const request_uri = url.searchParams.get('request_uri') || '';
-  const client_id = url.searchParams.get('client_id') || '';
-  const deny = url.searchParams.get('deny') === '1';
-  const prompt = url.searchParams.get('prompt') || '';
+  const issuer = getIssuer(request);
 
-  const id = parseRequestUri(request_uri);
-  if (!id) {
-    return new Response('invalid request_uri', { status: 400 });
-  }
-  const par = await loadPar(env, id);
-  if (!par) {
-    return new Response('request expired or not found', { status: 400 });
-  }
-  if (client_id && client_id !== par.client_id) {
-    return new Response('client_id mismatch', { status: 400 });
-  }
+  const req = await loadAuthorizationRequest(env, url.searchParams.get('request_uri') || '', url.searchParams.get('client_id'));
+  if ('error' in req) return errorPage(400, req.error);
+  const prompt = url.searchParams.get('prompt') || req.par.prompt || '';
 
-  if (deny) {
-    const redirectDeny = new URL(par.redirect_uri);
-    redirectDeny.searchParams.set('state', par.state);
-    redirectDeny.searchParams.set('error', 'access_denied');
-    return new Response(null, { status: 302, headers: { Location: redirectDeny.toString() } });
+  const account = await getSignedInAccount(env, request);
+  const needsLogin =
+    !account ||
+    !matchesLoginHint(account, req.par.login_hint) ||
+    // prompt=login is satisfied by a sign-in made after the request was pushed
+    (prompt === 'login' && account.signedInAt < req.par.createdAt * 1000);
+  if (needsLogin) {
+    if (prompt === 'none') return redirect(await rejectAuthorization(env, req, 'login_required', issuer));
+    return redirect(authorizationPageUrl(issuer, 'signin', req));
   }
 
-  const requireConsent = String((env as any).PDS_REQUIRE_CONSENT ?? '1') !== '0' || prompt === 'consent';
-  if (requireConsent && prompt !== 'none') {
-    const consentUrl = new URL('/oauth/consent', `${url.protocol}//${url.host}`);
-    consentUrl.searchParams.set('request_uri', request_uri);
-    consentUrl.searchParams.set('client_id', par.client_id);
-    return new Response(null, { status: 302, headers: { Location: consentUrl.toString() } });
+  const grant = await getOAuthGrant(env, account.did, req.par.client_id);
+  // Every loopback client shares the client_id http://localhost, so neither a
+  // remembered grant nor PDS_REQUIRE_CONSENT=0 says anything about which local
+  // app is asking
+  if (prompt !== 'consent' && !isLoopbackClientId(req.par.client_id)) {
+    if (grant && scopeCovers(grant.scope, req.par.scope)) {
+      return redirect(await approveAuthorization(env, req, account.did, issuer));
+    }
+    if (!isConsentRequired(env)) {
+      // Still recorded, so the client shows up (and can be revoked) under /oauth/clients
+      await putOAuthGrant(env, { did: account.did, clientId: req.par.client_id, scope: mergeScopes(grant?.scope ?? '', req.par.scope) });
+      return redirect(await approveAuthorization(env, req, account.did, issuer));
+    }
   }
-
-  // TODO: implement user authentication + consent UI.
-  // For single-user PDS, auto-approve using configured DID.
-  const did = String((env as any).PDS_DID ?? 'did:example:single-user');
-
-  // Issue a short-lived authorization code
-  const code = crypto.randomUUID().replace(/-/g, '');
-  const now = Math.floor(Date.now() / 1000);
-  await saveCode(env, code, {
-    code,
-    client_id: par.client_id,
-    redirect_uri: par.redirect_uri,
-    code_challenge: par.code_challenge,
-    scope: par.scope,
-    dpopJkt: par.dpopJkt,
-    did,
-    createdAt: now,
-    expiresAt: now + 600, // 10 minutes
-    used: false,
-  });
-  await deletePar(env, id);
-
-  const redirect = new URL(par.redirect_uri);
-  redirect.searchParams.set('state', par.state);
-  redirect.searchParams.set('iss', `${url.protocol}//${url.host}`);
-  redirect.searchParams.set('code', code);
-
-  return new Response(null, {
-    status: 302,
-    headers: { Location: redirect.toString() },
-  });
+  if (prompt === 'none') return redirect(await rejectAuthorization(env, req, 'consent_required', issuer));
+  return redirect(authorizationPageUrl(issuer, 'consent', req));
 }
@@ -0,0 +1,83 @@
+import type { APIContext } from 'astro';
+import { deleteOAuthGrant, listOAuthGrants } from '../../db/oauth';
+import { deleteRefreshTokensForClient, listOAuthSessions } from '../../db/account';
+import { fetchClientMetadata } from '../../lib/oauth/clients';
+import { getIssuer, splitScope } from '../../lib/oauth/authorization';
+import { endDeviceSession, getCsrfToken, getSignedInAccount, verifyCsrf } from '../../lib/oauth/device';
+import { clientHeader, errorPage, esc, hiddenFields, redirect, renderPage } from '../../lib/oauth/ui';
+
+export const prerender = false;
+
+function signInUrl(issuer: string): string {
+  return new URL('/oauth/signin?return_to=%2Foauth%2Fclients', issuer).toString();
+}
+
+/**
+ * Authorized apps
+ * Lists the OAuth clients the signed-in account has consented to, with the
+ * number of signed-in sessions each holds. Revoking one forgets its grant and
+ * ends those sessions, so its next authorization request shows the consent
+ * screen again (and prompt=none fails with consent_required).
+ */
+export async function GET({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+  const account = await getSignedInAccount(env, request);
+  if (!account) return redirect(signInUrl(getIssuer(request)));
+
+  const grants = await listOAuthGrants(env, account.did);
+  const waitUntil = locals.runtime.ctx?.waitUntil.bind(locals.runtime.ctx);
+  const metas = await Promise.all(grants.map((grant) => fetchClientMetadata(env, grant.clientId, { waitUntil }).catch(() => null)));
+  const sessions = await listOAuthSessions(env, account.did, Math.floor(Date.now() / 1000));
+  const csrf = getCsrfToken(request);
+
+  const rows = grants.map((grant, i) => {
+    const active = sessions.filter((s) => s.clientId === grant.clientId).length;
+    return `<tr>
+      <td>
+        ${clientHeader(grant.clientId, metas[i])}
+        <div style="margin-top:6px;">${splitScope(grant.scope).map((s) => `<span class="scope">${esc(s)}</span>`).join(' ')}</div>
+        <div class="muted" style="margin-top:6px;">Authorized ${esc(new Date(grant.createdAt).toISOString().slice(0, 10))} · ${active} active ${active === 1 ? 'session' : 'sessions'}</div>
+      </td>
+      <td style="text-align:right;">
+        <form method="post" action="/oauth/clients">
+          ${hiddenFields({ csrf: csrf.token, action: 'revoke', client_id: grant.clientId })}
+          <button class="secondary" type="submit">Revoke</button>
+        </form>
+      </td>
+    </tr>`;
+  });
+
+  const body = `<h2 style="margin-top:0;">Authorized apps</h2>
+    <p class="muted">Signed in as @${esc(account.handle)}</p>
+    ${rows.length ? `<table>${rows.join('\n')}</table>` : '<p>No apps have been authorized.</p>'}
+    <form method="post" action="/oauth/clients" style="margin-top:1rem;">
+      ${hiddenFields({ csrf: csrf.token, action: 'sign_out' })}
+      <button class="secondary" type="submit">Sign out</button>
+    </form>`;
+
+  return renderPage('Authorized apps', body, { setCookies: [csrf.setCookie] });
+}
+
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+  const issuer = getIssuer(request);
+  const form = new URLSearchParams(await request.text());
+  if (!verifyCsrf(request, form)) return errorPage(403, 'This form has expired. Go back and try again.');
+
+  const account = await getSignedInAccount(env, request);
+  if (!account) return redirect(signInUrl(issuer), 303);
+
+  switch (form.get('action')) {
+    case 'revoke': {
+      const clientId = form.get('client_id') || '';
+      if (!clientId) return errorPage(400, 'client_id required');
+      await deleteOAuthGrant(env, account.did, clientId);
+      await deleteRefreshTokensForClient(env, account.did, clientId);
+      return redirect(new URL('/oauth/clients', issuer).toString(), 303);
+    }
+    case 'sign_out':
+      return redirect(signInUrl(issuer), 303, [await endDeviceSession(env, request)]);
+    default:
+      return errorPage(400, 'action must be revoke or sign_out');
+  }
+}
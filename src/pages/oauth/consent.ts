@@ -1,76 +1,89 @@
 import type { APIContext } from 'astro';
-import { loadPar } from '../../lib/oauth/store';
+import { getOAuthGrant, putOAuthGrant } from '../../db/oauth';
 import { fetchClientMetadata } from '../../lib/oauth/clients';
+import {
+  approveAuthorization,
+  authorizationPageUrl,
+  getIssuer,
+  loadAuthorizationRequest,
+  mergeScopes,
+  rejectAuthorization,
+  splitScope,
+} from '../../lib/oauth/authorization';
+import { describeScope, selectScope } from '../../lib/oauth/permissions';
+import { getCsrfToken, getSignedInAccount, verifyCsrf } from '../../lib/oauth/device';
+import { clientHeader, errorPage, esc, hiddenFields, redirect, renderPage } from '../../lib/oauth/ui';
 
 export const prerender = false;
 
-function esc(s: string): string { return s.replace(/[&<>"']/g, (c) => ({'&':'&amp;','<':'&lt;','>':'&gt;','"':'&quot;','\'':'&#39;'} as any)[c]); }
-
+/**
+ * OAuth consent screen
+ * Shows the signed-in account what the client asks for, one checkbox per
+ * scope so the user can grant less than requested. Allow remembers the grant
+ * (so later requests within the same scope skip this page) and sends the
+ * browser back with a code for the selected scopes; Deny sends it back with
+ * access_denied.
+ */
 export async function GET({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
   const url = new URL(request.url);
-  const request_uri = url.searchParams.get('request_uri') || '';
-  const client_id = url.searchParams.get('client_id') || '';
+  const issuer = getIssuer(request);
 
-  const id = request_uri.replace('urn:ietf:params:oauth:request_uri:', '');
-  if (!id) return new Response('invalid request_uri', { status: 400 });
-  const par = await loadPar(locals.runtime.env, id);
-  if (!par) return new Response('request expired or not found', { status: 400 });
-  if (client_id && par.client_id !== client_id) return new Response('client_id mismatch', { status: 400 });
+  const req = await loadAuthorizationRequest(env, url.searchParams.get('request_uri') || '', url.searchParams.get('client_id'));
+  if ('error' in req) return errorPage(400, req.error);
+  const account = await getSignedInAccount(env, request);
+  if (!account) return redirect(authorizationPageUrl(issuer, 'signin', req));
 
   let meta: any = null;
-  try { meta = await fetchClientMetadata(par.client_id); } catch {}
-  const clientName = esc(meta?.client_name || new URL(par.client_id).host);
-  const logo = typeof meta?.logo_uri === 'string' ? meta.logo_uri : '';
-  const scopes = par.scope.split(' ').filter(Boolean);
-
-  const allowUrl = new URL('/oauth/authorize', `${url.protocol}//${url.host}`);
-  allowUrl.searchParams.set('request_uri', request_uri);
-  allowUrl.searchParams.set('client_id', par.client_id);
+  try { meta = await fetchClientMetadata(env, req.par.client_id, { waitUntil: locals.runtime.ctx?.waitUntil.bind(locals.runtime.ctx) }); } catch {}
+  const grant = await getOAuthGrant(env, account.did, req.par.client_id);
+  const previously = new Set(grant ? splitScope(grant.scope) : []);
+  const sets = req.par.permissionSets ?? {};
+  const csrf = getCsrfToken(request);
+  const items = splitScope(req.par.scope).map((scope) => {
+    const isNew = previously.has(scope) ? '' : ' <span class="scope">new</span>';
+    const included = sets[scope]?.scopes.map((s) => `<li>${esc(describeScope(s))}</li>`).join('') ?? '';
+    // atproto is what every OAuth session is; it cannot be left out
+    const box = scope === 'atproto'
+      ? '<input type="checkbox" checked disabled />'
+      : `<input type="checkbox" name="scope" value="${esc(scope)}" checked />`;
+    return `<li><label>${box} ${esc(describeScope(scope, sets))}${isNew}</label>${included ? `<ul class="muted">${included}</ul>` : ''}</li>`;
+  });
 
-  const denyUrl = new URL(par.redirect_uri);
-  denyUrl.searchParams.set('state', par.state);
-  denyUrl.searchParams.set('error', 'access_denied');
-
-  const html = `<!doctype html>
-  <html>
-    <head>
-      <meta charset="utf-8" />
-      <meta name="viewport" content="width=device-width, initial-scale=1" />
-      <title>Authorize ${clientName}</title>
-      <style>
-        body { font-family: system-ui, -apple-system, Segoe UI, Roboto, sans-serif; padding: 2rem; color: #222; }
-        .card { max-width: 560px; margin: 0 auto; border: 1px solid #ddd; border-radius: 8px; padding: 1.5rem; }
-        .client { display: flex; gap: 12px; align-items: center; }
-        img.logo { width: 40px; height: 40px; border-radius: 6px; object-fit: cover; }
-        ul { padding-left: 1.2rem; }
-        .actions { display: flex; gap: 12px; margin-top: 1rem; }
-        a.btn { display: inline-block; padding: 8px 14px; border-radius: 6px; text-decoration: none; }
-        a.primary { background: #0a66ff; color: #fff; }
-        a.secondary { background: #eee; color: #333; }
-        .scope { background: #f5f5f7; display: inline-block; padding: 2px 8px; border-radius: 999px; margin-right: 6px; font-size: 12px; }
-      </style>
-    </head>
-    <body>
-      <div class="card">
-        <div class="client">
-          ${logo ? `<img class="logo" src="${esc(logo)}" alt="" />` : ''}
-          <div>
-            <div style="font-weight:600;">${clientName}</div>
-            <div style="color:#555; font-size: 12px;">${esc(par.client_id)}</div>
-          </div>
-        </div>
-        <p style="margin-top:1rem;">This app is requesting:</p>
-        <div>
-          ${scopes.map((s) => `<span class="scope">${esc(s)}</span>`).join(' ')}
-        </div>
-        <div class="actions">
-          <a class="btn primary" href="${allowUrl.toString()}">Allow</a>
-          <a class="btn secondary" href="${denyUrl.toString()}">Deny</a>
-        </div>
+  const body = `${clientHeader(req.par.client_id, meta)}
+    <p style="margin-top:1rem;">This app is requesting access to <strong>@${esc(account.handle)}</strong>:</p>
+    <form method="post" action="/oauth/consent">
+      <ul class="permissions">${items.join('\n')}</ul>
+      ${hiddenFields({ request_uri: req.requestUri, client_id: req.par.client_id, csrf: csrf.token })}
+      <div class="actions">
+        <button class="primary" type="submit" name="decision" value="allow">Allow</button>
+        <button class="secondary" type="submit" name="decision" value="deny">Deny</button>
       </div>
-    </body>
-  </html>`;
+    </form>
+    <p class="muted" style="margin-top:1rem;">Not @${esc(account.handle)}? <a href="${esc(authorizationPageUrl(issuer, 'signin', req))}">Use another account</a></p>`;
 
-  return new Response(html, { status: 200, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+  return renderPage(`Authorize ${meta?.client_name || req.par.client_id}`, body, { setCookies: [csrf.setCookie] });
 }
 
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+  const issuer = getIssuer(request);
+  const form = new URLSearchParams(await request.text());
+  if (!verifyCsrf(request, form)) return errorPage(403, 'This form has expired. Go back and try again.');
+
+  const req = await loadAuthorizationRequest(env, form.get('request_uri') || '', form.get('client_id'));
+  if ('error' in req) return errorPage(400, req.error);
+  const account = await getSignedInAccount(env, request);
+  if (!account) return redirect(authorizationPageUrl(issuer, 'signin', req), 303);
+
+  const decision = form.get('decision');
+  if (decision === 'deny') {
+    return redirect(await rejectAuthorization(env, req, 'access_denied', issuer), 303);
+  }
+  if (decision !== 'allow') return errorPage(400, 'decision must be allow or deny');
+
+  const scope = selectScope(req.par.scope, form.getAll('scope'));
+  const grant = await getOAuthGrant(env, account.did, req.par.client_id);
+  await putOAuthGrant(env, { did: account.did, clientId: req.par.client_id, scope: mergeScopes(grant?.scope ?? '', scope) });
+  return redirect(await approveAuthorization(env, req, account.did, issuer, scope), 303);
+}
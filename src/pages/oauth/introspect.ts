@@ -0,0 +1,56 @@
+import type { APIContext } from 'astro';
+import { authenticateClient } from '../../lib/oauth/clients';
+import { isTokenActive, resolveClientToken } from '../../lib/oauth/tokens';
+
+export const prerender = false;
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  });
+}
+
+/**
+ * OAuth token introspection (RFC 7662)
+ * A client may introspect its own tokens; every other token reads as
+ * `{ "active": false }`.
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+  const url = new URL(request.url);
+  const issuer = `${url.protocol}//${url.host}`;
+  const form = new URLSearchParams(await request.text());
+
+  const client = await authenticateClient(env, issuer, form);
+  if ('error' in client) {
+    return json(client.error === 'invalid_client' ? 401 : 400, { error: client.error, error_description: client.description });
+  }
+  const token = form.get('token') || '';
+  if (!token) return json(400, { error: 'invalid_request', error_description: 'token required' });
+
+  const found = await resolveClientToken(env, token, client.clientId, form.get('token_type_hint'));
+  if (!found || !(await isTokenActive(env, found))) return json(200, { active: false });
+
+  if (found.type === 'refresh_token') {
+    return json(200, {
+      active: true,
+      scope: found.row.scope ?? 'atproto',
+      client_id: client.clientId,
+      sub: found.row.did,
+      exp: found.row.expiresAt,
+      iss: issuer,
+    });
+  }
+  return json(200, {
+    active: true,
+    token_type: 'DPoP',
+    scope: found.payload.scope,
+    client_id: client.clientId,
+    sub: found.payload.sub,
+    aud: found.payload.aud,
+    iat: found.payload.iat,
+    exp: found.payload.exp,
+    iss: issuer,
+  });
+}
@@ -0,0 +1,18 @@
+import type { APIContext } from 'astro';
+import { getAccessTokenJwks } from '../../lib/access-token-keys';
+
+export const prerender = false;
+
+/**
+ * Public keys that verify this PDS's access tokens, matched by `kid`. A key
+ * is listed before it starts signing and until its last token expires.
+ */
+export async function GET({ locals }: APIContext) {
+  const { env } = locals.runtime;
+  return new Response(JSON.stringify(await getAccessTokenJwks(env)), {
+    headers: {
+      'Content-Type': 'application/jwk-set+json',
+      'Cache-Control': 'public, max-age=300',
+    },
+  });
+}
@@ -1,7 +1,8 @@
 import type { APIContext } from 'astro';
 import { getAuthzNonce, setDpopNonceHeader, verifyDpop, dpopErrorResponse } from '../../lib/oauth/dpop';
 import { savePar } from '../../lib/oauth/store';
-import { fetchClientMetadata, isHttpsUrl, verifyClientAssertion } from '../../lib/oauth/clients';
+import { validateScope } from '../../lib/oauth/permissions';
+import { checkRedirectUri, fetchClientMetadata, isHttpsUrl, isLoopbackClientId, verifyClientAssertion } from '../../lib/oauth/clients';
 
 export const prerender = false;
 
@@ -23,20 +24,22 @@ export async function POST({ locals, request }: APIContext) {
     const code_challenge = form.get('code_challenge') || '';
     const code_challenge_method = form.get('code_challenge_method') || '';
     const login_hint = form.get('login_hint') || undefined;
+    const prompt = form.get('prompt') || undefined;
     const client_assertion_type = form.get('client_assertion_type') || '';
     const client_assertion = form.get('client_assertion') || '';
 
-    if (!client_id || !isHttpsUrl(client_id)) {
-      return new Response(JSON.stringify({ error: 'invalid_client', error_description: 'client_id must be https URL' }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+    if (!client_id || !(isHttpsUrl(client_id) || isLoopbackClientId(client_id))) {
+      return new Response(JSON.stringify({ error: 'invalid_client', error_description: 'client_id must be https URL or http://localhost' }), { status: 400, headers: { 'Content-Type': 'application/json' } });
     }
     if (response_type !== 'code') {
       return new Response(JSON.stringify({ error: 'unsupported_response_type' }), { status: 400, headers: { 'Content-Type': 'application/json' } });
     }
-    if (!redirect_uri || !isHttpsUrl(redirect_uri)) {
-      return new Response(JSON.stringify({ error: 'invalid_request', error_description: 'redirect_uri must be https URL' }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+    if (!redirect_uri) {
+      return new Response(JSON.stringify({ error: 'invalid_request', error_description: 'redirect_uri required' }), { status: 400, headers: { 'Content-Type': 'application/json' } });
     }
-    if (!scope || !scope.split(' ').includes('atproto')) {
-      return new Response(JSON.stringify({ error: 'invalid_scope' }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+    const scopeCheck = await validateScope(env, scope);
+    if ('error' in scopeCheck) {
+      return new Response(JSON.stringify({ error: 'invalid_scope', error_description: scopeCheck.error }), { status: 400, headers: { 'Content-Type': 'application/json' } });
     }
     if (!state) {
       return new Response(JSON.stringify({ error: 'invalid_request', error_description: 'state required' }), { status: 400, headers: { 'Content-Type': 'application/json' } });
@@ -48,7 +51,7 @@ export async function POST({ locals, request }: APIContext) {
     // Fetch and validate client metadata
     let clientMeta: any = null;
     try {
-      clientMeta = await fetchClientMetadata(client_id);
+      clientMeta = await fetchClientMetadata(env, client_id);
     } catch (e: any) {
       return new Response(JSON.stringify({ error: 'invalid_client', error_description: e?.message ?? 'Client metadata fetch failed' }), { status: 400, headers: { 'Content-Type': 'application/json' } });
     }
@@ -56,9 +59,9 @@ export async function POST({ locals, request }: APIContext) {
     if (clientMeta?.client_id !== client_id) {
       return new Response(JSON.stringify({ error: 'invalid_client', error_description: 'client_id mismatch' }), { status: 400, headers: { 'Content-Type': 'application/json' } });
     }
-    const redirects: string[] = Array.isArray(clientMeta?.redirect_uris) ? clientMeta.redirect_uris : [];
-    if (!redirects.includes(redirect_uri)) {
-      return new Response(JSON.stringify({ error: 'invalid_request', error_description: 'redirect_uri not registered' }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+    const redirectError = checkRedirectUri(client_id, clientMeta, redirect_uri);
+    if (redirectError) {
+      return new Response(JSON.stringify({ error: 'invalid_request', error_description: redirectError }), { status: 400, headers: { 'Content-Type': 'application/json' } });
     }
     if (clientMeta?.dpop_bound_access_tokens !== true) {
       return new Response(JSON.stringify({ error: 'invalid_client', error_description: 'client must require DPoP' }), { status: 400, headers: { 'Content-Type': 'application/json' } });
@@ -99,6 +102,8 @@ export async function POST({ locals, request }: APIContext) {
       scope,
       state,
       login_hint,
+      prompt,
+      permissionSets: scopeCheck.permissionSets,
       dpopJkt: ver.jkt,
       createdAt: now,
       expiresAt: now + 300, // 5 minutes
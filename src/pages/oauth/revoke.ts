@@ -0,0 +1,35 @@
+import type { APIContext } from 'astro';
+import { authenticateClient } from '../../lib/oauth/clients';
+import { resolveClientToken, revokeSession } from '../../lib/oauth/tokens';
+
+export const prerender = false;
+
+function jsonError(status: number, code: string, desc: string): Response {
+  return new Response(JSON.stringify({ error: code, error_description: desc }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * OAuth token revocation (RFC 7009)
+ * Revoking a refresh token or an access token ends the whole session: every
+ * refresh token of the authorization is deleted. Access tokens are stateless
+ * and stay valid until they expire. Unknown tokens, and tokens of other
+ * clients, are answered with 200 like revoked ones.
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+  const url = new URL(request.url);
+  const form = new URLSearchParams(await request.text());
+
+  const client = await authenticateClient(env, `${url.protocol}//${url.host}`, form);
+  if ('error' in client) return jsonError(client.error === 'invalid_client' ? 401 : 400, client.error, client.description);
+  const token = form.get('token') || '';
+  if (!token) return jsonError(400, 'invalid_request', 'token required');
+
+  const found = await resolveClientToken(env, token, client.clientId, form.get('token_type_hint'));
+  if (found) await revokeSession(env, found.sessionId, found.type === 'refresh_token' ? found.row.id : null);
+
+  return new Response(null, { status: 200, headers: { 'Cache-Control': 'no-store' } });
+}
@@ -0,0 +1,170 @@
+import type { APIContext } from 'astro';
+import type { Env } from '../../env';
+import { consumeEmailToken, createEmailToken, type AccountRow } from '../../db/account';
+import { getAccountState } from '../../db/dal';
+import { EMAIL_TOKEN_TTL_MS, sendEmailToken } from '../../lib/email';
+import { XRPCError } from '../../lib/errors';
+import { clearFailedLogins, findLoginAccount, getClientIp, getLoginLockout, recordFailedLogin } from '../../lib/login';
+import {
+  authorizationPageUrl,
+  getIssuer,
+  loadAuthorizationRequest,
+  matchesLoginHint,
+  type AuthorizationRequest,
+} from '../../lib/oauth/authorization';
+import { getCsrfToken, startDeviceSession, verifyCsrf } from '../../lib/oauth/device';
+import { deletePendingSignIn, loadPendingSignIn, savePendingSignIn } from '../../lib/oauth/store';
+import { errorPage, esc, hiddenFields, redirect, renderPage } from '../../lib/oauth/ui';
+import { generateEmailToken, verifyPassword } from '../../lib/password';
+
+export const prerender = false;
+
+/** Pages that may be returned to after signing in outside an authorization request */
+const RETURN_PAGES = new Set(['/oauth/clients']);
+
+interface SignInTarget {
+  req: AuthorizationRequest | null;
+  returnTo: string;
+  fields: Record<string, string>;
+}
+
+/**
+ * Where the browser goes once signed in: back to /oauth/authorize for a
+ * pending request, or to a page of RETURN_PAGES
+ */
+async function resolveTarget(env: Env, issuer: string, params: URLSearchParams): Promise<SignInTarget | { error: string }> {
+  const requestUri = params.get('request_uri');
+  if (requestUri) {
+    const req = await loadAuthorizationRequest(env, requestUri, params.get('client_id'));
+    if ('error' in req) return req;
+    return { req, returnTo: authorizationPageUrl(issuer, 'authorize', req), fields: { request_uri: req.requestUri, client_id: req.par.client_id } };
+  }
+  const returnTo = params.get('return_to') || '/oauth/clients';
+  if (!RETURN_PAGES.has(returnTo)) return { error: 'invalid return_to' };
+  return { req: null, returnTo: new URL(returnTo, issuer).toString(), fields: { return_to: returnTo } };
+}
+
+/**
+ * Accounts with a confirmed email confirm each OAuth sign-in with an emailed
+ * code when PDS_OAUTH_EMAIL_CODE=true
+ */
+function requiresEmailCode(env: Env, account: AccountRow): boolean {
+  return String(env.PDS_OAUTH_EMAIL_CODE ?? 'false').toLowerCase() === 'true' && !!account.email && !!account.emailConfirmedAt;
+}
+
+function passwordForm(target: SignInTarget, csrf: string, opts: { identifier?: string; error?: string }): string {
+  const hint = target.req?.par.login_hint;
+  return `<h2 style="margin-top:0;">Sign in</h2>
+    ${target.req ? `<p class="muted">to continue to ${esc(target.req.par.client_id)}</p>` : ''}
+    ${opts.error ? `<p class="error">${esc(opts.error)}</p>` : ''}
+    <form method="post" action="/oauth/signin">
+      ${hiddenFields({ ...target.fields, csrf })}
+      <label>Handle or DID
+        <input type="text" name="identifier" value="${esc(opts.identifier ?? hint ?? '')}" autocomplete="username" autocapitalize="none" required />
+      </label>
+      <label>Password
+        <input type="password" name="password" autocomplete="current-password" required />
+      </label>
+      <div class="actions"><button class="primary" type="submit">Sign in</button></div>
+    </form>`;
+}
+
+function codeForm(target: SignInTarget, csrf: string, pending: string, opts: { error?: string }): string {
+  return `<h2 style="margin-top:0;">Check your email</h2>
+    <p>We sent a sign-in code to the email address on your account.</p>
+    ${opts.error ? `<p class="error">${esc(opts.error)}</p>` : ''}
+    <form method="post" action="/oauth/signin">
+      ${hiddenFields({ ...target.fields, csrf, pending })}
+      <label>Code
+        <input type="text" name="code" autocomplete="one-time-code" autocapitalize="characters" required />
+      </label>
+      <div class="actions"><button class="primary" type="submit">Continue</button></div>
+    </form>`;
+}
+
+/**
+ * OAuth sign-in page
+ * Password sign-in (app passwords are not accepted) that starts a device
+ * session for the authorization pages, followed by an emailed code when
+ * PDS_OAUTH_EMAIL_CODE=true. Shares the per-IP lockout of createSession.
+ */
+export async function GET({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+  const url = new URL(request.url);
+  const target = await resolveTarget(env, getIssuer(request), url.searchParams);
+  if ('error' in target) return errorPage(400, target.error);
+
+  const csrf = getCsrfToken(request);
+  return renderPage('Sign in', passwordForm(target, csrf.token, {}), { setCookies: [csrf.setCookie] });
+}
+
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+  const form = new URLSearchParams(await request.text());
+  if (!verifyCsrf(request, form)) return errorPage(403, 'This form has expired. Go back and try again.');
+
+  const target = await resolveTarget(env, getIssuer(request), form);
+  if ('error' in target) return errorPage(400, target.error);
+  const csrf = getCsrfToken(request).token;
+
+  const clientIp = getClientIp(request);
+  const remainingSeconds = await getLoginLockout(env, clientIp);
+  if (remainingSeconds > 0) {
+    const error = `Too many failed attempts. Try again in ${Math.ceil(remainingSeconds / 60)} minutes.`;
+    return renderPage('Sign in', passwordForm(target, csrf, { error }), { status: 429 });
+  }
+
+  // Second step: the emailed code
+  const pendingId = form.get('pending');
+  if (pendingId) {
+    const pending = await loadPendingSignIn(env, pendingId);
+    if (!pending) {
+      return renderPage('Sign in', passwordForm(target, csrf, { error: 'Your sign-in expired. Please sign in again.' }), { status: 400 });
+    }
+    const result = await consumeEmailToken(env, pending.did, 'oauth_sign_in', form.get('code') ?? '', EMAIL_TOKEN_TTL_MS);
+    if (result !== 'ok') {
+      await deletePendingSignIn(env, pendingId);
+      const locked = await recordFailedLogin(env, clientIp);
+      const error = locked ? 'Too many failed attempts. Try again in 15 minutes.' : 'That code is not valid. Please sign in again.';
+      return renderPage('Sign in', passwordForm(target, csrf, { error }), { status: locked ? 429 : 401 });
+    }
+    await deletePendingSignIn(env, pendingId);
+    await clearFailedLogins(env, clientIp);
+    return redirect(target.returnTo, 303, [await startDeviceSession(env, pending.did, request)]);
+  }
+
+  const identifier = (form.get('identifier') ?? '').trim();
+  const password = form.get('password') ?? '';
+  const account = identifier ? await findLoginAccount(env, identifier) : null;
+  if (!account || !password || !(await verifyPassword(password, account.passwordScrypt))) {
+    const locked = await recordFailedLogin(env, clientIp);
+    const error = locked ? 'Too many failed attempts. Try again in 15 minutes.' : 'Invalid handle or password';
+    return renderPage('Sign in', passwordForm(target, csrf, { identifier, error }), { status: locked ? 429 : 401 });
+  }
+
+  const state = await getAccountState(env, account.did);
+  if (state?.status === 'takendown') {
+    return renderPage('Sign in', passwordForm(target, csrf, { identifier, error: 'This account has been taken down' }), { status: 403 });
+  }
+  if (target.req && !matchesLoginHint(account, target.req.par.login_hint)) {
+    const error = `This app asked you to sign in as ${target.req.par.login_hint}`;
+    return renderPage('Sign in', passwordForm(target, csrf, { error }), { status: 400 });
+  }
+  await clearFailedLogins(env, clientIp);
+
+  if (requiresEmailCode(env, account)) {
+    const token = generateEmailToken();
+    await createEmailToken(env, account.did, 'oauth_sign_in', token);
+    try {
+      await sendEmailToken(env, account, 'oauth_sign_in', token);
+    } catch (error) {
+      if (!(error instanceof XRPCError)) throw error;
+      return renderPage('Sign in', passwordForm(target, csrf, { identifier, error: error.message }), { status: error.status });
+    }
+    const pending = crypto.randomUUID().replace(/-/g, '');
+    await savePendingSignIn(env, pending, { did: account.did, expiresAt: Math.floor((Date.now() + EMAIL_TOKEN_TTL_MS) / 1000) });
+    return renderPage('Sign in', codeForm(target, csrf, pending, {}));
+  }
+
+  return redirect(target.returnTo, 303, [await startDeviceSession(env, account.did, request)]);
+}
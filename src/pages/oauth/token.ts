@@ -2,12 +2,19 @@ import type { APIContext } from 'astro';
 import { verifyDpop, dpopErrorResponse, getAuthzNonce } from '../../lib/oauth/dpop';
 import { consumeCode } from '../../lib/oauth/store';
 import { sha256b64url } from '../../lib/oauth/dpop';
-import { issueSessionTokens, verifyRefreshToken, verifyAccessToken, computeGraceExpiry } from '../../lib/session-tokens';
-import { fetchClientMetadata, verifyClientAssertion } from '../../lib/oauth/clients';
-import { storeRefreshToken, getRefreshToken, markRefreshTokenRotated } from '../../db/account';
+import { issueSessionTokens, verifyRefreshToken, verifyAccessToken } from '../../lib/session-tokens';
+import { authenticateClient } from '../../lib/oauth/clients';
+import { revokeSession } from '../../lib/oauth/tokens';
+import { claimRefreshTokenRotation, getRefreshToken, storeRefreshToken } from '../../db/account';
 
 export const prerender = false;
 
+/**
+ * OAuth token endpoint
+ * Refresh tokens are bound to the client and DPoP key they were issued to and
+ * rotate on every use. Presenting a token that was already rotated revokes the
+ * whole session (every token descended from the same authorization).
+ */
 export async function POST({ locals, request }: APIContext) {
   const { env } = locals.runtime;
 
@@ -16,14 +23,13 @@ export async function POST({ locals, request }: APIContext) {
 
     const form = new URLSearchParams(await request.text());
     const grant_type = form.get('grant_type') || '';
+    const origin = `${new URL(request.url).protocol}//${new URL(request.url).host}`;
 
     if (grant_type === 'authorization_code') {
       const code = form.get('code') || '';
       const client_id = form.get('client_id') || '';
       const redirect_uri = form.get('redirect_uri') || '';
       const code_verifier = form.get('code_verifier') || '';
-      const client_assertion_type = form.get('client_assertion_type') || '';
-      const client_assertion = form.get('client_assertion') || '';
 
       if (!code || !client_id || !redirect_uri || !code_verifier) {
         return jsonError('invalid_request', 'Missing parameters');
@@ -40,24 +46,22 @@ export async function POST({ locals, request }: APIContext) {
       if (ver.jkt !== rec.dpopJkt) return jsonError('invalid_dpop', 'DPoP key mismatch');
 
       // If confidential client, verify assertion
-      let clientMeta: any = null;
-      try { clientMeta = await fetchClientMetadata(client_id); } catch {}
-      if (clientMeta?.token_endpoint_auth_method === 'private_key_jwt') {
-        let jwks = clientMeta?.jwks;
-        if (!jwks && typeof clientMeta?.jwks_uri === 'string') {
-          const res = await fetch(clientMeta.jwks_uri);
-          jwks = await res.json();
-        }
-        const origin = `${new URL(request.url).protocol}//${new URL(request.url).host}`;
-        if (!client_assertion || client_assertion_type !== 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer')
-          return jsonError('invalid_client', 'Missing client assertion');
-        const ok = await verifyClientAssertion(client_id, origin, client_assertion, jwks);
-        if (!ok) return jsonError('invalid_client', 'Invalid client assertion');
-      }
-
-      // Issue tokens bound to this DID and include DPoP cnf in access token
-      const { accessJwt, refreshJwt, refreshPayload, refreshExpiry } = await issueSessionTokens(env, rec.did);
-      await storeRefreshToken(env, { id: refreshPayload.jti, did: rec.did, expiresAt: refreshExpiry, appPasswordName: null });
+      const client = await authenticateClient(env, origin, form);
+      if ('error' in client) return jsonError(client.error, client.description);
+
+      // Issue tokens bound to this DID, carrying the scope the user consented to
+      const sessionId = crypto.randomUUID();
+      const { accessJwt, refreshJwt, refreshPayload, refreshExpiry } = await issueSessionTokens(env, rec.did, { scope: rec.scope, clientId: client_id, sessionId });
+      await storeRefreshToken(env, {
+        id: refreshPayload.jti,
+        did: rec.did,
+        expiresAt: refreshExpiry,
+        appPasswordName: null,
+        scope: rec.scope,
+        clientId: client_id,
+        dpopJkt: ver.jkt,
+        familyId: sessionId,
+      });
 
       // Derive expires_in from access token
       const payload = await verifyAccessToken(env, accessJwt).catch(() => null);
@@ -79,27 +83,11 @@ export async function POST({ locals, request }: APIContext) {
 
     if (grant_type === 'refresh_token') {
       const refresh_token = form.get('refresh_token') || '';
-      const client_id = form.get('client_id') || '';
-      const client_assertion_type = form.get('client_assertion_type') || '';
-      const client_assertion = form.get('client_assertion') || '';
       if (!refresh_token) return jsonError('invalid_request', 'Missing refresh_token');
 
       // If confidential client, verify assertion
-      if (client_id) {
-        let clientMeta: any = null; try { clientMeta = await fetchClientMetadata(client_id); } catch {}
-        if (clientMeta?.token_endpoint_auth_method === 'private_key_jwt') {
-          let jwks = clientMeta?.jwks;
-          if (!jwks && typeof clientMeta?.jwks_uri === 'string') {
-            const res = await fetch(clientMeta.jwks_uri);
-            jwks = await res.json();
-          }
-          const origin = `${new URL(request.url).protocol}//${new URL(request.url).host}`;
-          if (!client_assertion || client_assertion_type !== 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer')
-            return jsonError('invalid_client', 'Missing client assertion');
-          const ok = await verifyClientAssertion(client_id, origin, client_assertion, jwks);
-          if (!ok) return jsonError('invalid_client', 'Invalid client assertion');
-        }
-      }
+      const client = await authenticateClient(env, origin, form);
+      if ('error' in client) return jsonError(client.error, client.description);
 
       const verification = await verifyRefreshToken(env, refresh_token).catch(() => null);
       if (!verification || !verification.decoded) return jsonError('invalid_grant', 'Invalid refresh token');
@@ -110,13 +98,39 @@ export async function POST({ locals, request }: APIContext) {
       if (!stored) return jsonError('invalid_grant', 'Refresh token revoked');
       if (stored.expiresAt <= nowSec) return jsonError('invalid_grant', 'Expired refresh token');
       if (stored.did !== verification.decoded.sub) return jsonError('invalid_grant', 'Subject mismatch');
+      // Password and app-password sessions refresh through com.atproto.server.refreshSession.
+      // OAuth tokens issued before client binding was recorded (scope but no client_id)
+      // are bound to the client that refreshes them first.
+      if (!stored.clientId && !stored.scope) return jsonError('invalid_grant', 'Not an OAuth refresh token');
+      if (stored.clientId && stored.clientId !== client.clientId) return jsonError('invalid_grant', 'Refresh token was issued to another client');
+      if (stored.dpopJkt && stored.dpopJkt !== ver.jkt) return jsonError('invalid_dpop', 'DPoP key mismatch');
+
+      // Tokens from before client binding start their family here
+      const sessionId = stored.familyId ?? stored.id;
+      if (stored.nextId) {
+        await revokeSession(env, sessionId, stored.id);
+        return jsonError('invalid_grant', 'Refresh token reuse detected; the session has been revoked');
+      }
 
       const did = stored.did;
       // Rotate refresh, issue new pair
-      const { accessJwt, refreshJwt, refreshPayload, refreshExpiry } = await issueSessionTokens(env, did, { jti: stored.nextId ?? undefined });
-      await storeRefreshToken(env, { id: refreshPayload.jti, did, expiresAt: refreshExpiry, appPasswordName: stored.appPasswordName ?? null });
-      const graceExpiry = computeGraceExpiry(stored.expiresAt, nowSec);
-      await markRefreshTokenRotated(env, verification.decoded.jti, refreshPayload.jti, graceExpiry);
+      const scope = stored.scope ?? undefined;
+      const { accessJwt, refreshJwt, refreshPayload, refreshExpiry } = await issueSessionTokens(env, did, { scope, clientId: client.clientId, sessionId });
+      // The rotated token is kept until it would have expired, so a replay is recognised
+      if (!(await claimRefreshTokenRotation(env, stored.id, refreshPayload.jti, stored.expiresAt))) {
+        await revokeSession(env, sessionId, stored.id);
+        return jsonError('invalid_grant', 'Refresh token reuse detected; the session has been revoked');
+      }
+      await storeRefreshToken(env, {
+        id: refreshPayload.jti,
+        did,
+        expiresAt: refreshExpiry,
+        appPasswordName: null,
+        scope,
+        clientId: client.clientId,
+        dpopJkt: ver.jkt,
+        familyId: sessionId,
+      });
 
       const payload = await verifyAccessToken(env, accessJwt).catch(() => null);
       const expires_in = payload && typeof payload.exp === 'number' ? Math.max(0, payload.exp - nowSec) : 7200;
@@ -126,7 +140,7 @@ export async function POST({ locals, request }: APIContext) {
         token_type: 'DPoP',
         expires_in,
         refresh_token: refreshJwt,
-        scope: 'atproto',
+        scope: scope ?? 'atproto',
         sub: did,
       } as const;
       const headers = new Headers({ 'Content-Type': 'application/json' });
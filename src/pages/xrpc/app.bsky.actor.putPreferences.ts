@@ -1,5 +1,5 @@
 import type { APIContext } from 'astro';
-import { isAuthorized, unauthorized } from '../../lib/auth';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
 import { readJsonBounded } from '../../lib/util';
 import { setActorPreferences } from '../../lib/preferences';
 
@@ -7,7 +7,9 @@ export const prerender = false;
 
 export async function POST({ locals, request }: APIContext) {
   const { env } = locals.runtime;
-  if (!(await isAuthorized(request, env))) return unauthorized();
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
+  if (!auth.scopes.allowsRpc('app.bsky.actor.putPreferences')) return auth.scopes.deny('rpc:app.bsky.actor.putPreferences').toResponse();
 
   let body: any;
   try {
@@ -20,7 +22,7 @@ export async function POST({ locals, request }: APIContext) {
   }
 
   const preferences = Array.isArray(body?.preferences) ? body.preferences : [];
-  await setActorPreferences(env, preferences);
+  await setActorPreferences(env, preferences, auth.claims.sub);
 
   return new Response(JSON.stringify({}), {
     headers: { 'Content-Type': 'application/json' },
@@ -1,5 +1,5 @@
 import type { APIContext } from 'astro';
-import { isAuthorized, unauthorized } from '../../lib/auth';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
 import { getPrimaryActor } from '../../lib/actor';
 import { listChatConvoLogs } from '../../lib/chat';
 
@@ -7,7 +7,9 @@ export const prerender = false;
 
 export async function GET({ locals, request }: APIContext) {
   const { env } = locals.runtime;
-  if (!(await isAuthorized(request, env))) return unauthorized();
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
+  if (!auth.scopes.allowsRpc('chat.bsky.convo.getLog')) return auth.scopes.deny('rpc:chat.bsky.convo.getLog').toResponse();
 
   const url = new URL(request.url);
   const cursorParam = url.searchParams.get('cursor');
@@ -0,0 +1,35 @@
+import type { APIContext } from 'astro';
+import { getAccountByIdentifier } from '../../db/account';
+import { deleteAccountAndRepo } from '../../lib/account-deletion';
+import { adminUnauthorized, isAdminRequest } from '../../lib/admin';
+import { readJson } from '../../lib/util';
+
+export const prerender = false;
+
+function jsonError(status: number, error: string, message: string): Response {
+  return new Response(JSON.stringify({ error, message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * com.atproto.admin.deleteAccount
+ * Permanently delete an account and its repo, as server.deleteAccount does
+ * without the password and email token.
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+  if (!(await isAdminRequest(request, env))) return adminUnauthorized();
+
+  const body = await readJson(request).catch(() => null);
+  const did = typeof body?.did === 'string' ? body.did : '';
+  if (!did) return jsonError(400, 'InvalidRequest', 'did required');
+
+  const account = await getAccountByIdentifier(env, did);
+  if (!account || account.did !== did) return jsonError(400, 'AccountNotFound', 'Account not found');
+
+  await deleteAccountAndRepo(env, did);
+
+  return new Response(null, { status: 200 });
+}
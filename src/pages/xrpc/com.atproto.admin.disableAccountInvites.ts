@@ -0,0 +1,35 @@
+import type { APIContext } from 'astro';
+import { getAccountByIdentifier } from '../../db/account';
+import { disableInvitesForAccount } from '../../db/invite';
+import { adminUnauthorized, isAdminRequest } from '../../lib/admin';
+import { readJson } from '../../lib/util';
+
+export const prerender = false;
+
+function jsonError(status: number, error: string, message: string): Response {
+  return new Response(JSON.stringify({ error, message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * com.atproto.admin.disableAccountInvites
+ * Stop an account minting invite codes and disable the codes it holds.
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+  if (!(await isAdminRequest(request, env))) return adminUnauthorized();
+
+  const body = await readJson(request).catch(() => null);
+  const did = typeof body?.account === 'string' ? body.account : '';
+  if (!did) return jsonError(400, 'InvalidRequest', 'account required');
+
+  const account = await getAccountByIdentifier(env, did);
+  if (!account || account.did !== did) return jsonError(400, 'AccountNotFound', 'Account not found');
+
+  const note = typeof body?.note === 'string' && body.note ? body.note : null;
+  await disableInvitesForAccount(env, did, note);
+
+  return new Response(null, { status: 200 });
+}
@@ -0,0 +1,30 @@
+import type { APIContext } from 'astro';
+import { adminUnauthorized, getAdminAccountView, isAdminRequest } from '../../lib/admin';
+
+export const prerender = false;
+
+function jsonError(status: number, error: string, message: string): Response {
+  return new Response(JSON.stringify({ error, message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * com.atproto.admin.getAccountInfo
+ * Account details (handle, email, invite codes) for one hosted account.
+ */
+export async function GET({ locals, request, url }: APIContext) {
+  const { env } = locals.runtime;
+  if (!(await isAdminRequest(request, env))) return adminUnauthorized();
+
+  const did = url.searchParams.get('did');
+  if (!did) return jsonError(400, 'InvalidRequest', 'did required');
+
+  const view = await getAdminAccountView(env, did);
+  if (!view) return jsonError(400, 'AccountNotFound', 'Account not found');
+
+  return new Response(JSON.stringify(view), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
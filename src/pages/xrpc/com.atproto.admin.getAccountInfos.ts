@@ -0,0 +1,31 @@
+import type { APIContext } from 'astro';
+import { adminUnauthorized, getAdminAccountView, isAdminRequest } from '../../lib/admin';
+
+export const prerender = false;
+
+/**
+ * com.atproto.admin.getAccountInfos
+ * getAccountInfo for several DIDs; unknown DIDs are left out.
+ */
+export async function GET({ locals, request, url }: APIContext) {
+  const { env } = locals.runtime;
+  if (!(await isAdminRequest(request, env))) return adminUnauthorized();
+
+  const dids = [...new Set(url.searchParams.getAll('dids'))];
+  if (dids.length === 0) {
+    return new Response(JSON.stringify({ error: 'InvalidRequest', message: 'dids required' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const infos = [];
+  for (const did of dids) {
+    const view = await getAdminAccountView(env, did);
+    if (view) infos.push(view);
+  }
+
+  return new Response(JSON.stringify({ infos }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
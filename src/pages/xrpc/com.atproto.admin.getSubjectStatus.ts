@@ -0,0 +1,48 @@
+import type { APIContext } from 'astro';
+import { getAccountByIdentifier } from '../../db/account';
+import { getRecord } from '../../db/dal';
+import { adminUnauthorized, isAdminRequest } from '../../lib/admin';
+import { getTakedownStatus, type ModerationSubject } from '../../lib/moderation';
+
+export const prerender = false;
+
+function jsonError(status: number, error: string, message: string): Response {
+  return new Response(JSON.stringify({ error, message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * com.atproto.admin.getSubjectStatus
+ * Takedown status of an account (did), a record (uri) or a blob (did + blob).
+ */
+export async function GET({ locals, request, url }: APIContext) {
+  const { env } = locals.runtime;
+  if (!(await isAdminRequest(request, env))) return adminUnauthorized();
+
+  const did = url.searchParams.get('did');
+  const uri = url.searchParams.get('uri');
+  const blob = url.searchParams.get('blob');
+
+  let subject: ModerationSubject;
+  if (uri) {
+    const record = await getRecord(env, uri);
+    if (!record) return jsonError(400, 'NotFound', 'Subject not found');
+    subject = { $type: 'com.atproto.repo.strongRef', uri, cid: record.cid };
+  } else if (blob) {
+    if (!did) return jsonError(400, 'InvalidRequest', 'did required with blob');
+    subject = { $type: 'com.atproto.admin.defs#repoBlobRef', did, cid: blob };
+  } else if (did) {
+    const account = await getAccountByIdentifier(env, did);
+    if (!account || account.did !== did) return jsonError(400, 'NotFound', 'Subject not found');
+    subject = { $type: 'com.atproto.admin.defs#repoRef', did };
+  } else {
+    return jsonError(400, 'InvalidRequest', 'did, uri or blob required');
+  }
+
+  const takedown = await getTakedownStatus(env, subject);
+  return new Response(JSON.stringify({ subject, takedown }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
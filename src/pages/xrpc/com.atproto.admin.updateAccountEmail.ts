@@ -0,0 +1,39 @@
+import type { APIContext } from 'astro';
+import { getAccountByEmail, getAccountByIdentifier, updateAccountEmail } from '../../db/account';
+import { adminUnauthorized, isAdminRequest } from '../../lib/admin';
+import { readJson } from '../../lib/util';
+
+export const prerender = false;
+
+function jsonError(status: number, error: string, message: string): Response {
+  return new Response(JSON.stringify({ error, message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * com.atproto.admin.updateAccountEmail
+ * Set an account's email (unconfirmed). `account` is a DID or handle.
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+  if (!(await isAdminRequest(request, env))) return adminUnauthorized();
+
+  const body = await readJson(request).catch(() => null);
+  const identifier = typeof body?.account === 'string' ? body.account : '';
+  const email = typeof body?.email === 'string' ? body.email.trim() : '';
+  if (!identifier || !email) return jsonError(400, 'InvalidRequest', 'account and email are required');
+
+  const account = await getAccountByIdentifier(env, identifier);
+  if (!account) return jsonError(400, 'AccountNotFound', 'Account not found');
+
+  const existing = await getAccountByEmail(env, email);
+  if (existing && existing.did !== account.did) {
+    return jsonError(400, 'InvalidRequest', 'Email already in use');
+  }
+
+  await updateAccountEmail(env, account.did, email);
+
+  return new Response(null, { status: 200 });
+}
@@ -0,0 +1,60 @@
+import type { APIContext } from 'astro';
+import { getAccountByIdentifier, updateAccountHandle } from '../../db/account';
+import { adminUnauthorized, isAdminRequest } from '../../lib/admin';
+import { XRPCError } from '../../lib/errors';
+import { validateAndNormalizeHandle } from '../../lib/handle';
+import { updatePlcHandle } from '../../lib/plc';
+import { notifySequencerIdentity } from '../../lib/sequencer';
+import { readJson } from '../../lib/util';
+
+export const prerender = false;
+
+function jsonError(status: number, error: string, message: string): Response {
+  return new Response(JSON.stringify({ error, message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * com.atproto.admin.updateAccountHandle
+ * Change an account's handle without the resolution check of
+ * identity.updateHandle; did:plc documents are updated the same way.
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+  if (!(await isAdminRequest(request, env))) return adminUnauthorized();
+
+  const body = await readJson(request).catch(() => null);
+  const did = typeof body?.did === 'string' ? body.did : '';
+  if (!did || typeof body?.handle !== 'string' || !body.handle) {
+    return jsonError(400, 'InvalidRequest', 'did and handle are required');
+  }
+  const handle = validateAndNormalizeHandle(body.handle);
+  if (!handle) return jsonError(400, 'InvalidHandle', 'Handle is not valid');
+
+  const account = await getAccountByIdentifier(env, did);
+  if (!account || account.did !== did) return jsonError(400, 'AccountNotFound', 'Account not found');
+
+  const existing = await getAccountByIdentifier(env, handle);
+  if (existing && existing.did !== did) {
+    return jsonError(400, 'HandleNotAvailable', 'Handle already taken');
+  }
+
+  if (handle !== account.handle) {
+    if (did.startsWith('did:plc:')) {
+      try {
+        await updatePlcHandle(env, did, handle);
+      } catch (error) {
+        if (error instanceof XRPCError) return error.toResponse();
+        console.error('admin.updateAccountHandle: PLC update failed', error);
+        return jsonError(500, 'InternalServerError', 'Failed to update the PLC document');
+      }
+    }
+    await updateAccountHandle(env, did, handle);
+  }
+
+  await notifySequencerIdentity(env, { did, handle });
+
+  return new Response(null, { status: 200 });
+}
@@ -0,0 +1,36 @@
+import type { APIContext } from 'astro';
+import { deleteRefreshTokensForDid, getAccountByIdentifier, updateAccountPassword } from '../../db/account';
+import { adminUnauthorized, isAdminRequest } from '../../lib/admin';
+import { hashPassword } from '../../lib/password';
+import { readJson } from '../../lib/util';
+
+export const prerender = false;
+
+function jsonError(status: number, error: string, message: string): Response {
+  return new Response(JSON.stringify({ error, message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * com.atproto.admin.updateAccountPassword
+ * Reset an account's password and end its sessions.
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+  if (!(await isAdminRequest(request, env))) return adminUnauthorized();
+
+  const body = await readJson(request).catch(() => null);
+  const did = typeof body?.did === 'string' ? body.did : '';
+  const password = typeof body?.password === 'string' ? body.password : '';
+  if (!did || !password) return jsonError(400, 'InvalidRequest', 'did and password are required');
+
+  const account = await getAccountByIdentifier(env, did);
+  if (!account || account.did !== did) return jsonError(400, 'AccountNotFound', 'Account not found');
+
+  await updateAccountPassword(env, did, await hashPassword(password));
+  await deleteRefreshTokensForDid(env, did);
+
+  return new Response(null, { status: 200 });
+}
@@ -0,0 +1,40 @@
+import type { APIContext } from 'astro';
+import { adminUnauthorized, isAdminRequest } from '../../lib/admin';
+import { parseSubject, setTakedownStatus } from '../../lib/moderation';
+import { readJson } from '../../lib/util';
+
+export const prerender = false;
+
+function jsonError(status: number, error: string, message: string): Response {
+  return new Response(JSON.stringify({ error, message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * com.atproto.admin.updateSubjectStatus
+ * Apply or lift a takedown on an account, record or blob. Deactivation
+ * (`deactivated`) is left to the account itself.
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+  if (!(await isAdminRequest(request, env))) return adminUnauthorized();
+
+  const body = await readJson(request).catch(() => null);
+  const subject = parseSubject(body?.subject);
+  if (!subject) return jsonError(400, 'InvalidRequest', 'subject must be a repoRef, strongRef or repoBlobRef');
+
+  const takedown = body?.takedown;
+  if (takedown) {
+    if (typeof takedown.applied !== 'boolean') {
+      return jsonError(400, 'InvalidRequest', 'takedown.applied must be a boolean');
+    }
+    const ref = typeof takedown.ref === 'string' && takedown.ref ? takedown.ref : undefined;
+    await setTakedownStatus(env, subject, { applied: takedown.applied, ...(ref ? { ref } : {}) });
+  }
+
+  return new Response(JSON.stringify({ subject, ...(takedown ? { takedown } : {}) }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -1,6 +1,8 @@
 import type { APIContext } from 'astro';
-import { isAuthorized, unauthorized } from '../../lib/auth';
-import { resolveSecret } from '../../lib/secrets';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
+import { getRepoSigningKey } from '../../lib/signing-key';
+import { getAccountHandle } from '../../lib/actor';
+import { isDidWeb } from '../../lib/did-web';
 import * as uint8arrays from 'uint8arrays';
 
 export const prerender = false;
@@ -10,20 +12,23 @@ export const prerender = false;
  *
  * Returns the recommended DID credentials for the current account.
  * This includes the handle, signing key, and PDS endpoint that should be
- * used when updating the PLC identity.
+ * used when updating the PLC identity. did:web accounts have no rotation
+ * keys, so those are omitted and the PLC directory is not consulted.
  */
 export async function GET({ locals, request }: APIContext) {
   const { env } = locals.runtime;
 
-  if (!(await isAuthorized(request, env))) return unauthorized();
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
 
   try {
-    const handle = (await resolveSecret(env.PDS_HANDLE)) ?? 'example.com';
+    const did = auth.claims.sub;
+    const handle = await getAccountHandle(env, did);
     const hostname = env.PDS_HOSTNAME ?? handle;
 
     // Always ES256K: derive did:key from the secp256k1 signing key
     let didKey: string | undefined;
-    const priv = (await resolveSecret((env as any).REPO_SIGNING_KEY))?.trim();
+    const priv = await getRepoSigningKey(env, did);
     if (!priv) {
       return new Response(
         JSON.stringify({ error: 'InvalidRequest', message: 'REPO_SIGNING_KEY not configured for ES256K' }),
@@ -50,20 +55,18 @@ export async function GET({ locals, request }: APIContext) {
     }
 
     // Get current PLC data to preserve rotation keys
-    const did = await resolveSecret(env.PDS_DID);
-    if (!did) {
-      return new Response(JSON.stringify({ error: 'InvalidRequest', message: 'PDS_DID is not configured' }), { status: 400, headers: { 'Content-Type': 'application/json' } });
-    }
-    const plcResponse = await fetch(`https://plc.directory/${did}/data`);
-
-    let rotationKeys: string[] = [];
-    if (plcResponse.ok) {
-      const plcData = await plcResponse.json() as { rotationKeys?: string[] };
-      rotationKeys = plcData.rotationKeys || [];
+    let rotationKeys: string[] | undefined;
+    if (!isDidWeb(did)) {
+      rotationKeys = [];
+      const plcResponse = await fetch(`https://plc.directory/${did}/data`);
+      if (plcResponse.ok) {
+        const plcData = await plcResponse.json() as { rotationKeys?: string[] };
+        rotationKeys = plcData.rotationKeys || [];
+      }
     }
 
     const credentials = {
-      rotationKeys,
+      ...(rotationKeys ? { rotationKeys } : {}),
       alsoKnownAs: [`at://${handle}`],
       verificationMethods: { atproto: didKey },
       services: {
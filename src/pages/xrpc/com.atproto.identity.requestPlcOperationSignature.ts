@@ -1,22 +1,42 @@
 import type { APIContext } from 'astro';
-import { isAuthorized, unauthorized } from '../../lib/auth';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
+import { createEmailToken, getAccountByIdentifier } from '../../db/account';
+import { sendEmailToken } from '../../lib/email';
+import { generateEmailToken } from '../../lib/password';
+import { XRPCError } from '../../lib/errors';
+import { assertPlcDid } from '../../lib/plc';
 
 export const prerender = false;
 
 /**
  * com.atproto.identity.requestPlcOperationSignature
  *
- * Single-user PDS instances typically control the PLC rotation key directly,
- * so the email-based 2FA flow used by the public PDS is unnecessary.  Clients
- * (like the Indigo goat CLI) still invoke this endpoint prior to signing a PLC
- * operation, so we acknowledge the request and report success without
- * triggering any side effects.
+ * Emails the one-time token that signPlcOperation requires, so a leaked
+ * session alone cannot repoint the DID. Fails for accounts without an email
+ * address, and when the PDS cannot send email.
  */
 export async function POST({ locals, request }: APIContext) {
   const { env } = locals.runtime;
 
-  if (!(await isAuthorized(request, env))) {
-    return unauthorized();
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
+  if (!auth.scopes.allowsIdentity('*')) return auth.scopes.deny('identity:*').toResponse();
+
+  const did = auth.claims.sub;
+  try {
+    assertPlcDid(did);
+  } catch (error) {
+    if (error instanceof XRPCError) return error.toResponse();
+    throw error;
+  }
+  const token = generateEmailToken();
+  await createEmailToken(env, did, 'plc_operation', token);
+  const account = await getAccountByIdentifier(env, did);
+  try {
+    await sendEmailToken(env, account ?? { handle: String(env.PDS_HANDLE ?? did), email: null }, 'plc_operation', token);
+  } catch (error) {
+    if (error instanceof XRPCError) return error.toResponse();
+    throw error;
   }
 
   return new Response(null, { status: 200 });
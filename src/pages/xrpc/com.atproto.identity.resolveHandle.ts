@@ -1,69 +1,55 @@
 import type { APIContext } from 'astro';
-import { getAppViewConfig } from '../../lib/appview';
+import { resolveHostedRepo } from '../../lib/accounts';
+import { validateAndNormalizeHandle } from '../../lib/handle';
+import { resolveIdentity } from '../../lib/identity';
 
 export const prerender = false;
 
+function jsonError(status: number, error: string, message: string): Response {
+  return new Response(JSON.stringify({ error, message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
 /**
  * com.atproto.identity.resolveHandle
- * Resolve a handle to a DID
+ * Resolve a handle to a DID. Hosted accounts' handles are answered from the
+ * database; any other handle is resolved via DNS / well-known and only
+ * returned when its DID document lists the handle back.
  */
 export async function GET({ locals, url }: APIContext) {
-  const { env } = locals.runtime;
-
-  const handle = url.searchParams.get('handle');
-  const configuredHandle = String(env.PDS_HANDLE || 'user.example.com');
-  const did = String(env.PDS_DID || 'did:example:single-user');
+  const { env, ctx } = locals.runtime;
 
+  const param = url.searchParams.get('handle');
+  if (!param) {
+    return jsonError(400, 'InvalidRequest', 'handle parameter required');
+  }
+  const handle = validateAndNormalizeHandle(param);
   if (!handle) {
-    return new Response(
-      JSON.stringify({ error: 'InvalidRequest', message: 'handle parameter required' }),
-      { status: 400, headers: { 'Content-Type': 'application/json' } }
-    );
+    return jsonError(400, 'InvalidRequest', 'Invalid handle');
   }
 
-  // Single-user PDS: resolve the local configured handle directly
-  if (handle.toLowerCase() === configuredHandle.toLowerCase()) {
-    return new Response(
-      JSON.stringify({ did }),
-      {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' },
-      }
-    );
+  // Hosted accounts: resolve the stored handle directly
+  const did = await resolveHostedRepo(env, handle);
+  if (did) {
+    return new Response(JSON.stringify({ did }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
   }
 
-  // For non-local handles, mirror upstream PDS behavior:
-  // proxy the resolution to the configured AppView (or api.bsky.app by default).
   try {
-    const app = getAppViewConfig(env);
-    const base = app?.url || 'https://api.bsky.app';
-    const upstream = new URL('/xrpc/com.atproto.identity.resolveHandle', base);
-    upstream.searchParams.set('handle', handle);
-
-    const res = await fetch(upstream.toString(), {
-      headers: { accept: 'application/json' },
-    });
-
-    if (res.ok) {
-      // Pass through upstream JSON (e.g. { did })
-      return new Response(await res.text(), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    const identity = await resolveIdentity(env, handle, { waitUntil: ctx?.waitUntil.bind(ctx) });
+    if (!identity || identity.handle !== handle) {
+      return jsonError(400, 'InvalidRequest', 'Unable to resolve handle');
     }
-
-    // Map upstream failures to the standard InvalidRequest shape used by PDS
-    const text = await res.text().catch(() => '');
-    const body = text ? (() => { try { return JSON.parse(text); } catch { return null; } })() : null;
-    const message = body?.message || 'Unable to resolve handle';
-    return new Response(
-      JSON.stringify({ error: 'InvalidRequest', message }),
-      { status: 400, headers: { 'Content-Type': 'application/json' } }
-    );
-  } catch {
-    return new Response(
-      JSON.stringify({ error: 'InvalidRequest', message: 'Unable to resolve handle' }),
-      { status: 400, headers: { 'Content-Type': 'application/json' } }
-    );
+    return new Response(JSON.stringify({ did: identity.did }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.warn('resolveHandle: resolution failed', error);
+    return jsonError(400, 'InvalidRequest', 'Unable to resolve handle');
   }
 }
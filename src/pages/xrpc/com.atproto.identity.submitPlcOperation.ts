@@ -1,6 +1,7 @@
 import type { APIContext } from 'astro';
-import { isAuthorized, unauthorized } from '../../lib/auth';
-import { resolveSecret } from '../../lib/secrets';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
+import { XRPCError } from '../../lib/errors';
+import { assertPlcDid, submitPlcOperation } from '../../lib/plc';
 
 export const prerender = false;
 
@@ -14,9 +15,13 @@ export const prerender = false;
 export async function POST({ locals, request }: APIContext) {
   const { env } = locals.runtime;
 
-  if (!(await isAuthorized(request, env))) return unauthorized();
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
+  if (!auth.scopes.allowsIdentity('*')) return auth.scopes.deny('identity:*').toResponse();
 
   try {
+    assertPlcDid(auth.claims.sub);
+
     const body = await request.json() as { operation?: any };
     const { operation } = body;
 
@@ -30,13 +35,7 @@ export async function POST({ locals, request }: APIContext) {
       );
     }
 
-    const did = await resolveSecret(env.PDS_DID);
-    if (!did) {
-      return new Response(
-        JSON.stringify({ error: 'InvalidRequest', message: 'PDS_DID is not configured' }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
-      );
-    }
+    const did = auth.claims.sub;
 
     console.log('Submitting PLC operation:', {
       did,
@@ -45,46 +44,18 @@ export async function POST({ locals, request }: APIContext) {
       prev: operation.prev
     });
 
-    // Submit to PLC directory
-    const plcResponse = await fetch(`https://plc.directory/${did}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(operation)
-    });
-
-    const responseHeaders: Record<string, string> = {};
-    plcResponse.headers.forEach((value, key) => {
-      responseHeaders[key] = value;
-    });
-
-    console.log('PLC response:', {
-      status: plcResponse.status,
-      statusText: plcResponse.statusText,
-      headers: responseHeaders
-    });
-
-    if (!plcResponse.ok) {
-      const errorText = await plcResponse.text();
-      console.error('PLC directory error:', errorText);
-      return new Response(
-        JSON.stringify({
-          error: 'PlcOperationFailed',
-          message: `PLC directory rejected operation (${plcResponse.status}): ${errorText}`
-        }),
-        { status: plcResponse.status, headers: { 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const plcResult = await plcResponse.text();
-    console.log('PLC submission successful:', plcResult);
+    await submitPlcOperation(did, operation);
+    console.log('PLC submission successful');
 
     return new Response(
       JSON.stringify({ success: true }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
     );
   } catch (error: any) {
+    if (error instanceof XRPCError) {
+      console.error('PLC directory error:', error.message);
+      return error.toResponse();
+    }
     console.error('Submit PLC operation error:', error);
     return new Response(
       JSON.stringify({
@@ -1,45 +1,80 @@
 import type { APIContext } from 'astro';
+import { isServiceHandle } from '../../lib/accounts';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
+import { getAccountByIdentifier, updateAccountHandle } from '../../db/account';
+import { XRPCError } from '../../lib/errors';
+import { validateAndNormalizeHandle } from '../../lib/handle';
+import { resolveHandleToDid } from '../../lib/identity';
+import { updatePlcHandle } from '../../lib/plc';
+import { notifySequencerIdentity } from '../../lib/sequencer';
 import { readJson } from '../../lib/util';
 
 export const prerender = false;
 
+function jsonError(status: number, error: string, message: string): Response {
+  return new Response(JSON.stringify({ error, message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
 /**
  * com.atproto.identity.updateHandle
- * Update the handle for the repository
+ * Change the account handle. A handle under one of the service's user domains
+ * only has to be available, as in createAccount, since this PDS serves its
+ * /.well-known/atproto-did; any other handle must already resolve to the
+ * account DID (DNS TXT or /.well-known/atproto-did). For did:plc accounts the
+ * PLC document's alsoKnownAs is updated with the server rotation key, then an
+ * #identity event is emitted.
  */
 export async function POST({ locals, request }: APIContext) {
   const { env } = locals.runtime;
 
-  try {
-    const body = await readJson(request);
-    const { handle } = body;
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
+  if (!auth.scopes.allowsIdentity('handle')) return auth.scopes.deny('identity:handle').toResponse();
+
+  const body = await readJson(request).catch(() => null);
+  if (typeof body?.handle !== 'string' || !body.handle) {
+    return jsonError(400, 'InvalidRequest', 'handle required');
+  }
+  const handle = validateAndNormalizeHandle(body.handle);
+  if (!handle) return jsonError(400, 'InvalidHandle', 'Handle is not valid');
+
+  const did = auth.claims.sub;
+  const account = await getAccountByIdentifier(env, did);
+  if (!account) return jsonError(400, 'AccountNotFound', 'Account not found');
 
-    if (!handle) {
-      return new Response(
-        JSON.stringify({ error: 'InvalidRequest', message: 'handle required' }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
+  const existing = await getAccountByIdentifier(env, handle);
+  if (existing && existing.did !== did) {
+    return jsonError(400, 'HandleNotAvailable', 'Handle already taken');
+  }
+
+  if (handle !== account.handle) {
+    const resolved = isServiceHandle(env, handle) ? did : await resolveHandleToDid(handle);
+    if (resolved !== did) {
+      return jsonError(
+        400,
+        'InvalidHandle',
+        `Handle does not resolve to ${did}; publish it in a _atproto.${handle} TXT record or at https://${handle}/.well-known/atproto-did`,
       );
     }
 
-    // TODO: Implement handle verification (DNS TXT or HTTP)
-    // TODO: Update PDS_HANDLE configuration
-    // For single-user PDS, this would require redeployment with new config
-
-    return new Response(
-      JSON.stringify({
-        error: 'NotImplemented',
-        message: 'Handle updates require PDS reconfiguration for single-user mode',
-      }),
-      {
-        status: 501,
-        headers: { 'Content-Type': 'application/json' },
+    if (did.startsWith('did:plc:')) {
+      try {
+        await updatePlcHandle(env, did, handle);
+      } catch (error) {
+        if (error instanceof XRPCError) return error.toResponse();
+        console.error('updateHandle: PLC update failed', error);
+        return jsonError(500, 'InternalServerError', 'Failed to update the PLC document');
       }
-    );
-  } catch (error) {
-    console.error('updateHandle error:', error);
-    return new Response(
-      JSON.stringify({ error: 'InternalServerError', message: String(error) }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
-    );
+    }
+
+    await updateAccountHandle(env, did, handle);
   }
+
+  // Emitted even when unchanged so relays and AppViews can re-verify
+  await notifySequencerIdentity(env, { did, handle });
+
+  return new Response(null, { status: 200 });
 }
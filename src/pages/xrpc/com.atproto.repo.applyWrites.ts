@@ -2,24 +2,35 @@ import type { APIContext } from 'astro';
 import { RepoManager } from '../../services/repo-manager';
 import { readJson } from '../../lib/util';
 import { bumpRoot } from '../../db/repo';
-import { verifyResourceRequestHybrid, dpopResourceUnauthorized, handleResourceAuthError } from '../../lib/oauth/resource';
+import { verifyResourceRequestHybrid, dpopResourceUnauthorized, handleResourceAuthError, type ResourceAuth } from '../../lib/oauth/resource';
 import { isAccountActive } from '../../db/dal';
 import { checkRate } from '../../lib/ratelimit';
 import { notifySequencer } from '../../lib/sequencer';
 import { encodeBlocksForCommit } from '../../services/car';
 import { CID } from 'multiformats/cid';
 import { putRecord as dalPutRecord } from '../../db/dal';
+import { validateRecord } from '../../lib/lexicon';
+import { XRPCError } from '../../lib/errors';
+import type { RepoAction } from '../../lib/scopes';
+import { resolveWritableRepo } from '../../lib/accounts';
 
 export const prerender = false;
 
+const WRITE_ACTIONS: Record<string, RepoAction> = {
+  'com.atproto.repo.applyWrites#create': 'create',
+  'com.atproto.repo.applyWrites#update': 'update',
+  'com.atproto.repo.applyWrites#delete': 'delete',
+};
+
 /**
  * com.atproto.repo.applyWrites
  * Apply a batch of repository writes atomically
  */
 export async function POST({ locals, request }: APIContext) {
   const { env } = locals.runtime;
+  let auth: ResourceAuth | null;
   try {
-    const auth = await verifyResourceRequestHybrid(env, request);
+    auth = await verifyResourceRequestHybrid(env, request);
     if (!auth) return dpopResourceUnauthorized(env);
   } catch (err) {
     const handled = await handleResourceAuthError(env, err);
@@ -28,7 +39,7 @@ export async function POST({ locals, request }: APIContext) {
   }
 
   // Check if account is active
-  const did = env.PDS_DID as string;
+  const did = auth.did;
   const active = await isAccountActive(env, did);
   if (!active) {
     return new Response(
@@ -45,7 +56,8 @@ export async function POST({ locals, request }: APIContext) {
 
   try {
     const body = await readJson(request);
-    const { repo, writes, validate = true, swapCommit } = body;
+    const { repo, writes, validate, swapCommit } = body;
+    await resolveWritableRepo(env, did, repo);
 
     if (!writes || !Array.isArray(writes)) {
       return new Response(
@@ -54,18 +66,32 @@ export async function POST({ locals, request }: APIContext) {
       );
     }
 
-    const repoManager = new RepoManager(env);
-    const pdsDid = env.PDS_DID as string;
+    for (const write of writes) {
+      const action = WRITE_ACTIONS[write?.$type];
+      if (action && !auth.scopes.allowsRepo(write.collection, action)) {
+        return auth.scopes.deny(`repo:${write.collection}?action=${action}`).toResponse();
+      }
+    }
+
+    // Validate every record up front so a bad write rejects the whole batch
+    const validationStatuses: Array<ReturnType<typeof validateRecord>> = [];
+    for (const write of writes) {
+      const isWrite = write?.$type === 'com.atproto.repo.applyWrites#create' || write?.$type === 'com.atproto.repo.applyWrites#update';
+      validationStatuses.push(isWrite ? validateRecord(write.collection, write.rkey, write.value, validate) : undefined);
+    }
+
+    const repoManager = new RepoManager(env, did);
     const results = [] as any[];
     // Accumulate ops and new MST blocks for this batch
-    const opsForCommit: { action: 'create'|'update'|'delete'; path: string; cid: import('multiformats/cid').CID | null }[] = [];
+    const opsForCommit: { action: 'create'|'update'|'delete'; path: string; cid: import('multiformats/cid').CID | null; prev?: import('multiformats/cid').CID }[] = [];
     const newMstBlocksAll: Array<[import('multiformats/cid').CID, Uint8Array]> = [];
     let firstPrevMst: import('multiformats/cid').CID | null = null;
     let lastMst: import('../../lib/mst').MST | null = null;
 
     // Apply all writes atomically
-    for (const write of writes) {
+    for (const [i, write] of writes.entries()) {
       const { $type, collection, rkey, value } = write;
+      const validationStatus = validationStatuses[i];
 
       if ($type === 'com.atproto.repo.applyWrites#create') {
         const { mst, recordCid, prevMstRoot, newMstBlocks } = await repoManager.addRecord(collection, rkey, value);
@@ -75,40 +101,40 @@ export async function POST({ locals, request }: APIContext) {
         for (const [cid, bytes] of newMstBlocks) newMstBlocksAll.push([cid, bytes]);
         // Persist JSON for local reads
         await dalPutRecord(env, {
-          uri: `at://${pdsDid}/${collection}/${rkey}`,
-          did: pdsDid,
+          uri: `at://${did}/${collection}/${rkey}`,
+          did,
           cid: recordCid.toString(),
           json: JSON.stringify(value),
         } as any);
         results.push({
           $type: 'com.atproto.repo.applyWrites#createResult',
-          uri: `at://${repo}/${collection}/${rkey}`,
+          uri: `at://${did}/${collection}/${rkey}`,
           cid: recordCid.toString(),
-          validationStatus: 'valid',
+          ...(validationStatus ? { validationStatus } : {}),
         });
       } else if ($type === 'com.atproto.repo.applyWrites#update') {
-        const { mst, recordCid, prevMstRoot, newMstBlocks } = await repoManager.updateRecord(collection, rkey, value);
+        const { mst, recordCid, prevMstRoot, prevRecordCid, newMstBlocks } = await repoManager.updateRecord(collection, rkey, value);
         if (!firstPrevMst) firstPrevMst = prevMstRoot;
         lastMst = mst;
-        opsForCommit.push({ action: 'update', path: `${collection}/${rkey}`, cid: recordCid });
+        opsForCommit.push({ action: 'update', path: `${collection}/${rkey}`, cid: recordCid, ...(prevRecordCid ? { prev: prevRecordCid } : {}) });
         for (const [cid, bytes] of newMstBlocks) newMstBlocksAll.push([cid, bytes]);
         await dalPutRecord(env, {
-          uri: `at://${pdsDid}/${collection}/${rkey}`,
-          did: pdsDid,
+          uri: `at://${did}/${collection}/${rkey}`,
+          did,
           cid: recordCid.toString(),
           json: JSON.stringify(value),
         } as any);
         results.push({
           $type: 'com.atproto.repo.applyWrites#updateResult',
-          uri: `at://${repo}/${collection}/${rkey}`,
+          uri: `at://${did}/${collection}/${rkey}`,
           cid: recordCid.toString(),
-          validationStatus: 'valid',
+          ...(validationStatus ? { validationStatus } : {}),
         });
       } else if ($type === 'com.atproto.repo.applyWrites#delete') {
-        const { mst, prevMstRoot, newMstBlocks } = await repoManager.deleteRecord(collection, rkey);
+        const { mst, prevMstRoot, prevRecordCid, newMstBlocks } = await repoManager.deleteRecord(collection, rkey);
         if (!firstPrevMst) firstPrevMst = prevMstRoot;
         lastMst = mst;
-        opsForCommit.push({ action: 'delete', path: `${collection}/${rkey}`, cid: null });
+        opsForCommit.push({ action: 'delete', path: `${collection}/${rkey}`, cid: null, ...(prevRecordCid ? { prev: prevRecordCid } : {}) });
         for (const [cid, bytes] of newMstBlocks) newMstBlocksAll.push([cid, bytes]);
         results.push({
           $type: 'com.atproto.repo.applyWrites#deleteResult',
@@ -121,13 +147,14 @@ export async function POST({ locals, request }: APIContext) {
     const { commitCid, rev, commitData, sig, blocks } = await bumpRoot(env, firstPrevMst ?? undefined, currentRoot, {
       ops: opsForCommit,
       newMstBlocks: newMstBlocksAll,
+      did,
     });
 
     // Notify sequencer about the commit for firehose
     try {
       // Prefer commitData/sig/blocks returned by bumpRoot (authoritative)
       await notifySequencer(env, {
-        did: env.PDS_DID as string,
+        did,
         commitCid,
         rev,
         data: commitData,
@@ -151,6 +178,7 @@ export async function POST({ locals, request }: APIContext) {
       }
     );
   } catch (error) {
+    if (error instanceof XRPCError) return error.toResponse();
     console.error('applyWrites error:', error);
     console.error('Error stack:', error instanceof Error ? error.stack : 'No stack');
     return new Response(
@@ -1,16 +1,20 @@
 import type { APIContext } from 'astro';
-import { verifyResourceRequestHybrid, dpopResourceUnauthorized, handleResourceAuthError } from '../../lib/oauth/resource';
+import { verifyResourceRequestHybrid, dpopResourceUnauthorized, handleResourceAuthError, type ResourceAuth } from '../../lib/oauth/resource';
 import { checkRate } from '../../lib/ratelimit';
 import { readJsonBounded } from '../../lib/util';
 import { RepoManager } from '../../services/repo-manager';
 import { notifySequencer } from '../../lib/sequencer';
+import { validateRecord } from '../../lib/lexicon';
+import { XRPCError } from '../../lib/errors';
+import { resolveWritableRepo } from '../../lib/accounts';
 
 export const prerender = false;
 
 export async function POST({ locals, request }: APIContext) {
   const { env } = locals.runtime;
+  let auth: ResourceAuth | null;
   try {
-    const auth = await verifyResourceRequestHybrid(env, request);
+    auth = await verifyResourceRequestHybrid(env, request);
     if (!auth) return dpopResourceUnauthorized(env);
   } catch (err) {
     const handled = await handleResourceAuthError(env, err);
@@ -30,9 +34,20 @@ export async function POST({ locals, request }: APIContext) {
     }
     return new Response(JSON.stringify({ error: 'BadRequest' }), { status: 400 });
   }
-  const { collection, rkey } = body ?? {};
+  const { collection, rkey, validate } = body ?? {};
   let { record } = body ?? {};
   if (!collection || !record) return new Response(JSON.stringify({ error: 'BadRequest' }), { status: 400 });
+  if (!auth.scopes.allowsRepo(collection, 'create')) {
+    return auth.scopes.deny(`repo:${collection}?action=create`).toResponse();
+  }
+
+  let did: string;
+  try {
+    did = await resolveWritableRepo(env, auth.did, body.repo);
+  } catch (e) {
+    if (e instanceof XRPCError) return e.toResponse();
+    throw e;
+  }
 
   // Minimal schema alignment for app.bsky.feed.post: ensure required fields
   if (collection === 'app.bsky.feed.post' && record && typeof record === 'object') {
@@ -44,10 +59,18 @@ export async function POST({ locals, request }: APIContext) {
     }
   }
 
-  const repo = new RepoManager(env);
+  let validationStatus: ReturnType<typeof validateRecord>;
+  try {
+    validationStatus = validateRecord(collection, rkey, record, validate);
+  } catch (e) {
+    if (e instanceof XRPCError) return e.toResponse();
+    throw e;
+  }
+
+  const repo = new RepoManager(env, did);
   const result = await repo.createRecord(collection, record, rkey);
   await notifySequencer(env, {
-    did: env.PDS_DID as string,
+    did,
     commitCid: result.commitCid,
     rev: result.rev,
     data: result.commitData,
@@ -64,7 +87,7 @@ export async function POST({ locals, request }: APIContext) {
       cid: result.commitCid,
       rev: result.rev,
     },
-    validationStatus: 'unknown' as const,
+    ...(validationStatus ? { validationStatus } : {}),
   };
 
   return new Response(JSON.stringify(out), {
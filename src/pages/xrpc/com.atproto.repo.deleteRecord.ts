@@ -1,17 +1,20 @@
 import type { APIContext } from 'astro';
-import { verifyResourceRequestHybrid, dpopResourceUnauthorized, handleResourceAuthError } from '../../lib/oauth/resource';
+import { verifyResourceRequestHybrid, dpopResourceUnauthorized, handleResourceAuthError, type ResourceAuth } from '../../lib/oauth/resource';
 import { checkRate } from '../../lib/ratelimit';
 import { readJsonBounded } from '../../lib/util';
 import { RepoManager } from '../../services/repo-manager';
 import { bumpRoot } from '../../db/repo';
 import { notifySequencer } from '../../lib/sequencer';
+import { XRPCError } from '../../lib/errors';
+import { resolveWritableRepo } from '../../lib/accounts';
 
 export const prerender = false;
 
 export async function POST({ locals, request }: APIContext) {
   const { env } = locals.runtime;
+  let auth: ResourceAuth | null;
   try {
-    const auth = await verifyResourceRequestHybrid(env, request);
+    auth = await verifyResourceRequestHybrid(env, request);
     if (!auth) return dpopResourceUnauthorized(env);
   } catch (err) {
     const handled = await handleResourceAuthError(env, err);
@@ -33,22 +36,34 @@ export async function POST({ locals, request }: APIContext) {
   }
   const { collection, rkey } = body ?? {};
   if (!collection || !rkey) return new Response(JSON.stringify({ error: 'BadRequest' }), { status: 400 });
+  if (!auth.scopes.allowsRepo(collection, 'delete')) {
+    return auth.scopes.deny(`repo:${collection}?action=delete`).toResponse();
+  }
+
+  let did: string;
+  try {
+    did = await resolveWritableRepo(env, auth.did, body.repo);
+  } catch (e) {
+    if (e instanceof XRPCError) return e.toResponse();
+    throw e;
+  }
 
-  const repo = new RepoManager(env);
+  const repo = new RepoManager(env, did);
   // Perform the delete in the MST, gather prev/new roots & new blocks
-  const { mst, prevMstRoot, uri, newMstBlocks } = await repo.deleteRecord(collection, rkey);
+  const { mst, prevMstRoot, prevRecordCid, uri, newMstBlocks } = await repo.deleteRecord(collection, rkey);
 
   // Build ops & bump the repo root to create a signed commit
   const currentRoot = await mst.getPointer();
-  const opsForCommit = [{ action: 'delete' as const, path: `${collection}/${rkey}`, cid: null }];
+  const opsForCommit = [{ action: 'delete' as const, path: `${collection}/${rkey}`, cid: null, ...(prevRecordCid ? { prev: prevRecordCid } : {}) }];
   const { commitCid, rev, commitData, sig, blocks } = await bumpRoot(env, prevMstRoot ?? undefined, currentRoot, {
     ops: opsForCommit,
     newMstBlocks: Array.from(newMstBlocks),
+    did,
   });
 
   // Notify sequencer with a complete payload matching handleCommitNotification
   await notifySequencer(env, {
-    did: env.PDS_DID as string,
+    did,
     commitCid,
     rev,
     data: commitData,
@@ -1,5 +1,7 @@
 import type { APIContext } from 'astro';
 import { getRoot } from '../../db/repo';
+import { getAccountHandle } from '../../lib/actor';
+import { resolveHostedRepo } from '../../lib/accounts';
 
 export const prerender = false;
 
@@ -10,12 +12,18 @@ export const prerender = false;
 export async function GET({ locals, url }: APIContext) {
   const { env } = locals.runtime;
 
-  const repo = url.searchParams.get('repo') || (env.PDS_DID as string);
-  const did = env.PDS_DID as string;
-  const handle = env.PDS_HANDLE || 'user.example.com';
+  const repo = url.searchParams.get('repo');
+  const did = await resolveHostedRepo(env, repo);
+  if (!did) {
+    return new Response(
+      JSON.stringify({ error: 'InvalidRequest', message: `Could not find repo: ${repo}` }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+  const handle = await getAccountHandle(env, did);
 
   // Get repo root to check if repo exists
-  const root = await getRoot(env);
+  const root = await getRoot(env, did);
 
   return new Response(
     JSON.stringify({
@@ -1,6 +1,9 @@
 import type { APIContext } from 'astro';
 import { getRecord as dalGetRecord } from '../../db/dal';
 import { proxyAppView } from '../../lib/appview';
+import { getPrimaryDid, resolveHostedRepo } from '../../lib/accounts';
+import { XRPCError } from '../../lib/errors';
+import { isRecordTakendown, isRepoTakendown } from '../../lib/moderation';
 
 export const prerender = false;
 
@@ -9,7 +12,7 @@ export async function GET({ locals, request }: APIContext) {
   const url = new URL(request.url);
   let uri = url.searchParams.get('uri');
   if (!uri) {
-    const repo = url.searchParams.get('repo') ?? (env.PDS_DID as string);
+    const repo = url.searchParams.get('repo') ?? (await getPrimaryDid(env));
     const collection = url.searchParams.get('collection');
     const rkey = url.searchParams.get('rkey');
     if (repo && collection && rkey) uri = `at://${repo}/${collection}/${rkey}`;
@@ -18,19 +21,28 @@ export async function GET({ locals, request }: APIContext) {
   if (!uri) return new Response(JSON.stringify({ error: 'BadRequest', message: 'query param uri required' }), { status: 400 });
 
   // If the repo is not hosted here, proxy to AppView like upstream PDS does
-  const localDid = env.PDS_DID || '';
   const repoParam = url.searchParams.get('repo') || '';
-  let repoDid = repoParam;
-  if (!repoDid && uri.startsWith('at://')) {
+  let repoId = repoParam;
+  if (!repoId && uri.startsWith('at://')) {
     const m = uri.match(/^at:\/\/([^/]+)\//);
-    if (m) repoDid = m[1];
+    if (m) repoId = m[1];
   }
-  if (repoDid && localDid && repoDid !== localDid) {
+  const repoDid = await resolveHostedRepo(env, repoId);
+  if (!repoDid) {
     return proxyAppView({ request, env, lxm: 'com.atproto.repo.getRecord' });
   }
+  // Records are stored under the DID even when the request names a handle
+  if (repoId && repoId !== repoDid) uri = uri.replace(`at://${repoId}/`, `at://${repoDid}/`);
+
+  if (await isRepoTakendown(env, repoDid)) {
+    return new XRPCError('RepoTakendown', `Repo has been taken down: ${repoDid}`, 400).toResponse();
+  }
 
   const row = await dalGetRecord(env, uri);
   if (!row) return new Response(JSON.stringify({ error: 'NotFound' }), { status: 404 });
+  if (await isRecordTakendown(env, row.uri)) {
+    return new XRPCError('RecordNotFound', `Could not locate record: ${row.uri}`, 400).toResponse();
+  }
 
   return new Response(JSON.stringify({ uri: row.uri, cid: row.cid, value: JSON.parse(row.json) }), {
     headers: { 'Content-Type': 'application/json' },
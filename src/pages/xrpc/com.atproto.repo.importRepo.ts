@@ -0,0 +1,63 @@
+import type { APIContext } from 'astro';
+import { verifyResourceRequestHybrid, dpopResourceUnauthorized, handleResourceAuthError, type ResourceAuth } from '../../lib/oauth/resource';
+import { checkRate } from '../../lib/ratelimit';
+import { importRepo } from '../../lib/repo-import';
+import { XRPCError } from '../../lib/errors';
+
+export const prerender = false;
+
+/**
+ * com.atproto.repo.importRepo
+ *
+ * Accepts a repo CAR (application/vnd.ipld.car) and replaces the local repo
+ * with it. CARs of up to PDS_IMPORT_SYNC_MAX_BLOCKS blocks finish in this
+ * call. Larger repos are imported across several calls: when the per-call
+ * time budget runs out we answer 503 ImportIncomplete with Retry-After, and
+ * re-sending the same CAR resumes from the saved progress.
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+  let auth: ResourceAuth | null;
+  try {
+    auth = await verifyResourceRequestHybrid(env, request);
+    if (!auth) return dpopResourceUnauthorized(env);
+  } catch (err) {
+    const handled = await handleResourceAuthError(env, err);
+    if (handled) return handled;
+    throw err;
+  }
+
+  if (!auth.scopes.allowsAccount('repo', 'manage')) {
+    return auth.scopes.deny('account:repo?action=manage').toResponse();
+  }
+
+  // No isAccountActive check: migrations import into a deactivated account.
+  const rateLimitResponse = await checkRate(env, request, 'writes');
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const carBytes = new Uint8Array(await request.arrayBuffer());
+  if (carBytes.byteLength === 0) {
+    return new Response(
+      JSON.stringify({ error: 'InvalidRequest', message: 'Request body must be a CAR file' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } },
+    );
+  }
+
+  try {
+    const { complete, progress } = await importRepo(env, carBytes, { did: auth.did });
+    if (!complete) {
+      return new Response(
+        JSON.stringify({
+          error: 'ImportIncomplete',
+          message: 'Import is still in progress; send the same CAR again to continue',
+          progress,
+        }),
+        { status: 503, headers: { 'Content-Type': 'application/json', 'Retry-After': '1' } },
+      );
+    }
+    return new Response(null, { status: 200 });
+  } catch (e) {
+    if (e instanceof XRPCError) return e.toResponse();
+    throw e;
+  }
+}
@@ -1,5 +1,5 @@
 import type { APIContext } from 'astro';
-import { isAuthorized, unauthorized } from '../../lib/auth';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
 import { getDb } from '../../db/client';
 import { record, blob_ref } from '../../db/schema';
 import { eq } from 'drizzle-orm';
@@ -16,10 +16,11 @@ export const prerender = false;
 export async function GET({ locals, request, url }: APIContext) {
   const { env } = locals.runtime;
 
-  if (!(await isAuthorized(request, env))) return unauthorized();
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
 
   try {
-    const did = String(env.PDS_DID ?? 'did:example:single-user');
+    const did = auth.claims.sub;
     const limit = parseInt(url.searchParams.get('limit') || '500');
     const cursor = url.searchParams.get('cursor') || '';
 
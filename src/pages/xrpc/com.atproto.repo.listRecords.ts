@@ -1,5 +1,8 @@
 import type { APIContext } from 'astro';
 import { RepoManager } from '../../services/repo-manager';
+import { resolveHostedRepo } from '../../lib/accounts';
+import { XRPCError } from '../../lib/errors';
+import { getRepoTakedowns, isRepoTakendown } from '../../lib/moderation';
 
 export const prerender = false;
 
@@ -10,7 +13,7 @@ export const prerender = false;
 export async function GET({ locals, url }: APIContext) {
   const { env } = locals.runtime;
 
-  const repo = url.searchParams.get('repo') || (env.PDS_DID as string);
+  const repo = url.searchParams.get('repo');
   const collection = url.searchParams.get('collection');
   const limit = parseInt(url.searchParams.get('limit') || '50', 10);
   const cursor = url.searchParams.get('cursor') || undefined;
@@ -22,15 +25,30 @@ export async function GET({ locals, url }: APIContext) {
     );
   }
 
+  const did = await resolveHostedRepo(env, repo);
+  if (!did) {
+    return new Response(
+      JSON.stringify({ error: 'InvalidRequest', message: `Could not find repo: ${repo}` }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  if (await isRepoTakendown(env, did)) {
+    return new XRPCError('RepoTakendown', `Repo has been taken down: ${did}`, 400).toResponse();
+  }
+
   try {
-    const repoManager = new RepoManager(env);
+    const repoManager = new RepoManager(env, did);
     const results = await repoManager.listRecords(collection, limit, cursor);
+    const { recordUris: takendown } = await getRepoTakedowns(env, did);
 
+    // Taken-down records are skipped; the cursor still advances past them
+    const visible = results.filter(({ key }) => !takendown.has(`at://${did}/${collection}/${key}`));
     const records = await Promise.all(
-      results.map(async ({ key, cid }) => {
+      visible.map(async ({ key, cid }) => {
         const record = await repoManager.getRecord(collection, key);
         return {
-          uri: `at://${repo}/${collection}/${key}`,
+          uri: `at://${did}/${collection}/${key}`,
           cid: cid.toString(),
           value: record,
         };
@@ -40,7 +58,7 @@ export async function GET({ locals, url }: APIContext) {
     return new Response(
       JSON.stringify({
         records,
-        cursor: records.length > 0 ? results[results.length - 1].key : undefined,
+        cursor: results.length > 0 ? results[results.length - 1].key : undefined,
       }),
       {
         status: 200,
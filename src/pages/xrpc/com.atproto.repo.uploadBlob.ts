@@ -1,10 +1,9 @@
 import type { APIContext } from 'astro';
-import { verifyResourceRequestHybrid, dpopResourceUnauthorized, handleResourceAuthError } from '../../lib/oauth/resource';
+import { verifyResourceRequestHybrid, dpopResourceUnauthorized, handleResourceAuthError, type ResourceAuth } from '../../lib/oauth/resource';
 import { checkRate } from '../../lib/ratelimit';
 import { isAllowedMime, sniffMime, baseMime } from '../../lib/util';
 import { R2BlobStore } from '../../services/r2-blob-store';
 import { putBlobRef, checkBlobQuota, updateBlobQuota, isAccountActive } from '../../db/dal';
-import { resolveSecret } from '../../lib/secrets';
 import { CID } from 'multiformats/cid';
 import { sha256 } from 'multiformats/hashes/sha2';
 
@@ -12,8 +11,9 @@ export const prerender = false;
 
 export async function POST({ locals, request }: APIContext) {
   const { env } = locals.runtime;
+  let auth: ResourceAuth | null;
   try {
-    const auth = await verifyResourceRequestHybrid(env, request);
+    auth = await verifyResourceRequestHybrid(env, request);
     if (!auth) return dpopResourceUnauthorized(env);
   } catch (err) {
     const handled = await handleResourceAuthError(env, err);
@@ -21,8 +21,8 @@ export async function POST({ locals, request }: APIContext) {
     throw err;
   }
 
-  // Get DID from environment (single-user PDS)
-  const did = (await resolveSecret(env.PDS_DID)) ?? 'did:example:single-user';
+  // Blobs belong to the authenticated account
+  const did = auth.did;
 
   // Check if account is active
   const active = await isAccountActive(env, did);
@@ -59,6 +59,9 @@ export async function POST({ locals, request }: APIContext) {
   const sniffed = sniffMime(buf);
   // Prefer sniffed MIME like upstream PDS; fall back to header
   const contentType = sniffed || headerMime;
+  if (!auth.scopes.allowsBlob(contentType)) {
+    return auth.scopes.deny(`blob:${contentType}`).toResponse();
+  }
 
   // Skip MIME type validation during migration - accept all types
   // Uncomment to enforce: if (!isAllowedMime(env, contentType)) return new Response(JSON.stringify({ error: 'UnsupportedMediaType' }), { status: 415 });
@@ -0,0 +1,40 @@
+import type { APIContext } from 'astro';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
+import { AccountTakedown } from '../../lib/errors';
+import { getAccountState, setAccountStatus } from '../../db/dal';
+import { getAccountByIdentifier } from '../../db/account';
+import { notifySequencerAccount, notifySequencerIdentity } from '../../lib/sequencer';
+
+export const prerender = false;
+
+/**
+ * com.atproto.server.activateAccount
+ * Activate a deactivated account (e.g. at the end of a migration) and announce it to relays
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
+  if (!auth.scopes.allowsAccount('status', 'manage')) {
+    return auth.scopes.deny('account:status?action=manage').toResponse();
+  }
+
+  const did = auth.claims.sub;
+  const state = await getAccountState(env, did);
+  if (state?.status === 'takendown') {
+    return new AccountTakedown().toResponse();
+  }
+
+  // Already active: nothing to announce
+  if (!state || state.active) return new Response(null, { status: 200 });
+
+  await setAccountStatus(env, did, null);
+
+  // Relays refresh the identity before trusting the account's commits again
+  const account = await getAccountByIdentifier(env, did);
+  await notifySequencerIdentity(env, { did, handle: account?.handle });
+  await notifySequencerAccount(env, { did, active: true });
+
+  return new Response(null, { status: 200 });
+}
@@ -1,5 +1,5 @@
 import type { APIContext } from 'astro';
-import { isAuthorized, unauthorized } from '../../lib/auth';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
 import { getAccountState } from '../../db/dal';
 import { getDb } from '../../db/client';
 import { repo_root, record, blob_ref, commit_log } from '../../db/schema';
@@ -11,7 +11,7 @@ export const prerender = false;
  * com.atproto.server.checkAccountStatus
  *
  * Returns account status including:
- * - Active state
+ * - Active state and lifecycle status (deactivated/takendown/deleted)
  * - Repository head CID and revision
  * - Record count
  * - Blob count
@@ -20,15 +20,17 @@ export const prerender = false;
 export async function GET({ locals, request }: APIContext) {
   const { env } = locals.runtime;
 
-  if (!(await isAuthorized(request, env))) return unauthorized();
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
 
   try {
-    const did = String(env.PDS_DID ?? 'did:example:single-user');
+    const did = auth.claims.sub;
     const db = getDb(env);
 
     // Get account state
     const accountState = await getAccountState(env, did);
     const active = accountState?.active ?? true;
+    const status = accountState?.status ?? undefined;
 
     // Get repo head
     const repoRoot = await db
@@ -65,6 +67,8 @@ export async function GET({ locals, request }: APIContext) {
       JSON.stringify({
         did,
         active,
+        activated: active,
+        ...(status ? { status } : {}),
         head: repoRoot?.commitCid ?? null,
         rev: repoRoot?.rev ?? 0,
         recordCount,
@@ -0,0 +1,46 @@
+import type { APIContext } from 'astro';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
+import { confirmAccountEmail, consumeEmailToken, getAccountByIdentifier } from '../../db/account';
+import { EMAIL_TOKEN_TTL_MS } from '../../lib/email';
+import { readJson } from '../../lib/util';
+
+export const prerender = false;
+
+function jsonError(status: number, error: string, message: string): Response {
+  return new Response(JSON.stringify({ error, message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * com.atproto.server.confirmEmail
+ * Mark the account email as confirmed using the token from requestEmailConfirmation
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
+  if (!auth.scopes.allowsAccount('email', 'manage')) {
+    return auth.scopes.deny('account:email?action=manage').toResponse();
+  }
+
+  const body = await readJson(request).catch(() => null);
+  const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : '';
+  const token = typeof body?.token === 'string' ? body.token : '';
+  if (!email || !token) return jsonError(400, 'InvalidRequest', 'email and token are required');
+
+  const account = await getAccountByIdentifier(env, auth.claims.sub);
+  if (!account?.email || account.email.toLowerCase() !== email) {
+    return jsonError(400, 'InvalidEmail', 'Email does not match the account email');
+  }
+
+  const tokenStatus = await consumeEmailToken(env, account.did, 'confirm_email', token, EMAIL_TOKEN_TTL_MS);
+  if (tokenStatus === 'invalid') return jsonError(400, 'InvalidToken', 'Token is invalid');
+  if (tokenStatus === 'expired') return jsonError(400, 'ExpiredToken', 'Token is expired');
+
+  await confirmAccountEmail(env, account.did);
+
+  return new Response(null, { status: 200 });
+}
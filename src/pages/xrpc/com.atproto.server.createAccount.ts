@@ -0,0 +1,118 @@
+import type { APIContext } from 'astro';
+import { createAccount, getAccountByEmail, getAccountByIdentifier, storeRefreshToken } from '../../db/account';
+import { createAccountState } from '../../db/dal';
+import { bumpRoot } from '../../db/repo';
+import { getAvailableUserDomains, isMultiAccount, isServiceHandle } from '../../lib/accounts';
+import { claimInviteUse, releaseInviteUse, reserveInviteUse, type InviteReservation } from '../../lib/invites';
+import { XRPCError } from '../../lib/errors';
+import { validateAndNormalizeHandle } from '../../lib/handle';
+import { hashPassword } from '../../lib/password';
+import { createPlcDid } from '../../lib/plc';
+import { notifySequencerAccount, notifySequencerIdentity, notifySequencerSync } from '../../lib/sequencer';
+import { issueSessionTokens } from '../../lib/session-tokens';
+import { storeRepoSigningKey } from '../../lib/signing-key';
+import { readJson } from '../../lib/util';
+
+export const prerender = false;
+
+function jsonError(status: number, error: string, message: string): Response {
+  return new Response(JSON.stringify({ error, message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * com.atproto.server.createAccount
+ * Multi-account mode only: redeems the invite code (required unless
+ * PDS_INVITE_REQUIRED=false), registers a did:plc (rotation key
+ * PDS_PLC_ROTATION_KEY, fresh signing key), creates an empty repo and returns
+ * a session. The invite use is given back if the signup fails.
+ * Bringing an existing DID (account migration) is not supported.
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+
+  if (!isMultiAccount(env)) {
+    return jsonError(400, 'InvalidRequest', 'Account creation is disabled: this PDS hosts a single account');
+  }
+
+  const body = await readJson(request).catch(() => null);
+  if (typeof body?.handle !== 'string' || !body.handle) {
+    return jsonError(400, 'InvalidRequest', 'handle required');
+  }
+  if (typeof body.password !== 'string' || !body.password) {
+    return jsonError(400, 'InvalidRequest', 'password required');
+  }
+  if (body.did) {
+    return jsonError(400, 'InvalidRequest', 'Creating an account for an existing DID is not supported');
+  }
+  const email = typeof body.email === 'string' && body.email.trim() ? body.email.trim() : null;
+  const inviteCode = typeof body.inviteCode === 'string' ? body.inviteCode.trim() : '';
+
+  const handle = validateAndNormalizeHandle(body.handle);
+  if (!handle) return jsonError(400, 'InvalidHandle', 'Handle is not valid');
+  if (!isServiceHandle(env, handle)) {
+    return jsonError(400, 'UnsupportedDomain', `Handle must end in one of: ${getAvailableUserDomains(env).join(', ')}`);
+  }
+  if (await getAccountByIdentifier(env, handle)) {
+    return jsonError(400, 'HandleNotAvailable', 'Handle already taken');
+  }
+  if (email && (await getAccountByEmail(env, email))) {
+    return jsonError(400, 'InvalidRequest', 'Email already in use');
+  }
+
+  // Taken before the DID is registered; given back if the signup fails
+  let reservation: InviteReservation | null;
+  try {
+    reservation = await reserveInviteUse(env, inviteCode);
+  } catch (error) {
+    if (error instanceof XRPCError) return error.toResponse();
+    throw error;
+  }
+
+  const { Secp256k1Keypair } = await import('@atproto/crypto');
+  const signingKey = await Secp256k1Keypair.create({ exportable: true });
+
+  let did: string;
+  try {
+    did = await createPlcDid(env, {
+      signingKey: signingKey.did(),
+      handle,
+      endpoint: `https://${env.PDS_HOSTNAME}`,
+    });
+  } catch (error) {
+    await releaseInviteUse(env, reservation);
+    if (error instanceof XRPCError) return error.toResponse();
+    console.error('createAccount: PLC registration failed', error);
+    return jsonError(500, 'InternalServerError', 'Failed to register the DID');
+  }
+
+  let head: Awaited<ReturnType<typeof bumpRoot>>;
+  try {
+    await storeRepoSigningKey(env, signingKey, did);
+    await createAccount(env, { did, handle, passwordScrypt: await hashPassword(body.password), email });
+    await createAccountState(env, did, true);
+    head = await bumpRoot(env, undefined, undefined, { ops: [], did });
+    await claimInviteUse(env, reservation, did);
+  } catch (error) {
+    await releaseInviteUse(env, reservation);
+    throw error;
+  }
+
+  await notifySequencerIdentity(env, { did, handle });
+  await notifySequencerAccount(env, { did, active: true });
+  await notifySequencerSync(env, { did, commitCid: head.commitCid, rev: head.rev, data: head.commitData, blocks: head.blocks });
+
+  const { accessJwt, refreshJwt, refreshPayload, refreshExpiry } = await issueSessionTokens(env, did);
+  await storeRefreshToken(env, {
+    id: refreshPayload.jti,
+    did,
+    expiresAt: refreshExpiry,
+    appPasswordName: null,
+  });
+
+  return new Response(JSON.stringify({ handle, did, accessJwt, refreshJwt }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
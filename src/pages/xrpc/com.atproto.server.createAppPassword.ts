@@ -0,0 +1,59 @@
+import type { APIContext } from 'astro';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
+import { createAppPassword } from '../../db/account';
+import { generateAppPassword, hashPassword } from '../../lib/password';
+import { readJson } from '../../lib/util';
+
+export const prerender = false;
+
+const MAX_NAME_LENGTH = 64;
+
+/**
+ * com.atproto.server.createAppPassword
+ * Create an app password; the plaintext password is only returned here
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
+  if (!auth.scopes.hasFullAccess()) return auth.scopes.deny('com.atproto.access').toResponse();
+
+  let body: any;
+  try {
+    body = await readJson(request);
+  } catch {
+    return new Response(JSON.stringify({ error: 'InvalidRequest', message: 'Invalid JSON body' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return new Response(
+      JSON.stringify({ error: 'InvalidRequest', message: `name must be 1-${MAX_NAME_LENGTH} characters` }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+  const privileged = body?.privileged === true;
+
+  const password = generateAppPassword();
+  const row = await createAppPassword(env, {
+    did: auth.claims.sub,
+    name,
+    passwordScrypt: await hashPassword(password),
+    privileged,
+  });
+  if (!row) {
+    return new Response(
+      JSON.stringify({ error: 'InvalidRequest', message: 'A user already has an app password with that name' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ name, password, createdAt: new Date(row.createdAt).toISOString(), privileged }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+}
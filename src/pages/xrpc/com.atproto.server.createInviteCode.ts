@@ -0,0 +1,46 @@
+import type { APIContext } from 'astro';
+import { isAdminRequest } from '../../lib/admin';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
+import { isOperator } from '../../lib/accounts';
+import { ADMIN_INVITE_ACCOUNT, mintInviteCodes } from '../../lib/invites';
+import { readJson } from '../../lib/util';
+
+export const prerender = false;
+
+function jsonError(status: number, error: string, message: string): Response {
+  return new Response(JSON.stringify({ error, message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * com.atproto.server.createInviteCode
+ * Mint one invite code for createAccount. Admin only: PDS_ADMIN_PASSWORD, or
+ * the operator account (PDS_DID) with a full-access session.
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+
+  if (!(await isAdminRequest(request, env))) {
+    const auth = await authenticateRequest(request, env);
+    if (!auth) return unauthorized();
+    if (!auth.scopes.hasFullAccess()) return auth.scopes.deny('com.atproto.access').toResponse();
+    if (!(await isOperator(env, auth.claims.sub))) {
+      return jsonError(403, 'Forbidden', 'Only the operator account can create invite codes');
+    }
+  }
+
+  const body = await readJson(request).catch(() => null);
+  const useCount = body?.useCount;
+  if (!Number.isInteger(useCount) || useCount < 1) {
+    return jsonError(400, 'InvalidRequest', 'useCount must be a positive integer');
+  }
+  const forAccount = typeof body?.forAccount === 'string' && body.forAccount ? body.forAccount : ADMIN_INVITE_ACCOUNT;
+
+  const [code] = await mintInviteCodes(env, { count: 1, useCount, forAccount, createdBy: ADMIN_INVITE_ACCOUNT });
+
+  return new Response(JSON.stringify({ code }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,60 @@
+import type { APIContext } from 'astro';
+import { isAdminRequest } from '../../lib/admin';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
+import { isOperator } from '../../lib/accounts';
+import { ADMIN_INVITE_ACCOUNT, mintInviteCodes } from '../../lib/invites';
+import { readJson } from '../../lib/util';
+
+export const prerender = false;
+
+const MAX_CODE_COUNT = 100;
+
+function jsonError(status: number, error: string, message: string): Response {
+  return new Response(JSON.stringify({ error, message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * com.atproto.server.createInviteCodes
+ * Mint `codeCount` codes for each of `forAccounts` (or unassigned codes when
+ * omitted). Admin only, like createInviteCode.
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+
+  if (!(await isAdminRequest(request, env))) {
+    const auth = await authenticateRequest(request, env);
+    if (!auth) return unauthorized();
+    if (!auth.scopes.hasFullAccess()) return auth.scopes.deny('com.atproto.access').toResponse();
+    if (!(await isOperator(env, auth.claims.sub))) {
+      return jsonError(403, 'Forbidden', 'Only the operator account can create invite codes');
+    }
+  }
+
+  const body = await readJson(request).catch(() => null);
+  const useCount = body?.useCount;
+  const codeCount = body?.codeCount ?? 1;
+  if (!Number.isInteger(useCount) || useCount < 1) {
+    return jsonError(400, 'InvalidRequest', 'useCount must be a positive integer');
+  }
+  if (!Number.isInteger(codeCount) || codeCount < 1 || codeCount > MAX_CODE_COUNT) {
+    return jsonError(400, 'InvalidRequest', `codeCount must be 1-${MAX_CODE_COUNT}`);
+  }
+  const forAccounts: string[] = Array.isArray(body?.forAccounts) && body.forAccounts.length > 0
+    ? body.forAccounts.filter((account: unknown): account is string => typeof account === 'string' && !!account)
+    : [ADMIN_INVITE_ACCOUNT];
+
+  const codes = [];
+  for (const account of forAccounts) {
+    codes.push({
+      account,
+      codes: await mintInviteCodes(env, { count: codeCount, useCount, forAccount: account, createdBy: ADMIN_INVITE_ACCOUNT }),
+    });
+  }
+
+  return new Response(JSON.stringify({ codes }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -1,29 +1,31 @@
 import type { APIContext } from 'astro';
+import type { Env } from '../../env';
 import { readJson } from '../../lib/util';
-import { drizzle } from 'drizzle-orm/d1';
-import { login_attempts } from '../../db/schema';
-import { eq } from 'drizzle-orm';
-import { createAccount, getAccountByIdentifier, storeRefreshToken } from '../../db/account';
-import { hashPassword, verifyPassword } from '../../lib/password';
-import { issueSessionTokens } from '../../lib/session-tokens';
+import { AccountTakedown } from '../../lib/errors';
+import { listAppPasswords, storeRefreshToken, type AppPasswordRow } from '../../db/account';
+import { clearFailedLogins, findLoginAccount, getClientIp, getLoginLockout, recordFailedLogin } from '../../lib/login';
+import { verifyPassword } from '../../lib/password';
+import { appPasswordScope, issueSessionTokens } from '../../lib/session-tokens';
 import { getRuntimeString } from '../../lib/secrets';
+import { getAccountState } from '../../db/dal';
+import { getAccountHandle } from '../../lib/actor';
 
 export const prerender = false;
 
-const MAX_LOGIN_ATTEMPTS = 5;
-const LOCKOUT_DURATION_SEC = 15 * 60; // 15 minutes
+async function findAppPassword(env: Env, did: string, password: string): Promise<AppPasswordRow | null> {
+  for (const row of await listAppPasswords(env, did)) {
+    if (await verifyPassword(password, row.passwordScrypt)) return row;
+  }
+  return null;
+}
 
 export async function POST({ locals, request }: APIContext) {
   const { env } = locals.runtime;
-  const clientIp = request.headers.get('cf-connecting-ip') || request.headers.get('x-forwarded-for') || 'unknown';
-
-  const db = drizzle(env.DB);
-  const now = Math.floor(Date.now() / 1000);
+  const clientIp = getClientIp(request);
 
   // Check if IP is locked out
-  const attempt = await db.select().from(login_attempts).where(eq(login_attempts.ip, clientIp)).get();
-  if (attempt && attempt.locked_until && attempt.locked_until > now) {
-    const remainingSeconds = attempt.locked_until - now;
+  const remainingSeconds = await getLoginLockout(env, clientIp);
+  if (remainingSeconds > 0) {
     return new Response(
       JSON.stringify({
         error: 'RateLimitExceeded',
@@ -34,51 +36,23 @@ export async function POST({ locals, request }: APIContext) {
   }
 
   const body = await readJson(request).catch(() => ({ identifier: '', password: '' }));
-  const identifier = typeof body.identifier === 'string' && body.identifier ? body.identifier : (await getRuntimeString(env, 'PDS_HANDLE', 'user.example'));
+  const identifier = typeof body.identifier === 'string' && body.identifier ? body.identifier : await getAccountHandle(env);
   const password = typeof body.password === 'string' ? body.password : '';
 
-  let account = await getAccountByIdentifier(env, identifier ?? '');
-  if (!account) {
-    const fallbackPassword = await getRuntimeString(env, 'USER_PASSWORD', '');
-    if (fallbackPassword) {
-      const fallbackDid = (await getRuntimeString(env, 'PDS_DID', 'did:example:single-user')) ?? 'did:example:single-user';
-      const fallbackHandle = (await getRuntimeString(env, 'PDS_HANDLE', identifier)) ?? identifier;
-      const hashed = await hashPassword(fallbackPassword);
-      await createAccount(env, {
-        did: fallbackDid,
-        handle: fallbackHandle,
-        passwordScrypt: hashed,
-      });
-      account = await getAccountByIdentifier(env, identifier ?? '');
-    }
-  }
+  const account = await findLoginAccount(env, identifier ?? '');
   const passwordHash = account?.passwordScrypt ?? null;
-  const ok = !!password && !!account && (await verifyPassword(password, passwordHash));
+  let ok = !!password && !!account && (await verifyPassword(password, passwordHash));
+
+  // Fall back to the account's app passwords
+  let appPassword: AppPasswordRow | null = null;
+  if (!ok && password && account) {
+    appPassword = await findAppPassword(env, account.did, password);
+    ok = !!appPassword;
+  }
 
   if (!ok) {
     // Track failed attempt
-    const currentAttempts = (attempt?.attempts || 0) + 1;
-    const lockedUntil = currentAttempts >= MAX_LOGIN_ATTEMPTS ? now + LOCKOUT_DURATION_SEC : null;
-
-    if (attempt) {
-      await db.update(login_attempts)
-        .set({
-          attempts: currentAttempts,
-          locked_until: lockedUntil,
-          last_attempt: now
-        })
-        .where(eq(login_attempts.ip, clientIp))
-        .run();
-    } else {
-      await db.insert(login_attempts).values({
-        ip: clientIp,
-        attempts: currentAttempts,
-        locked_until: lockedUntil,
-        last_attempt: now,
-      }).run();
-    }
-
-    if (lockedUntil) {
+    if (await recordFailedLogin(env, clientIp)) {
       return new Response(
         JSON.stringify({
           error: 'RateLimitExceeded',
@@ -98,23 +72,30 @@ export async function POST({ locals, request }: APIContext) {
   }
 
   // Successful login - reset attempts
-  if (attempt) {
-    await db.delete(login_attempts).where(eq(login_attempts.ip, clientIp)).run();
-  }
+  await clearFailedLogins(env, clientIp);
 
   const did = (account?.did ?? (await getRuntimeString(env, 'PDS_DID', 'did:example:single-user')) ?? 'did:example:single-user');
   const handle = (account?.handle ?? (await getRuntimeString(env, 'PDS_HANDLE', identifier ?? 'user.example')) ?? (identifier ?? 'user.example'));
 
-  const { accessJwt, refreshJwt, refreshPayload, refreshExpiry } = await issueSessionTokens(env, did);
+  const state = await getAccountState(env, did);
+  if (state?.status === 'takendown') {
+    return new AccountTakedown().toResponse();
+  }
+
+  const { accessJwt, refreshJwt, refreshPayload, refreshExpiry } = await issueSessionTokens(env, did, {
+    ...(appPassword ? { scope: appPasswordScope(appPassword.privileged) } : {}),
+  });
 
   await storeRefreshToken(env, {
     id: refreshPayload.jti,
     did,
     expiresAt: refreshExpiry,
-    appPasswordName: null,
+    appPasswordName: appPassword?.name ?? null,
   });
 
-  return new Response(JSON.stringify({ did, handle, accessJwt, refreshJwt }), {
+  const inactive = state && !state.active ? { active: false, status: state.status ?? undefined } : {};
+
+  return new Response(JSON.stringify({ did, handle, accessJwt, refreshJwt, ...inactive }), {
     headers: { 'Content-Type': 'application/json' },
   });
 }
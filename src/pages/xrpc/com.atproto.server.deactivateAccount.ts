@@ -0,0 +1,46 @@
+import type { APIContext } from 'astro';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
+import { AccountTakedown } from '../../lib/errors';
+import { getAccountState, setAccountStatus } from '../../db/dal';
+import { notifySequencerAccount } from '../../lib/sequencer';
+import { readJson } from '../../lib/util';
+
+export const prerender = false;
+
+/**
+ * com.atproto.server.deactivateAccount
+ * Deactivate the account; with `deleteAfter` the deactivated-account-deletion
+ * maintenance job deletes it after that time unless it is reactivated
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
+  if (!auth.scopes.allowsAccount('status', 'manage')) {
+    return auth.scopes.deny('account:status?action=manage').toResponse();
+  }
+
+  const body = await readJson(request).catch(() => ({}));
+  let deleteAfter: number | null = null;
+  if (body?.deleteAfter !== undefined) {
+    deleteAfter = typeof body.deleteAfter === 'string' ? Date.parse(body.deleteAfter) : NaN;
+    if (Number.isNaN(deleteAfter)) {
+      return new Response(JSON.stringify({ error: 'InvalidRequest', message: 'deleteAfter must be a datetime' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  }
+
+  const did = auth.claims.sub;
+  const state = await getAccountState(env, did);
+  if (state?.status === 'takendown') {
+    return new AccountTakedown().toResponse();
+  }
+
+  await setAccountStatus(env, did, 'deactivated', { deleteAfter });
+  await notifySequencerAccount(env, { did, active: false, status: 'deactivated' });
+
+  return new Response(null, { status: 200 });
+}
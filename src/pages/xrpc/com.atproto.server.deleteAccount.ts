@@ -0,0 +1,45 @@
+import type { APIContext } from 'astro';
+import { consumeEmailToken, getAccountByIdentifier } from '../../db/account';
+import { deleteAccountAndRepo } from '../../lib/account-deletion';
+import { EMAIL_TOKEN_TTL_MS } from '../../lib/email';
+import { verifyPassword } from '../../lib/password';
+import { readJson } from '../../lib/util';
+
+export const prerender = false;
+
+function jsonError(status: number, error: string, message: string): Response {
+  return new Response(JSON.stringify({ error, message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * com.atproto.server.deleteAccount
+ * Permanently delete the account and its repo. Needs the account password and
+ * the token from requestAccountDelete rather than a session.
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+
+  const body = await readJson(request).catch(() => null);
+  const did = typeof body?.did === 'string' ? body.did : '';
+  const password = typeof body?.password === 'string' ? body.password : '';
+  const token = typeof body?.token === 'string' ? body.token : '';
+  if (!did || !password || !token) {
+    return jsonError(400, 'InvalidRequest', 'did, password and token are required');
+  }
+
+  const account = await getAccountByIdentifier(env, did);
+  if (!account || account.did !== did || !(await verifyPassword(password, account.passwordScrypt))) {
+    return jsonError(401, 'AuthRequired', 'Invalid did or password');
+  }
+
+  const tokenStatus = await consumeEmailToken(env, did, 'delete_account', token, EMAIL_TOKEN_TTL_MS);
+  if (tokenStatus === 'invalid') return jsonError(400, 'InvalidToken', 'Token is invalid');
+  if (tokenStatus === 'expired') return jsonError(400, 'ExpiredToken', 'Token is expired');
+
+  await deleteAccountAndRepo(env, did);
+
+  return new Response(null, { status: 200 });
+}
@@ -1,12 +1,16 @@
 import type { APIContext } from 'astro';
 import { getAppViewConfig } from '../../lib/appview';
+import { getAvailableUserDomains, isMultiAccount } from '../../lib/accounts';
+import { isInviteCodeRequired } from '../../lib/invites';
 
 export const prerender = false;
 
 export function GET({ locals }: APIContext) {
   const { env } = locals.runtime;
   const did = env.PDS_DID as string;
-  const availableUserDomains: string[] = [];
+  const multiAccount = isMultiAccount(env);
+  // Single-user mode has no signup, so there are no domains to register under
+  const availableUserDomains = multiAccount ? getAvailableUserDomains(env) : [];
 
   const links = typeof env.PDS_LINK_PRIVACY === 'string' || typeof env.PDS_LINK_TOS === 'string'
     ? {
@@ -28,7 +32,7 @@ export function GET({ locals }: APIContext) {
   const body = {
     did,
     availableUserDomains,
-    inviteCodeRequired: false,
+    inviteCodeRequired: isInviteCodeRequired(env),
     phoneVerificationRequired: false,
     ...(links ? { links } : {}),
     ...(contact ? { contact } : {}),
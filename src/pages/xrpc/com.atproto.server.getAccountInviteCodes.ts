@@ -0,0 +1,29 @@
+import type { APIContext } from 'astro';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
+import { getAccountInviteCodeViews, mintAvailableInviteCodes } from '../../lib/invites';
+
+export const prerender = false;
+
+/**
+ * com.atproto.server.getAccountInviteCodes
+ * The caller's invite codes with their uses. createAvailable (default true)
+ * first mints whatever is left of the PDS_INVITE_CODES_PER_ACCOUNT allowance.
+ */
+export async function GET({ locals, request, url }: APIContext) {
+  const { env } = locals.runtime;
+
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
+  if (!auth.scopes.hasFullAccess()) return auth.scopes.deny('com.atproto.access').toResponse();
+
+  const did = auth.claims.sub;
+  const includeUsed = url.searchParams.get('includeUsed') !== 'false';
+  const createAvailable = url.searchParams.get('createAvailable') !== 'false';
+
+  if (createAvailable) await mintAvailableInviteCodes(env, did);
+  const codes = await getAccountInviteCodeViews(env, did, { includeUsed });
+
+  return new Response(JSON.stringify({ codes }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
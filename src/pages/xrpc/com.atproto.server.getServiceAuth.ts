@@ -1,12 +1,12 @@
 import type { APIContext } from 'astro';
-import { verifyResourceRequestHybrid, dpopResourceUnauthorized, handleResourceAuthError } from '../../lib/oauth/resource';
-import { createServiceAuthToken } from '../../lib/appview';
+import { verifyResourceRequestHybrid, dpopResourceUnauthorized, handleResourceAuthError, type ResourceAuth } from '../../lib/oauth/resource';
+import { createServiceAuthToken, PROTECTED_METHODS } from '../../lib/appview';
 
 export const prerender = false;
 
 export async function GET({ locals, request }: APIContext) {
   const { env } = locals.runtime;
-  let auth: { did: string; token: string } | null = null;
+  let auth: ResourceAuth | null = null;
   try {
     auth = await verifyResourceRequestHybrid(env, request);
     if (!auth) return dpopResourceUnauthorized(env);
@@ -31,6 +31,16 @@ export async function GET({ locals, request }: APIContext) {
 
   const lexiconMethod = lexParam && lexParam.trim() !== '' ? lexParam.trim() : null;
 
+  if (lexiconMethod && PROTECTED_METHODS.has(lexiconMethod) && !auth.scopes.hasFullAccess()) {
+    return new Response(JSON.stringify({ error: 'InvalidRequest', message: `cannot request a service token for protected method ${lexiconMethod}` }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+  if (!auth.scopes.allowsRpc(lexiconMethod ?? '*', audience)) {
+    return auth.scopes.deny(`rpc:${lexiconMethod ?? '*'}?aud=${audience}`).toResponse();
+  }
+
   let expiresIn = 60;
   const now = Math.floor(Date.now() / 1000);
   if (expParam !== null) {
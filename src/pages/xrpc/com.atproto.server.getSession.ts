@@ -1,6 +1,8 @@
 import type { APIContext } from 'astro';
 import { authenticateRequest, unauthorized } from '../../lib/auth';
 import { getAccountByIdentifier } from '../../db/account';
+import { getAccountState } from '../../db/dal';
+import { getAccountHandle } from '../../lib/actor';
 
 export const prerender = false;
 
@@ -19,15 +21,17 @@ export async function GET({ locals, request }: APIContext) {
 
   const did = authContext.claims.sub;
   const account = await getAccountByIdentifier(env, did);
-  const handle = account?.handle ?? (env.PDS_HANDLE as string) ?? 'user.example.com';
+  const handle = account?.handle ?? (await getAccountHandle(env, did));
+  const state = await getAccountState(env, did);
 
   return new Response(
     JSON.stringify({
       did,
       handle,
-      email: account?.email ?? 'user@example.com',
-      emailConfirmed: true,
-      emailAuthFactor: false,
+      ...(authContext.scopes.allowsAccount('email', 'read')
+        ? { email: account?.email ?? 'user@example.com', emailConfirmed: !!account?.emailConfirmedAt, emailAuthFactor: false }
+        : {}),
+      ...(state && !state.active ? { active: false, status: state.status ?? undefined } : {}),
       didDoc: {
         '@context': ['https://www.w3.org/ns/did/v1'],
         id: did,
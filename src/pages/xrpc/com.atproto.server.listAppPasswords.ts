@@ -0,0 +1,29 @@
+import type { APIContext } from 'astro';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
+import { listAppPasswords } from '../../db/account';
+
+export const prerender = false;
+
+/**
+ * com.atproto.server.listAppPasswords
+ * List the account's app passwords (names only)
+ */
+export async function GET({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
+  if (!auth.scopes.hasPrivilegedAccess()) return auth.scopes.deny('com.atproto.appPassPrivileged').toResponse();
+
+  const rows = await listAppPasswords(env, auth.claims.sub);
+  const passwords = rows.map((row) => ({
+    name: row.name,
+    createdAt: new Date(row.createdAt).toISOString(),
+    privileged: row.privileged,
+  }));
+
+  return new Response(JSON.stringify({ passwords }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
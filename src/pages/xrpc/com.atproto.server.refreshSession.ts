@@ -2,8 +2,8 @@ import type { APIContext } from 'astro';
 import { bearerToken } from '../../lib/util';
 import { lazyCleanupExpiredTokens } from '../../lib/token-cleanup';
 import { getRuntimeString } from '../../lib/secrets';
-import { getAccountByIdentifier, getRefreshToken, markRefreshTokenRotated, storeRefreshToken } from '../../db/account';
-import { verifyRefreshToken, issueSessionTokens, computeGraceExpiry } from '../../lib/session-tokens';
+import { getAccountByIdentifier, getAppPassword, getRefreshToken, markRefreshTokenRotated, storeRefreshToken } from '../../db/account';
+import { verifyRefreshToken, issueSessionTokens, computeGraceExpiry, appPasswordScope } from '../../lib/session-tokens';
 
 export const prerender = false;
 
@@ -67,6 +67,14 @@ export async function POST({ locals, request }: APIContext) {
 
   console.error('[refreshSession] Token found in DB');
 
+  // OAuth refresh tokens are bound to their client and DPoP key: only /oauth/token rotates them
+  if (stored.clientId) {
+    return new Response(
+      JSON.stringify({ error: 'InvalidToken', message: 'OAuth refresh tokens must be used at the token endpoint' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
   if (stored.expiresAt <= nowSec) {
     return new Response(
       JSON.stringify({ error: 'ExpiredToken', message: 'Refresh token expired' }),
@@ -81,18 +89,33 @@ export async function POST({ locals, request }: APIContext) {
     );
   }
 
+  // OAuth sessions keep their granted scope; app-password sessions keep the
+  // password's scope, and die with it
+  let scope = stored.scope ?? undefined;
+  if (stored.appPasswordName) {
+    const appPassword = await getAppPassword(env, stored.did, stored.appPasswordName);
+    if (!appPassword) {
+      return new Response(
+        JSON.stringify({ error: 'InvalidToken', message: 'Refresh token has been revoked' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    scope = appPasswordScope(appPassword.privileged);
+  }
+
   const account = await getAccountByIdentifier(env, stored.did);
   const did = stored.did;
   const handle = account?.handle ?? (await getRuntimeString(env, 'PDS_HANDLE', 'user.example'));
 
   // Rotate: generate new token pair with new JTI
-  const { accessJwt, refreshJwt, refreshPayload, refreshExpiry } = await issueSessionTokens(env, did, { jti: stored.nextId ?? undefined });
+  const { accessJwt, refreshJwt, refreshPayload, refreshExpiry } = await issueSessionTokens(env, did, { jti: stored.nextId ?? undefined, scope });
 
   await storeRefreshToken(env, {
     id: refreshPayload.jti,
     did,
     expiresAt: refreshExpiry,
     appPasswordName: stored.appPasswordName ?? null,
+    scope: stored.scope,
   });
 
   const graceExpiry = computeGraceExpiry(stored.expiresAt, nowSec);
@@ -0,0 +1,35 @@
+import type { APIContext } from 'astro';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
+import { createEmailToken, getAccountByIdentifier } from '../../db/account';
+import { sendEmailToken } from '../../lib/email';
+import { XRPCError } from '../../lib/errors';
+import { generateEmailToken } from '../../lib/password';
+
+export const prerender = false;
+
+/**
+ * com.atproto.server.requestAccountDelete
+ * Email the one-time token that deleteAccount requires
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
+  if (!auth.scopes.allowsAccount('status', 'manage')) {
+    return auth.scopes.deny('account:status?action=manage').toResponse();
+  }
+
+  const did = auth.claims.sub;
+  const token = generateEmailToken();
+  await createEmailToken(env, did, 'delete_account', token);
+  const account = await getAccountByIdentifier(env, did);
+  try {
+    await sendEmailToken(env, account ?? { handle: String(env.PDS_HANDLE ?? did), email: null }, 'delete_account', token);
+  } catch (error) {
+    if (error instanceof XRPCError) return error.toResponse();
+    throw error;
+  }
+
+  return new Response(null, { status: 200 });
+}
@@ -0,0 +1,41 @@
+import type { APIContext } from 'astro';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
+import { createEmailToken, getAccountByIdentifier } from '../../db/account';
+import { sendEmailToken } from '../../lib/email';
+import { XRPCError } from '../../lib/errors';
+import { generateEmailToken } from '../../lib/password';
+
+export const prerender = false;
+
+/**
+ * com.atproto.server.requestEmailConfirmation
+ * Email the token that confirmEmail requires to the account's address
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
+  if (!auth.scopes.allowsAccount('email', 'manage')) {
+    return auth.scopes.deny('account:email?action=manage').toResponse();
+  }
+
+  const account = await getAccountByIdentifier(env, auth.claims.sub);
+  if (!account?.email) {
+    return new Response(JSON.stringify({ error: 'InvalidRequest', message: 'Account has no email address' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const token = generateEmailToken();
+  await createEmailToken(env, account.did, 'confirm_email', token);
+  try {
+    await sendEmailToken(env, account, 'confirm_email', token);
+  } catch (error) {
+    if (error instanceof XRPCError) return error.toResponse();
+    throw error;
+  }
+
+  return new Response(null, { status: 200 });
+}
@@ -0,0 +1,48 @@
+import type { APIContext } from 'astro';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
+import { createEmailToken, getAccountByIdentifier } from '../../db/account';
+import { sendEmailToken } from '../../lib/email';
+import { XRPCError } from '../../lib/errors';
+import { generateEmailToken } from '../../lib/password';
+
+export const prerender = false;
+
+/**
+ * com.atproto.server.requestEmailUpdate
+ * Start an email change. Once the current address is confirmed, updateEmail
+ * needs a token sent to it; unconfirmed addresses can be changed directly.
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
+  if (!auth.scopes.allowsAccount('email', 'manage')) {
+    return auth.scopes.deny('account:email?action=manage').toResponse();
+  }
+
+  const account = await getAccountByIdentifier(env, auth.claims.sub);
+  if (!account) {
+    return new Response(JSON.stringify({ error: 'AccountNotFound', message: 'Account not found' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const tokenRequired = !!account.email && !!account.emailConfirmedAt;
+  if (tokenRequired) {
+    const token = generateEmailToken();
+    await createEmailToken(env, account.did, 'update_email', token);
+    try {
+      await sendEmailToken(env, account, 'update_email', token);
+    } catch (error) {
+      if (error instanceof XRPCError) return error.toResponse();
+      throw error;
+    }
+  }
+
+  return new Response(JSON.stringify({ tokenRequired }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,47 @@
+import type { APIContext } from 'astro';
+import { createEmailToken, getAccountByEmail } from '../../db/account';
+import { getEmailTransport, sendEmailToken } from '../../lib/email';
+import { XRPCError } from '../../lib/errors';
+import { generateEmailToken } from '../../lib/password';
+import { checkRate } from '../../lib/ratelimit';
+import { readJson } from '../../lib/util';
+
+export const prerender = false;
+
+/**
+ * com.atproto.server.requestPasswordReset
+ * Email a password reset token. Answers the same whether or not the address
+ * has an account, so callers cannot probe for them, and is rate limited per IP
+ * so it cannot be used to flood a mailbox.
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+
+  const rateLimitResponse = await checkRate(env, request, 'email');
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const body = await readJson(request).catch(() => null);
+  const email = typeof body?.email === 'string' ? body.email.trim() : '';
+  if (!email) {
+    return new Response(JSON.stringify({ error: 'InvalidRequest', message: 'email is required' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    // Checked first so an unconfigured PDS fails the same way for every address
+    await getEmailTransport(env);
+    const account = await getAccountByEmail(env, email);
+    if (account) {
+      const token = generateEmailToken();
+      await createEmailToken(env, account.did, 'reset_password', token);
+      await sendEmailToken(env, account, 'reset_password', token);
+    }
+  } catch (error) {
+    if (error instanceof XRPCError) return error.toResponse();
+    throw error;
+  }
+
+  return new Response(null, { status: 200 });
+}
@@ -0,0 +1,39 @@
+import type { APIContext } from 'astro';
+import { consumeEmailToken, deleteRefreshTokensForDid, getEmailTokenOwner, updateAccountPassword } from '../../db/account';
+import { EMAIL_TOKEN_TTL_MS } from '../../lib/email';
+import { hashPassword } from '../../lib/password';
+import { readJson } from '../../lib/util';
+
+export const prerender = false;
+
+function jsonError(status: number, error: string, message: string): Response {
+  return new Response(JSON.stringify({ error, message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * com.atproto.server.resetPassword
+ * Set a new password using the token from requestPasswordReset. Existing
+ * sessions are signed out.
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+
+  const body = await readJson(request).catch(() => null);
+  const token = typeof body?.token === 'string' ? body.token : '';
+  const password = typeof body?.password === 'string' ? body.password : '';
+  if (!token || !password) return jsonError(400, 'InvalidRequest', 'token and password are required');
+
+  const did = await getEmailTokenOwner(env, 'reset_password', token);
+  if (!did) return jsonError(400, 'InvalidToken', 'Token is invalid');
+  const tokenStatus = await consumeEmailToken(env, did, 'reset_password', token, EMAIL_TOKEN_TTL_MS);
+  if (tokenStatus === 'invalid') return jsonError(400, 'InvalidToken', 'Token is invalid');
+  if (tokenStatus === 'expired') return jsonError(400, 'ExpiredToken', 'Token is expired');
+
+  await updateAccountPassword(env, did, await hashPassword(password));
+  await deleteRefreshTokensForDid(env, did);
+
+  return new Response(null, { status: 200 });
+}
@@ -0,0 +1,34 @@
+import type { APIContext } from 'astro';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
+import { revokeAppPassword } from '../../db/account';
+import { readJson } from '../../lib/util';
+
+export const prerender = false;
+
+/**
+ * com.atproto.server.revokeAppPassword
+ * Revoke an app password and every session created from it
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
+  if (!auth.scopes.hasFullAccess()) return auth.scopes.deny('com.atproto.access').toResponse();
+
+  const body = await readJson(request).catch(() => null);
+  const name = typeof body?.name === 'string' ? body.name : '';
+  if (!name) {
+    return new Response(JSON.stringify({ error: 'InvalidRequest', message: 'name is required' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  await revokeAppPassword(env, auth.claims.sub, name);
+
+  return new Response(JSON.stringify({}), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,55 @@
+import type { APIContext } from 'astro';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
+import { consumeEmailToken, getAccountByEmail, getAccountByIdentifier, updateAccountEmail } from '../../db/account';
+import { EMAIL_TOKEN_TTL_MS } from '../../lib/email';
+import { readJson } from '../../lib/util';
+
+export const prerender = false;
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function jsonError(status: number, error: string, message: string): Response {
+  return new Response(JSON.stringify({ error, message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * com.atproto.server.updateEmail
+ * Change the account email. Needs the token from requestEmailUpdate when the
+ * current address is confirmed; the new address starts out unconfirmed.
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
+  if (!auth.scopes.allowsAccount('email', 'manage')) {
+    return auth.scopes.deny('account:email?action=manage').toResponse();
+  }
+
+  const body = await readJson(request).catch(() => null);
+  const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : '';
+  const token = typeof body?.token === 'string' ? body.token : '';
+  if (!EMAIL_RE.test(email)) return jsonError(400, 'InvalidRequest', 'A valid email is required');
+
+  const account = await getAccountByIdentifier(env, auth.claims.sub);
+  if (!account) return jsonError(400, 'AccountNotFound', 'Account not found');
+
+  if (account.email && account.emailConfirmedAt) {
+    if (!token) return jsonError(400, 'TokenRequired', 'Confirmation token required');
+    const tokenStatus = await consumeEmailToken(env, account.did, 'update_email', token, EMAIL_TOKEN_TTL_MS);
+    if (tokenStatus === 'invalid') return jsonError(400, 'InvalidToken', 'Token is invalid');
+    if (tokenStatus === 'expired') return jsonError(400, 'ExpiredToken', 'Token is expired');
+  }
+
+  const existing = await getAccountByEmail(env, email);
+  if (existing && existing.did !== account.did) {
+    return jsonError(400, 'InvalidRequest', 'This email address is already in use');
+  }
+
+  await updateAccountEmail(env, account.did, email);
+
+  return new Response(null, { status: 200 });
+}
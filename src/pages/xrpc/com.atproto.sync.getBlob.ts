@@ -1,11 +1,14 @@
 import type { APIContext } from 'astro';
 import { getDb } from '../../db/client';
 import { blob_ref } from '../../db/schema';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import { CID } from 'multiformats/cid';
 import { sha256 } from 'multiformats/hashes/sha2';
 import { putBlobRef } from '../../db/dal';
 import { isAccountActive } from '../../db/dal';
+import { XRPCError } from '../../lib/errors';
+import { isOperator, resolveHostedRepo } from '../../lib/accounts';
+import { isBlobTakendown, isRepoTakendown } from '../../lib/moderation';
 
 export const prerender = false;
 
@@ -16,16 +19,17 @@ export const prerender = false;
  * from the old PDS to the new PDS.
  *
  * Query params:
- * - did: The DID of the account (optional, defaults to configured PDS_DID)
+ * - did: The DID of the account (optional, defaults to the operator account)
  * - cid: The CID of the blob to retrieve (required)
  */
 export async function GET({ locals, url }: APIContext) {
   const { env } = locals.runtime;
 
   try {
-    const did = url.searchParams.get('did') ?? (env.PDS_DID as string);
+    const did = await resolveHostedRepo(env, url.searchParams.get('did'));
+    if (!did) return new XRPCError('RepoNotFound', `Could not find repo for DID: ${url.searchParams.get('did')}`, 400).toResponse();
     const cid = url.searchParams.get('cid');
-    if (!did || !cid) {
+    if (!cid) {
       return new Response(
         JSON.stringify({
           error: 'InvalidRequest',
@@ -35,6 +39,13 @@ export async function GET({ locals, url }: APIContext) {
       );
     }
 
+    if (await isRepoTakendown(env, did)) {
+      return new XRPCError('RepoTakendown', `Repo has been taken down: ${did}`, 400).toResponse();
+    }
+    if (await isBlobTakendown(env, cid)) {
+      return new XRPCError('BlobNotFound', 'Blob not found', 400).toResponse();
+    }
+
     // Gate by account active state
     const active = await isAccountActive(env as any, did);
     if (!active) {
@@ -46,19 +57,24 @@ export async function GET({ locals, url }: APIContext) {
 
     const db = getDb(env);
 
-    // Look up blob metadata by CID
+    // Look up this account's blob metadata by CID
     let blobMeta = await db
       .select()
       .from(blob_ref)
-      .where(eq(blob_ref.cid, cid))
+      .where(and(eq(blob_ref.did, did), eq(blob_ref.cid, cid)))
       .get();
 
     let key: string | null = blobMeta?.key ?? null;
     let mime: string = blobMeta?.mime ?? 'application/octet-stream';
     let size: number | null = blobMeta?.size ?? null;
 
-    // Fallback for older uploads: derive R2 key from CID (raw/sha256) if DB row missing
-    if (!key) {
+    // Fallback for older uploads: derive R2 key from CID (raw/sha256) if DB row missing.
+    // Those predate multi-account mode, so only the operator account has them, and
+    // only while no account has a row for the CID
+    const legacy = !key
+      && (await isOperator(env, did))
+      && !(await db.select({ did: blob_ref.did }).from(blob_ref).where(eq(blob_ref.cid, cid)).get());
+    if (legacy) {
       try {
         const link = CID.parse(cid);
         // blob CIDs are raw (0x55) with sha256 multihash
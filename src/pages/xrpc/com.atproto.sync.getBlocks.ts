@@ -1,11 +1,19 @@
 import type { APIContext } from 'astro';
-import { NotFound } from '../../lib/errors';
+import { NotFound, XRPCError } from '../../lib/errors';
+import { resolveHostedRepo } from '../../lib/accounts';
+import { getWithheldBlockCids, isRepoTakendown } from '../../lib/moderation';
 import { D1Blockstore } from '../../lib/mst';
 import { CID } from 'multiformats/cid';
 import { encodeExistingBlocksToCAR } from '../../services/car';
 
 export const prerender = false;
 
+/**
+ * com.atproto.sync.getBlocks
+ * Blocks by CID as a CAR. A taken-down repo answers RepoTakendown; record
+ * blocks of taken-down records, or of any taken-down repo, are reported as
+ * missing whichever repo is named, since the blockstore is shared.
+ */
 export async function GET({ locals, request }: APIContext) {
   const { env } = locals.runtime;
   const url = new URL(request.url);
@@ -18,6 +26,13 @@ export async function GET({ locals, request }: APIContext) {
     );
   }
 
+  const did = await resolveHostedRepo(env, url.searchParams.get('did'));
+  if (!did) return new XRPCError('RepoNotFound', `Could not find repo for DID: ${url.searchParams.get('did')}`, 400).toResponse();
+  if (await isRepoTakendown(env, did)) {
+    return new XRPCError('RepoTakendown', `Repo has been taken down: ${did}`, 400).toResponse();
+  }
+  const withheld = await getWithheldBlockCids(env, cids);
+
   const blockstore = new D1Blockstore(env);
   const roots: CID[] = [];
   const blocks: { cid: CID; bytes: Uint8Array }[] = [];
@@ -26,7 +41,7 @@ export async function GET({ locals, request }: APIContext) {
   for (const c of cids) {
     try {
       const cid = CID.parse(c);
-      const bytes = await blockstore.get(cid);
+      const bytes = withheld.has(cid.toString()) ? null : await blockstore.get(cid);
       if (bytes) {
         roots.push(cid);
         blocks.push({ cid, bytes });
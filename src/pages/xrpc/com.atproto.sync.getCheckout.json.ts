@@ -2,17 +2,25 @@ import type { APIContext } from 'astro';
 import { getRoot as getRepoRoot } from '../../db/repo';
 import { listRecords as dalListRecords } from '../../db/dal';
 import { tryParse } from '../../lib/util';
+import { XRPCError } from '../../lib/errors';
+import { resolveHostedRepo } from '../../lib/accounts';
+import { getRepoTakedowns, isRepoTakendown } from '../../lib/moderation';
 
 export const prerender = false;
 
 export async function GET({ locals, request }: APIContext) {
   const { env } = locals.runtime;
   const url = new URL(request.url);
-  const did = url.searchParams.get('did') ?? (env.PDS_DID as string);
-  const head = await getRepoRoot(env);
+  const did = await resolveHostedRepo(env, url.searchParams.get('did'));
+  if (!did) return new XRPCError('RepoNotFound', `Could not find repo for DID: ${url.searchParams.get('did')}`, 400).toResponse();
+  if (await isRepoTakendown(env, did)) {
+    return new XRPCError('RepoTakendown', `Repo has been taken down: ${did}`, 400).toResponse();
+  }
+  const head = await getRepoRoot(env, did);
   const rows = await dalListRecords(env);
+  const { recordUris: takendown } = await getRepoTakedowns(env, did);
   const records = rows
-    .filter((r) => r.uri.startsWith(`at://${did}/`))
+    .filter((r) => r.uri.startsWith(`at://${did}/`) && !takendown.has(r.uri))
     .map((r) => ({ uri: r.uri, cid: r.cid, value: tryParse(r.json) }));
   return new Response(JSON.stringify({ did, head: head?.commitCid ?? null, rev: head?.rev ?? 0, records }), {
     headers: { 'Content-Type': 'application/json' },
@@ -1,11 +1,15 @@
 import type { APIContext } from 'astro';
 import { getRoot as getRepoRoot } from '../../db/repo';
+import { XRPCError } from '../../lib/errors';
+import { resolveHostedRepo } from '../../lib/accounts';
 
 export const prerender = false;
 
-export async function GET({ locals }: APIContext) {
+export async function GET({ locals, url }: APIContext) {
   const { env } = locals.runtime;
-  const root = await getRepoRoot(env);
+  const did = await resolveHostedRepo(env, url.searchParams.get('did'));
+  if (!did) return new XRPCError('RepoNotFound', `Could not find repo for DID: ${url.searchParams.get('did')}`, 400).toResponse();
+  const root = await getRepoRoot(env, did);
   if (!root) {
     return new Response(
       JSON.stringify({ error: 'HeadNotFound', message: 'Head not found' }),
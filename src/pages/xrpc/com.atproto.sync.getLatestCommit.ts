@@ -1,5 +1,7 @@
 import type { APIContext } from 'astro';
 import { getRoot } from '../../db/repo';
+import { XRPCError } from '../../lib/errors';
+import { resolveHostedRepo } from '../../lib/accounts';
 
 export const prerender = false;
 
@@ -10,10 +12,11 @@ export const prerender = false;
 export async function GET({ locals, url }: APIContext) {
   const { env } = locals.runtime;
 
-  const did = url.searchParams.get('did') || (env.PDS_DID as string);
+  const did = await resolveHostedRepo(env, url.searchParams.get('did'));
+  if (!did) return new XRPCError('RepoNotFound', `Could not find repo for DID: ${url.searchParams.get('did')}`, 400).toResponse();
 
   try {
-    const root = await getRoot(env);
+    const root = await getRoot(env, did);
 
     if (!root) {
       return new Response(
@@ -1,6 +1,8 @@
 import type { APIContext } from 'astro';
-import { RepoManager } from '../../services/repo-manager';
 import { buildRecordProofCar } from '../../services/car';
+import { XRPCError } from '../../lib/errors';
+import { resolveHostedRepo } from '../../lib/accounts';
+import { isRecordTakendown, isRepoTakendown } from '../../lib/moderation';
 
 export const prerender = false;
 
@@ -11,7 +13,8 @@ export const prerender = false;
 export async function GET({ locals, url }: APIContext) {
   const { env } = locals.runtime;
 
-  const did = url.searchParams.get('did') || (env.PDS_DID as string);
+  const did = await resolveHostedRepo(env, url.searchParams.get('did'));
+  if (!did) return new XRPCError('RepoNotFound', `Could not find repo for DID: ${url.searchParams.get('did')}`, 400).toResponse();
   const collection = url.searchParams.get('collection');
   const rkey = url.searchParams.get('rkey');
 
@@ -22,6 +25,13 @@ export async function GET({ locals, url }: APIContext) {
     );
   }
 
+  if (await isRepoTakendown(env, did)) {
+    return new XRPCError('RepoTakendown', `Repo has been taken down: ${did}`, 400).toResponse();
+  }
+  if (await isRecordTakendown(env, `at://${did}/${collection}/${rkey}`)) {
+    return new XRPCError('RecordNotFound', `Could not locate record: at://${did}/${collection}/${rkey}`, 400).toResponse();
+  }
+
   try {
     const { bytes } = await buildRecordProofCar(env as any, did, collection, rkey);
     return new Response(bytes as any, {
@@ -1,5 +1,8 @@
 import type { APIContext } from 'astro';
 import { buildRepoCar } from '../../services/car';
+import { XRPCError } from '../../lib/errors';
+import { resolveHostedRepo } from '../../lib/accounts';
+import { isRepoTakendown } from '../../lib/moderation';
 
 export const prerender = false;
 
@@ -10,7 +13,11 @@ export const prerender = false;
 export async function GET({ locals, request }: APIContext) {
   const { env } = locals.runtime;
   const url = new URL(request.url);
-  const did = url.searchParams.get('did') ?? (env.PDS_DID as string);
+  const did = await resolveHostedRepo(env, url.searchParams.get('did'));
+  if (!did) return new XRPCError('RepoNotFound', `Could not find repo for DID: ${url.searchParams.get('did')}`, 400).toResponse();
+  if (await isRepoTakendown(env, did)) {
+    return new XRPCError('RepoTakendown', `Repo has been taken down: ${did}`, 400).toResponse();
+  }
   // Phase 1: accept but ignore since param (diff to be implemented later)
   const _since = url.searchParams.get('since');
 
@@ -1,6 +1,8 @@
 import type { APIContext } from 'astro';
 import { getRoot as getRepoRoot } from '../../db/repo';
 import { isAccountActive, getAccountState } from '../../db/dal';
+import { XRPCError } from '../../lib/errors';
+import { resolveHostedRepo } from '../../lib/accounts';
 
 export const prerender = false;
 
@@ -11,21 +13,21 @@ export const prerender = false;
 export async function GET({ locals, request }: APIContext) {
   const { env } = locals.runtime;
   const url = new URL(request.url);
-  const did = url.searchParams.get('did') ?? (env.PDS_DID as string);
+  const did = await resolveHostedRepo(env, url.searchParams.get('did'));
+  if (!did) return new XRPCError('RepoNotFound', `Could not find repo for DID: ${url.searchParams.get('did')}`, 400).toResponse();
 
   try {
     const active = await isAccountActive(env as any, did);
     let status: string | undefined = undefined;
     try {
       const state = await getAccountState(env as any, did);
-      // If your schema eventually stores a specific status, map it here.
-      // For now, we only expose active=true/false and leave status undefined unless inactive.
-      if (state && state.active === false) status = 'desynchronized';
+      // Inactive without a lifecycle status means a migration still in progress
+      if (state && state.active === false) status = state.status ?? 'desynchronized';
     } catch {}
 
     let rev: string | undefined;
     if (active) {
-      const head = await getRepoRoot(env as any);
+      const head = await getRepoRoot(env as any, did);
       if (head?.rev) rev = String(head.rev);
     }
 
@@ -1,7 +1,10 @@
 import type { APIContext } from 'astro';
 import { drizzle } from 'drizzle-orm/d1';
 import { blob_ref } from '../../db/schema';
-import { eq, gt, and } from 'drizzle-orm';
+import { eq, gt, and, asc } from 'drizzle-orm';
+import { XRPCError } from '../../lib/errors';
+import { resolveHostedRepo } from '../../lib/accounts';
+import { getRepoTakedowns, isRepoTakendown } from '../../lib/moderation';
 
 export const prerender = false;
 
@@ -12,10 +15,15 @@ export const prerender = false;
 export async function GET({ locals, url }: APIContext) {
   const { env } = locals.runtime;
 
-  const did = url.searchParams.get('did') || (env.PDS_DID as string);
+  const did = await resolveHostedRepo(env, url.searchParams.get('did'));
+  if (!did) return new XRPCError('RepoNotFound', `Could not find repo for DID: ${url.searchParams.get('did')}`, 400).toResponse();
   const since = url.searchParams.get('since') || '';
   const limit = parseInt(url.searchParams.get('limit') || '500', 10);
 
+  if (await isRepoTakendown(env, did)) {
+    return new XRPCError('RepoTakendown', `Repo has been taken down: ${did}`, 400).toResponse();
+  }
+
   try {
     const db = drizzle(env.DB);
 
@@ -24,18 +32,23 @@ export async function GET({ locals, url }: APIContext) {
           .select()
           .from(blob_ref)
           .where(and(eq(blob_ref.did, did), gt(blob_ref.cid, since)))
+          .orderBy(asc(blob_ref.cid))
           .limit(limit)
           .all()
       : await db
           .select()
           .from(blob_ref)
           .where(eq(blob_ref.did, did))
+          .orderBy(asc(blob_ref.cid))
           .limit(limit)
           .all();
 
+    // Taken-down blobs are left out; the cursor still advances past them
+    const { blobCids: takendown } = await getRepoTakedowns(env, did);
+
     return new Response(
       JSON.stringify({
-        cids: blobs.map(b => b.cid),
+        cids: blobs.map(b => b.cid).filter((cid) => !takendown.has(cid)),
         cursor: blobs.length > 0 ? blobs[blobs.length - 1].cid : undefined,
       }),
       {
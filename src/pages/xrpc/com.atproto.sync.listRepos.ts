@@ -1,29 +1,49 @@
 import type { APIContext } from 'astro';
-import { getRoot as getRepoRoot } from '../../db/repo';
+import { drizzle } from 'drizzle-orm/d1';
+import { asc, eq, gt } from 'drizzle-orm';
+import { account_state, repo_root } from '../../db/schema';
 
 export const prerender = false;
 
 /**
  * com.atproto.sync.listRepos
- * List repositories (single-user PDS returns one repo)
+ * List every hosted repository (one in single-user mode), ordered by DID
  */
 export async function GET({ locals, url }: APIContext) {
   const { env } = locals.runtime;
 
-  const did = env.PDS_DID || 'did:example:single-user';
-  const handle = env.PDS_HANDLE || 'user.example.com';
-  const head = await getRepoRoot(env);
+  const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '500', 10) || 500, 1), 1000);
+  const cursor = url.searchParams.get('cursor') || '';
+
+  const db = drizzle(env.DB);
+  const rows = await db
+    .select({
+      did: repo_root.did,
+      head: repo_root.commitCid,
+      rev: repo_root.rev,
+      active: account_state.active,
+      status: account_state.status,
+    })
+    .from(repo_root)
+    .leftJoin(account_state, eq(account_state.did, repo_root.did))
+    .where(cursor ? gt(repo_root.did, cursor) : undefined)
+    .orderBy(asc(repo_root.did))
+    .limit(limit)
+    .all();
+
+  const repos = rows.map((row) => ({
+    did: row.did,
+    head: row.head,
+    rev: row.rev,
+    // No account_state row means an account that predates lifecycle tracking: active
+    active: row.active ?? true,
+    ...(row.active === false && row.status ? { status: row.status } : {}),
+  }));
 
   return new Response(
     JSON.stringify({
-      repos: [
-        {
-          did,
-          head: head?.commitCid ?? null,
-          rev: head?.rev ?? null,
-          active: true,
-        },
-      ],
+      repos,
+      ...(rows.length === limit ? { cursor: rows[rows.length - 1].did } : {}),
     }),
     {
       status: 200,
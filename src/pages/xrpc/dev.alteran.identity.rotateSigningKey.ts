@@ -0,0 +1,59 @@
+import type { APIContext } from 'astro';
+import { authenticateRequest, unauthorized } from '../../lib/auth';
+import { XRPCError } from '../../lib/errors';
+import { rotateSigningKey } from '../../lib/signing-key-rotation';
+import { readJson } from '../../lib/util';
+
+export const prerender = false;
+
+function jsonError(status: number, error: string, message: string): Response {
+  return new Response(JSON.stringify({ error, message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * dev.alteran.identity.rotateSigningKey
+ * Replace the repo signing key with `privateKey` (hex or base64) or a freshly
+ * generated one. For did:plc the PLC document is updated first; then the key is
+ * stored, the head commit is re-signed and #identity / #sync are emitted.
+ * With `dryRun: true` the resulting verification methods are returned and
+ * nothing is signed or changed.
+ * A did:plc rotation needs the emailed `token` from
+ * com.atproto.identity.requestPlcOperationSignature.
+ */
+export async function POST({ locals, request }: APIContext) {
+  const { env } = locals.runtime;
+
+  const auth = await authenticateRequest(request, env);
+  if (!auth) return unauthorized();
+  if (!auth.scopes.allowsIdentity('*')) return auth.scopes.deny('identity:*').toResponse();
+
+  const body = await readJson(request).catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return jsonError(400, 'InvalidRequest', 'Malformed JSON body');
+  }
+  if (body.privateKey !== undefined && typeof body.privateKey !== 'string') {
+    return jsonError(400, 'InvalidRequest', 'privateKey must be a string');
+  }
+  if (body.token !== undefined && typeof body.token !== 'string') {
+    return jsonError(400, 'InvalidRequest', 'token must be a string');
+  }
+
+  try {
+    const rotation = await rotateSigningKey(env, auth.claims.sub, {
+      privateKey: body.privateKey,
+      dryRun: body.dryRun === true,
+      token: body.token,
+    });
+    return new Response(JSON.stringify(rotation), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    if (error instanceof XRPCError) return error.toResponse();
+    console.error('rotateSigningKey error:', error);
+    return jsonError(500, 'InternalServerError', 'Failed to rotate signing key');
+  }
+}
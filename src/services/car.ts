@@ -1,12 +1,13 @@
 import type { Env } from '../env';
 import { listRecords } from '../db/dal';
 import { drizzle } from 'drizzle-orm/d1';
-import { desc, and, gte, lte } from 'drizzle-orm';
-import { commit_log } from '../db/schema';
+import { and, eq, gte, lte } from 'drizzle-orm';
+import { commit_log, repo_root } from '../db/schema';
 import { CID } from 'multiformats/cid';
 import * as dagCbor from '@ipld/dag-cbor';
 import { sha256 } from 'multiformats/hashes/sha2';
 import { MST, Leaf, D1Blockstore } from '../lib/mst';
+import { getRepoTakedowns, isRecordTakendown } from '../lib/moderation';
 
 export type CarSnapshot = {
   bytes: Uint8Array;
@@ -14,6 +15,16 @@ export type CarSnapshot = {
   blocks: { cid: CID; bytes: Uint8Array }[];
 };
 
+/**
+ * The commit_log row of a repo's current head (the log interleaves every hosted repo)
+ */
+async function getHeadCommit(env: Env, did: string) {
+  const db = drizzle(env.DB);
+  const root = await db.select().from(repo_root).where(eq(repo_root.did, did)).get();
+  if (!root) return undefined;
+  return db.select().from(commit_log).where(eq(commit_log.cid, root.commitCid)).limit(1).get();
+}
+
 export async function encodeRecordBlock(value: unknown) {
   const bytes = dagCbor.encode(value);
   const hash = await sha256.digest(bytes);
@@ -22,9 +33,8 @@ export async function encodeRecordBlock(value: unknown) {
 }
 
 export async function buildRepoCar(env: Env, did: string): Promise<CarSnapshot> {
-  // Prefer the latest signed commit from commit_log (authoritative root)
-  const db = drizzle(env.DB);
-  const tip = await db.select().from(commit_log).orderBy(desc(commit_log.seq)).limit(1).get();
+  // Prefer the repo's signed head commit from commit_log (authoritative root)
+  const tip = await getHeadCommit(env, did);
 
   if (tip) {
     try {
@@ -76,11 +86,12 @@ export async function buildRepoCar(env: Env, did: string): Promise<CarSnapshot>
           blocks.push({ cid, bytes });
         }
 
-        // 2) Add record leaf blocks by batched fetch
+        // 2) Add record leaf blocks by batched fetch, leaving out taken-down records
+        const { recordCids: takendown } = await getRepoTakedowns(env, did);
         const leafFetched = await blockstore.getMany(leafCids);
         for (const [cidStr, bytes] of leafFetched.blocks.entries()) {
           const cid = CID.parse(cidStr);
-          if (seen.has(cidStr)) continue;
+          if (seen.has(cidStr) || takendown.has(cidStr)) continue;
           seen.add(cidStr);
           blocks.push({ cid, bytes });
         }
@@ -165,7 +176,7 @@ function encodeCar(roots: CID[], blocks: { cid: CID; bytes: Uint8Array }[]): Uin
 
 /**
  * Encode blocks for firehose commit frame
- * Includes commit block, MST nodes, and record blocks
+ * Includes commit block, new MST nodes, covering proofs for each op, and record blocks
  */
 export async function encodeBlocksForCommit(
   env: Env,
@@ -218,27 +229,36 @@ export async function encodeBlocksForCommit(
   // 1. Add commit block
   await addBlock(commitCid);
 
-  // 2. Add MST nodes
-  if (newMstBlocks && newMstBlocks.length > 0) {
-    // Prefer the exact set of MST nodes touched by this commit
-    for (const [cid, bytes] of newMstBlocks) {
-      const cidStr = cid.toString();
-      if (seen.has(cidStr)) continue;
-      seen.add(cidStr);
-      blocks.push({ cid, bytes });
+  const addMstBlock = (cid: CID, bytes: Uint8Array) => {
+    const cidStr = cid.toString();
+    if (seen.has(cidStr)) return;
+    seen.add(cidStr);
+    blocks.push({ cid, bytes });
+  };
+
+  // 2. Add MST nodes touched by this commit
+  if (newMstBlocks) {
+    for (const [cid, bytes] of newMstBlocks) addMstBlock(cid, bytes);
+  }
+
+  // 3. Add covering proofs for every op (sync v1.1) so consumers can invert the
+  // ops against the new root and check they arrive at prevData
+  try {
+    const mst = MST.load(blockstore, mstRoot);
+    const root = await mst.serialize();
+    addMstBlock(root.cid, root.bytes);
+    for (const op of ops) {
+      const proof = await mst.getCoveringProof(op.path);
+      for (const [cid, bytes] of proof) addMstBlock(cid, bytes);
     }
-  } else {
+  } catch (e) {
     // Fallback: add MST nodes by batched BFS
+    console.warn('encodeBlocksForCommit: covering proofs failed, including full tree', e);
     const { mstBlocks } = await collectMstBfs(blockstore, mstRoot);
-    for (const [cid, bytes] of mstBlocks) {
-      const k = cid.toString();
-      if (seen.has(k)) continue;
-      seen.add(k);
-      blocks.push({ cid, bytes });
-    }
+    for (const [cid, bytes] of mstBlocks) addMstBlock(cid, bytes);
   }
 
-  // 3. Add record blocks for all operations
+  // 4. Add record blocks for all operations
   for (const op of ops) {
     if (op.cid) {
       await addBlock(op.cid);
@@ -251,7 +271,8 @@ export async function encodeBlocksForCommit(
 
 /**
  * Build a CAR proving existence or non-existence of a record at collection/rkey
- * Root is the latest signed commit block; includes MST path nodes and record block if present.
+ * Root is the latest signed commit block; includes MST path nodes and record block
+ * if present and not taken down.
  */
 export async function buildRecordProofCar(
   env: Env,
@@ -259,8 +280,7 @@ export async function buildRecordProofCar(
   collection: string,
   rkey: string,
 ): Promise<{ bytes: Uint8Array }> {
-  const db = drizzle(env.DB);
-  const tip = await db.select().from(commit_log).orderBy(desc(commit_log.seq)).limit(1).get();
+  const tip = await getHeadCommit(env, did);
   if (!tip) {
     throw new Error('HeadNotFound');
   }
@@ -338,7 +358,7 @@ export async function buildRecordProofCar(
     const s = b.cid.toString();
     if (!seen.has(s)) { seen.add(s); blocks.push(b); }
   }
-  if (recordCid) {
+  if (recordCid && !(await isRecordTakendown(env, `at://${did}/${key}`))) {
     const bytes = await blockstore.get(recordCid);
     if (bytes) blocks.push({ cid: recordCid, bytes });
   }
@@ -14,16 +14,18 @@ import { resolveSecret } from '../lib/secrets';
 
 /**
  * Repository Manager
- * Manages MST-based repository operations
+ * Manages MST-based repository operations for one hosted repo
+ * (`did`, default: the operator account's PDS_DID)
  */
 export class RepoManager {
   private blockstore: D1Blockstore;
 
-  constructor(private env: Env) {
+  constructor(private env: Env, private did?: string) {
     this.blockstore = new D1Blockstore(env);
   }
 
   private async getDid(): Promise<string> {
+    if (this.did) return this.did;
     const did = await resolveSecret(this.env.PDS_DID);
     if (!did) throw new Error('PDS_DID is required');
     return did;
@@ -145,7 +147,7 @@ export class RepoManager {
       this.env,
       prevMstRoot ?? undefined,
       currentRoot,
-      { newMstBlocks: Array.from(newMstBlocks) }
+      { newMstBlocks: Array.from(newMstBlocks), did }
     );
 
     return { uri, cid: recordCid.toString(), commitCid, rev, ops, commitData, sig, blocks };
@@ -158,6 +160,7 @@ export class RepoManager {
     mst: MST;
     recordCid: CID;
     prevMstRoot: CID | null;
+    prevRecordCid: CID | null;
     newMstBlocks: BlockMap;
   }> {
     const key = `${collection}/${rkey}`;
@@ -169,13 +172,14 @@ export class RepoManager {
     // Encode record and store in blockstore
     const recordCid = await this.storeRecord(record);
 
-    // Update the record
+    // Update the record, keeping the replaced CID for the op's `prev`
+    const prevRecordCid = await currentMst.get(key);
     const newMst = await currentMst.update(key, recordCid);
 
     // Store all new MST blocks
     const newMstBlocks = await this.storeMstBlocks(newMst);
 
-    return { mst: newMst, recordCid, prevMstRoot, newMstBlocks };
+    return { mst: newMst, recordCid, prevMstRoot, prevRecordCid, newMstBlocks };
   }
 
   /**
@@ -200,7 +204,7 @@ export class RepoManager {
       this.env,
       prevMstRoot ?? undefined,
       currentRoot,
-      { newMstBlocks: Array.from(newMstBlocks) }
+      { newMstBlocks: Array.from(newMstBlocks), did }
     );
     return { uri, cid: recordCid.toString(), commitCid, rev, ops, commitData, sig, blocks };
   }
@@ -211,6 +215,7 @@ export class RepoManager {
   async deleteRecord(collection: string, rkey: string): Promise<{
     mst: MST;
     prevMstRoot: CID | null;
+    prevRecordCid: CID | null;
     uri: string;
     newMstBlocks: BlockMap;
   }> {
@@ -220,7 +225,8 @@ export class RepoManager {
     const currentMst = await this.getOrCreateRoot();
     const prevMstRoot = await currentMst.getPointer();
 
-    // Delete the record
+    // Delete the record, keeping the removed CID for the op's `prev`
+    const prevRecordCid = await currentMst.get(key);
     const newMst = await currentMst.delete(key);
 
     // Store all new MST blocks
@@ -231,7 +237,7 @@ export class RepoManager {
     const uri = `at://${did}/${collection}/${rkey}`;
     await dalDeleteRecord(this.env, uri);
 
-    return { mst: newMst, prevMstRoot, uri, newMstBlocks };
+    return { mst: newMst, prevMstRoot, prevRecordCid, uri, newMstBlocks };
   }
 
   /**
@@ -1,5 +1,7 @@
-export { createPdsFetchHandler } from './runtime';
-export type { PdsFetchHandler } from './runtime';
+export { createPdsFetchHandler, createPdsScheduledHandler } from './runtime';
+export type { PdsFetchHandler, PdsScheduledHandler } from './runtime';
+export { DEFAULT_MAINTENANCE_JOBS, runMaintenance } from '../lib/maintenance';
+export type { MaintenanceJob } from '../lib/maintenance';
 export { Sequencer } from './sequencer';
 export { onRequest } from '../middleware';
 export { seed } from '../db/seed';
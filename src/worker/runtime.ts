@@ -2,11 +2,14 @@ import { seed } from '../db/seed';
 import { validateConfigOrThrow } from '../lib/config';
 import { resolveEnvSecrets } from '../lib/secrets';
 import { notifyRelaysIfNeeded } from '../lib/relay';
+import { runMaintenance, type MaintenanceJob } from '../lib/maintenance';
+import { logger } from '../lib/logger';
 import type { Env } from '../env';
 import type { SSRManifest } from 'astro';
 import type {
   ExecutionContext,
   Request as WorkersRequest,
+  ScheduledController,
   Response as WorkersResponse,
 } from '@cloudflare/workers-types';
 
@@ -143,6 +146,39 @@ export function createPdsFetchHandler(options?: CreatePdsFetchHandlerOptions): P
   };
 }
 
+export type PdsScheduledHandler = (
+  controller: ScheduledController,
+  env: Env,
+  ctx: ExecutionContext
+) => Promise<void>;
+
+export interface CreatePdsScheduledHandlerOptions {
+  /**
+   * Maintenance jobs to run. Defaults to DEFAULT_MAINTENANCE_JOBS; spread it
+   * to add jobs of your own or filter it to disable some.
+   */
+  jobs?: MaintenanceJob[];
+  /** Time budget for one invocation across all jobs (ms) */
+  budgetMs?: number;
+}
+
+/**
+ * Returns the Alteran PDS Worker scheduled handler. Every Cron Trigger
+ * invocation runs the maintenance jobs that are due, so any schedule works;
+ * a more frequent one lets long jobs resume sooner.
+ */
+export function createPdsScheduledHandler(options?: CreatePdsScheduledHandlerOptions): PdsScheduledHandler {
+  return async function scheduled(controller: ScheduledController, env: Env, _ctx: ExecutionContext) {
+    const resolvedEnv = await resolveEnvSecrets(env);
+    const jobs = await runMaintenance(resolvedEnv, { jobs: options?.jobs, budgetMs: options?.budgetMs });
+    logger.info('maintenance', {
+      message: 'Scheduled maintenance finished',
+      cron: controller.cron,
+      jobs: jobs.map((job) => ({ name: job.name, status: job.lastStatus, pending: job.cursor !== null })),
+    });
+  };
+}
+
 type AstroFetchHandler = (
   request: WorkersRequest,
   env: Env,
@@ -3,7 +3,16 @@
 import type { DurableObjectState, D1Database } from '@cloudflare/workers-types';
 import { drizzle } from 'drizzle-orm/d1';
 import { commit_log } from '../db/schema';
-import { gt, eq, desc } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
+import {
+  appendEvent as appendEventRow,
+  getCommitEvent,
+  getEventsAfter,
+  getLatestEventSeq,
+  getOldestEventSeq,
+  getPreviousRepoEvent,
+  type EventLogRow,
+} from '../db/event-log';
 import {
   encodeInfoFrame,
   encodeCommitFrame,
@@ -25,6 +34,7 @@ interface Client {
 }
 
 interface CommitEvent {
+  type: 'commit';
   seq: number;
   did: string;
   commitCid: string;
@@ -37,6 +47,7 @@ interface CommitEvent {
 }
 
 interface IdentityEvent {
+  type: 'identity';
   seq: number;
   did: string;
   handle?: string;
@@ -44,6 +55,7 @@ interface IdentityEvent {
 }
 
 interface AccountEvent {
+  type: 'account';
   seq: number;
   did: string;
   active: boolean;
@@ -51,7 +63,48 @@ interface AccountEvent {
   ts: number;
 }
 
-type SequencerEvent = CommitEvent | IdentityEvent | AccountEvent;
+interface SyncEvent {
+  type: 'sync';
+  seq: number;
+  did: string;
+  commitCid: string;
+  rev: string;
+  data: string; // JSON-encoded commit data
+  blocks: Uint8Array;
+  ts: number;
+}
+
+type SequencerEvent = CommitEvent | IdentityEvent | AccountEvent | SyncEvent;
+
+// Skip persisting very large commit CARs; replay re-derives them from the blockstore
+const MAX_PERSISTED_BLOCKS_B64 = 512 * 1024;
+
+// Rows fetched per event-log page during cursor replay
+const REPLAY_PAGE_SIZE = 500;
+
+// base64 to Uint8Array (workers-safe)
+function b64ToBytes(b64: string): Uint8Array {
+  const bin = atob(b64);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+/** The event could not be written to event_log, so it was not sequenced */
+class EventLogError extends Error {}
+
+/**
+ * Response to a notification that failed: 503 when the event log could not be
+ * written, 400 for anything else
+ */
+function notificationFailed(kind: string, error: unknown): Response {
+  if (error instanceof EventLogError) {
+    console.error(`Failed to log ${kind} event:`, error.cause);
+    return new Response('event log unavailable', { status: 503 });
+  }
+  console.error(`Failed to handle ${kind} notification:`, error);
+  return new Response('bad request', { status: 400 });
+}
 
 /**
  * Sequencer Durable Object
@@ -63,11 +116,15 @@ export class Sequencer {
   // NOTE: With hibernating WebSockets, do NOT rely on in-memory maps of clients.
   // Use state.getWebSockets() to fetch currently-connected sockets when broadcasting.
   private readonly clients = new Map<string, Client>();
-  private buffer: CommitEvent[] = [];
+  private buffer: SequencerEvent[] = [];
+  // Sockets mid-replay, with the live events queued for them until replay catches up
+  private readonly replaying = new Map<WebSocket, SequencerEvent[]>();
   private readonly db: D1Database;
   private maxWindow: number;
   private nextSeq = 1;
   private droppedFrameCount = 0;
+  // Taken-down repos: their commit/sync events are neither sequenced nor replayed
+  private readonly takendown = new Set<string>();
 
   constructor(state: DurableObjectState, env: Env & { PDS_SEQ_WINDOW?: string }) {
     this.state = state;
@@ -75,7 +132,7 @@ export class Sequencer {
     this.db = env.DB;
     this.maxWindow = parseInt(env.PDS_SEQ_WINDOW || '512', 10);
 
-    // Initialize from storage and align with DB max(seq).
+    // Initialize from storage and align with the event log's max(seq).
     // Guard storage access to avoid errors during code upgrades on old instances.
     this.state.blockConcurrencyWhile(async () => {
       let base = 0;
@@ -85,14 +142,8 @@ export class Sequencer {
         // Storage may be unavailable on outdated instances; ignore and derive from DB
       }
       try {
-        const db = drizzle(this.db);
-        const last = await db
-          .select({ seq: commit_log.seq })
-          .from(commit_log)
-          .orderBy(desc(commit_log.seq))
-          .limit(1)
-          .get();
-        const dbNext = last?.seq ? Number(last.seq) + 1 : 1;
+        const last = await getLatestEventSeq(this.env);
+        const dbNext = last ? Number(last) + 1 : 1;
         if (!base || dbNext > base) base = dbNext;
       } catch {}
       this.nextSeq = base > 0 ? base : 1;
@@ -101,6 +152,10 @@ export class Sequencer {
       } catch (e) {
         // Ignore if storage unavailable on this instance
       }
+      try {
+        const rows = await this.db.prepare("SELECT did FROM account_state WHERE status = 'takendown'").all<{ did: string }>();
+        for (const row of rows.results ?? []) this.takendown.add(row.did);
+      } catch {}
     });
   }
 
@@ -115,6 +170,8 @@ export class Sequencer {
         return this.handleIdentityNotification(request);
       } else if (url.pathname === '/account') {
         return this.handleAccountNotification(request);
+      } else if (url.pathname === '/sync') {
+        return this.handleSyncNotification(request);
       }
     }
 
@@ -147,99 +204,52 @@ export class Sequencer {
         blocks?: string; // base64-encoded CAR
       };
 
-      // Revive CIDs inside ops (JSON -> CID)
-      const reviveCid = (val: any): CID | null => {
-        try {
-          if (val == null) return null;
-          // If already a CID instance
-          const as = (CID as any).asCID?.(val);
-          if (as) return as as CID;
-          // If encoded as string
-          if (typeof val === 'string') return CID.parse(val);
-          // If dag-json style: { "/": "baf..." }
-          if (val && typeof val === 'object' && typeof val['/'] === 'string') return CID.parse(val['/']);
-        } catch {}
-        return null;
-      };
+      if (Array.isArray(body.ops)) body.ops = this.reviveOps(body.ops);
 
-      if (Array.isArray(body.ops)) {
-        body.ops = body.ops.map((op: any) => ({
-          action: op.action,
-          path: op.path,
-          cid: reviveCid(op.cid),
-          ...(op.prev != null ? { prev: reviveCid(op.prev) ?? undefined } : {}),
-        })) as any;
+      // Re-notification of a commit we already sequenced: nothing to do
+      const existing = await getCommitEvent(this.env, body.commitCid).catch(() => undefined);
+      if (existing) {
+        return new Response('ok');
       }
 
-      // Helper: base64 to Uint8Array (workers-safe)
-      const b64ToBytes = (b64: string): Uint8Array => {
-        const bin = atob(b64);
-        const out = new Uint8Array(bin.length);
-        for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
-        return out;
-      };
-
-      // Determine sequence for this commit based on DB, ensuring consistency with replay
+      // Keep commit_log (repo history) in step for commits that bypassed appendCommit
       const db = drizzle(this.db);
-      let seqForEvent: number | null = null;
-      let tsForEvent = Date.now();
       try {
-        const row = await db
-          .select({ seq: commit_log.seq, rev: commit_log.rev, data: commit_log.data, sig: commit_log.sig, ts: commit_log.ts })
-          .from(commit_log)
-          .where(eq(commit_log.cid, body.commitCid))
-          .limit(1)
-          .get();
-        if (row && typeof row.seq === 'number') {
-          seqForEvent = row.seq;
-          // Keep event fields aligned with DB if present
-          body.rev = row.rev;
-          body.data = row.data;
-          body.sig = row.sig;
-          tsForEvent = row.ts ?? tsForEvent;
+        const row = await db.select({ cid: commit_log.cid }).from(commit_log).where(eq(commit_log.cid, body.commitCid)).limit(1).get();
+        if (!row) {
+          await db.insert(commit_log).values({ cid: body.commitCid, rev: body.rev, data: body.data, sig: body.sig, ts: Date.now() }).run();
         }
-      } catch {}
-
-      if (seqForEvent == null) {
-        // No row yet: assign nextSeq and insert minimal row for replay
-        seqForEvent = this.nextSeq++;
-        await this.state.storage.put('nextSeq', this.nextSeq);
-        try {
-          await db
-            .insert(commit_log)
-            .values({ seq: seqForEvent, cid: body.commitCid, rev: body.rev, data: body.data, sig: body.sig, ts: tsForEvent })
-            .run();
-        } catch (e) {
-          console.warn('commit_log insert failed:', e);
-        }
-      } else if (seqForEvent >= this.nextSeq) {
-        // Ensure counter advances beyond DB
-        this.nextSeq = seqForEvent + 1;
-        try { await this.state.storage.put('nextSeq', this.nextSeq); } catch {}
+      } catch (e) {
+        console.warn('commit_log insert failed:', e);
       }
 
+      if (this.takendown.has(body.did)) return new Response('ok');
+
       const event: CommitEvent = {
-        seq: seqForEvent,
+        type: 'commit',
+        seq: 0,
         did: body.did,
         commitCid: body.commitCid,
         rev: body.rev,
         data: body.data,
         sig: body.sig,
-        ts: tsForEvent,
+        ts: Date.now(),
         ops: body.ops,
         blocks: body.blocks ? b64ToBytes(body.blocks) : undefined,
       };
-
-      // Add to buffer
-      this.appendCommit(event);
+      await this.sequence(event, {
+        data: body.data,
+        sig: body.sig,
+        ops: body.ops ?? [],
+        ...(body.blocks && body.blocks.length <= MAX_PERSISTED_BLOCKS_B64 ? { blocks: body.blocks } : {}),
+      });
 
       // Broadcast to all connected clients
       await this.broadcastCommit(event);
 
       return new Response('ok');
     } catch (error) {
-      console.error('Failed to handle commit notification:', error);
-      return new Response('bad request', { status: 400 });
+      return notificationFailed('commit', error);
     }
   }
 
@@ -254,22 +264,20 @@ export class Sequencer {
       };
 
       const event: IdentityEvent = {
-        seq: this.nextSeq++,
+        type: 'identity',
+        seq: 0,
         did: body.did,
         handle: body.handle,
         ts: Date.now(),
       };
-
-      // Persist sequence number
-      try { await this.state.storage.put('nextSeq', this.nextSeq); } catch {}
+      await this.sequence(event, { handle: body.handle ?? null });
 
       // Broadcast to all connected clients
       await this.broadcastIdentity(event);
 
       return new Response('ok');
     } catch (error) {
-      console.error('Failed to handle identity notification:', error);
-      return new Response('bad request', { status: 400 });
+      return notificationFailed('identity', error);
     }
   }
 
@@ -284,24 +292,177 @@ export class Sequencer {
         status?: string;
       };
 
+      if (body.status === 'takendown' && !body.active) {
+        this.takendown.add(body.did);
+      } else {
+        this.takendown.delete(body.did);
+      }
+
       const event: AccountEvent = {
-        seq: this.nextSeq++,
+        type: 'account',
+        seq: 0,
         did: body.did,
         active: body.active,
         status: body.status,
         ts: Date.now(),
       };
-
-      // Persist sequence number
-      try { await this.state.storage.put('nextSeq', this.nextSeq); } catch {}
+      await this.sequence(event, { active: body.active, status: body.status ?? null });
 
       // Broadcast to all connected clients
       await this.broadcastAccount(event);
 
       return new Response('ok');
     } catch (error) {
-      console.error('Failed to handle account notification:', error);
-      return new Response('bad request', { status: 400 });
+      return notificationFailed('account', error);
+    }
+  }
+
+  /**
+   * Handle sync notification from PDS (repo state reset, e.g. importRepo)
+   */
+  private async handleSyncNotification(request: Request): Promise<Response> {
+    try {
+      const body = (await request.json()) as {
+        did: string;
+        commitCid: string;
+        rev: string;
+        data: string; // JSON-encoded commit data
+        blocks: string; // base64-encoded CAR with the commit block
+      };
+
+      if (this.takendown.has(body.did)) return new Response('ok');
+
+      const event: SyncEvent = {
+        type: 'sync',
+        seq: 0,
+        did: body.did,
+        commitCid: body.commitCid,
+        rev: body.rev,
+        data: body.data,
+        blocks: b64ToBytes(body.blocks),
+        ts: Date.now(),
+      };
+      await this.sequence(event, { data: body.data, blocks: body.blocks });
+
+      // Broadcast to all connected clients
+      await this.broadcastSync(event);
+
+      return new Response('ok');
+    } catch (error) {
+      return notificationFailed('sync', error);
+    }
+  }
+
+  /**
+   * Assign the next seq to an event, persist it to the event log and buffer it.
+   * The DO is the only writer of event_log, so seqs are ordered. An event that
+   * cannot be logged is not sequenced at all: EventLogError is thrown before it
+   * is buffered, so nothing is broadcast under a seq that replay cannot return.
+   */
+  private async sequence(event: SequencerEvent, payload: Record<string, unknown>): Promise<void> {
+    event.seq = this.nextSeq++;
+    try { await this.state.storage.put('nextSeq', this.nextSeq); } catch {}
+    try {
+      await appendEventRow(this.env, {
+        seq: event.seq,
+        type: event.type,
+        did: event.did,
+        commitCid: event.type === 'commit' || event.type === 'sync' ? event.commitCid : null,
+        rev: event.type === 'commit' || event.type === 'sync' ? event.rev : null,
+        payload,
+        ts: event.ts,
+      });
+    } catch (e) {
+      // Hand the seq back unless a later event has taken one meanwhile (that leaves a gap, never a duplicate)
+      if (this.nextSeq === event.seq + 1) {
+        this.nextSeq = event.seq;
+        try { await this.state.storage.put('nextSeq', this.nextSeq); } catch {}
+      }
+      throw new EventLogError('event_log insert failed', { cause: e });
+    }
+    this.appendToBuffer(event);
+  }
+
+  /**
+   * Revive CIDs inside ops (JSON -> CID)
+   */
+  private reviveOps(ops: any[]): RepoOp[] {
+    const reviveCid = (val: any): CID | null => {
+      try {
+        if (val == null) return null;
+        // If already a CID instance
+        const as = (CID as any).asCID?.(val);
+        if (as) return as as CID;
+        // If encoded as string
+        if (typeof val === 'string') return CID.parse(val);
+        // If dag-json style: { "/": "baf..." }
+        if (val && typeof val === 'object' && typeof val['/'] === 'string') return CID.parse(val['/']);
+      } catch {}
+      return null;
+    };
+    return ops.map((op: any) => ({
+      action: op.action,
+      path: op.path,
+      cid: reviveCid(op.cid),
+      ...(op.prev != null ? { prev: reviveCid(op.prev) ?? undefined } : {}),
+    })) as RepoOp[];
+  }
+
+  /**
+   * Rebuild an in-memory event from an event_log row
+   */
+  private rowToEvent(row: EventLogRow): SequencerEvent | null {
+    let payload: any = {};
+    try { payload = JSON.parse(row.payload); } catch {}
+    switch (row.type) {
+      case 'commit':
+        return {
+          type: 'commit',
+          seq: row.seq,
+          did: row.did,
+          commitCid: row.commitCid ?? '',
+          rev: row.rev ?? '',
+          data: payload.data,
+          sig: payload.sig,
+          ts: row.ts,
+          ops: Array.isArray(payload.ops) ? this.reviveOps(payload.ops) : undefined,
+          blocks: typeof payload.blocks === 'string' ? b64ToBytes(payload.blocks) : undefined,
+        };
+      case 'identity':
+        return { type: 'identity', seq: row.seq, did: row.did, handle: payload.handle ?? undefined, ts: row.ts };
+      case 'account':
+        return { type: 'account', seq: row.seq, did: row.did, active: !!payload.active, status: payload.status ?? undefined, ts: row.ts };
+      case 'sync':
+        return {
+          type: 'sync',
+          seq: row.seq,
+          did: row.did,
+          commitCid: row.commitCid ?? '',
+          rev: row.rev ?? '',
+          data: payload.data,
+          blocks: typeof payload.blocks === 'string' ? b64ToBytes(payload.blocks) : new Uint8Array(),
+          ts: row.ts,
+        };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Encode any sequenced event as its firehose frame
+   */
+  private async encodeEventFrame(event: SequencerEvent): Promise<Uint8Array> {
+    const time = new Date(event.ts).toISOString();
+    switch (event.type) {
+      case 'commit':
+        return encodeCommitFrame(await this.createCommitPayload(event));
+      case 'identity':
+        // dag-cbor can't encode undefined, so optional fields are omitted when unset
+        return encodeIdentityFrame({ seq: event.seq, did: event.did, time, ...(event.handle ? { handle: event.handle } : {}) });
+      case 'account':
+        return encodeAccountFrame({ seq: event.seq, did: event.did, time, active: event.active, ...(event.status ? { status: event.status } : {}) });
+      case 'sync':
+        return encodeSyncFrame({ seq: event.seq, did: event.did, time, rev: event.rev, blocks: event.blocks });
     }
   }
 
@@ -392,62 +553,103 @@ export class Sequencer {
   }
 
   /**
-   * Replay events from cursor
+   * Replay events from cursor: page through the event log until caught up, then
+   * drain any live events that arrived meanwhile so none are dropped or reordered.
+   * Cursors older than the pruned horizon get an #info OutdatedCursor first.
    */
   private async replayFromCursor(ws: WebSocket, cursor: number): Promise<void> {
-    // First try from buffer
-    const bufferedEvents = this.buffer.filter((e) => e.seq > cursor);
+    const pending: SequencerEvent[] = [];
+    this.replaying.set(ws, pending);
+    try {
+      try {
+        const oldest = await getOldestEventSeq(this.env);
+        if (oldest !== null && cursor < oldest - 1) {
+          ws.send(encodeInfoFrame('OutdatedCursor', 'Requested cursor exceeded limit. Possibly missing events'));
+        }
+      } catch (error) {
+        console.error('Failed to check replay horizon:', error);
+      }
 
-    if (bufferedEvents.length > 0) {
-      for (const event of bufferedEvents) {
-        try {
-          const msg = await this.createCommitPayload(event);
-          ws.send(encodeCommitFrame(msg));
-        } catch (error) {
-          console.error('Failed to send buffered event:', error);
+      let last = await this.replayFromLog(ws, cursor);
+
+      // Queue is only appended to by broadcasts, so check-and-exit must not await
+      while (pending.length > 0) {
+        const event = pending.shift()!;
+        if (event.seq <= last) continue;
+        // A gap means an earlier event was logged but not yet broadcast; take it from the log
+        if (event.seq > last + 1) last = await this.replayFromLog(ws, last, event.seq - 1);
+        if (event.seq <= last) continue;
+        await this.sendEvent(ws, event);
+        last = event.seq;
+      }
+    } finally {
+      this.replaying.delete(ws);
+    }
+  }
+
+  /**
+   * Send logged events after `cursor` (up to `until`, inclusive) page by page;
+   * returns the last seq sent
+   */
+  private async replayFromLog(ws: WebSocket, cursor: number, until = Number.MAX_SAFE_INTEGER): Promise<number> {
+    let last = cursor;
+    while (last < until) {
+      // Serve from the buffer once it covers everything after the last seq sent
+      const buffered = this.buffer.filter((e) => e.seq > last && e.seq <= until);
+      if (buffered.length > 0 && buffered[0].seq === last + 1) {
+        for (const event of buffered) {
+          await this.sendEvent(ws, event);
+          last = event.seq;
         }
+        // Caught up with everything sequenced so far; newer events arrive via the live queue
+        if ((this.buffer[this.buffer.length - 1]?.seq ?? 0) <= last) break;
+        continue;
       }
-    } else {
-      // Fetch from database if not in buffer
+
+      let rows: EventLogRow[];
       try {
-        const db = drizzle(this.db);
-        const events = await db
-          .select()
-          .from(commit_log)
-          .where(gt(commit_log.seq, cursor))
-          .orderBy(commit_log.seq)
-          .limit(100)
-          .all();
-
-        for (const event of events) {
-          try {
-            const commitEvent: CommitEvent = {
-              seq: event.seq!,
-              did: JSON.parse(event.data).did,
-              commitCid: event.cid,
-              rev: event.rev,
-              data: event.data,
-              sig: event.sig,
-              ts: event.ts,
-            };
-            const msg = await this.createCommitPayload(commitEvent);
-            ws.send(encodeCommitFrame(msg));
-          } catch (error) {
-            console.error('Failed to send database event:', error);
-          }
-        }
+        rows = await getEventsAfter(this.env, last, REPLAY_PAGE_SIZE);
       } catch (error) {
         console.error('Failed to fetch events from database:', error);
+        break;
+      }
+      for (const row of rows) {
+        if (row.seq > until) return last;
+        const event = this.rowToEvent(row);
+        if (event) await this.sendEvent(ws, event);
+        last = row.seq;
       }
+      if (rows.length < REPLAY_PAGE_SIZE) break;
+    }
+    return last;
+  }
+
+  private async sendEvent(ws: WebSocket, event: SequencerEvent): Promise<void> {
+    if ((event.type === 'commit' || event.type === 'sync') && this.takendown.has(event.did)) return;
+    try {
+      ws.send(await this.encodeEventFrame(event));
+    } catch (error) {
+      console.error(`Failed to replay event seq=${event.seq}:`, error);
     }
   }
 
+  /**
+   * Send a live event, or queue it if the socket is still replaying
+   */
+  private deliver(ws: WebSocket, event: SequencerEvent, bytes: Uint8Array): void {
+    const pending = this.replaying.get(ws);
+    if (pending) {
+      pending.push(event);
+      return;
+    }
+    ws.send(bytes);
+  }
+
   /**
    * Broadcast commit event to all connected clients
    */
   private async broadcastCommit(event: CommitEvent): Promise<void> {
-    const msg = await this.createCommitPayload(event);
-    const bytes = encodeCommitFrame(msg);
+    const bytes = await this.encodeEventFrame(event);
 
     // Use hibernation-aware API to fetch sockets; do not rely on in-memory maps.
     let sockets: WebSocket[] = [];
@@ -472,7 +674,7 @@ export class Sequencer {
     let dropped = 0;
     for (const ws of targets) {
       try {
-        ws.send(bytes);
+        this.deliver(ws, event, bytes);
       } catch (error) {
         dropped++;
       }
@@ -496,47 +698,29 @@ export class Sequencer {
    * Broadcast identity event to all connected clients
    */
   private async broadcastIdentity(event: IdentityEvent): Promise<void> {
-    const bytes = encodeIdentityFrame({
-      seq: event.seq,
-      did: event.did,
-      time: new Date(event.ts).toISOString(),
-      handle: event.handle,
-    });
-    let sockets: WebSocket[] = [];
-    try { sockets = (this.state as any).getWebSockets?.() || []; } catch {}
-    const targets = sockets.length > 0 ? sockets : Array.from(this.clients.values()).map((c) => c.webSocket);
-    for (const ws of targets) {
-      try { ws.send(bytes); } catch {}
-    }
+    this.broadcastEvent(event, await this.encodeEventFrame(event));
   }
 
   /**
    * Broadcast account event to all connected clients
    */
   private async broadcastAccount(event: AccountEvent): Promise<void> {
-    const bytesAccount = encodeAccountFrame({
-      seq: event.seq,
-      did: event.did,
-      time: new Date(event.ts).toISOString(),
-      active: event.active,
-      status: event.status,
-    });
-    // Emit compatibility #sync event as well
-    const bytesSync = encodeSyncFrame({
-      seq: event.seq,
-      did: event.did,
-      time: new Date(event.ts).toISOString(),
-      active: event.active,
-      status: event.status,
-    });
+    this.broadcastEvent(event, await this.encodeEventFrame(event));
+  }
+
+  /**
+   * Broadcast sync event to all connected clients
+   */
+  private async broadcastSync(event: SyncEvent): Promise<void> {
+    this.broadcastEvent(event, await this.encodeEventFrame(event));
+  }
+
+  private broadcastEvent(event: SequencerEvent, bytes: Uint8Array): void {
     let sockets: WebSocket[] = [];
     try { sockets = (this.state as any).getWebSockets?.() || []; } catch {}
     const targets = sockets.length > 0 ? sockets : Array.from(this.clients.values()).map((c) => c.webSocket);
     for (const ws of targets) {
-      try {
-        ws.send(bytesAccount);
-        ws.send(bytesSync);
-      } catch {}
+      try { this.deliver(ws, event, bytes); } catch {}
     }
   }
 
@@ -572,18 +756,22 @@ export class Sequencer {
       if (commitData.prev) prevCid = CID.parse(String(commitData.prev));
     } catch {}
 
+    // since/prevData come from the previous repo event (commit or sync) for this DID.
+    // Pruning may have dropped it from event_log for a quiet repo; commit_log keeps
+    // every repo head, so the prev commit's row is the fallback.
     let since: string | null = null;
     try {
-      const db = drizzle(this.db);
-      if (prevCid) {
-        const prev = await db.select().from(commit_log).where(eq(commit_log.cid, prevCid.toString())).get();
-        since = prev?.rev ?? null;
-        if (prev?.data) {
-          try { prevDataCid = CID.parse(String(JSON.parse(prev.data).data)); } catch {}
-        }
-      } else {
-        const row = await db.select().from(commit_log).where(gt(commit_log.seq, 0 as any)).orderBy(desc(commit_log.seq)).limit(1).get();
+      const prev = await getPreviousRepoEvent(this.env, event.did, event.seq);
+      let prevData: string | null | undefined = prev ? JSON.parse(prev.payload).data : undefined;
+      if (prev) {
+        since = prev.rev ?? null;
+      } else if (prevCid) {
+        const row = await drizzle(this.db).select().from(commit_log).where(eq(commit_log.cid, prevCid.toString())).get();
         since = row?.rev ?? null;
+        prevData = row?.data;
+      }
+      if (prevData) {
+        try { prevDataCid = CID.parse(String(JSON.parse(prevData).data)); } catch {}
       }
     } catch {}
 
@@ -607,9 +795,9 @@ export class Sequencer {
   }
 
   /**
-   * Append commit event to buffer with backpressure
+   * Append event to buffer with backpressure
    */
-  private appendCommit(event: CommitEvent): void {
+  private appendToBuffer(event: SequencerEvent): void {
     this.buffer.push(event);
 
     // Implement backpressure: drop oldest events if buffer is full
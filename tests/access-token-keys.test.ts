@@ -0,0 +1,109 @@
+/**
+ * Access Token Key Tests
+ * ES256 access tokens verify against the published JWKS, and the key ring
+ * keeps verifying old tokens while a rotation takes effect
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { SignJWT, createLocalJWKSet, decodeProtectedHeader, jwtVerify } from 'jose';
+import { makeMigratedEnv } from './helpers/env';
+import type { Env } from '../src/env';
+import { getSecret, setSecret } from '../src/db/account';
+import {
+  KEY_PUBLISH_DELAY_SECONDS,
+  getAccessTokenKeys,
+  rotateAccessTokenKey,
+  rotateAccessTokenKeyIfDue,
+} from '../src/lib/access-token-keys';
+import { ACCESS_TTL_SECONDS, issueSessionTokens, verifyAccessToken } from '../src/lib/session-tokens';
+import * as Jwks from '../src/pages/oauth/jwks';
+
+const DAY = 24 * 60 * 60;
+
+async function accessToken(env: Env): Promise<string> {
+  return (await issueSessionTokens(env, 'did:example:alice')).accessJwt;
+}
+
+async function jwks(env: Env): Promise<any> {
+  const res = await Jwks.GET({ locals: { runtime: { env } } } as any);
+  expect(res.headers.get('content-type')).toBe('application/jwk-set+json');
+  return res.json();
+}
+
+describe('Access token keys', () => {
+  test('access tokens are ES256 and verify against /oauth/jwks', async () => {
+    const env = await makeMigratedEnv();
+    const token = await accessToken(env);
+    const header = decodeProtectedHeader(token);
+    expect(header.alg).toBe('ES256');
+    expect(header.typ).toBe('at+jwt');
+
+    const set = await jwks(env);
+    expect(set.keys).toHaveLength(1);
+    expect(set.keys[0]).toMatchObject({ kid: header.kid, alg: 'ES256', use: 'sig', kty: 'EC', crv: 'P-256' });
+    expect(set.keys[0].d).toBeUndefined();
+
+    const { payload } = await jwtVerify(token, createLocalJWKSet(set), { audience: 'did:example:test' });
+    expect(payload.sub).toBe('did:example:alice');
+    expect((await verifyAccessToken(env, token)).sub).toBe('did:example:alice');
+  });
+
+  test('concurrent first requests agree on one key ring', async () => {
+    const env = await makeMigratedEnv();
+    const rings = await Promise.all([
+      getAccessTokenKeys(env, { fresh: true }),
+      getAccessTokenKeys(env, { fresh: true }),
+      getAccessTokenKeys(env, { fresh: true }),
+    ]);
+    const stored = await getAccessTokenKeys(env, { fresh: true });
+    expect(stored).toHaveLength(1);
+    for (const ring of rings) expect(ring.map((k) => k.kid)).toEqual([stored[0].kid]);
+    expect(decodeProtectedHeader(await accessToken(env)).kid).toBe(stored[0].kid);
+  });
+
+  test('a rotated key is published before it signs, and old keys verify until their tokens expire', async () => {
+    const env = await makeMigratedEnv();
+    const before = await accessToken(env);
+    const oldKid = decodeProtectedHeader(before).kid!;
+
+    const rotation = await rotateAccessTokenKey(env, { accessTtlSeconds: ACCESS_TTL_SECONDS });
+    expect(rotation.activatesAt).toBeGreaterThanOrEqual(Math.floor(Date.now() / 1000) + KEY_PUBLISH_DELAY_SECONDS - 1);
+    expect((await jwks(env)).keys.map((k: any) => k.kid)).toEqual([rotation.kid, oldKid]);
+    expect(decodeProtectedHeader(await accessToken(env)).kid).toBe(oldKid);
+
+    // Nothing is due yet: the new key is recent and the old one still signs
+    expect(await rotateAccessTokenKeyIfDue(env, { accessTtlSeconds: ACCESS_TTL_SECONDS })).toEqual({ rotated: null, removed: [] });
+
+    // Forty days on the new key is due for rotation itself, and the first key's tokens are long expired
+    const later = Math.floor(Date.now() / 1000) + 40 * DAY;
+    const due = await rotateAccessTokenKeyIfDue(env, { accessTtlSeconds: ACCESS_TTL_SECONDS, now: later });
+    expect(due.rotated).toBeTruthy();
+    expect(due.removed).toEqual([oldKid]);
+    expect((await getAccessTokenKeys(env)).map((k) => k.kid)).toEqual([due.rotated!, rotation.kid]);
+    await expect(verifyAccessToken(env, before)).rejects.toThrow('Unknown access token key');
+  });
+
+  test('HS256 access tokens from before the key ring are accepted for one token lifetime', async () => {
+    const env = await makeMigratedEnv();
+    await issueSessionTokens(env, 'did:example:alice');
+    const secret = new TextEncoder().encode((await getSecret(env, 'session_jwt_secret'))!);
+    const legacy = (iat: number) =>
+      new SignJWT({ scope: 'access' })
+        .setProtectedHeader({ alg: 'HS256', typ: 'at+jwt' })
+        .setSubject('did:example:alice')
+        .setAudience('did:example:test')
+        .setIssuedAt(iat)
+        .setExpirationTime(iat + ACCESS_TTL_SECONDS)
+        .sign(secret);
+
+    const now = Math.floor(Date.now() / 1000);
+    expect((await verifyAccessToken(env, await legacy(now - 60))).sub).toBe('did:example:alice');
+    await expect(verifyAccessToken(env, await legacy(now + 5))).rejects.toThrow('issued after ES256 signing began');
+
+    // Once every pre-ring token has expired, HS256 access tokens are refused outright
+    const ring = JSON.parse((await getSecret(env, 'access_token_keys'))!);
+    await setSecret(env, 'access_token_keys', JSON.stringify({ ...ring, createdAt: now - ACCESS_TTL_SECONDS - 60 }));
+    await getAccessTokenKeys(env, { fresh: true });
+    await expect(verifyAccessToken(env, await legacy(now - ACCESS_TTL_SECONDS - 120))).rejects.toThrow('Unknown access token key');
+  });
+});
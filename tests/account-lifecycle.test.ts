@@ -0,0 +1,111 @@
+/**
+ * Account Lifecycle Tests
+ * Tests for activate/deactivateAccount, requestAccountDelete/deleteAccount and their #account events
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { makeMigratedEnv } from './helpers/env';
+import { mailRelay } from './helpers/mail';
+import { recordingSequencer } from './helpers/sequencer';
+import { call, login } from './helpers/xrpc';
+import { deleteExpiredDeactivatedAccounts } from '../src/lib/account-deletion';
+import * as ActivateAccount from '../src/pages/xrpc/com.atproto.server.activateAccount';
+import * as DeactivateAccount from '../src/pages/xrpc/com.atproto.server.deactivateAccount';
+import * as RequestAccountDelete from '../src/pages/xrpc/com.atproto.server.requestAccountDelete';
+import * as DeleteAccount from '../src/pages/xrpc/com.atproto.server.deleteAccount';
+import * as CheckAccountStatus from '../src/pages/xrpc/com.atproto.server.checkAccountStatus';
+
+const mail = mailRelay();
+
+async function setup() {
+  const sequencer = recordingSequencer();
+  const env = await makeMigratedEnv({ SEQUENCER: sequencer.binding, ...mail.env } as any);
+  return { env, events: sequencer.events };
+}
+
+describe('Account lifecycle', () => {
+  beforeAll(() => mail.install());
+  afterAll(() => mail.restore());
+
+  test('deactivate and reactivate', async () => {
+    const { env, events } = await setup();
+    const session: any = await (await login(env)).json();
+
+    const deleteAfter = '2030-01-01T00:00:00.000Z';
+    expect((await call(DeactivateAccount, 'POST', env, { token: session.accessJwt, body: { deleteAfter } })).status).toBe(200);
+    const state: any = await env.DB.prepare('SELECT * FROM account_state WHERE did = ?').bind('did:example:test').first();
+    expect(state.active).toBe(0);
+    expect(state.status).toBe('deactivated');
+    expect(state.delete_after).toBe(Date.parse(deleteAfter));
+
+    const status: any = await (await call(CheckAccountStatus, 'GET', env, { token: session.accessJwt })).json();
+    expect(status.activated).toBe(false);
+    expect(status.status).toBe('deactivated');
+
+    // Deactivated accounts can still sign in, and are told so
+    const relogin: any = await (await login(env)).json();
+    expect(relogin.active).toBe(false);
+    expect(relogin.status).toBe('deactivated');
+
+    expect((await call(ActivateAccount, 'POST', env, { token: session.accessJwt })).status).toBe(200);
+    expect((await call(ActivateAccount, 'POST', env, { token: session.accessJwt })).status).toBe(200);
+
+    expect(events).toEqual([
+      { path: '/account', body: { did: 'did:example:test', active: false, status: 'deactivated' } },
+      { path: '/identity', body: { did: 'did:example:test', handle: 'test.example' } },
+      { path: '/account', body: { did: 'did:example:test', active: true } },
+    ]);
+  }, 30000);
+
+  test('a deactivated account is deleted once its deleteAfter has passed', async () => {
+    const { env, events } = await setup();
+    const session: any = await (await login(env)).json();
+    await env.DB.prepare("INSERT INTO record (uri, did, cid, json) VALUES ('at://did:example:test/app.bsky.feed.post/1', 'did:example:test', 'bafy', '{}')").run();
+    const deleteAfter = Date.now() + 60 * 60 * 1000;
+    await call(DeactivateAccount, 'POST', env, { token: session.accessJwt, body: { deleteAfter: new Date(deleteAfter).toISOString() } });
+
+    const deadline = Date.now() + 10_000;
+    expect(await deleteExpiredDeactivatedAccounts(env, { deadline })).toEqual({ deleted: 0, remaining: false });
+
+    // Reactivating in time clears the deadline
+    await call(ActivateAccount, 'POST', env, { token: session.accessJwt });
+    expect(await deleteExpiredDeactivatedAccounts(env, { deadline, now: deleteAfter + 1 })).toEqual({ deleted: 0, remaining: false });
+
+    await call(DeactivateAccount, 'POST', env, { token: session.accessJwt, body: { deleteAfter: new Date(deleteAfter).toISOString() } });
+    expect(await deleteExpiredDeactivatedAccounts(env, { deadline, now: deleteAfter + 1 })).toEqual({ deleted: 1, remaining: false });
+    const records: any = await env.DB.prepare('SELECT COUNT(*) AS n FROM record').first();
+    expect(records.n).toBe(0);
+    const state: any = await env.DB.prepare('SELECT * FROM account_state').first();
+    expect(state.status).toBe('deleted');
+    expect(events.at(-1)).toEqual({ path: '/account', body: { did: 'did:example:test', active: false, status: 'deleted' } });
+    expect((await login(env)).status).toBe(401);
+  }, 30000);
+
+  test('deleteAccount needs the password and the emailed token', async () => {
+    const { env, events } = await setup();
+    const session: any = await (await login(env)).json();
+    await env.DB.prepare("INSERT INTO record (uri, did, cid, json) VALUES ('at://did:example:test/app.bsky.feed.post/1', 'did:example:test', 'bafy', '{}')").run();
+    await env.DB.prepare("UPDATE account SET email = 'me@example.com'").run();
+
+    expect((await call(RequestAccountDelete, 'POST', env, { token: session.accessJwt })).status).toBe(200);
+    const row: any = await env.DB.prepare("SELECT token FROM email_token WHERE purpose = 'delete_account'").first();
+    expect(row.token).toBe(mail.lastToken());
+
+    const attempt = (body: unknown) => call(DeleteAccount, 'POST', env, { body });
+    expect((await attempt({ did: 'did:example:test', password: 'nope', token: row.token })).status).toBe(401);
+    const wrongToken = await attempt({ did: 'did:example:test', password: 'pwd', token: 'AAAAA-AAAAA' });
+    expect(wrongToken.status).toBe(400);
+    expect(((await wrongToken.json()) as any).error).toBe('InvalidToken');
+
+    expect((await attempt({ did: 'did:example:test', password: 'pwd', token: row.token.toLowerCase() })).status).toBe(200);
+    const records: any = await env.DB.prepare('SELECT COUNT(*) AS n FROM record').first();
+    expect(records.n).toBe(0);
+    const state: any = await env.DB.prepare('SELECT * FROM account_state').first();
+    expect(state.status).toBe('deleted');
+    expect(events).toEqual([{ path: '/account', body: { did: 'did:example:test', active: false, status: 'deleted' } }]);
+
+    // The token is single-use and USER_PASSWORD does not resurrect the account
+    expect((await attempt({ did: 'did:example:test', password: 'pwd', token: row.token })).status).toBe(401);
+    expect((await login(env)).status).toBe(401);
+  }, 30000);
+});
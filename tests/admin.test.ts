@@ -0,0 +1,179 @@
+/**
+ * Admin API Tests
+ * Admin password auth, account management and enforced takedowns
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { Secp256k1Keypair } from '@atproto/crypto';
+import { makeMigratedEnv } from './helpers/env';
+import { recordingSequencer } from './helpers/sequencer';
+import { call, toHex } from './helpers/xrpc';
+import type { Env } from '../src/env';
+import { createAccount } from '../src/db/account';
+import { createAccountState } from '../src/db/dal';
+import { createInviteCode } from '../src/db/invite';
+import { bumpRoot } from '../src/db/repo';
+import { hashPassword } from '../src/lib/password';
+import { issueSessionTokens } from '../src/lib/session-tokens';
+import * as ActivateAccount from '../src/pages/xrpc/com.atproto.server.activateAccount';
+import * as CreateInviteCode from '../src/pages/xrpc/com.atproto.server.createInviteCode';
+import * as CreateRecord from '../src/pages/xrpc/com.atproto.repo.createRecord';
+import * as CreateSession from '../src/pages/xrpc/com.atproto.server.createSession';
+import * as DeactivateAccount from '../src/pages/xrpc/com.atproto.server.deactivateAccount';
+import * as DeleteAccount from '../src/pages/xrpc/com.atproto.admin.deleteAccount';
+import * as DisableAccountInvites from '../src/pages/xrpc/com.atproto.admin.disableAccountInvites';
+import * as GetAccountInfo from '../src/pages/xrpc/com.atproto.admin.getAccountInfo';
+import * as GetAccountInfos from '../src/pages/xrpc/com.atproto.admin.getAccountInfos';
+import * as GetRecord from '../src/pages/xrpc/com.atproto.repo.getRecord';
+import * as GetRepo from '../src/pages/xrpc/com.atproto.sync.getRepo';
+import * as GetSubjectStatus from '../src/pages/xrpc/com.atproto.admin.getSubjectStatus';
+import * as UpdateAccountEmail from '../src/pages/xrpc/com.atproto.admin.updateAccountEmail';
+import * as UpdateAccountHandle from '../src/pages/xrpc/com.atproto.admin.updateAccountHandle';
+import * as UpdateAccountPassword from '../src/pages/xrpc/com.atproto.admin.updateAccountPassword';
+import * as UpdateSubjectStatus from '../src/pages/xrpc/com.atproto.admin.updateSubjectStatus';
+
+const DID = 'did:example:test';
+const ADMIN = `Basic ${btoa('admin:hunter2')}`;
+
+async function setup(overrides: Partial<Env> = {}) {
+  const signingKey = await Secp256k1Keypair.create({ exportable: true });
+  const sequencer = recordingSequencer();
+  const env = await makeMigratedEnv({
+    PDS_HOSTNAME: 'pds.example.com',
+    PDS_HANDLE: 'alice.pds.example.com',
+    PDS_ADMIN_PASSWORD: 'hunter2',
+    REPO_SIGNING_KEY: toHex(await signingKey.export()),
+    SEQUENCER: sequencer.binding,
+    ...overrides,
+  } as any);
+
+  await createAccount(env, { did: DID, handle: 'alice.pds.example.com', passwordScrypt: await hashPassword('password'), email: 'alice@example.com' });
+  await createAccountState(env, DID, true);
+  await bumpRoot(env, undefined, undefined, { ops: [], did: DID });
+  return { env, events: sequencer.events };
+}
+
+function post(mod: any, env: Env, body: unknown, authorization: string | null = ADMIN): Promise<Response> {
+  return call(mod, 'POST', env, { body, authorization });
+}
+
+function get(mod: any, env: Env, query = '', authorization: string | null = ADMIN): Promise<Response> {
+  return call(mod, 'GET', env, { query, authorization });
+}
+
+async function createPost(env: Env, text: string): Promise<Response> {
+  const { accessJwt } = await issueSessionTokens(env, DID);
+  return post(CreateRecord, env, { repo: DID, collection: 'app.bsky.feed.post', record: { $type: 'app.bsky.feed.post', text, createdAt: new Date().toISOString() } }, `Bearer ${accessJwt}`);
+}
+
+describe('Admin API', () => {
+  test('requires the admin password', async () => {
+    const { env } = await setup();
+    expect((await get(GetAccountInfo, env, `?did=${DID}`, null)).status).toBe(401);
+    expect((await get(GetAccountInfo, env, `?did=${DID}`, `Basic ${btoa('admin:wrong')}`)).status).toBe(401);
+    const { accessJwt } = await issueSessionTokens(env, DID);
+    expect((await get(GetAccountInfo, env, `?did=${DID}`, `Bearer ${accessJwt}`)).status).toBe(401);
+    expect((await get(GetAccountInfo, env, `?did=${DID}`, 'Bearer hunter2')).status).toBe(200);
+
+    const disabled = await setup({ PDS_ADMIN_PASSWORD: undefined } as any);
+    expect((await get(GetAccountInfo, disabled.env, `?did=${DID}`)).status).toBe(401);
+  });
+
+  test('getAccountInfo(s) and account updates', async () => {
+    const { env, events } = await setup();
+    await createInviteCode(env, { code: 'code-1', availableUses: 1, forAccount: DID, createdBy: 'admin' });
+
+    const info: any = await (await get(GetAccountInfo, env, `?did=${DID}`)).json();
+    expect(info.did).toBe(DID);
+    expect(info.handle).toBe('alice.pds.example.com');
+    expect(info.email).toBe('alice@example.com');
+    expect(info.invitesDisabled).toBe(false);
+    expect(info.invites.map((invite: any) => invite.code)).toEqual(['code-1']);
+    expect(((await get(GetAccountInfo, env, '?did=did:example:nobody')).status)).toBe(400);
+
+    const infos: any = await (await get(GetAccountInfos, env, `?dids=${DID}&dids=did:example:nobody`)).json();
+    expect(infos.infos.map((view: any) => view.did)).toEqual([DID]);
+
+    expect((await post(UpdateAccountEmail, env, { account: DID, email: 'new@example.com' })).status).toBe(200);
+    expect((await post(UpdateAccountHandle, env, { did: DID, handle: 'bob.pds.example.com' })).status).toBe(200);
+    expect(events.at(-1)).toEqual({ path: '/identity', body: { did: DID, handle: 'bob.pds.example.com' } });
+    expect((await post(DisableAccountInvites, env, { account: DID, note: 'spam' })).status).toBe(200);
+
+    const updated: any = await (await get(GetAccountInfo, env, `?did=${DID}`)).json();
+    expect(updated.email).toBe('new@example.com');
+    expect(updated.handle).toBe('bob.pds.example.com');
+    expect(updated.invitesDisabled).toBe(true);
+    expect(updated.invites[0].disabled).toBe(true);
+
+    expect((await post(UpdateAccountPassword, env, { did: DID, password: 'changed' })).status).toBe(200);
+    expect((await post(CreateSession, env, { identifier: DID, password: 'password' }, null)).status).toBe(401);
+    expect((await post(CreateSession, env, { identifier: DID, password: 'changed' }, null)).status).toBe(200);
+  });
+
+  test('admin password can mint invite codes', async () => {
+    const { env } = await setup();
+    const res = await post(CreateInviteCode, env, { useCount: 2 });
+    expect(res.status).toBe(200);
+    expect(((await res.json()) as any).code).toMatch(/^pds-example-com-/);
+  });
+
+  test('repo takedown blocks reads, writes and sessions until lifted', async () => {
+    const { env, events } = await setup();
+    const created: any = await (await createPost(env, 'hello')).json();
+    const rkey = created.uri.split('/').pop();
+    const subject = { $type: 'com.atproto.admin.defs#repoRef', did: DID };
+
+    const res = await post(UpdateSubjectStatus, env, { subject, takedown: { applied: true, ref: 'case-1' } });
+    expect((await res.json()) as any).toEqual({ subject, takedown: { applied: true, ref: 'case-1' } });
+    expect(events.at(-1)).toEqual({ path: '/account', body: { did: DID, active: false, status: 'takendown' } });
+
+    const status: any = await (await get(GetSubjectStatus, env, `?did=${DID}`)).json();
+    expect(status.takedown).toEqual({ applied: true, ref: 'case-1' });
+
+    const record = await get(GetRecord, env, `?repo=${DID}&collection=app.bsky.feed.post&rkey=${rkey}`, null);
+    expect(((await record.json()) as any).error).toBe('RepoTakendown');
+    const repo = await get(GetRepo, env, `?did=${DID}`, null);
+    expect(((await repo.json()) as any).error).toBe('RepoTakendown');
+    const write = await createPost(env, 'again');
+    expect(write.status).toBe(401);
+    expect(((await write.json()) as any).error).toBe('AccountTakedown');
+    const session = await post(CreateSession, env, { identifier: DID, password: 'password' }, null);
+    expect(((await session.json()) as any).error).toBe('AccountTakedown');
+    const { accessJwt } = await issueSessionTokens(env, DID);
+    for (const mod of [ActivateAccount, DeactivateAccount]) {
+      const res = await post(mod, env, {}, `Bearer ${accessJwt}`);
+      expect(res.status).toBe(401);
+      expect(((await res.json()) as any).error).toBe('AccountTakedown');
+    }
+
+    await post(UpdateSubjectStatus, env, { subject, takedown: { applied: false } });
+    expect(events.at(-1)).toEqual({ path: '/account', body: { did: DID, active: true } });
+    expect((await get(GetRecord, env, `?repo=${DID}&collection=app.bsky.feed.post&rkey=${rkey}`, null)).status).toBe(200);
+    expect((await createPost(env, 'back')).status).toBe(200);
+  });
+
+  test('record takedown hides the record from getRecord', async () => {
+    const { env } = await setup();
+    const created: any = await (await createPost(env, 'hello')).json();
+    const rkey = created.uri.split('/').pop();
+    const subject = { $type: 'com.atproto.repo.strongRef', uri: created.uri, cid: created.cid };
+
+    await post(UpdateSubjectStatus, env, { subject, takedown: { applied: true } });
+    const status: any = await (await get(GetSubjectStatus, env, `?uri=${encodeURIComponent(created.uri)}`)).json();
+    expect(status.takedown).toEqual({ applied: true });
+
+    const res = await get(GetRecord, env, `?repo=${DID}&collection=app.bsky.feed.post&rkey=${rkey}`, null);
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as any).error).toBe('RecordNotFound');
+  });
+
+  test('deleteAccount removes the account and its repo', async () => {
+    const { env, events } = await setup();
+    await createPost(env, 'hello');
+    expect((await post(DeleteAccount, env, { did: DID })).status).toBe(200);
+    expect(events.at(-1)).toEqual({ path: '/account', body: { did: DID, active: false, status: 'deleted' } });
+    expect((await get(GetAccountInfo, env, `?did=${DID}`)).status).toBe(400);
+    const roots: any = await env.DB.prepare('SELECT COUNT(*) AS n FROM repo_root').first();
+    expect(roots.n).toBe(0);
+  });
+});
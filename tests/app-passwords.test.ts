@@ -0,0 +1,70 @@
+/**
+ * App Password Tests
+ * Tests for create/list/revokeAppPassword and app-password sessions
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { makeMigratedEnv } from './helpers/env';
+import { call, login } from './helpers/xrpc';
+import * as RefreshSession from '../src/pages/xrpc/com.atproto.server.refreshSession';
+import * as CreateAppPassword from '../src/pages/xrpc/com.atproto.server.createAppPassword';
+import * as ListAppPasswords from '../src/pages/xrpc/com.atproto.server.listAppPasswords';
+import * as RevokeAppPassword from '../src/pages/xrpc/com.atproto.server.revokeAppPassword';
+
+function jwtScope(jwt: string): string {
+  return JSON.parse(atob(jwt.split('.')[1].replace(/-/g, '+').replace(/_/g, '/'))).scope;
+}
+
+describe('App passwords', () => {
+  test('create, sign in with, list and revoke an app password', async () => {
+    const env = await makeMigratedEnv();
+    const main: any = await (await login(env, 'pwd')).json();
+    expect(jwtScope(main.accessJwt)).toBe('access');
+
+    const created = await call(CreateAppPassword, 'POST', env, { token: main.accessJwt, body: { name: 'client' } });
+    expect(created.status).toBe(200);
+    const { password, privileged }: any = await created.json();
+    expect(password).toMatch(/^[a-z2-7]{4}-[a-z2-7]{4}-[a-z2-7]{4}-[a-z2-7]{4}$/);
+    expect(privileged).toBe(false);
+
+    const dup = await call(CreateAppPassword, 'POST', env, { token: main.accessJwt, body: { name: 'client' } });
+    expect(dup.status).toBe(400);
+
+    const appRes = await login(env, password);
+    expect(appRes.status).toBe(200);
+    const app: any = await appRes.json();
+    expect(jwtScope(app.accessJwt)).toBe('com.atproto.appPass');
+
+    // App-password sessions cannot manage app passwords
+    expect((await call(CreateAppPassword, 'POST', env, { token: app.accessJwt, body: { name: 'x' } })).status).toBe(401);
+    expect((await call(ListAppPasswords, 'GET', env, { token: app.accessJwt })).status).toBe(401);
+
+    const list: any = await (await call(ListAppPasswords, 'GET', env, { token: main.accessJwt })).json();
+    expect(list.passwords.map((p: any) => p.name)).toEqual(['client']);
+    expect(list.passwords[0].password).toBeUndefined();
+
+    // Refreshing keeps the app-password scope
+    const refreshed = await call(RefreshSession, 'POST', env, { token: app.refreshJwt });
+    expect(refreshed.status).toBe(200);
+    const next: any = await refreshed.json();
+    expect(jwtScope(next.accessJwt)).toBe('com.atproto.appPass');
+
+    // Revoking kills the password and every session derived from it
+    expect((await call(RevokeAppPassword, 'POST', env, { token: main.accessJwt, body: { name: 'client' } })).status).toBe(200);
+    expect((await call(RefreshSession, 'POST', env, { token: next.refreshJwt })).status).toBe(401);
+    expect((await login(env, password)).status).toBe(401);
+    expect((await call(RefreshSession, 'POST', env, { token: main.refreshJwt })).status).toBe(200);
+  }, 30000);
+
+  test('privileged app passwords get the privileged scope', async () => {
+    const env = await makeMigratedEnv();
+    const main: any = await (await login(env, 'pwd')).json();
+    const { password }: any = await (
+      await call(CreateAppPassword, 'POST', env, { token: main.accessJwt, body: { name: 'dm', privileged: true } })
+    ).json();
+
+    const app: any = await (await login(env, password)).json();
+    expect(jwtScope(app.accessJwt)).toBe('com.atproto.appPassPrivileged');
+    expect((await call(ListAppPasswords, 'GET', env, { token: app.accessJwt })).status).toBe(200);
+  }, 30000);
+});
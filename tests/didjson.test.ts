@@ -1,5 +1,15 @@
 import { describe, it, expect } from 'bun:test';
+import { Secp256k1Keypair } from '@atproto/crypto';
+import { formatMultikey } from '@atproto/crypto/dist/did';
 import * as Did from '../src/pages/.well-known/did.json';
+import * as RecommendedCredentials from '../src/pages/xrpc/com.atproto.identity.getRecommendedDidCredentials';
+import * as SignPlcOperation from '../src/pages/xrpc/com.atproto.identity.signPlcOperation';
+import * as SubmitPlcOperation from '../src/pages/xrpc/com.atproto.identity.submitPlcOperation';
+import { makeMigratedEnv } from './helpers/env';
+import { recordingSequencer } from './helpers/sequencer';
+import { toHex } from './helpers/xrpc';
+import { issueSessionTokens } from '../src/lib/session-tokens';
+import { rotateSigningKey } from '../src/lib/signing-key-rotation';
 
 function b64(u8: Uint8Array): string {
   let s = '';
@@ -26,3 +36,99 @@ describe('did.json exposes publicKeyMultibase when REPO_SIGNING_KEY is provided'
     expect(vm.publicKeyMultibase.length).toBeGreaterThan(10);
   });
 });
+
+describe('did:web mode', () => {
+  const DID = 'did:web:alice.example.com';
+
+  async function setup() {
+    const key = await Secp256k1Keypair.create({ exportable: true });
+    const sequencer = recordingSequencer();
+    const env = await makeMigratedEnv({
+      PDS_DID: DID,
+      PDS_HANDLE: 'alice.example.com',
+      PDS_HOSTNAME: 'pds.example.com',
+      REPO_SIGNING_KEY: toHex(await key.export()),
+      SEQUENCER: sequencer.binding,
+    } as any);
+    return { env, events: sequencer.events, key };
+  }
+
+  /** Fail the test on any outbound request (e.g. to plc.directory) */
+  async function withoutNetwork<T>(fn: (requests: string[]) => Promise<T>): Promise<T> {
+    const requests: string[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      requests.push(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+      return new Response('unexpected request', { status: 500 });
+    }) as any;
+    try {
+      return await fn(requests);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  }
+
+  async function getDidDoc(env: any): Promise<any> {
+    const req = new Request('https://alice.example.com/.well-known/did.json');
+    const res = await (Did as any).GET({ locals: { runtime: { env } }, request: req });
+    expect(res.status).toBe(200);
+    return res.json();
+  }
+
+  it('serves the stored handle and follows key rotation', async () => {
+    const { env, events, key } = await setup();
+    const now = Date.now();
+    await env.DB.prepare('INSERT INTO account (did, handle, created_at, updated_at) VALUES (?, ?, ?, ?)')
+      .bind(DID, 'new.example.com', now, now)
+      .run();
+
+    const before = await getDidDoc(env);
+    expect(before.id).toBe(DID);
+    expect(before.alsoKnownAs).toEqual(['at://new.example.com']);
+    expect(before.verificationMethod[0].publicKeyMultibase).toBe(formatMultikey(key.jwtAlg, key.publicKeyBytes()));
+    expect(before.service[0].serviceEndpoint).toBe('https://pds.example.com');
+
+    const next = await Secp256k1Keypair.create({ exportable: true });
+    const rotation = await withoutNetwork(async (requests) => {
+      const result = await rotateSigningKey(env, DID, { privateKey: toHex(await next.export()) });
+      expect(requests).toEqual([]);
+      return result;
+    });
+    expect(rotation.plcOperation).toBeNull();
+    expect(events.map((e) => e.path)).toEqual(['/identity', '/sync']);
+
+    const after = await getDidDoc(env);
+    expect(after.verificationMethod[0].publicKeyMultibase).toBe(formatMultikey(next.jwtAlg, next.publicKeyBytes()));
+  }, 30000);
+
+  it('skips PLC for recommended credentials and rejects PLC operations', async () => {
+    const { env, key } = await setup();
+    const { accessJwt } = await issueSessionTokens(env, DID);
+    const call = (mod: any, method: 'GET' | 'POST', body?: unknown) => {
+      const request = new Request(`https://pds.example.com/xrpc/x`, {
+        method,
+        headers: { authorization: `Bearer ${accessJwt}`, 'content-type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      return mod[method]({ locals: { runtime: { env } }, request });
+    };
+
+    await withoutNetwork(async (requests) => {
+      const res = await call(RecommendedCredentials, 'GET');
+      expect(res.status).toBe(200);
+      const credentials: any = await res.json();
+      expect(credentials.rotationKeys).toBeUndefined();
+      expect(credentials.verificationMethods).toEqual({ atproto: key.did() });
+      expect(credentials.services.atproto_pds.endpoint).toBe('https://pds.example.com');
+
+      for (const [mod, body] of [[SignPlcOperation, { token: 'ABCDE-FGHIJ' }], [SubmitPlcOperation, { operation: {} }]]) {
+        const rejected = await call(mod, 'POST', body);
+        expect(rejected.status).toBe(400);
+        const error: any = await rejected.json();
+        expect(error.error).toBe('InvalidRequest');
+        expect(error.message).toContain('did:web');
+      }
+      expect(requests).toEqual([]);
+    });
+  }, 30000);
+});
@@ -0,0 +1,164 @@
+/**
+ * Email Tests
+ * Tests for email transports and the confirmEmail, updateEmail and resetPassword token flows
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { makeEnv, makeMigratedEnv } from './helpers/env';
+import { mailRelay } from './helpers/mail';
+import { call, login } from './helpers/xrpc';
+import { getEmailTransport, outbox as logOutbox } from '../src/lib/email';
+import * as GetSession from '../src/pages/xrpc/com.atproto.server.getSession';
+import * as RequestEmailConfirmation from '../src/pages/xrpc/com.atproto.server.requestEmailConfirmation';
+import * as ConfirmEmail from '../src/pages/xrpc/com.atproto.server.confirmEmail';
+import * as RequestAccountDelete from '../src/pages/xrpc/com.atproto.server.requestAccountDelete';
+import * as RequestEmailUpdate from '../src/pages/xrpc/com.atproto.server.requestEmailUpdate';
+import * as UpdateEmail from '../src/pages/xrpc/com.atproto.server.updateEmail';
+import * as RequestPasswordReset from '../src/pages/xrpc/com.atproto.server.requestPasswordReset';
+import * as ResetPassword from '../src/pages/xrpc/com.atproto.server.resetPassword';
+import * as RefreshSession from '../src/pages/xrpc/com.atproto.server.refreshSession';
+
+const mail = mailRelay();
+const { outbox } = mail;
+const lastToken = () => mail.lastToken();
+
+describe('Email transport', () => {
+  test('picks the transport from configuration', async () => {
+    await expect(getEmailTransport(await makeEnv())).rejects.toThrow('no email transport');
+
+    const sent: any[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      sent.push({ url, auth: (init.headers as Record<string, string>).Authorization, body: JSON.parse(String(init.body)) });
+      return new Response(null, { status: 202 });
+    }) as any;
+    try {
+      const http = await makeEnv({ PDS_EMAIL_HTTP_URL: 'https://mail.example/send', PDS_EMAIL_HTTP_TOKEN: 'k' } as any);
+      await (await getEmailTransport(http)).send({ from: 'a@x.test', to: 'b@x.test', subject: 's', text: 't' });
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+    expect(sent).toEqual([
+      { url: 'https://mail.example/send', auth: 'Bearer k', body: { from: 'a@x.test', to: 'b@x.test', subject: 's', text: 't' } },
+    ]);
+
+    await expect(getEmailTransport(await makeEnv({ PDS_EMAIL_TRANSPORT: 'cloudflare' } as any))).rejects.toThrow();
+  });
+
+  test('the log transport records mail only in development and test', async () => {
+    for (const ENVIRONMENT of [undefined, 'staging', 'production']) {
+      const env = await makeEnv({ PDS_EMAIL_TRANSPORT: 'log', ENVIRONMENT } as any);
+      await expect(getEmailTransport(env)).rejects.toThrow('only allowed with ENVIRONMENT=development or test');
+    }
+
+    const logged: unknown[] = [];
+    const originalLog = console.log;
+    console.log = (...args: unknown[]) => void logged.push(args);
+    try {
+      const transport = await getEmailTransport(await makeEnv({ PDS_EMAIL_TRANSPORT: 'log', ENVIRONMENT: 'test' } as any));
+      await transport.send({ from: 'a@x.test', to: 'b@x.test', subject: 's', text: 'AAAAA-BBBBB' });
+    } finally {
+      console.log = originalLog;
+    }
+    expect(logOutbox[logOutbox.length - 1]).toEqual({ from: 'a@x.test', to: 'b@x.test', subject: 's', text: 'AAAAA-BBBBB' });
+    expect(logged).toEqual([]);
+  });
+});
+
+describe('Email flows', () => {
+  beforeAll(() => mail.install());
+  afterAll(() => mail.restore());
+
+  test('confirm, then change the email with a token', async () => {
+    const env = await makeMigratedEnv(mail.env as any);
+    const session: any = await (await login(env)).json();
+    await env.DB.prepare("UPDATE account SET email = 'me@example.com'").run();
+
+    expect((await call(RequestEmailConfirmation, 'POST', env, { token: session.accessJwt })).status).toBe(200);
+    expect(outbox[outbox.length - 1].to).toBe('me@example.com');
+    const confirmToken = lastToken();
+    const wrong = await call(ConfirmEmail, 'POST', env, { token: session.accessJwt, body: { email: 'me@example.com', token: 'AAAAA-AAAAA' } });
+    expect(((await wrong.json()) as any).error).toBe('InvalidToken');
+    expect((await call(ConfirmEmail, 'POST', env, { token: session.accessJwt, body: { email: 'ME@example.com', token: confirmToken } })).status).toBe(200);
+
+    const info: any = await (await call(GetSession, 'GET', env, { token: session.accessJwt })).json();
+    expect(info.emailConfirmed).toBe(true);
+
+    // A confirmed address can only be changed with a token sent to it
+    const noToken = await call(UpdateEmail, 'POST', env, { token: session.accessJwt, body: { email: 'new@example.com' } });
+    expect(((await noToken.json()) as any).error).toBe('TokenRequired');
+    const requested: any = await (await call(RequestEmailUpdate, 'POST', env, { token: session.accessJwt })).json();
+    expect(requested.tokenRequired).toBe(true);
+    expect((await call(UpdateEmail, 'POST', env, { token: session.accessJwt, body: { email: 'new@example.com', token: lastToken() } })).status).toBe(200);
+
+    const after: any = await (await call(GetSession, 'GET', env, { token: session.accessJwt })).json();
+    expect(after.email).toBe('new@example.com');
+    expect(after.emailConfirmed).toBe(false);
+  }, 30000);
+
+  test('password reset signs out existing sessions', async () => {
+    const env = await makeMigratedEnv(mail.env as any);
+    const session: any = await (await login(env)).json();
+    await env.DB.prepare("UPDATE account SET email = 'me@example.com'").run();
+
+    const sentBefore = outbox.length;
+    expect((await call(RequestPasswordReset, 'POST', env, { body: { email: 'nobody@example.com' } })).status).toBe(200);
+    expect(outbox.length).toBe(sentBefore);
+    expect((await call(RequestPasswordReset, 'POST', env, { body: { email: 'Me@Example.com' } })).status).toBe(200);
+    const token = lastToken();
+
+    expect((await call(ResetPassword, 'POST', env, { body: { token: 'AAAAA-AAAAA', password: 'new-pwd' } })).status).toBe(400);
+    expect((await call(ResetPassword, 'POST', env, { body: { token, password: 'new-pwd' } })).status).toBe(200);
+    expect((await call(ResetPassword, 'POST', env, { body: { token, password: 'other' } })).status).toBe(400);
+
+    expect((await call(RefreshSession, 'POST', env, { token: session.refreshJwt })).status).toBe(401);
+    expect((await login(env, 'pwd')).status).toBe(401);
+    expect((await login(env, 'new-pwd')).status).toBe(200);
+  }, 30000);
+
+  test('password reset requests are rate limited per IP', async () => {
+    const env = await makeMigratedEnv(mail.env as any);
+    const reset = (ip: string) =>
+      RequestPasswordReset.POST({
+        locals: { runtime: { env } },
+        request: new Request('http://localhost/xrpc/test', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', 'cf-connecting-ip': ip },
+          body: JSON.stringify({ email: 'nobody@example.com' }),
+        }),
+      } as any) as Promise<Response>;
+    for (let i = 0; i < 5; i++) expect((await reset('192.0.2.1')).status).toBe(200);
+    expect((await reset('192.0.2.1')).status).toBe(429);
+    expect((await reset('192.0.2.2')).status).toBe(200);
+  });
+});
+
+describe('Email tokens without mail', () => {
+  test('are never logged: requests fail without an address or a transport', async () => {
+    const logged: string[] = [];
+    const { log, warn } = console;
+    console.log = (...args: unknown[]) => { logged.push(args.join(' ')); };
+    console.warn = (...args: unknown[]) => { logged.push(args.join(' ')); };
+    try {
+      const env = await makeMigratedEnv();
+      const session: any = await (await login(env)).json();
+      const noAddress = await call(RequestAccountDelete, 'POST', env, { token: session.accessJwt });
+      expect(noAddress.status).toBe(400);
+      expect(((await noAddress.json()) as any).error).toBe('InvalidRequest');
+
+      await env.DB.prepare("UPDATE account SET email = 'me@example.com'").run();
+      const noTransport = await call(RequestAccountDelete, 'POST', env, { token: session.accessJwt });
+      expect(noTransport.status).toBe(501);
+      expect(((await noTransport.json()) as any).error).toBe('EmailNotConfigured');
+
+      // Known and unknown addresses fail alike
+      for (const email of ['me@example.com', 'nobody@example.com']) {
+        expect((await call(RequestPasswordReset, 'POST', env, { body: { email } })).status).toBe(501);
+      }
+    } finally {
+      console.log = log;
+      console.warn = warn;
+    }
+    expect(logged.filter((line) => /[A-Z2-7]{5}-[A-Z2-7]{5}/.test(line))).toEqual([]);
+  }, 30000);
+});
@@ -0,0 +1,140 @@
+/**
+ * Firehose Inversion Tests (sync v1.1)
+ * Each #commit frame must carry enough MST nodes to invert its ops against the
+ * new root and arrive back at prevData, without fetching the rest of the repo.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { CID } from 'multiformats/cid';
+import * as dagCbor from '@ipld/dag-cbor';
+import { sha256 } from 'multiformats/hashes/sha2';
+import { parseCarFile } from '../src/lib/car-reader';
+import { MST, type ReadableBlockstore } from '../src/lib/mst';
+import { RepoManager } from '../src/services/repo-manager';
+import { bumpRoot } from '../src/db/repo';
+import type { RepoOp } from '../src/lib/firehose/frames';
+import { fakeSocket, decodeFrame, makeSequencer, post } from './helpers/sequencer';
+
+class MemoryBlockstore implements ReadableBlockstore {
+  constructor(private readonly blocks: Map<string, Uint8Array>) {}
+
+  async get(cid: CID) {
+    return this.blocks.get(cid.toString()) ?? null;
+  }
+
+  async has(cid: CID) {
+    return this.blocks.has(cid.toString());
+  }
+
+  async getMany(cids: CID[]) {
+    const blocks = new Map<string, Uint8Array>();
+    const missing: CID[] = [];
+    for (const cid of cids) {
+      const bytes = this.blocks.get(cid.toString());
+      if (bytes) blocks.set(cid.toString(), bytes);
+      else missing.push(cid);
+    }
+    return { blocks, missing };
+  }
+
+  async readObj<T>(cid: CID): Promise<T> {
+    const bytes = this.blocks.get(cid.toString());
+    if (!bytes) throw new Error(`Block not in commit CAR: ${cid.toString()}`);
+    return dagCbor.decode(bytes) as T;
+  }
+}
+
+/**
+ * Invert a commit frame using only its own blocks; returns the recomputed previous MST root
+ */
+async function invertCommit(frame: { commit: CID; blocks: Uint8Array; ops: RepoOp[] }): Promise<CID> {
+  const { blocks } = parseCarFile(frame.blocks);
+  const store = new MemoryBlockstore(new Map(blocks.map((b) => [b.cid.toString(), b.bytes])));
+  const commit = await store.readObj<{ data: CID }>(frame.commit);
+
+  let mst = MST.load(store, commit.data);
+  for (const op of [...frame.ops].reverse()) {
+    if (op.action === 'create') {
+      mst = await mst.delete(op.path);
+    } else if (op.action === 'update') {
+      mst = await mst.update(op.path, op.prev!);
+    } else {
+      mst = await mst.add(op.path, op.prev!);
+    }
+  }
+  return mst.getPointer();
+}
+
+async function makeRepo() {
+  const { env, sequencer } = await makeSequencer();
+  return { env, sequencer, repo: new RepoManager(env) };
+}
+
+function post_(text: string) {
+  return { $type: 'app.bsky.feed.post', text, createdAt: '2024-01-01T00:00:00.000Z' };
+}
+
+describe('Firehose commit inversion', () => {
+  test('every commit inverts to its prevData using only the frame blocks', async () => {
+    const { env, sequencer, repo } = await makeRepo();
+    const notify = (c: { commitCid: string; rev: string; commitData: string; sig: string; ops: RepoOp[]; blocks: string }) =>
+      post(sequencer, '/commit', {
+        did: env.PDS_DID,
+        commitCid: c.commitCid,
+        rev: c.rev,
+        data: c.commitData,
+        sig: c.sig,
+        ops: c.ops,
+        blocks: c.blocks,
+      });
+
+    // Enough keys to get a multi-level tree, so deletes merge subtrees
+    const rkeys = Array.from({ length: 40 }, (_, i) => `3l4${String(i).padStart(4, '0')}aaaaaa`);
+    for (const rkey of rkeys) {
+      await notify(await repo.createRecord('app.bsky.feed.post', post_(rkey), rkey));
+    }
+    for (const rkey of rkeys.slice(0, 5)) {
+      await notify(await repo.putRecord('app.bsky.feed.post', rkey, post_(`${rkey} edited`)));
+    }
+    for (const rkey of rkeys.filter((_, i) => i % 3 === 0)) {
+      const { mst, prevMstRoot, prevRecordCid, newMstBlocks } = await repo.deleteRecord('app.bsky.feed.post', rkey);
+      const ops: RepoOp[] = [{ action: 'delete', path: `app.bsky.feed.post/${rkey}`, cid: null, prev: prevRecordCid! }];
+      const commit = await bumpRoot(env, prevMstRoot ?? undefined, await mst.getPointer(), {
+        ops,
+        newMstBlocks: Array.from(newMstBlocks),
+      });
+      await notify({ ...commit, ops });
+    }
+
+    const ws = fakeSocket(0);
+    await (sequencer as any).replayFromCursor(ws, 0);
+    const commits = ws.sent.map(decodeFrame).filter((f) => f.type === '#commit').map((f) => f.body);
+    expect(commits).toHaveLength(40 + 5 + 14);
+
+    for (const [i, commit] of commits.entries()) {
+      if (i === 0) {
+        expect(commit.prevData).toBeUndefined();
+        continue;
+      }
+      const prevRoot = CID.asCID(commit.prevData);
+      expect(prevRoot).not.toBeNull();
+      expect((await invertCommit(commit)).equals(prevRoot!)).toBe(true);
+    }
+  }, 60000);
+
+  test('covering proofs include the nodes a delete merges', async () => {
+    let mst = await MST.create(new MemoryBlockstore(new Map()), []);
+    const keys = Array.from({ length: 40 }, (_, i) => `app.bsky.feed.post/3l4${String(i).padStart(4, '0')}aaaaaa`);
+    const value = CID.createV1(dagCbor.code, await sha256.digest(dagCbor.encode(post_('x'))));
+    for (const key of keys) mst = await mst.add(key, value);
+
+    const root = await mst.getPointer();
+    for (const key of keys) {
+      const proof = await mst.getCoveringProof(key);
+      const proved = MST.load(new MemoryBlockstore(new Map(Array.from(proof).map(([cid, bytes]) => [cid.toString(), bytes]))), root);
+      const removed = await proved.delete(key);
+      const expected = await mst.delete(key);
+      expect((await removed.getPointer()).equals(await expected.getPointer())).toBe(true);
+    }
+  });
+});
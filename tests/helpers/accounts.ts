@@ -0,0 +1,54 @@
+import { Secp256k1Keypair } from '@atproto/crypto';
+import type { Env } from '../../src/env';
+import * as CreateAccount from '../../src/pages/xrpc/com.atproto.server.createAccount';
+import { makeMigratedEnv } from './env';
+import { recordingSequencer } from './sequencer';
+import { call, toHex } from './xrpc';
+
+/**
+ * A migrated env for pds.example.com with a PLC rotation key, in multi-account
+ * or single-user mode, and the firehose events it emits
+ */
+export async function setupAccounts(multiAccount: boolean, overrides: Partial<Env> = {}) {
+  const rotationKey = await Secp256k1Keypair.create({ exportable: true });
+  const signingKey = await Secp256k1Keypair.create({ exportable: true });
+  const sequencer = recordingSequencer();
+  const env = await makeMigratedEnv({
+    PDS_HOSTNAME: 'pds.example.com',
+    PDS_MULTI_ACCOUNT: multiAccount ? 'true' : 'false',
+    REPO_SIGNING_KEY: toHex(await signingKey.export()),
+    PDS_PLC_ROTATION_KEY: toHex(await rotationKey.export()),
+    SEQUENCER: sequencer.binding,
+    ...overrides,
+  } as any);
+  return { env, events: sequencer.events, rotationKey };
+}
+
+/**
+ * Fake plc.directory that accepts (or with `reject`, refuses) and records
+ * genesis operations
+ */
+export async function withPlc<T>(fn: (submitted: Array<{ did: string; op: any }>) => Promise<T>, opts: { reject?: boolean } = {}): Promise<T> {
+  const submitted: Array<{ did: string; op: any }> = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+    if (url.hostname === 'plc.directory' && init?.method === 'POST') {
+      submitted.push({ did: decodeURIComponent(url.pathname.slice(1)), op: JSON.parse(String(init.body)) });
+      return opts.reject ? new Response('invalid operation', { status: 400 }) : new Response('ok');
+    }
+    return new Response('not found', { status: 404 });
+  }) as any;
+  try {
+    return await fn(submitted);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+/**
+ * createAccount with a password derived from the handle
+ */
+export function signup(env: Env, handle: string, inviteCode: string) {
+  return call(CreateAccount, 'POST', env, { body: { handle, password: `${handle}-password`, inviteCode } });
+}
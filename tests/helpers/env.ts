@@ -1,5 +1,6 @@
 import { Miniflare } from "miniflare";
 import type { Env } from "../../src/env";
+import { applyMigrations } from "./migrations";
 
 export async function makeEnv(overrides: Partial<Env> = {}): Promise<Env> {
   const mf = new Miniflare({
@@ -34,3 +35,12 @@ export const ctx = {
   waitUntil: (_p: Promise<any>) => {},
   passThroughOnException: () => {},
 } as unknown as ExecutionContext;
+
+/**
+ * makeEnv with the schema built from migrations/
+ */
+export async function makeMigratedEnv(overrides: Partial<Env> = {}): Promise<Env> {
+  const env = await makeEnv(overrides);
+  await applyMigrations(env.DB);
+  return env;
+}
@@ -0,0 +1,37 @@
+import type { OutgoingEmail } from '../../src/lib/email';
+
+export const MAIL_RELAY_URL = 'https://mail.test/send';
+
+/**
+ * An SMTP-over-HTTP relay for the `http` email transport: pass `env` to
+ * makeEnv, install() while the test sends mail, and read what was sent from
+ * `outbox`. Other requests go to whatever fetch was installed before.
+ */
+export function mailRelay() {
+  const outbox: OutgoingEmail[] = [];
+  let previous: typeof fetch | null = null;
+
+  return {
+    env: { PDS_EMAIL_HTTP_URL: MAIL_RELAY_URL },
+    outbox,
+    install() {
+      const fallback = (previous = globalThis.fetch);
+      globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+        const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+        if (url !== MAIL_RELAY_URL) return fallback(input, init);
+        outbox.push(JSON.parse(String(init?.body)));
+        return new Response(null, { status: 202 });
+      }) as typeof fetch;
+    },
+    restore() {
+      if (previous) globalThis.fetch = previous;
+      previous = null;
+    },
+    /** The one-time token in the latest message */
+    lastToken(): string {
+      const match = outbox[outbox.length - 1]?.text.match(/[A-Z2-7]{5}-[A-Z2-7]{5}/);
+      if (!match) throw new Error('no token in outbox');
+      return match[0];
+    },
+  };
+}
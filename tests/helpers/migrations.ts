@@ -0,0 +1,29 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+const MIGRATIONS_DIR = join(import.meta.dir, '../../migrations');
+
+let statements: string[] | null = null;
+
+/**
+ * Every statement of migrations/*.sql in order, split the way drizzle-kit
+ * writes them
+ */
+function migrationStatements(): string[] {
+  if (!statements) {
+    statements = readdirSync(MIGRATIONS_DIR)
+      .filter((name) => name.endsWith('.sql'))
+      .sort()
+      .flatMap((name) => readFileSync(join(MIGRATIONS_DIR, name), 'utf8').split('--> statement-breakpoint'))
+      .map((sql) => sql.trim())
+      .filter(Boolean);
+  }
+  return statements;
+}
+
+/**
+ * Build the production schema in a test database
+ */
+export async function applyMigrations(db: D1Database): Promise<void> {
+  await db.batch(migrationStatements().map((sql) => db.prepare(sql)));
+}
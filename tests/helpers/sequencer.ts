@@ -0,0 +1,71 @@
+import { Sequencer } from '../../src/worker/sequencer';
+import { parseFramedFrame } from '../../src/lib/firehose/parse';
+import { makeMigratedEnv } from './env';
+
+export function makeState() {
+  const storage = new Map<string, unknown>();
+  const sockets: any[] = [];
+  let ready: Promise<unknown> = Promise.resolve();
+  return {
+    storage: {
+      get: async (key: string) => storage.get(key),
+      put: async (key: string, value: unknown) => { storage.set(key, value); },
+    },
+    blockConcurrencyWhile: (fn: () => Promise<unknown>) => { ready = fn(); return ready; },
+    getWebSockets: () => sockets,
+    acceptWebSocket: (ws: any) => sockets.push(ws),
+    get ready() { return ready; },
+    sockets,
+  };
+}
+
+export function fakeSocket(cursor: number) {
+  const sent: Uint8Array[] = [];
+  return {
+    sent,
+    send: (bytes: Uint8Array) => { sent.push(bytes); },
+    deserializeAttachment: () => ({ cursor }),
+  };
+}
+
+export function decodeFrame(bytes: Uint8Array): { type: string; body: any } {
+  const framed = new Uint8Array(bytes.length + 4);
+  new DataView(framed.buffer).setUint32(0, bytes.length);
+  framed.set(bytes, 4);
+  const { header, body } = parseFramedFrame<any>(framed);
+  return { type: header.t as string, body };
+}
+
+export async function makeSequencer() {
+  const env = await makeMigratedEnv();
+  const state = makeState();
+  const sequencer = new Sequencer(state as any, env as any);
+  await state.ready;
+  return { env, state, sequencer };
+}
+
+export function post(sequencer: Sequencer, path: string, body: unknown) {
+  return sequencer.fetch(new Request(`https://sequencer${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  }));
+}
+
+/**
+ * A SEQUENCER binding that records what the PDS posts to it instead of
+ * sequencing it
+ */
+export function recordingSequencer() {
+  const events: Array<{ path: string; body: any }> = [];
+  const binding = {
+    idFromName: () => 'default',
+    get: () => ({
+      fetch: async (url: string, init?: RequestInit) => {
+        events.push({ path: new URL(url).pathname, body: init?.body ? JSON.parse(String(init.body)) : null });
+        return new Response('ok');
+      },
+    }),
+  };
+  return { binding: binding as any, events };
+}
@@ -0,0 +1,42 @@
+import type { Env } from '../../src/env';
+import * as CreateSession from '../../src/pages/xrpc/com.atproto.server.createSession';
+
+export interface CallOptions {
+  /** Bearer token */
+  token?: string;
+  /** Authorization header, when it is not a bearer token */
+  authorization?: string | null;
+  body?: unknown;
+  /** Query string, including the leading `?` */
+  query?: string;
+}
+
+/**
+ * Invoke an XRPC page handler the way the Astro adapter does
+ */
+export function call(mod: any, method: 'GET' | 'POST', env: Env, opts: CallOptions = {}): Promise<Response> {
+  const headers: Record<string, string> = { 'content-type': 'application/json' };
+  const authorization = opts.token ? `Bearer ${opts.token}` : opts.authorization;
+  if (authorization) headers.authorization = authorization;
+  const url = new URL(`http://localhost/xrpc/test${opts.query ?? ''}`);
+  return mod[method]({
+    locals: { runtime: { env } },
+    url,
+    request: new Request(url, {
+      method,
+      headers,
+      ...(method === 'POST' ? { body: JSON.stringify(opts.body ?? {}) } : {}),
+    }),
+  }) as Promise<Response>;
+}
+
+/**
+ * createSession for the single-user account set up by makeEnv
+ */
+export function login(env: Env, password = 'pwd', identifier = 'test.example'): Promise<Response> {
+  return call(CreateSession, 'POST', env, { body: { identifier, password } });
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
@@ -5,9 +5,10 @@
  * - DID document generation
  * - Handle validation and normalization
  * - Handle update flow
+ * - Remote handle / DID resolution and its cache
  */
 
-import { describe, test, expect } from 'bun:test';
+import { describe, test, expect, setSystemTime } from 'bun:test';
 import {
   isValidHandle,
   normalizeHandle,
@@ -15,6 +16,14 @@ import {
   getHandleDomain,
   isSubdomain
 } from '../src/lib/handle';
+import { didDocumentCache, handleCache, resolveHandleToDid, resolveIdentity, resolveDid, IDENTITY_CACHE_STALE_MS } from '../src/lib/identity';
+import { createAccount } from '../src/db/account';
+import { makeMigratedEnv } from './helpers/env';
+import { recordingSequencer } from './helpers/sequencer';
+import { call, login } from './helpers/xrpc';
+import * as UpdateHandle from '../src/pages/xrpc/com.atproto.identity.updateHandle';
+import * as ResolveHandle from '../src/pages/xrpc/com.atproto.identity.resolveHandle';
+import * as DescribeRepo from '../src/pages/xrpc/com.atproto.repo.describeRepo';
 
 describe('Handle Validation', () => {
   test('Valid handles', () => {
@@ -104,4 +113,184 @@ describe('DID Document', () => {
     // Test will be implemented with cache verification
     expect(true).toBe(true);
   });
-});
\ No newline at end of file
+});
+
+interface FakeNetwork {
+  txt?: Record<string, string[]>;
+  wellKnown?: Record<string, string>;
+  /** PLC directory documents by DID */
+  docs?: Record<string, unknown>;
+  /** Every requested URL is appended here */
+  requests?: string[];
+}
+
+/** Serve DoH TXT answers, well-known responses and PLC documents from fixed tables */
+async function withFakeNetwork<T>(net: FakeNetwork, fn: () => Promise<T>): Promise<T> {
+  const { txt = {}, wellKnown = {}, docs = {}, requests = [] } = net;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+    requests.push(url.href);
+    if (url.hostname === 'cloudflare-dns.com') {
+      const answers = (txt[url.searchParams.get('name') ?? ''] ?? []).map((data) => ({ type: 16, data: `"${data}"` }));
+      return Response.json({ Answer: answers });
+    }
+    if (url.pathname === '/.well-known/atproto-did' && wellKnown[url.hostname]) {
+      return new Response(wellKnown[url.hostname]);
+    }
+    const did = decodeURIComponent(url.pathname.slice(1));
+    if (url.hostname === 'plc.directory' && docs[did]) {
+      return Response.json(docs[did]);
+    }
+    return new Response('not found', { status: 404 });
+  }) as any;
+  try {
+    return await fn();
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+describe('Handle Resolution', () => {
+  test('DNS TXT record', async () => {
+    const resolveTxt = async (name: string) => (name === '_atproto.alice.example.com' ? ['did=did:plc:alice'] : []);
+    expect(await resolveHandleToDid('alice.example.com', { resolveTxt })).toBe('did:plc:alice');
+  });
+
+  test('Conflicting TXT records fall back to HTTPS', async () => {
+    const resolveTxt = async () => ['did=did:plc:one', 'did=did:plc:two'];
+    const did = await withFakeNetwork({ wellKnown: { 'alice.example.com': 'did:plc:web\n' } }, () =>
+      resolveHandleToDid('alice.example.com', { resolveTxt }),
+    );
+    expect(did).toBe('did:plc:web');
+    expect(await withFakeNetwork({}, () => resolveHandleToDid('nobody.example.com', { resolveTxt }))).toBeNull();
+  });
+});
+
+describe('Identity Resolver', () => {
+  async function setup() {
+    const env = await makeMigratedEnv({ PDS_HANDLE: 'local.example.com' } as any);
+    handleCache.clear();
+    didDocumentCache.clear();
+    return env;
+  }
+
+  const plcDoc = (did: string, handle: string) => ({ id: did, alsoKnownAs: [`at://${handle}`], service: [] });
+
+  test('handle and DID document must agree', async () => {
+    const env = await setup();
+    const net = {
+      txt: {
+        '_atproto.alice.example.com': ['did=did:plc:alice'],
+        '_atproto.mallory.example.com': ['did=did:plc:bob'],
+      },
+      docs: {
+        'did:plc:alice': plcDoc('did:plc:alice', 'alice.example.com'),
+        'did:plc:bob': plcDoc('did:plc:bob', 'bob.example.com'),
+      },
+    };
+
+    await withFakeNetwork(net, async () => {
+      expect(await resolveIdentity(env, 'Alice.Example.com')).toMatchObject({ did: 'did:plc:alice', handle: 'alice.example.com' });
+      expect(await resolveIdentity(env, 'did:plc:alice')).toMatchObject({ did: 'did:plc:alice', handle: 'alice.example.com' });
+      // bob.example.com has no TXT record pointing back at did:plc:bob
+      expect(await resolveIdentity(env, 'did:plc:bob')).toMatchObject({ did: 'did:plc:bob', handle: null });
+      expect(await resolveIdentity(env, 'mallory.example.com')).toMatchObject({ did: 'did:plc:bob', handle: null });
+
+      const get = (handle: string) =>
+        ResolveHandle.GET({ locals: { runtime: { env } }, url: new URL(`http://localhost/xrpc/x?handle=${handle}`) } as any) as Promise<Response>;
+      const ok = await get('alice.example.com');
+      expect(ok.status).toBe(200);
+      expect(((await ok.json()) as any).did).toBe('did:plc:alice');
+      const mismatch = await get('mallory.example.com');
+      expect(mismatch.status).toBe(400);
+      expect(((await mismatch.json()) as any).error).toBe('InvalidRequest');
+    });
+  }, 30000);
+
+  test('serves cached results and refreshes stale ones in the background', async () => {
+    const env = await setup();
+    const requests: string[] = [];
+    const docs: Record<string, unknown> = { 'did:plc:alice': plcDoc('did:plc:alice', 'alice.example.com') };
+
+    await withFakeNetwork({ docs, requests }, async () => {
+      await resolveDid(env, 'did:plc:alice');
+      expect((await resolveDid(env, 'did:plc:alice'))?.alsoKnownAs).toEqual(['at://alice.example.com']);
+      expect(requests).toHaveLength(1);
+
+      // Misses are cached too
+      expect(await resolveDid(env, 'did:plc:missing')).toBeNull();
+      expect(await resolveDid(env, 'did:plc:missing')).toBeNull();
+      expect(requests).toHaveLength(2);
+
+      docs['did:plc:alice'] = plcDoc('did:plc:alice', 'alice2.example.com');
+      setSystemTime(new Date(Date.now() + IDENTITY_CACHE_STALE_MS + 1));
+      try {
+        const pending: Promise<unknown>[] = [];
+        const stale = await resolveDid(env, 'did:plc:alice', { waitUntil: (p) => pending.push(p) });
+        expect(stale?.alsoKnownAs).toEqual(['at://alice.example.com']);
+        expect(pending).toHaveLength(1);
+        await Promise.all(pending);
+        expect((await resolveDid(env, 'did:plc:alice'))?.alsoKnownAs).toEqual(['at://alice2.example.com']);
+        expect(requests).toHaveLength(3);
+      } finally {
+        setSystemTime();
+      }
+    });
+  }, 30000);
+});
+
+describe('Handle Update', () => {
+  async function setup(overrides: Record<string, string> = {}) {
+    const sequencer = recordingSequencer();
+    const env = await makeMigratedEnv({ SEQUENCER: sequencer.binding, ...overrides } as any);
+    const session: any = await (await login(env)).json();
+    const update = (handle: string) => call(UpdateHandle, 'POST', env, { token: session.accessJwt, body: { handle } });
+    return { env, events: sequencer.events, update };
+  }
+
+  test('stores a verified handle and emits #identity', async () => {
+    const { env, events, update } = await setup();
+    const res = await withFakeNetwork({ txt: { '_atproto.new.example.com': ['did=did:example:test'] } }, () =>
+      update('New.Example.com'),
+    );
+    expect(res.status).toBe(200);
+    expect(events).toEqual([{ path: '/identity', body: { did: 'did:example:test', handle: 'new.example.com' } }]);
+
+    const get = (mod: any, url: string) => mod.GET({ locals: { runtime: { env } }, url: new URL(url) }) as Promise<Response>;
+    const resolved: any = await (await get(ResolveHandle, 'http://localhost/xrpc/x?handle=new.example.com')).json();
+    expect(resolved.did).toBe('did:example:test');
+    const described: any = await (await get(DescribeRepo, 'http://localhost/xrpc/x')).json();
+    expect(described.handle).toBe('new.example.com');
+  }, 30000);
+
+  test('moves between handles on the service domains without external resolution', async () => {
+    const { env, events, update } = await setup({ PDS_HOSTNAME: 'pds.example.com' });
+    await createAccount(env, { did: 'did:plc:someoneelse', handle: 'taken.pds.example.com', passwordScrypt: null });
+    const requests: string[] = [];
+
+    await withFakeNetwork({ requests }, async () => {
+      expect((await update('a.pds.example.com')).status).toBe(200);
+      expect((await update('b.pds.example.com')).status).toBe(200);
+      const taken = await update('taken.pds.example.com');
+      expect(taken.status).toBe(400);
+      expect(((await taken.json()) as any).error).toBe('HandleNotAvailable');
+    });
+    expect(requests).toEqual([]);
+    expect(events.map((e: any) => e.body.handle)).toEqual(['a.pds.example.com', 'b.pds.example.com']);
+
+    const get = (mod: any, url: string) => mod.GET({ locals: { runtime: { env } }, url: new URL(url) }) as Promise<Response>;
+    const described: any = await (await get(DescribeRepo, 'http://localhost/xrpc/x')).json();
+    expect(described.handle).toBe('b.pds.example.com');
+  }, 30000);
+
+  test('rejects a handle that does not resolve to the account', async () => {
+    const { events, update } = await setup();
+    const res = await withFakeNetwork({ txt: { '_atproto.other.example.com': ['did=did:plc:someoneelse'] } }, () =>
+      update('other.example.com'),
+    );
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as any).error).toBe('InvalidHandle');
+    expect(events).toEqual([]);
+  }, 30000);
+});
@@ -7,8 +7,14 @@ import { describe, test, expect, beforeEach } from 'bun:test';
 import { CID } from 'multiformats/cid';
 import * as dagCbor from '@ipld/dag-cbor';
 import { sha256 } from 'multiformats/hashes/sha2';
+import { Secp256k1Keypair } from '@atproto/crypto';
 import { parseCarFile } from '../src/lib/car-reader';
 import { encodeBlocksToCAR } from '../src/services/car';
+import { D1Blockstore, MST } from '../src/lib/mst';
+import { createCommit, signCommit, commitCid as computeCommitCid, serializeCommit } from '../src/lib/commit';
+import { importRepo } from '../src/lib/repo-import';
+import { InvalidRequest } from '../src/lib/errors';
+import { makeMigratedEnv } from './helpers/env';
 
 describe('Repository Import', () => {
   describe('CAR File Parsing', () => {
@@ -350,4 +356,129 @@ describe('Repository Import', () => {
       expect(decoded.data).toBeUndefined();
     });
   });
-});
\ No newline at end of file
+});
+
+
+async function buildRepoCar(did: string, signingKey: string, count: number) {
+  const blocks: { cid: CID; bytes: Uint8Array }[] = [];
+  let mst = await MST.create({ has: async () => false } as any, []);
+  for (let i = 0; i < count; i++) {
+    const value = { $type: 'app.bsky.feed.post', text: `post ${i}`, createdAt: '2024-01-01T00:00:00.000Z' };
+    const bytes = dagCbor.encode(value);
+    const cid = CID.createV1(dagCbor.code, await sha256.digest(bytes));
+    blocks.push({ cid, bytes });
+    mst = await mst.add(`app.bsky.feed.post/${String(i).padStart(6, '0')}`, cid);
+  }
+  const { root, blocks: mstBlocks } = await mst.getUnstoredBlocks();
+  for (const [cid, bytes] of mstBlocks) blocks.push({ cid, bytes });
+
+  const signed = await signCommit(createCommit(did, root, '3l4example22a'), signingKey);
+  const cid = await computeCommitCid(signed);
+  return { commitCid: cid, car: encodeBlocksToCAR(cid, [{ cid, bytes: serializeCommit(signed) }, ...blocks]) };
+}
+
+async function newSigningKey(): Promise<string> {
+  const kp = await Secp256k1Keypair.create({ exportable: true });
+  return Buffer.from(await kp.export()).toString('hex');
+}
+
+describe('importRepo', () => {
+  test('imports across several calls and resumes from saved progress', async () => {
+    const key = await newSigningKey();
+    const env = await makeMigratedEnv({ REPO_SIGNING_KEY: key } as any);
+    const { commitCid, car } = await buildRepoCar('did:example:test', key, 150);
+
+    // A zero budget yields after every batch
+    let calls = 0;
+    let result = await importRepo(env, car, { timeBudgetMs: 0, syncMaxBlocks: 0 });
+    calls++;
+    expect(result.complete).toBe(false);
+    expect(result.progress.status).toBe('blocks');
+    expect(result.progress.blocksDone).toBe(100);
+
+    while (!result.complete && calls < 20) {
+      result = await importRepo(env, car, { timeBudgetMs: 0, syncMaxBlocks: 0 });
+      calls++;
+    }
+    expect(result.complete).toBe(true);
+    expect(calls).toBeGreaterThan(2);
+    expect(result.progress.recordsDone).toBe(150);
+
+    const count: any = await env.DB.prepare('SELECT COUNT(*) AS n FROM record WHERE did = ?').bind('did:example:test').first();
+    expect(count.n).toBe(150);
+    const rec: any = await env.DB.prepare('SELECT json FROM record WHERE uri = ?')
+      .bind('at://did:example:test/app.bsky.feed.post/000042').first();
+    expect(JSON.parse(rec.json).text).toBe('post 42');
+
+    const root: any = await env.DB.prepare('SELECT commit_cid, rev FROM repo_root WHERE did = ?').bind('did:example:test').first();
+    expect(root.commit_cid).toBe(commitCid.toString());
+    expect(root.rev).toBe('3l4example22a');
+
+    // Re-sending a completed CAR is a no-op
+    const again = await importRepo(env, car);
+    expect(again.complete).toBe(true);
+    const logged: any = await env.DB.prepare('SELECT COUNT(*) AS n FROM commit_log').first();
+    expect(logged.n).toBe(1);
+  });
+
+  test('imports a CAR within the sync limit in one call regardless of the budget', async () => {
+    const key = await newSigningKey();
+    const env = await makeMigratedEnv({ REPO_SIGNING_KEY: key, PDS_IMPORT_TIME_BUDGET_MS: '1' } as any);
+    const { car } = await buildRepoCar('did:example:test', key, 150);
+
+    const result = await importRepo(env, car);
+    expect(result.complete).toBe(true);
+    expect(result.progress.recordsDone).toBe(150);
+
+    // Above the limit the budget applies again
+    const other = await makeMigratedEnv({ REPO_SIGNING_KEY: key, PDS_IMPORT_TIME_BUDGET_MS: '1', PDS_IMPORT_SYNC_MAX_BLOCKS: '100' } as any);
+    expect((await importRepo(other, car)).complete).toBe(false);
+  });
+
+  test('restarts when a different CAR is sent', async () => {
+    const key = await newSigningKey();
+    const env = await makeMigratedEnv({ REPO_SIGNING_KEY: key } as any);
+    const first = await buildRepoCar('did:example:test', key, 150);
+    await importRepo(env, first.car, { timeBudgetMs: 0, syncMaxBlocks: 0 });
+
+    const second = await buildRepoCar('did:example:test', key, 3);
+    const result = await importRepo(env, second.car);
+    expect(result.complete).toBe(true);
+    expect(result.progress.commitCid).toBe(second.commitCid.toString());
+    const count: any = await env.DB.prepare('SELECT COUNT(*) AS n FROM record').first();
+    expect(count.n).toBe(3);
+  });
+
+  test('rejects a repo for another DID', async () => {
+    const key = await newSigningKey();
+    const env = await makeMigratedEnv({ REPO_SIGNING_KEY: key } as any);
+    const { car } = await buildRepoCar('did:example:other', key, 1);
+    await expect(importRepo(env, car)).rejects.toBeInstanceOf(InvalidRequest);
+  });
+
+  test('rejects blocks whose bytes do not match their CID and never replaces stored blocks', async () => {
+    const key = await newSigningKey();
+    const env = await makeMigratedEnv({ REPO_SIGNING_KEY: key } as any);
+    const victim = { text: 'already stored' };
+    const victimBytes = dagCbor.encode(victim);
+    const victimCid = CID.createV1(dagCbor.code, await sha256.digest(victimBytes));
+    await new D1Blockstore(env).put(victimCid, victimBytes);
+
+    const { commitCid, car } = await buildRepoCar('did:example:test', key, 2);
+    const { blocks } = parseCarFile(car);
+    const forged = encodeBlocksToCAR(commitCid, [...blocks, { cid: victimCid, bytes: dagCbor.encode({ text: 'forged' }) }]);
+    await expect(importRepo(env, forged)).rejects.toThrow('does not match its CID');
+    expect(await new D1Blockstore(env).readObj<typeof victim>(victimCid)).toEqual(victim);
+    const pending: any = await env.DB.prepare('SELECT COUNT(*) AS n FROM repo_import').first();
+    expect(pending.n).toBe(0);
+
+    // The genuine CAR still imports afterwards
+    expect((await importRepo(env, car)).complete).toBe(true);
+  });
+
+  test('rejects a commit signed by an unknown key', async () => {
+    const env = await makeMigratedEnv({ REPO_SIGNING_KEY: await newSigningKey() } as any);
+    const { car } = await buildRepoCar('did:example:test', await newSigningKey(), 1);
+    await expect(importRepo(env, car)).rejects.toBeInstanceOf(InvalidRequest);
+  });
+});
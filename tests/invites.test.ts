@@ -0,0 +1,105 @@
+/**
+ * Invite Code Tests
+ * Minting codes, per-account allowances and redemption by createAccount
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { setupAccounts, signup, withPlc } from './helpers/accounts';
+import { call } from './helpers/xrpc';
+import type { Env } from '../src/env';
+import { createInviteCode, getInviteCodeUses } from '../src/db/invite';
+import { issueSessionTokens } from '../src/lib/session-tokens';
+import { validateConfig } from '../src/lib/config';
+import * as CreateInviteCode from '../src/pages/xrpc/com.atproto.server.createInviteCode';
+import * as CreateInviteCodes from '../src/pages/xrpc/com.atproto.server.createInviteCodes';
+import * as GetAccountInviteCodes from '../src/pages/xrpc/com.atproto.server.getAccountInviteCodes';
+import * as CreateAccount from '../src/pages/xrpc/com.atproto.server.createAccount';
+import * as DescribeServer from '../src/pages/xrpc/com.atproto.server.describeServer';
+
+function post(mod: any, env: Env, body: unknown, token?: string): Promise<Response> {
+  return call(mod, 'POST', env, { body, token });
+}
+
+function get(mod: any, env: Env, query = '', token?: string): Promise<Response> {
+  return call(mod, 'GET', env, { query, token });
+}
+
+describe('Invite codes', () => {
+  test('the invite is redeemed before the DID is registered and given back when signup fails', async () => {
+    const { env } = await setupAccounts(true);
+    await createInviteCode(env, { code: 'code', availableUses: 1, forAccount: 'admin', createdBy: 'admin' });
+
+    const rejected = await withPlc(() => signup(env, 'alice.pds.example.com', 'code'), { reject: true });
+    expect(rejected.status).not.toBe(200);
+    expect((await getInviteCodeUses(env, ['code'])).length).toBe(0);
+
+    // Two signups racing for the last use register a single DID
+    await withPlc(async (submitted) => {
+      const results = await Promise.all([
+        signup(env, 'alice.pds.example.com', 'code'),
+        signup(env, 'bob.pds.example.com', 'code'),
+      ]);
+      const ok: any[] = await Promise.all(results.filter((r) => r.status === 200).map((r) => r.json()));
+      expect(ok).toHaveLength(1);
+      expect(submitted.map((s) => s.did)).toEqual([ok[0].did]);
+      expect((await getInviteCodeUses(env, ['code'])).map((u) => u.usedBy)).toEqual([ok[0].did]);
+    });
+  }, 60000);
+
+  test('only the operator account can mint codes', async () => {
+    const { env } = await setupAccounts(true);
+    const operator = await issueSessionTokens(env, 'did:example:test');
+    const other = await issueSessionTokens(env, 'did:plc:someoneelse');
+
+    const denied = await post(CreateInviteCode, env, { useCount: 1 }, other.accessJwt);
+    expect(denied.status).toBe(403);
+    expect((await post(CreateInviteCodes, env, { useCount: 1 }, other.accessJwt)).status).toBe(403);
+
+    const single: any = await (await post(CreateInviteCode, env, { useCount: 2 }, operator.accessJwt)).json();
+    expect(single.code).toMatch(/^pds-example-com-[a-z2-7]{5}-[a-z2-7]{5}$/);
+
+    const bulk: any = await (await post(CreateInviteCodes, env, {
+      codeCount: 2,
+      useCount: 1,
+      forAccounts: ['did:plc:alice', 'did:plc:bob'],
+    }, operator.accessJwt)).json();
+    expect(bulk.codes.map((c: any) => c.account)).toEqual(['did:plc:alice', 'did:plc:bob']);
+    expect(bulk.codes.every((c: any) => c.codes.length === 2)).toBe(true);
+  }, 30000);
+
+  test('accounts mint their allowance and see who redeemed their codes', async () => {
+    const { env } = await setupAccounts(true, { PDS_INVITE_CODES_PER_ACCOUNT: '2' } as any);
+    await createInviteCode(env, { code: 'code', availableUses: 1, forAccount: 'admin', createdBy: 'admin' });
+    const alice: any = await withPlc(async () => (await signup(env, 'alice.pds.example.com', 'code')).json());
+
+    const first: any = await (await get(GetAccountInviteCodes, env, '', alice.accessJwt)).json();
+    expect(first.codes).toHaveLength(2);
+    expect(first.codes.every((c: any) => c.available === 1 && c.forAccount === alice.did && c.createdBy === alice.did)).toBe(true);
+
+    // The allowance is not topped up again once minted
+    const again: any = await (await get(GetAccountInviteCodes, env, '', alice.accessJwt)).json();
+    expect(again.codes.map((c: any) => c.code)).toEqual(first.codes.map((c: any) => c.code));
+
+    const bob: any = await withPlc(async () => (await signup(env, 'bob.pds.example.com', first.codes[0].code)).json());
+    const after: any = await (await get(GetAccountInviteCodes, env, '', alice.accessJwt)).json();
+    const redeemed = after.codes.find((c: any) => c.code === first.codes[0].code);
+    expect(redeemed.available).toBe(0);
+    expect(redeemed.uses.map((u: any) => u.usedBy)).toEqual([bob.did]);
+
+    const unused: any = await (await get(GetAccountInviteCodes, env, '?includeUsed=false', alice.accessJwt)).json();
+    expect(unused.codes.map((c: any) => c.code)).toEqual([first.codes[1].code]);
+  }, 60000);
+
+  test('PDS_INVITE_REQUIRED=false opens signup and is validated', async () => {
+    const { env } = await setupAccounts(true, { PDS_INVITE_REQUIRED: 'false' } as any);
+    const describe: any = await (await (DescribeServer as any).GET({ locals: { runtime: { env } } })).json();
+    expect(describe.inviteCodeRequired).toBe(false);
+    const res = await withPlc(() => post(CreateAccount, env, { handle: 'alice.pds.example.com', password: 'pw' }));
+    expect(res.status).toBe(200);
+
+    expect(validateConfig({ ...env, PDS_INVITE_REQUIRED: 'maybe' } as any).warnings).toContain(
+      "PDS_INVITE_REQUIRED must be 'true' or 'false' (got: maybe)",
+    );
+    expect(validateConfig({ ...env, PDS_INVITE_CODES_PER_ACCOUNT: '-1' } as any).warnings.some((w) => w.startsWith('PDS_INVITE_CODES_PER_ACCOUNT'))).toBe(true);
+  }, 30000);
+});
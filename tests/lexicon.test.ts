@@ -0,0 +1,103 @@
+/**
+ * Lexicon Validation Tests
+ * Tests for record validation used by createRecord/putRecord/applyWrites
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { validateRecord, checkFormat } from '../src/lib/lexicon';
+import { InvalidRecord } from '../src/lib/errors';
+
+const BLOB_CID = 'bafkreibme22gw2h7y2h7tg2fhqotaqjucnbc24deqo72b6mkl2egezxhvy';
+
+function post(extra: Record<string, unknown> = {}) {
+  return { $type: 'app.bsky.feed.post', text: 'hello', createdAt: '2024-01-01T00:00:00.000Z', ...extra };
+}
+
+describe('Lexicon Validation', () => {
+  describe('validateRecord', () => {
+    test('accepts a valid post', () => {
+      expect(validateRecord('app.bsky.feed.post', undefined, post())).toBe('valid');
+    });
+
+    test('rejects missing required fields', () => {
+      const { text: _t, ...noText } = post();
+      expect(() => validateRecord('app.bsky.feed.post', undefined, noText)).toThrow(InvalidRecord);
+    });
+
+    test('rejects a mismatched $type', () => {
+      expect(() => validateRecord('app.bsky.feed.like', undefined, post())).toThrow('Invalid $type');
+    });
+
+    test('counts graphemes, not code units', () => {
+      // 300 family emoji are 300 graphemes but far more UTF-16 code units
+      const family = '\u{1F468}‍\u{1F469}‍\u{1F467}';
+      expect(() => validateRecord('app.bsky.feed.post', undefined, post({ text: family.repeat(120) }))).not.toThrow();
+      expect(() => validateRecord('app.bsky.feed.post', undefined, post({ text: 'a'.repeat(301) }))).toThrow('graphemes');
+    });
+
+    test('checks string formats', () => {
+      expect(() => validateRecord('app.bsky.feed.post', undefined, post({ createdAt: 'yesterday' }))).toThrow('datetime');
+      expect(() =>
+        validateRecord('app.bsky.feed.like', undefined, {
+          $type: 'app.bsky.feed.like',
+          subject: { uri: 'https://example.com', cid: BLOB_CID },
+          createdAt: '2024-01-01T00:00:00.000Z',
+        }),
+      ).toThrow('at-uri');
+    });
+
+    test('validates union members by $type', () => {
+      const embed = {
+        $type: 'app.bsky.embed.external',
+        external: { uri: 'https://example.com', title: 't', description: 'd' },
+      };
+      expect(validateRecord('app.bsky.feed.post', undefined, post({ embed }))).toBe('valid');
+      expect(() => validateRecord('app.bsky.feed.post', undefined, post({ embed: { external: embed.external } }))).toThrow('$type');
+    });
+
+    test('enforces blob mime type and size', () => {
+      const avatar = (mimeType: string, size: number) => ({
+        $type: 'app.bsky.actor.profile',
+        avatar: { $type: 'blob', ref: { $link: BLOB_CID }, mimeType, size },
+      });
+      expect(validateRecord('app.bsky.actor.profile', 'self', avatar('image/png', 1000))).toBe('valid');
+      expect(() => validateRecord('app.bsky.actor.profile', 'self', avatar('video/mp4', 1000))).toThrow('mime type');
+      expect(() => validateRecord('app.bsky.actor.profile', 'self', avatar('image/png', 10_000_000))).toThrow('too big');
+    });
+
+    test('enforces literal record keys', () => {
+      expect(() => validateRecord('app.bsky.actor.profile', 'other', { $type: 'app.bsky.actor.profile' })).toThrow('self');
+    });
+
+    test('allows unknown collections unless validate is true', () => {
+      const rec = { $type: 'com.example.thing', anything: 1 };
+      expect(validateRecord('com.example.thing', undefined, rec)).toBe('unknown');
+      expect(() => validateRecord('com.example.thing', undefined, rec, true)).toThrow('Lexicon not found');
+    });
+
+    test('skips validation when validate is false', () => {
+      expect(validateRecord('app.bsky.feed.post', undefined, { text: 5 }, false)).toBeUndefined();
+    });
+  });
+
+  describe('checkFormat', () => {
+    test('datetime', () => {
+      expect(checkFormat('datetime', '2024-01-01T00:00:00Z')).toBe(true);
+      expect(checkFormat('datetime', '2024-01-01T00:00:00+01:00')).toBe(true);
+      expect(checkFormat('datetime', '2024-01-01')).toBe(false);
+      expect(checkFormat('datetime', '2024-01-01T00:00:00-00:00')).toBe(false);
+    });
+
+    test('identifiers', () => {
+      expect(checkFormat('did', 'did:plc:abc123')).toBe(true);
+      expect(checkFormat('did', 'plc:abc123')).toBe(false);
+      expect(checkFormat('handle', 'alice.example.com')).toBe(true);
+      expect(checkFormat('handle', 'alice')).toBe(false);
+      expect(checkFormat('at-uri', 'at://did:plc:abc123/app.bsky.feed.post/3l4example22a')).toBe(true);
+      expect(checkFormat('nsid', 'app.bsky.feed.post')).toBe(true);
+      expect(checkFormat('cid', BLOB_CID)).toBe(true);
+      expect(checkFormat('cid', 'not-a-cid')).toBe(false);
+      expect(checkFormat('language', 'en-US')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Lookup Cache Tests
+ * Tests for the two-tier cache behind DID, handle and OAuth client metadata lookups
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { makeMigratedEnv } from './helpers/env';
+import type { Env } from '../src/env';
+import { LookupCache, getLookupCacheStats } from '../src/lib/lookup-cache';
+import { didDocumentCache, handleCache, resolveDid, resolveHandle } from '../src/lib/identity';
+import { clientMetadataCache, fetchClientMetadata } from '../src/lib/oauth/clients';
+import { notifySequencerIdentity } from '../src/lib/sequencer';
+
+async function setup(overrides: Record<string, unknown> = {}): Promise<Env> {
+  return makeMigratedEnv(overrides as any);
+}
+
+/** Route fetch through `handler`, recording each requested URL */
+async function withFetch<T>(handler: (url: URL) => Response, fn: (requests: string[]) => Promise<T>): Promise<T> {
+  const requests: string[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+    requests.push(url.href);
+    return handler(url);
+  }) as any;
+  try {
+    return await fn(requests);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+describe('Lookup cache', () => {
+  test('shared store survives a cold isolate and misses are cached', async () => {
+    const env = await setup();
+    const cache = new LookupCache<{ n: number }>({ name: 'test-shared', staleMs: 60_000, maxAgeMs: 120_000, negativeTtlMs: 60_000 });
+    let loads = 0;
+    const load = async () => ({ n: ++loads });
+
+    expect(await cache.get(env, 'a', load)).toEqual({ n: 1 });
+    cache.clear(); // simulate a new isolate
+    expect(await cache.get(env, 'a', load)).toEqual({ n: 1 });
+    expect(loads).toBe(1);
+
+    let missLoads = 0;
+    const missing = async () => {
+      missLoads++;
+      return null;
+    };
+    expect(await cache.get(env, 'gone', missing)).toBeNull();
+    expect(await cache.get(env, 'gone', missing)).toBeNull();
+    expect(missLoads).toBe(1);
+
+    // Failures are not cached
+    await expect(cache.get(env, 'flaky', async () => { throw new Error('down'); })).rejects.toThrow('down');
+    expect(await cache.get(env, 'flaky', load)).toEqual({ n: 2 });
+
+    expect(cache.stats()).toMatchObject({ name: 'test-shared', hits: 2, misses: 3, hitRate: 0.4 });
+    expect(getLookupCacheStats().map((s) => s.name)).toContain('test-shared');
+  });
+
+  test('memory tier evicts least recently used entries', async () => {
+    const env = await setup({ PDS_LOOKUP_CACHE: 'memory' });
+    const cache = new LookupCache<string>({ name: 'test-lru', staleMs: 60_000, maxAgeMs: 120_000, negativeTtlMs: 60_000, maxEntries: 2 });
+    const loads: string[] = [];
+    const load = (key: string) => async () => {
+      loads.push(key);
+      return key.toUpperCase();
+    };
+
+    await cache.get(env, 'a', load('a'));
+    await cache.get(env, 'b', load('b'));
+    await cache.get(env, 'a', load('a')); // a is now most recent
+    await cache.get(env, 'c', load('c')); // evicts b
+    await cache.get(env, 'a', load('a'));
+    await cache.get(env, 'b', load('b'));
+    expect(loads).toEqual(['a', 'b', 'c', 'b']);
+    expect(cache.stats().memoryEntries).toBe(2);
+  });
+
+  test('#identity events invalidate the DID and its handles', async () => {
+    const env = await setup({ SEQUENCER: { idFromName: () => 'default', get: () => ({ fetch: async () => new Response('ok') }) } });
+    handleCache.clear();
+    didDocumentCache.clear();
+    let handle = 'old.example.com';
+    const handler = (url: URL) => {
+      if (url.hostname === 'cloudflare-dns.com') {
+        const name = url.searchParams.get('name');
+        const data = name === `_atproto.${handle}` ? [{ type: 16, data: '"did=did:plc:alice"' }] : [];
+        return Response.json({ Answer: data });
+      }
+      if (url.hostname === 'plc.directory') {
+        return Response.json({ id: 'did:plc:alice', alsoKnownAs: [`at://${handle}`] });
+      }
+      return new Response('not found', { status: 404 });
+    };
+
+    await withFetch(handler, async () => {
+      expect(await resolveHandle(env, 'old.example.com')).toBe('did:plc:alice');
+      expect((await resolveDid(env, 'did:plc:alice'))?.alsoKnownAs).toEqual(['at://old.example.com']);
+      expect(await resolveHandle(env, 'new.example.com')).toBeNull();
+
+      handle = 'new.example.com';
+      await notifySequencerIdentity(env, { did: 'did:plc:alice', handle: 'new.example.com' });
+
+      expect(await resolveHandle(env, 'old.example.com')).toBeNull();
+      expect(await resolveHandle(env, 'new.example.com')).toBe('did:plc:alice');
+      expect((await resolveDid(env, 'did:plc:alice'))?.alsoKnownAs).toEqual(['at://new.example.com']);
+    });
+  }, 30000);
+
+  test('client metadata is fetched once', async () => {
+    const env = await setup();
+    clientMetadataCache.clear();
+    const clientId = 'https://app.example.com/client-metadata.json';
+    const handler = () => Response.json({ client_id: clientId, client_name: 'Example' });
+
+    await withFetch(handler, async (requests) => {
+      expect((await fetchClientMetadata(env, clientId)).client_name).toBe('Example');
+      expect((await fetchClientMetadata(env, clientId)).client_name).toBe('Example');
+      expect(requests).toEqual([clientId]);
+    });
+  });
+});
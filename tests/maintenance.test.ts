@@ -0,0 +1,266 @@
+/**
+ * Maintenance Tests
+ * Tests for the scheduled job registry, its persisted state, the default blob GC jobs,
+ * the blockstore GC and the blockstore BLOB migration
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { makeMigratedEnv } from './helpers/env';
+import { CID } from 'multiformats/cid';
+import * as dagCbor from '@ipld/dag-cbor';
+import { DEFAULT_MAINTENANCE_JOBS, getMaintenanceStatus, runMaintenance, type MaintenanceJob } from '../src/lib/maintenance';
+import { convertLegacyBlocks } from '../src/lib/blockstore-migration';
+import { pruneOrphanedBlocks } from '../src/lib/blockstore-gc';
+import { RepoManager } from '../src/services/repo-manager';
+import * as DebugMaintenance from '../src/pages/debug/maintenance';
+import { D1Blockstore } from '../src/lib/mst';
+import { cidForCbor } from '../src/lib/mst/util';
+import { blobKeyForCid } from '../src/lib/blob-refs';
+import { issueSessionTokens } from '../src/lib/session-tokens';
+import * as CreateRecord from '../src/pages/xrpc/com.atproto.repo.createRecord';
+import * as DeleteRecord from '../src/pages/xrpc/com.atproto.repo.deleteRecord';
+import * as UploadBlob from '../src/pages/xrpc/com.atproto.repo.uploadBlob';
+import { call } from './helpers/xrpc';
+
+describe('Maintenance jobs', () => {
+  test('runs due jobs, resumes partial ones and records failures', async () => {
+    const env = await makeMigratedEnv();
+    let clock = 1_000_000;
+    const now = () => clock;
+    const cursors: Array<string | null> = [];
+
+    const jobs: MaintenanceJob[] = [
+      {
+        name: 'chunked',
+        intervalMs: 60_000,
+        budgetMs: 1_000,
+        async run(_env, { cursor }) {
+          cursors.push(cursor);
+          const next = Number(cursor ?? 0) + 1;
+          return next < 3 ? { cursor: String(next), result: { next } } : { result: { done: true } };
+        },
+      },
+      {
+        name: 'broken',
+        intervalMs: 60_000,
+        budgetMs: 1_000,
+        async run() {
+          throw new Error('boom');
+        },
+      },
+    ];
+
+    let status = await runMaintenance(env, { jobs, now });
+    expect(status.map((s) => [s.name, s.lastStatus, s.cursor])).toEqual([
+      ['chunked', 'partial', '1'],
+      ['broken', 'error', null],
+    ]);
+    expect(status[1].lastError).toBe('boom');
+
+    // A pending cursor makes the job due right away; finished jobs wait for their interval
+    clock += 1_000;
+    await runMaintenance(env, { jobs, now });
+    status = await runMaintenance(env, { jobs, now });
+    expect(cursors).toEqual([null, '1', '2']);
+    expect(status[0]).toMatchObject({ lastStatus: 'ok', cursor: null, lastResult: { done: true }, nextRunAt: clock + 60_000 });
+
+    clock += 60_000;
+    await runMaintenance(env, { jobs, now });
+    expect(cursors).toEqual([null, '1', '2', null]);
+
+    // State survives across invocations
+    const persisted = await getMaintenanceStatus(env, jobs);
+    expect(persisted.map((s) => s.name)).toEqual(['chunked', 'broken']);
+    expect(persisted[0].cursor).toBe('1');
+  });
+
+  test('jobs that do not fit in the remaining budget are deferred', async () => {
+    const env = await makeMigratedEnv();
+    const ran: string[] = [];
+    const job = (name: string, budgetMs: number): MaintenanceJob => ({
+      name,
+      intervalMs: 60_000,
+      budgetMs,
+      async run() {
+        ran.push(name);
+        return {};
+      },
+    });
+
+    const status = await runMaintenance(env, { jobs: [job('small', 1_000), job('large', 10_000)], budgetMs: 5_000 });
+    expect(ran).toEqual(['small']);
+    expect(status[1].lastRunAt).toBeNull();
+  });
+
+  test('blob GC keeps blobs that records reference and deletes the rest', async () => {
+    const env = await makeMigratedEnv();
+    const { accessJwt } = await issueSessionTokens(env, 'did:example:test');
+    const upload = async (bytes: number[]) => {
+      const res = await UploadBlob.POST({
+        locals: { runtime: { env } },
+        request: new Request('http://localhost/xrpc/com.atproto.repo.uploadBlob', {
+          method: 'POST',
+          headers: { authorization: `Bearer ${accessJwt}`, 'content-type': 'image/png' },
+          body: new Uint8Array(bytes),
+        }),
+      } as any);
+      expect(res.status).toBe(200);
+      return ((await res.json()) as any).blob;
+    };
+    const post = async (blob: any) => {
+      const res = await call(CreateRecord, 'POST', env, {
+        token: accessJwt,
+        body: {
+          repo: 'did:example:test',
+          collection: 'app.bsky.feed.post',
+          record: {
+            $type: 'app.bsky.feed.post',
+            text: 'with an image',
+            createdAt: new Date().toISOString(),
+            embed: { $type: 'app.bsky.embed.images', images: [{ image: blob, alt: '' }] },
+          },
+        },
+      });
+      expect(res.status).toBe(200);
+      return ((await res.json()) as any).uri as string;
+    };
+    const stored = async (blob: any) => (await env.BLOBS.head(blobKeyForCid(blob.ref.$link)!)) !== null;
+
+    const kept = await upload([1, 2, 3]);
+    await post(kept);
+    const orphan = await upload([4, 5, 6]);
+    const unlinked = await upload([7, 8, 9]);
+    const rkey = (await post(unlinked)).split('/').pop();
+    expect((await call(DeleteRecord, 'POST', env, {
+      token: accessJwt,
+      body: { repo: 'did:example:test', collection: 'app.bsky.feed.post', rkey },
+    })).status).toBe(200);
+
+    // Uploads from before the grace period, and records from before usage was tracked
+    await env.DB.prepare('UPDATE blob SET created_at = 0').run();
+    await env.DB.prepare('DELETE FROM blob_usage').run();
+    const fresh = await upload([10, 11, 12]);
+
+    const blobJobs = DEFAULT_MAINTENANCE_JOBS.filter((job) => job.name === 'blob-usage-backfill' || job.name === 'blob-gc');
+    // Nothing is deleted before the backfill has run
+    const [waiting] = await runMaintenance(env, { jobs: blobJobs.slice(1) });
+    expect(waiting.lastResult).toMatchObject({ deleted: 0 });
+
+    const [backfill, gc] = await runMaintenance(env, { jobs: blobJobs, force: ['blob-gc'] });
+    expect(backfill).toMatchObject({ lastStatus: 'ok', lastResult: { records: 1 } });
+    expect(gc).toMatchObject({ lastStatus: 'ok', lastResult: { deleted: 2 } });
+    expect(await stored(kept)).toBe(true);
+    expect(await stored(fresh)).toBe(true);
+    expect(await stored(orphan)).toBe(false);
+    expect(await stored(unlinked)).toBe(false);
+  });
+
+  test('blockstore migration converts base64 rows to BLOBs in resumable batches', async () => {
+    const env = await makeMigratedEnv();
+    const store = new D1Blockstore(env);
+    const legacy: Array<{ cid: CID; bytes: Uint8Array }> = [];
+    for (let i = 0; i < 5; i++) {
+      const value = { text: `block-${i}` };
+      const cid = await cidForCbor(value);
+      const bytes = new Uint8Array(dagCbor.encode(value));
+      legacy.push({ cid, bytes });
+      await env.DB.prepare('INSERT INTO blockstore (cid, bytes) VALUES (?, ?)').bind(cid.toString(), btoa(String.fromCharCode(...bytes))).run();
+    }
+    legacy.sort((a, b) => (a.cid.toString() < b.cid.toString() ? -1 : 1));
+
+    // Unconverted rows are still readable
+    expect(await store.get(legacy[0].cid)).toEqual(legacy[0].bytes);
+    expect((await store.getMany(legacy.map((b) => b.cid))).blocks.size).toBe(5);
+
+    // Resuming after a cursor only converts the rows past it
+    const partial = await convertLegacyBlocks(env, { after: legacy[2].cid.toString(), deadline: Date.now() + 5_000, batchSize: 2 });
+    expect(partial).toEqual({ converted: 2, cursor: null });
+
+    const job = DEFAULT_MAINTENANCE_JOBS.filter((j) => j.name === 'blockstore-binary-migration');
+    const [status] = await runMaintenance(env, { jobs: job });
+    expect(status).toMatchObject({ lastStatus: 'ok', lastResult: { converted: 3 }, cursor: null });
+
+    const left: any = await env.DB.prepare('SELECT COUNT(*) AS n FROM blockstore WHERE bytes IS NOT NULL OR data IS NULL').first();
+    expect(left.n).toBe(0);
+    for (const block of legacy) {
+      expect(await store.get(block.cid)).toEqual(block.bytes);
+      expect(await store.has(block.cid)).toBe(true);
+    }
+  });
+
+  test('blockstore GC removes unreachable blocks in resumable batches', async () => {
+    const env = await makeMigratedEnv();
+    const repo = new RepoManager(env, 'did:example:test');
+    const post = (text: string) => ({ $type: 'app.bsky.feed.post', text, createdAt: new Date().toISOString() });
+    for (let i = 0; i < 4; i++) await repo.createRecord('app.bsky.feed.post', post(`post ${i}`), `rkey${i}`);
+    await repo.putRecord('app.bsky.feed.post', 'rkey0', post('edited'));
+    const orphan = await cidForCbor({ text: 'orphan' });
+    await env.DB.prepare('INSERT INTO blockstore (cid, data) VALUES (?, ?)').bind(orphan.toString(), new Uint8Array(dagCbor.encode({ text: 'orphan' }))).run();
+    const count = async () => ((await env.DB.prepare('SELECT COUNT(*) AS n FROM blockstore').first()) as any).n as number;
+    const before = await count();
+
+    // An expired deadline still hands back a cursor rather than doing the whole cycle
+    let outcome = await pruneOrphanedBlocks(env, { deadline: Date.now() - 1, keepCommits: 1, batchSize: 2 });
+    expect(outcome).toMatchObject({ removed: 0 });
+    expect(JSON.parse(outcome.cursor!).phase).toBe('mark');
+
+    // Written after the cycle began, so kept even though nothing references it
+    const late = await cidForCbor({ text: 'late' });
+    await new D1Blockstore(env).put(late, new Uint8Array(dagCbor.encode({ text: 'late' })));
+
+    let runs = 1;
+    let removed = 0;
+    while (outcome.cursor) {
+      outcome = await pruneOrphanedBlocks(env, { cursor: outcome.cursor, deadline: Date.now() + 5, keepCommits: 1, batchSize: 2 });
+      removed += outcome.removed;
+      runs++;
+    }
+    expect(runs).toBeGreaterThan(2);
+    expect(removed).toBeGreaterThan(1);
+    expect(await count()).toBe(before + 1 - removed);
+
+    const store = new D1Blockstore(env);
+    expect(await store.has(orphan)).toBe(false);
+    expect(await store.has(late)).toBe(true);
+    const leaves = await (await repo.getRoot())!.list(100);
+    expect(leaves).toHaveLength(4);
+    for (const leaf of leaves) expect(await store.readObj(leaf.value)).toBeTruthy();
+    expect((await repo.getRecord('app.bsky.feed.post', 'rkey0')) as any).toMatchObject({ text: 'edited' });
+  }, 30000);
+
+  test('blockstore GC waits for unfinished repo imports', async () => {
+    const env = await makeMigratedEnv();
+    const orphan = await cidForCbor({ text: 'imported' });
+    await env.DB.prepare('INSERT INTO blockstore (cid, data) VALUES (?, ?)').bind(orphan.toString(), new Uint8Array(dagCbor.encode({ text: 'imported' }))).run();
+    await env.DB.prepare(
+      "INSERT INTO repo_import (did, commit_cid, rev, status, started_at, updated_at) VALUES ('did:example:test', 'bafy', '3abc', 'blocks', 0, 0)",
+    ).run();
+
+    const job = DEFAULT_MAINTENANCE_JOBS.filter((j) => j.name === 'blockstore-gc');
+    const [status] = await runMaintenance(env, { jobs: job });
+    expect(status).toMatchObject({ lastStatus: 'ok', lastResult: { removed: 0, waitingFor: 'repo_import' } });
+    expect(await new D1Blockstore(env).has(orphan)).toBe(true);
+
+    await env.DB.prepare("UPDATE repo_import SET status = 'complete'").run();
+    const [done] = await runMaintenance(env, { jobs: job, force: ['blockstore-gc'] });
+    expect(done).toMatchObject({ lastStatus: 'ok', lastResult: { removed: 1 } });
+    expect(await new D1Blockstore(env).has(orphan)).toBe(false);
+  });
+
+  test('running maintenance by hand needs the admin password', async () => {
+    const env = await makeMigratedEnv({ PDS_ADMIN_PASSWORD: 'admin-secret' } as any);
+    const run = (authorization?: string) =>
+      DebugMaintenance.POST({
+        locals: { runtime: { env } },
+        request: new Request('http://localhost/debug/maintenance?job=token-cleanup', {
+          method: 'POST',
+          headers: authorization ? { authorization } : {},
+        }),
+      } as any);
+    expect((await run()).status).toBe(401);
+    expect((await run('Bearer wrong')).status).toBe(401);
+    const res = await run('Bearer admin-secret');
+    expect(res.status).toBe(200);
+    expect(((await res.json()) as any).jobs.find((j: any) => j.name === 'token-cleanup').lastStatus).toBe('ok');
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Multi-account Tests
+ * createAccount, per-account repo routing and listRepos over all repos
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { setupAccounts, signup, withPlc } from './helpers/accounts';
+import { call } from './helpers/xrpc';
+import type { Env } from '../src/env';
+import { deleteRepoData } from '../src/db/dal';
+import { bumpRoot } from '../src/db/repo';
+import { createInviteCode } from '../src/db/invite';
+import { issueSessionTokens } from '../src/lib/session-tokens';
+import * as CreateRecord from '../src/pages/xrpc/com.atproto.repo.createRecord';
+import * as DescribeServer from '../src/pages/xrpc/com.atproto.server.describeServer';
+import * as ListRecords from '../src/pages/xrpc/com.atproto.repo.listRecords';
+import * as ListRepos from '../src/pages/xrpc/com.atproto.sync.listRepos';
+import * as GetBlob from '../src/pages/xrpc/com.atproto.sync.getBlob';
+import * as ListBlobs from '../src/pages/xrpc/com.atproto.sync.listBlobs';
+import * as UploadBlob from '../src/pages/xrpc/com.atproto.repo.uploadBlob';
+
+function post(mod: any, env: Env, body: unknown, token?: string): Promise<Response> {
+  return call(mod, 'POST', env, { body, token });
+}
+
+function get(mod: any, env: Env, query = '', token?: string): Promise<Response> {
+  return call(mod, 'GET', env, { query, token });
+}
+
+async function upload(env: Env, token: string, bytes: number[]): Promise<{ cid: string; key: string }> {
+  const res = await UploadBlob.POST({
+    locals: { runtime: { env } },
+    request: new Request('http://localhost/xrpc/com.atproto.repo.uploadBlob', {
+      method: 'POST',
+      headers: { authorization: `Bearer ${token}`, 'content-type': 'image/png' },
+      body: new Uint8Array(bytes),
+    }),
+  } as any);
+  expect(res.status).toBe(200);
+  const cid = ((await res.json()) as any).blob.ref.$link;
+  const row: any = await env.DB.prepare('SELECT key FROM blob WHERE cid = ? LIMIT 1').bind(cid).first();
+  return { cid, key: row.key };
+}
+
+describe('Multi-account mode', () => {
+  test('createAccount registers a did:plc and redeems the invite code', async () => {
+    const { env, events, rotationKey } = await setupAccounts(true);
+    await createInviteCode(env, { code: 'pds-example-com-aaaaa-bbbbb', availableUses: 1, forAccount: 'admin', createdBy: 'admin' });
+
+    await withPlc(async (submitted) => {
+      const res = await signup(env, 'alice.pds.example.com', 'pds-example-com-aaaaa-bbbbb');
+      expect(res.status).toBe(200);
+      const body: any = await res.json();
+      expect(body.handle).toBe('alice.pds.example.com');
+      expect(body.did).toMatch(/^did:plc:[a-z2-7]{24}$/);
+      expect(typeof body.accessJwt).toBe('string');
+
+      expect(submitted).toHaveLength(1);
+      expect(submitted[0].did).toBe(body.did);
+      expect(submitted[0].op.prev).toBeNull();
+      expect(submitted[0].op.rotationKeys).toEqual([rotationKey.did()]);
+      expect(submitted[0].op.alsoKnownAs).toEqual(['at://alice.pds.example.com']);
+      expect(events.map((e) => e.path)).toEqual(['/identity', '/account', '/sync']);
+
+      // Single-use code is spent
+      const again = await signup(env, 'bob.pds.example.com', 'pds-example-com-aaaaa-bbbbb');
+      expect(again.status).toBe(400);
+      expect(((await again.json()) as any).error).toBe('InvalidInviteCode');
+      expect(submitted).toHaveLength(1);
+    });
+
+    const describe: any = await (await (DescribeServer as any).GET({ locals: { runtime: { env } } })).json();
+    expect(describe.inviteCodeRequired).toBe(true);
+    expect(describe.availableUserDomains).toEqual(['.pds.example.com']);
+  }, 30000);
+
+  test('handles outside the user domains and taken handles are rejected', async () => {
+    const { env } = await setupAccounts(true);
+    await createInviteCode(env, { code: 'code', availableUses: 5, forAccount: 'admin', createdBy: 'admin' });
+    await withPlc(async (submitted) => {
+      const foreign = await signup(env, 'alice.example.org', 'code');
+      expect(((await foreign.json()) as any).error).toBe('UnsupportedDomain');
+      expect((await signup(env, 'alice.pds.example.com', 'code')).status).toBe(200);
+      const taken = await signup(env, 'alice.pds.example.com', 'code');
+      expect(((await taken.json()) as any).error).toBe('HandleNotAvailable');
+      const noCode = await signup(env, 'bob.pds.example.com', '');
+      expect(((await noCode.json()) as any).error).toBe('InvalidInviteCode');
+      expect(submitted).toHaveLength(1);
+    });
+  }, 30000);
+
+  test('writes land in the authenticated account repo and listRepos returns every repo', async () => {
+    const { env } = await setupAccounts(true);
+    await createInviteCode(env, { code: 'code', availableUses: 2, forAccount: 'admin', createdBy: 'admin' });
+    await bumpRoot(env, undefined, undefined, { ops: [] });
+    const [alice, bob]: any[] = await withPlc(async () => [
+      await (await signup(env, 'alice.pds.example.com', 'code')).json(),
+      await (await signup(env, 'bob.pds.example.com', 'code')).json(),
+    ]);
+
+    const record = { $type: 'app.bsky.feed.post', text: 'hello', createdAt: new Date().toISOString() };
+    const own = await post(CreateRecord, env, { repo: 'alice.pds.example.com', collection: 'app.bsky.feed.post', record }, alice.accessJwt);
+    expect(own.status).toBe(200);
+    expect(((await own.json()) as any).uri).toStartWith(`at://${alice.did}/app.bsky.feed.post/`);
+
+    // Bob may not write into Alice's repo
+    const cross = await post(CreateRecord, env, { repo: alice.did, collection: 'app.bsky.feed.post', record }, bob.accessJwt);
+    expect(cross.status).toBe(401);
+
+    const aliceRecords: any = await (await get(ListRecords, env, `?repo=${alice.did}&collection=app.bsky.feed.post`)).json();
+    expect(aliceRecords.records).toHaveLength(1);
+    const bobRecords: any = await (await get(ListRecords, env, `?repo=${bob.did}&collection=app.bsky.feed.post`)).json();
+    expect(bobRecords.records).toHaveLength(0);
+
+    const repos: any = await (await get(ListRepos, env)).json();
+    expect(repos.repos.map((r: any) => r.did).sort()).toEqual([alice.did, bob.did, 'did:example:test'].sort());
+    expect(repos.repos.every((r: any) => r.active)).toBe(true);
+  }, 60000);
+
+  test('blobs belong to the accounts that uploaded them', async () => {
+    const { env } = await setupAccounts(true);
+    await createInviteCode(env, { code: 'code', availableUses: 2, forAccount: 'admin', createdBy: 'admin' });
+    const [alice, bob]: any[] = await withPlc(async () => [
+      await (await signup(env, 'alice.pds.example.com', 'code')).json(),
+      await (await signup(env, 'bob.pds.example.com', 'code')).json(),
+    ]);
+
+    const shared = await upload(env, alice.accessJwt, [1, 2, 3]);
+    expect(await upload(env, bob.accessJwt, [1, 2, 3])).toEqual(shared);
+    const own = await upload(env, alice.accessJwt, [4, 5, 6]);
+    const owners: any = await env.DB.prepare('SELECT did FROM blob WHERE cid = ? ORDER BY did').bind(shared.cid).all();
+    expect(owners.results.map((r: any) => r.did)).toEqual([alice.did, bob.did].sort());
+
+    // Miniflare's R2 bodies cannot be handed to a Response under bun; serve them from memory
+    const bucket = env.BLOBS;
+    const blobs = {
+      get: async (key: string) => {
+        const object = await bucket.get(key);
+        return object && { size: object.size, body: new Blob([await object.arrayBuffer()]).stream() };
+      },
+    };
+    const getBlob = (did: string, cid: string) => get(GetBlob, { ...env, BLOBS: blobs } as any, `?did=${did}&cid=${cid}`);
+    expect((await getBlob(alice.did, own.cid)).status).toBe(200);
+    expect((await getBlob(bob.did, shared.cid)).status).toBe(200);
+    expect((await getBlob(bob.did, own.cid)).status).toBe(400);
+    expect((await getBlob('did:example:test', own.cid)).status).toBe(400);
+    const bobBlobs: any = await (await get(ListBlobs, env, `?did=${bob.did}`)).json();
+    expect(bobBlobs.cids).toEqual([shared.cid]);
+
+    // Deleting Alice's repo leaves the object Bob still uses
+    expect(await deleteRepoData(env, alice.did)).toEqual([own.key]);
+    expect((await getBlob(bob.did, shared.cid)).status).toBe(200);
+  }, 60000);
+});
+
+describe('Single-user mode', () => {
+  test('createAccount is disabled and other repos are not hosted', async () => {
+    const { env } = await setupAccounts(false);
+    await createInviteCode(env, { code: 'code', availableUses: 1, forAccount: 'admin', createdBy: 'admin' });
+    const res = await withPlc(() => signup(env, 'alice.pds.example.com', 'code'));
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as any).error).toBe('InvalidRequest');
+
+    const describe: any = await (await (DescribeServer as any).GET({ locals: { runtime: { env } } })).json();
+    expect(describe.inviteCodeRequired).toBe(false);
+    expect(describe.availableUserDomains).toEqual([]);
+
+    const { accessJwt } = await issueSessionTokens(env, 'did:example:test');
+    const record = { $type: 'app.bsky.feed.post', text: 'hello', createdAt: new Date().toISOString() };
+    const other = await post(CreateRecord, env, { repo: 'did:plc:someoneelse', collection: 'app.bsky.feed.post', record }, accessJwt);
+    expect(other.status).toBe(400);
+  }, 30000);
+});
@@ -0,0 +1,585 @@
+/**
+ * OAuth Authorization Tests
+ * Sign-in with device cookies, CSRF-protected consent, remembered grants,
+ * the authorized-apps page, token binding, revocation and introspection, and
+ * the web, native and loopback client profiles, and permission scopes
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { calculateJwkThumbprint, exportJWK, generateKeyPair, SignJWT } from 'jose';
+import { makeMigratedEnv } from './helpers/env';
+import { mailRelay } from './helpers/mail';
+import { AuthScopes } from '../src/lib/scopes';
+import type { Env } from '../src/env';
+import { confirmAccountEmail, createAccount } from '../src/db/account';
+import { putOAuthGrant } from '../src/db/oauth';
+import { hashPassword } from '../src/lib/password';
+import { savePar, saveCode, loadCode } from '../src/lib/oauth/store';
+import { getAuthzNonce, sha256b64url } from '../src/lib/oauth/dpop';
+import * as Authorize from '../src/pages/oauth/authorize';
+import * as Clients from '../src/pages/oauth/clients';
+import * as Consent from '../src/pages/oauth/consent';
+import * as Introspect from '../src/pages/oauth/introspect';
+import * as Par from '../src/pages/oauth/par';
+import * as Revoke from '../src/pages/oauth/revoke';
+import * as SignIn from '../src/pages/oauth/signin';
+import * as Token from '../src/pages/oauth/token';
+
+const DID = 'did:example:alice';
+const CLIENT_ID = 'https://app.example.com/client-metadata.json';
+const REDIRECT_URI = 'https://app.example.com/callback';
+const ORIGIN = 'https://pds.example.com';
+const NATIVE_CLIENT_ID = 'https://app.example.com/native-metadata.json';
+
+const PERMISSION_SET = 'com.example.calendar.authFull';
+
+/** Documents served by the stubbed fetch: client metadata and the permission set's lexicon */
+const DOCUMENTS: Record<string, unknown> = {
+  'https://cloudflare-dns.com/dns-query?name=_lexicon.calendar.example.com&type=TXT': {
+    Answer: [{ type: 16, data: '"did=did:web:lex.example.com"' }],
+  },
+  'https://lex.example.com/.well-known/did.json': {
+    id: 'did:web:lex.example.com',
+    service: [{ id: '#atproto_pds', type: 'AtprotoPersonalDataServer', serviceEndpoint: 'https://lex.example.com' }],
+  },
+  [`https://lex.example.com/xrpc/com.atproto.repo.getRecord?repo=did%3Aweb%3Alex.example.com&collection=com.atproto.lexicon.schema&rkey=${PERMISSION_SET}`]: {
+    value: {
+      lexicon: 1,
+      id: PERMISSION_SET,
+      defs: {
+        main: {
+          type: 'permission-set',
+          title: 'Calendar',
+          detail: 'Manage your events',
+          permissions: [
+            { type: 'permission', resource: 'repo', collection: ['com.example.calendar.event', 'app.bsky.feed.post'], action: ['create', 'update'] },
+            { type: 'permission', resource: 'rpc', lxm: ['com.example.calendar.getEvents'], inheritAud: true },
+            { type: 'permission', resource: 'account', attr: 'email' },
+          ],
+        },
+      },
+    },
+  },
+};
+
+const CLIENT_METADATA: Record<string, unknown> = {
+  [CLIENT_ID]: {
+    client_id: CLIENT_ID,
+    client_name: 'Example App',
+    redirect_uris: [REDIRECT_URI, 'http://127.0.0.1/callback', 'com.example.app:/callback'],
+    dpop_bound_access_tokens: true,
+  },
+  [NATIVE_CLIENT_ID]: {
+    client_id: NATIVE_CLIENT_ID,
+    client_name: 'Example Mobile',
+    application_type: 'native',
+    redirect_uris: ['com.example.app:/callback', 'com.example.app://callback', 'com.other.app:/callback', 'http://127.0.0.1/callback'],
+    dpop_bound_access_tokens: true,
+  },
+};
+
+async function setup(overrides: Partial<Env> = {}) {
+  const env = await makeMigratedEnv({ PDS_LOOKUP_CACHE: 'memory', ...overrides } as any);
+  await createAccount(env, { did: DID, handle: 'alice.pds.example.com', passwordScrypt: await hashPassword('password'), email: 'alice@example.com' });
+  return env;
+}
+
+/** Push an authorization request the way /oauth/par stores it; returns its request_uri */
+async function pushRequest(env: Env, extra: { scope?: string; prompt?: string; login_hint?: string } = {}): Promise<string> {
+  const id = crypto.randomUUID().replace(/-/g, '');
+  const now = Math.floor(Date.now() / 1000);
+  await savePar(env, id, {
+    client_id: CLIENT_ID,
+    redirect_uri: REDIRECT_URI,
+    code_challenge: 'challenge',
+    code_challenge_method: 'S256',
+    scope: extra.scope ?? 'atproto transition:generic',
+    state: 'state-1',
+    login_hint: extra.login_hint,
+    prompt: extra.prompt,
+    dpopJkt: 'jkt',
+    createdAt: now,
+    expiresAt: now + 300,
+  });
+  return `urn:ietf:params:oauth:request_uri:${id}`;
+}
+
+/** Minimal cookie jar for one browser */
+class Browser {
+  cookies = new Map<string, string>();
+
+  store(res: Response) {
+    for (const header of res.headers.getSetCookie()) {
+      const [pair] = header.split(';');
+      const [name, value] = pair.split('=');
+      if (value) this.cookies.set(name, value);
+      else this.cookies.delete(name);
+    }
+  }
+
+  get csrf(): string {
+    return this.cookies.get('__Host-oauth-csrf') ?? '';
+  }
+
+  async get(mod: any, env: Env, path: string): Promise<Response> {
+    const request = new Request(`${ORIGIN}${path}`, { headers: { cookie: this.header() } });
+    const res: Response = await mod.GET({ locals: { runtime: { env } }, request });
+    this.store(res);
+    return res;
+  }
+
+  async post(mod: any, env: Env, path: string, fields: Record<string, string>, headers: Record<string, string> = {}): Promise<Response> {
+    const request = new Request(`${ORIGIN}${path}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded', origin: ORIGIN, cookie: this.header(), ...headers },
+      body: new URLSearchParams(fields).toString(),
+    });
+    const res: Response = await mod.POST({ locals: { runtime: { env } }, request });
+    this.store(res);
+    return res;
+  }
+
+  private header(): string {
+    return [...this.cookies].map(([name, value]) => `${name}=${value}`).join('; ');
+  }
+}
+
+function query(requestUri: string): string {
+  return `?request_uri=${encodeURIComponent(requestUri)}&client_id=${encodeURIComponent(CLIENT_ID)}`;
+}
+
+function location(res: Response): URL {
+  return new URL(res.headers.get('location') ?? '');
+}
+
+async function signIn(browser: Browser, env: Env, requestUri: string, password = 'password'): Promise<Response> {
+  await browser.get(SignIn, env, `/oauth/signin${query(requestUri)}`);
+  return browser.post(SignIn, env, '/oauth/signin', {
+    csrf: browser.csrf,
+    request_uri: requestUri,
+    client_id: CLIENT_ID,
+    identifier: 'alice.pds.example.com',
+    password,
+  });
+}
+
+/** A client's DPoP key; proof() signs a proof for one token endpoint request */
+async function dpopKey() {
+  const { privateKey, publicKey } = await generateKeyPair('ES256');
+  const jwk = await exportJWK(publicKey);
+  return {
+    jkt: await calculateJwkThumbprint(jwk),
+    proof: async (env: Env, path: string) =>
+      new SignJWT({ htm: 'POST', htu: `${ORIGIN}${path}`, jti: crypto.randomUUID(), nonce: await getAuthzNonce(env) })
+        .setProtectedHeader({ alg: 'ES256', typ: 'dpop+jwt', jwk })
+        .setIssuedAt()
+        .sign(privateKey),
+  };
+}
+
+type DpopKey = Awaited<ReturnType<typeof dpopKey>>;
+
+async function tokenRequest(env: Env, key: DpopKey, fields: Record<string, string>): Promise<Response> {
+  const request = new Request(`${ORIGIN}/oauth/token`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/x-www-form-urlencoded', DPoP: await key.proof(env, '/oauth/token') },
+    body: new URLSearchParams(fields).toString(),
+  });
+  return Token.POST({ locals: { runtime: { env } }, request } as any);
+}
+
+async function clientPost(mod: any, env: Env, path: string, fields: Record<string, string>): Promise<Response> {
+  const request = new Request(`${ORIGIN}${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(fields).toString(),
+  });
+  return mod.POST({ locals: { runtime: { env } }, request });
+}
+
+/** Push an authorization request through /oauth/par */
+async function pushViaPar(env: Env, client_id: string, redirect_uri: string, scope = 'atproto'): Promise<Response> {
+  const key = await dpopKey();
+  const request = new Request(`${ORIGIN}/oauth/par`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/x-www-form-urlencoded', DPoP: await key.proof(env, '/oauth/par') },
+    body: new URLSearchParams({
+      client_id,
+      redirect_uri,
+      response_type: 'code',
+      scope,
+      state: 'state-1',
+      code_challenge: 'challenge',
+      code_challenge_method: 'S256',
+    }).toString(),
+  });
+  return Par.POST({ locals: { runtime: { env } }, request } as any);
+}
+
+const description = async (res: Response) => ((await res.json()) as any).error_description;
+
+/** Run the code exchange for a fresh session; returns the token response */
+async function exchangeCode(env: Env, key: DpopKey): Promise<any> {
+  const code = crypto.randomUUID();
+  const verifier = crypto.randomUUID() + crypto.randomUUID();
+  const now = Math.floor(Date.now() / 1000);
+  await saveCode(env, code, {
+    code,
+    client_id: CLIENT_ID,
+    redirect_uri: REDIRECT_URI,
+    code_challenge: await sha256b64url(verifier),
+    scope: 'atproto transition:generic',
+    dpopJkt: key.jkt,
+    did: DID,
+    createdAt: now,
+    expiresAt: now + 60,
+  });
+  const res = await tokenRequest(env, key, {
+    grant_type: 'authorization_code',
+    code,
+    client_id: CLIENT_ID,
+    redirect_uri: REDIRECT_URI,
+    code_verifier: verifier,
+  });
+  expect(res.status).toBe(200);
+  return res.json();
+}
+
+const originalFetch = globalThis.fetch;
+const mail = mailRelay();
+
+beforeAll(() => {
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+    const doc = CLIENT_METADATA[url] ?? DOCUMENTS[url];
+    if (doc) return new Response(JSON.stringify(doc), { headers: { 'content-type': 'application/json' } });
+    return new Response('not found', { status: 404 });
+  }) as typeof fetch;
+  mail.install();
+});
+
+afterAll(() => {
+  mail.restore();
+  globalThis.fetch = originalFetch;
+});
+
+describe('OAuth authorization', () => {
+  test('signs in, asks for consent once and remembers the grant', async () => {
+    const env = await setup();
+    const browser = new Browser();
+    const requestUri = await pushRequest(env);
+
+    const start = await browser.get(Authorize, env, `/oauth/authorize${query(requestUri)}`);
+    expect(start.status).toBe(302);
+    expect(location(start).pathname).toBe('/oauth/signin');
+
+    const wrong = await signIn(browser, env, requestUri, 'nope');
+    expect(wrong.status).toBe(401);
+    expect(await wrong.text()).toContain('Invalid handle or password');
+
+    const signedIn = await signIn(browser, env, requestUri);
+    expect(signedIn.status).toBe(303);
+    expect(signedIn.headers.get('set-cookie')).toContain('HttpOnly; Secure; SameSite=Lax');
+    expect(location(signedIn).pathname).toBe('/oauth/authorize');
+
+    const toConsent = await browser.get(Authorize, env, `/oauth/authorize${query(requestUri)}`);
+    expect(location(toConsent).pathname).toBe('/oauth/consent');
+    const page = await browser.get(Consent, env, `/oauth/consent${query(requestUri)}`);
+    const html = await page.text();
+    expect(html).toContain('Example App');
+    expect(html).toContain('@alice.pds.example.com');
+
+    const allowed = await browser.post(Consent, env, '/oauth/consent', {
+      csrf: browser.csrf,
+      request_uri: requestUri,
+      client_id: CLIENT_ID,
+      scope: 'transition:generic',
+      decision: 'allow',
+    });
+    expect(allowed.status).toBe(303);
+    const callback = location(allowed);
+    expect(`${callback.origin}${callback.pathname}`).toBe(REDIRECT_URI);
+    expect(callback.searchParams.get('state')).toBe('state-1');
+    expect(callback.searchParams.get('iss')).toBe(ORIGIN);
+    const code = await loadCode(env, callback.searchParams.get('code') ?? '');
+    expect(code?.did).toBe(DID);
+    expect(code?.scope).toBe('atproto transition:generic');
+
+    // A returning client within the granted scope gets a code without any page
+    const again = await pushRequest(env, { prompt: 'none' });
+    const silent = await browser.get(Authorize, env, `/oauth/authorize${query(again)}`);
+    expect(location(silent).searchParams.get('code')).toBeTruthy();
+
+    // A wider scope needs consent again, which prompt=none cannot give
+    const wider = await pushRequest(env, { scope: 'atproto transition:generic transition:chat.bsky', prompt: 'none' });
+    const refused = await browser.get(Authorize, env, `/oauth/authorize${query(wider)}`);
+    expect(location(refused).searchParams.get('error')).toBe('consent_required');
+  });
+
+  test('prompt=none without a signed-in browser fails with login_required', async () => {
+    const env = await setup();
+    const requestUri = await pushRequest(env, { prompt: 'none' });
+    const res = await new Browser().get(Authorize, env, `/oauth/authorize${query(requestUri)}`);
+    expect(location(res).searchParams.get('error')).toBe('login_required');
+  });
+
+  test('form posts need the CSRF token and a same-origin Origin', async () => {
+    const env = await setup();
+    const browser = new Browser();
+    const requestUri = await pushRequest(env);
+    await browser.get(SignIn, env, `/oauth/signin${query(requestUri)}`);
+    const fields = { request_uri: requestUri, client_id: CLIENT_ID, identifier: 'alice.pds.example.com', password: 'password' };
+
+    expect((await browser.post(SignIn, env, '/oauth/signin', fields)).status).toBe(403);
+    expect((await browser.post(SignIn, env, '/oauth/signin', { ...fields, csrf: 'x'.repeat(43) })).status).toBe(403);
+    const crossSite = await browser.post(SignIn, env, '/oauth/signin', { ...fields, csrf: browser.csrf }, { origin: 'https://evil.example' });
+    expect(crossSite.status).toBe(403);
+    expect((await browser.post(SignIn, env, '/oauth/signin', { ...fields, csrf: browser.csrf })).status).toBe(303);
+  });
+
+  test('deny redirects with access_denied', async () => {
+    const env = await setup();
+    const browser = new Browser();
+    const requestUri = await pushRequest(env);
+    await signIn(browser, env, requestUri);
+    await browser.get(Consent, env, `/oauth/consent${query(requestUri)}`);
+    const res = await browser.post(Consent, env, '/oauth/consent', {
+      csrf: browser.csrf,
+      request_uri: requestUri,
+      client_id: CLIENT_ID,
+      decision: 'deny',
+    });
+    expect(location(res).searchParams.get('error')).toBe('access_denied');
+  });
+
+  test('PDS_OAUTH_EMAIL_CODE confirms sign-in with an emailed code', async () => {
+    const env = await setup({ PDS_OAUTH_EMAIL_CODE: 'true', ...mail.env } as any);
+    await confirmAccountEmail(env, DID);
+    const browser = new Browser();
+    const requestUri = await pushRequest(env);
+
+    const step = await signIn(browser, env, requestUri);
+    expect(step.status).toBe(200);
+    const html = await step.text();
+    expect(html).toContain('Check your email');
+    const pending = html.match(/name="pending" value="([a-f0-9]+)"/)?.[1] ?? '';
+    const token = mail.lastToken();
+    expect(mail.outbox[mail.outbox.length - 1].to).toBe('alice@example.com');
+
+    const base = { csrf: browser.csrf, request_uri: requestUri, client_id: CLIENT_ID, pending };
+    const done = await browser.post(SignIn, env, '/oauth/signin', { ...base, code: token });
+    expect(done.status).toBe(303);
+    expect(browser.cookies.has('__Host-oauth-device')).toBe(true);
+  });
+
+  test('authorized apps can be listed and revoked', async () => {
+    const env = await setup({ PDS_REQUIRE_CONSENT: '0' } as any);
+    const browser = new Browser();
+
+    const anonymous = await browser.get(Clients, env, '/oauth/clients');
+    expect(location(anonymous).searchParams.get('return_to')).toBe('/oauth/clients');
+
+    // Without required consent the first request is approved straight after sign-in
+    const requestUri = await pushRequest(env);
+    await signIn(browser, env, requestUri);
+    const approved = await browser.get(Authorize, env, `/oauth/authorize${query(requestUri)}`);
+    expect(location(approved).searchParams.get('code')).toBeTruthy();
+
+    const list = await (await browser.get(Clients, env, '/oauth/clients')).text();
+    expect(list).toContain('Example App');
+    expect(list).toContain('transition:generic');
+
+    const revoked = await browser.post(Clients, env, '/oauth/clients', { csrf: browser.csrf, action: 'revoke', client_id: CLIENT_ID });
+    expect(revoked.status).toBe(303);
+    expect(await (await browser.get(Clients, env, '/oauth/clients')).text()).toContain('No apps have been authorized');
+
+    await browser.post(Clients, env, '/oauth/clients', { csrf: browser.csrf, action: 'sign_out' });
+    expect(browser.cookies.has('__Host-oauth-device')).toBe(false);
+    const next = await pushRequest(env, { prompt: 'none' });
+    expect(location(await browser.get(Authorize, env, `/oauth/authorize${query(next)}`)).searchParams.get('error')).toBe('login_required');
+  });
+});
+
+describe('OAuth tokens', () => {
+  const refresh = (env: Env, key: DpopKey, token: string, clientId = CLIENT_ID) =>
+    tokenRequest(env, key, { grant_type: 'refresh_token', refresh_token: token, client_id: clientId });
+
+  test('refresh tokens rotate, and replaying a rotated one revokes the session', async () => {
+    const env = await setup();
+    const key = await dpopKey();
+    const first = await exchangeCode(env, key);
+
+    const rotated = await refresh(env, key, first.refresh_token);
+    expect(rotated.status).toBe(200);
+    const second: any = await rotated.json();
+    expect(second.refresh_token).not.toBe(first.refresh_token);
+
+    const replay = await refresh(env, key, first.refresh_token);
+    expect(replay.status).toBe(400);
+    expect(((await replay.json()) as any).error_description).toContain('reuse detected');
+
+    // The token handed out by the rotation died with the session
+    expect((await refresh(env, key, second.refresh_token)).status).toBe(400);
+  });
+
+  test('refresh tokens are bound to their client and DPoP key', async () => {
+    const env = await setup();
+    const key = await dpopKey();
+    const { refresh_token } = await exchangeCode(env, key);
+
+    const otherClient = await refresh(env, key, refresh_token, 'https://other.example.com/client-metadata.json');
+    expect(((await otherClient.json()) as any).error).toBe('invalid_grant');
+    const otherKey = await refresh(env, await dpopKey(), refresh_token);
+    expect(((await otherKey.json()) as any).error).toBe('invalid_dpop');
+
+    // Neither attempt used the token up
+    expect((await refresh(env, key, refresh_token)).status).toBe(200);
+  });
+
+  test('introspection reports live tokens and revocation ends the session', async () => {
+    const env = await setup();
+    const key = await dpopKey();
+    const tokens = await exchangeCode(env, key);
+
+    const access: any = await (await clientPost(Introspect, env, '/oauth/introspect', { token: tokens.access_token, client_id: CLIENT_ID })).json();
+    expect(access).toMatchObject({ active: true, client_id: CLIENT_ID, sub: DID, scope: 'atproto transition:generic', iss: ORIGIN });
+    const foreign = await clientPost(Introspect, env, '/oauth/introspect', { token: tokens.access_token, client_id: 'https://other.example.com/client-metadata.json' });
+    expect((await foreign.json()) as any).toEqual({ active: false });
+
+    // Another client cannot revoke the token; the endpoint still answers 200
+    expect((await clientPost(Revoke, env, '/oauth/revoke', { token: tokens.refresh_token, client_id: 'https://other.example.com/client-metadata.json' })).status).toBe(200);
+    expect(((await (await clientPost(Introspect, env, '/oauth/introspect', { token: tokens.refresh_token, client_id: CLIENT_ID })).json()) as any).active).toBe(true);
+
+    const revoked = await clientPost(Revoke, env, '/oauth/revoke', { token: tokens.access_token, token_type_hint: 'access_token', client_id: CLIENT_ID });
+    expect(revoked.status).toBe(200);
+    for (const token of [tokens.access_token, tokens.refresh_token]) {
+      const res = await clientPost(Introspect, env, '/oauth/introspect', { token, client_id: CLIENT_ID });
+      expect((await res.json()) as any).toEqual({ active: false });
+    }
+    expect((await refresh(env, key, tokens.refresh_token)).status).toBe(400);
+    expect((await clientPost(Revoke, env, '/oauth/revoke', { client_id: CLIENT_ID })).status).toBe(400);
+  });
+});
+
+describe('OAuth client profiles', () => {
+  const push = (env: Env, client_id: string, redirect_uri: string) => pushViaPar(env, client_id, redirect_uri);
+
+  test('web clients redirect to https only', async () => {
+    const env = await setup();
+    expect((await push(env, CLIENT_ID, REDIRECT_URI)).status).toBe(201);
+    expect(await description(await push(env, CLIENT_ID, 'http://127.0.0.1/callback'))).toBe('redirect_uri must be https URL');
+    expect(await description(await push(env, CLIENT_ID, 'com.example.app:/callback'))).toBe('redirect_uri must be https URL');
+    expect(await description(await push(env, CLIENT_ID, 'https://app.example.com/elsewhere'))).toBe('redirect_uri not registered');
+  });
+
+  test('native clients may use their reverse-domain scheme and loopback on any port', async () => {
+    const env = await setup({ PDS_REQUIRE_CONSENT: '0' } as any);
+    const res = await push(env, NATIVE_CLIENT_ID, 'com.example.app:/callback');
+    expect(res.status).toBe(201);
+    expect((await push(env, NATIVE_CLIENT_ID, 'http://127.0.0.1:51234/callback')).status).toBe(201);
+    expect(await description(await push(env, NATIVE_CLIENT_ID, 'com.example.app://callback'))).toContain('reverse order');
+    expect(await description(await push(env, NATIVE_CLIENT_ID, 'com.other.app:/callback'))).toContain('reverse order');
+    expect(await description(await push(env, NATIVE_CLIENT_ID, 'http://127.0.0.1:51234/other'))).toBe('redirect_uri not registered');
+
+    // The code goes back through the app's own scheme
+    const { request_uri } = (await res.json()) as any;
+    const browser = new Browser();
+    const query = `?request_uri=${encodeURIComponent(request_uri)}&client_id=${encodeURIComponent(NATIVE_CLIENT_ID)}`;
+    await browser.get(SignIn, env, `/oauth/signin${query}`);
+    await browser.post(SignIn, env, '/oauth/signin', {
+      csrf: browser.csrf,
+      request_uri,
+      client_id: NATIVE_CLIENT_ID,
+      identifier: 'alice.pds.example.com',
+      password: 'password',
+    });
+    const approved = await browser.get(Authorize, env, `/oauth/authorize${query}`);
+    expect(approved.headers.get('location')).toStartWith('com.example.app:/callback?');
+    expect(location(approved).searchParams.get('code')).toBeTruthy();
+  });
+
+  test('the loopback client has implied metadata and loopback redirects', async () => {
+    const env = await setup();
+    const withRedirect = `http://localhost?redirect_uri=${encodeURIComponent('http://127.0.0.1/callback')}&scope=atproto`;
+    expect((await push(env, withRedirect, 'http://127.0.0.1:5173/callback')).status).toBe(201);
+    expect(await description(await push(env, withRedirect, 'http://127.0.0.1/other'))).toBe('redirect_uri not registered');
+    expect((await push(env, 'http://localhost', 'http://[::1]:8080/')).status).toBe(201);
+    expect((await push(env, 'http://localhost', 'http://127.0.0.1/')).status).toBe(201);
+    expect(await description(await push(env, 'http://localhost', 'http://localhost/'))).toBe('redirect_uri not registered');
+
+    const notLoopback = `http://localhost?redirect_uri=${encodeURIComponent('http://localhost/callback')}`;
+    expect(await description(await push(env, notLoopback, 'http://localhost/callback'))).toContain('127.0.0.1');
+    expect(await description(await push(env, 'http://localhost:3000', 'http://127.0.0.1/'))).toContain('client_id must be');
+    expect(await description(await push(env, 'http://localhost/client.json', 'http://127.0.0.1/'))).toContain('client_id must be');
+  });
+
+  test('the loopback client always needs consent', async () => {
+    const env = await setup({ PDS_REQUIRE_CONSENT: '0' } as any);
+    // A grant remembered for one local app must not authorize another
+    await putOAuthGrant(env, { did: DID, clientId: 'http://localhost', scope: 'atproto transition:generic' });
+
+    const res = await push(env, 'http://localhost', 'http://127.0.0.1/');
+    const { request_uri } = (await res.json()) as any;
+    const browser = new Browser();
+    const query = `?request_uri=${encodeURIComponent(request_uri)}&client_id=${encodeURIComponent('http://localhost')}`;
+    await browser.get(SignIn, env, `/oauth/signin${query}`);
+    await browser.post(SignIn, env, '/oauth/signin', {
+      csrf: browser.csrf,
+      request_uri,
+      client_id: 'http://localhost',
+      identifier: 'alice.pds.example.com',
+      password: 'password',
+    });
+    const authorize = await browser.get(Authorize, env, `/oauth/authorize${query}`);
+    expect(location(authorize).pathname).toBe('/oauth/consent');
+    expect(location(authorize).searchParams.get('code')).toBeNull();
+  });
+});
+
+describe('OAuth permission scopes', () => {
+  test('malformed and unknown scopes are refused at /oauth/par', async () => {
+    const env = await setup();
+    for (const scope of ['transition:generic', 'atproto transition:everything', 'atproto repo:not-an-nsid', 'atproto rpc:app.bsky.feed.getTimeline', 'atproto include:com.example.missing.set']) {
+      const res = await pushViaPar(env, CLIENT_ID, REDIRECT_URI, scope);
+      expect(res.status).toBe(400);
+      expect(((await res.clone().json()) as any).error).toBe('invalid_scope');
+    }
+    expect((await pushViaPar(env, CLIENT_ID, REDIRECT_URI, 'atproto repo:app.bsky.feed.post?action=create blob:image/* account:email')).status).toBe(201);
+  });
+
+  test('the consent screen describes permission sets and lets the user grant less', async () => {
+    const env = await setup();
+    const browser = new Browser();
+    const include = `include:${PERMISSION_SET}?aud=did:web:cal.example.com%23calendar`;
+    const pushed = await pushViaPar(env, CLIENT_ID, REDIRECT_URI, `atproto ${include} account:email`);
+    expect(pushed.status).toBe(201);
+    const { request_uri } = (await pushed.json()) as any;
+
+    await signIn(browser, env, request_uri);
+    const html = await (await browser.get(Consent, env, `/oauth/consent${query(request_uri)}`)).text();
+    expect(html).toContain('Calendar: Manage your events');
+    expect(html).toContain('Create and update com.example.calendar.event records in your repository');
+    expect(html).toContain('Call com.example.calendar.getEvents on did:web:cal.example.com#calendar as you');
+    expect(html).toContain('See your email address');
+    // Sets cannot reach outside their namespace or grant account permissions
+    expect(html).not.toContain('app.bsky.feed.post');
+
+    // Leave account:email unticked
+    const allowed = await browser.post(Consent, env, '/oauth/consent', {
+      csrf: browser.csrf,
+      request_uri,
+      client_id: CLIENT_ID,
+      scope: include,
+      decision: 'allow',
+    });
+    const code = await loadCode(env, location(allowed).searchParams.get('code') ?? '');
+    expect(code?.scope).toBe('atproto repo:com.example.calendar.event?action=create&action=update rpc:com.example.calendar.getEvents?aud=did:web:cal.example.com%23calendar');
+
+    const scopes = AuthScopes.parse(code?.scope);
+    expect(scopes.allowsRepo('com.example.calendar.event', 'update')).toBe(true);
+    expect(scopes.allowsRepo('com.example.calendar.event', 'delete')).toBe(false);
+    expect(scopes.allowsRepo('app.bsky.feed.post', 'create')).toBe(false);
+    expect(scopes.allowsRpc('com.example.calendar.getEvents', 'did:web:cal.example.com#calendar')).toBe(true);
+    expect(scopes.allowsAccount('email', 'read')).toBe(false);
+  });
+});
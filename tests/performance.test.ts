@@ -5,6 +5,7 @@
  * - CPU time < 10ms for common operations
  * - Memory usage stays under 128MB
  * - Cold start time < 100ms
+ * - Repo CAR export from BLOB blocks vs legacy base64 TEXT blocks
  */
 
 import { describe, test, expect } from 'bun:test';
@@ -62,4 +63,66 @@ describe('Performance Tests', () => {
     // Test will be added when commit signing is optimized
     expect(true).toBe(true);
   });
-});
\ No newline at end of file
+
+  test('buildRepoCar: BLOB blockstore vs legacy base64 rows', async () => {
+    // Loaded here so Miniflare does not weigh on the timing tests above
+    const { Secp256k1Keypair } = await import('@atproto/crypto');
+    const { makeMigratedEnv } = await import('./helpers/env');
+    const { bumpRoot } = await import('../src/db/repo');
+    const { convertLegacyBlocks } = await import('../src/lib/blockstore-migration');
+    const { D1Blockstore, MST } = await import('../src/lib/mst');
+    const { cidForCbor } = await import('../src/lib/mst/util');
+    const { buildRepoCar } = await import('../src/services/car');
+
+    const signingKey = await Secp256k1Keypair.create({ exportable: true });
+    const env = await makeMigratedEnv({
+      REPO_SIGNING_KEY: Array.from(await signingKey.export(), (b) => b.toString(16).padStart(2, '0')).join(''),
+    } as any);
+
+    // A 500-record repo with ~1KB posts
+    const store = new D1Blockstore(env);
+    const records = new Map<CID, Uint8Array>();
+    let mst = await MST.create(store, []);
+    for (let i = 0; i < 500; i++) {
+      const value = { $type: 'app.bsky.feed.post', text: `post ${i} `.padEnd(1000, 'x'), createdAt: '2025-01-01T00:00:00.000Z' };
+      const cid = await cidForCbor(value);
+      records.set(cid, new Uint8Array(dagCbor.encode(value)));
+      mst = await mst.add(`app.bsky.feed.post/${String(i).padStart(6, '0')}`, cid);
+    }
+    await store.putMany(records);
+    await store.putMany(new Map((await mst.getUnstoredBlocks()).blocks));
+    await bumpRoot(env, undefined, await mst.getPointer(), { ops: [], did: 'did:example:test' });
+
+    const time = async () => {
+      const start = performance.now();
+      const car = await buildRepoCar(env, 'did:example:test');
+      return { car, ms: performance.now() - start };
+    };
+    const size = async () => ((await env.DB.prepare('SELECT SUM(COALESCE(length(data), 0) + COALESCE(length(bytes), 0)) AS n FROM blockstore').first()) as any).n as number;
+
+    await time(); // warm up
+    const binary = await time();
+    const binarySize = await size();
+
+    // Rewrite every block the way it was stored before the BLOB column existed
+    const rows = ((await env.DB.prepare('SELECT cid, data FROM blockstore').all()).results ?? []) as Array<{ cid: string; data: ArrayBuffer | number[] }>;
+    await env.DB.batch(rows.map((row) => {
+      const bytes = new Uint8Array(row.data as ArrayBuffer);
+      let binary = '';
+      for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+      return env.DB.prepare('UPDATE blockstore SET bytes = ?, data = NULL WHERE cid = ?').bind(btoa(binary), row.cid);
+    }));
+    await time();
+    const legacy = await time();
+    const legacySize = await size();
+
+    console.log(`buildRepoCar (${binary.car.blocks.length} blocks): BLOB ${binary.ms.toFixed(1)}ms, ${binarySize} bytes stored; base64 TEXT ${legacy.ms.toFixed(1)}ms, ${legacySize} bytes stored`);
+    expect(legacy.car.bytes).toEqual(binary.car.bytes);
+    expect(legacySize).toBeGreaterThan(binarySize * 1.3);
+
+    // Converting back yields the same CAR again
+    await convertLegacyBlocks(env, { deadline: Date.now() + 10_000 });
+    expect((await time()).car.bytes).toEqual(binary.car.bytes);
+    expect(await size()).toBe(binarySize);
+  }, 60000);
+});
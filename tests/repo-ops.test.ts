@@ -20,7 +20,7 @@ describe('RepoManager.extractOps', () => {
     // Bootstrap minimal schema used by RepoManager
     await env.DB.exec("CREATE TABLE IF NOT EXISTS repo_root (did TEXT PRIMARY KEY, commit_cid TEXT, rev INTEGER);");
     await env.DB.exec("CREATE TABLE IF NOT EXISTS record (uri TEXT PRIMARY KEY, cid TEXT NOT NULL, json TEXT NOT NULL, created_at INTEGER DEFAULT 0);");
-    await env.DB.exec("CREATE TABLE IF NOT EXISTS blockstore (cid TEXT PRIMARY KEY, bytes TEXT);");
+    await env.DB.exec("CREATE TABLE IF NOT EXISTS blockstore (cid TEXT PRIMARY KEY, bytes TEXT, data BLOB, stored_at INTEGER NOT NULL DEFAULT 0);");
     const mgr = new RepoManager(env);
 
     // Start with empty MST
@@ -0,0 +1,150 @@
+/**
+ * Scope Tests
+ * Tests for parsing token scopes and enforcing them on write endpoints
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { makeMigratedEnv } from './helpers/env';
+import { AuthScopes, parsePermission } from '../src/lib/scopes';
+import { issueSessionTokens } from '../src/lib/session-tokens';
+import * as CreateRecord from '../src/pages/xrpc/com.atproto.repo.createRecord';
+import * as ApplyWrites from '../src/pages/xrpc/com.atproto.repo.applyWrites';
+
+describe('AuthScopes', () => {
+  test('legacy session scopes', () => {
+    const full = AuthScopes.parse('access');
+    expect(full.hasFullAccess()).toBe(true);
+    expect(full.allowsAccount('status', 'manage')).toBe(true);
+
+    const app = AuthScopes.parse('com.atproto.appPass');
+    expect(app.hasFullAccess()).toBe(false);
+    expect(app.allowsRepo('app.bsky.feed.post', 'delete')).toBe(true);
+    expect(app.allowsRpc('app.bsky.feed.getTimeline')).toBe(true);
+    expect(app.allowsRpc('chat.bsky.convo.sendMessage')).toBe(false);
+    expect(app.allowsRpc('*', 'did:web:api.bsky.app')).toBe(false);
+    expect(app.allowsAccount('email', 'read')).toBe(true);
+    expect(app.allowsAccount('repo', 'manage')).toBe(false);
+    expect(app.deny('x').status).toBe(401);
+
+    const privileged = AuthScopes.parse('com.atproto.appPassPrivileged');
+    expect(privileged.hasPrivilegedAccess()).toBe(true);
+    expect(privileged.allowsRpc('chat.bsky.convo.sendMessage')).toBe(true);
+  });
+
+  test('granular OAuth scopes', () => {
+    const scopes = AuthScopes.parse([
+      'atproto',
+      'repo:app.bsky.feed.like?action=create&action=delete',
+      'repo?collection=app.bsky.feed.post&collection=app.bsky.feed.repost',
+      'blob:image/*',
+      'rpc:app.bsky.feed.getTimeline?aud=did:web:api.bsky.app%23bsky_appview',
+      'account:email',
+    ].join(' '));
+
+    expect(scopes.allowsRepo('app.bsky.feed.like', 'create')).toBe(true);
+    expect(scopes.allowsRepo('app.bsky.feed.like', 'update')).toBe(false);
+    expect(scopes.allowsRepo('app.bsky.feed.repost', 'update')).toBe(true);
+    expect(scopes.allowsRepo('app.bsky.graph.follow', 'create')).toBe(false);
+
+    expect(scopes.allowsBlob('image/png')).toBe(true);
+    expect(scopes.allowsBlob('video/mp4')).toBe(false);
+
+    expect(scopes.allowsRpc('app.bsky.feed.getTimeline', 'did:web:api.bsky.app#bsky_appview')).toBe(true);
+    expect(scopes.allowsRpc('app.bsky.feed.getTimeline', 'did:web:api.bsky.app')).toBe(true);
+    expect(scopes.allowsRpc('app.bsky.feed.getTimeline', 'did:web:other.example#bsky_appview')).toBe(false);
+    expect(scopes.allowsRpc('app.bsky.feed.getAuthorFeed', 'did:web:api.bsky.app#bsky_appview')).toBe(false);
+
+    expect(scopes.allowsAccount('email', 'read')).toBe(true);
+    expect(scopes.allowsAccount('email', 'manage')).toBe(false);
+    expect(scopes.allowsIdentity('handle')).toBe(false);
+
+    const denied = scopes.deny('repo:app.bsky.graph.follow?action=create');
+    expect(denied.status).toBe(403);
+    expect(denied.code).toBe('InsufficientScope');
+  });
+
+  test('parsePermission rejects malformed permissions', () => {
+    expect(parsePermission('repo:app.bsky.feed.post?action=create')).toEqual({
+      resource: 'repo',
+      collections: ['app.bsky.feed.post'],
+      actions: ['create'],
+    });
+    expect(parsePermission('include:com.example.authFull?aud=did:web:api.example.com%23svc')).toEqual({
+      resource: 'include',
+      nsid: 'com.example.authFull',
+      aud: 'did:web:api.example.com#svc',
+    });
+    for (const token of [
+      'repo',
+      'repo:not-an-nsid',
+      'repo:app.bsky.feed.post?action=publish',
+      'blob:image',
+      'blob:*/png',
+      'rpc:app.bsky.feed.getTimeline',
+      'rpc:*?aud=*',
+      'rpc:app.bsky.feed.getTimeline?aud=example.com',
+      'account:password',
+      'account:email?action=delete',
+      'identity:did',
+      'include:com.example.authFull?aud=*',
+      'atproto',
+      'repo:%E0%A4%A',
+    ]) {
+      expect(parsePermission(token)).toBeNull();
+    }
+  });
+
+  test('transition scopes map onto app-password permissions', () => {
+    const generic = AuthScopes.parse('atproto transition:generic');
+    expect(generic.allowsRepo('app.bsky.graph.follow', 'create')).toBe(true);
+    expect(generic.allowsBlob('video/mp4')).toBe(true);
+    expect(generic.allowsRpc('app.bsky.feed.getTimeline', 'did:web:api.bsky.app#bsky_appview')).toBe(true);
+    expect(generic.allowsRpc('chat.bsky.convo.sendMessage', 'did:web:api.bsky.chat#bsky_chat')).toBe(false);
+    expect(generic.allowsAccount('email', 'read')).toBe(false);
+
+    const chat = AuthScopes.parse('atproto transition:generic transition:chat.bsky transition:email');
+    expect(chat.allowsRpc('chat.bsky.convo.sendMessage', 'did:web:api.bsky.chat#bsky_chat')).toBe(true);
+    expect(chat.allowsAccount('email', 'read')).toBe(true);
+  });
+});
+
+describe('Scope enforcement', () => {
+  async function post(mod: any, env: any, token: string, body: unknown) {
+    return (await mod.POST({
+      locals: { runtime: { env } },
+      request: new Request('http://localhost/xrpc/test', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+        body: JSON.stringify(body),
+      }),
+    })) as Response;
+  }
+
+  test('writes outside the granted collections are rejected', async () => {
+    const env = await makeMigratedEnv();
+    const { accessJwt } = await issueSessionTokens(env, env.PDS_DID as string, {
+      scope: 'atproto repo:app.bsky.feed.like?action=create',
+    });
+
+    const res = await post(CreateRecord, env, accessJwt, {
+      repo: env.PDS_DID,
+      collection: 'app.bsky.feed.post',
+      record: { $type: 'app.bsky.feed.post', text: 'hi', createdAt: new Date().toISOString() },
+    });
+    expect(res.status).toBe(403);
+    const body: any = await res.json();
+    expect(body.error).toBe('InsufficientScope');
+    expect(body.message).toContain('repo:app.bsky.feed.post?action=create');
+
+    // One disallowed write rejects the whole batch
+    const batch = await post(ApplyWrites, env, accessJwt, {
+      repo: env.PDS_DID,
+      writes: [
+        { $type: 'com.atproto.repo.applyWrites#create', collection: 'app.bsky.feed.like', rkey: '3l4aaaaaaaaaa', value: {} },
+        { $type: 'com.atproto.repo.applyWrites#delete', collection: 'app.bsky.feed.like', rkey: '3l4aaaaaaaaab' },
+      ],
+    });
+    expect(batch.status).toBe(403);
+    expect(((await batch.json()) as any).message).toContain('action=delete');
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Sequencer Tests
+ * Tests for the unified event log shared by #commit/#identity/#account/#sync
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { Sequencer } from '../src/worker/sequencer';
+import { makeState, fakeSocket, decodeFrame, makeSequencer, post } from './helpers/sequencer';
+import { pruneOldCommits } from '../src/lib/commit-log-pruning';
+
+const COMMIT_CID = 'bafyreigbtj4x7ip5legnfznufuopl4sg4knzc2cof6duas4b3q2fy6swua';
+const MST_ROOT = 'bafyreibvjvcv745gig4mvqs4hctx4zfkono4rjejm2ta6gtyzkqxfjeily';
+
+describe('Sequencer event log', () => {
+  test('commit, identity and account events share one seq space and replay in order', async () => {
+    const { env, sequencer } = await makeSequencer();
+
+    await post(sequencer, '/identity', { did: 'did:example:test', handle: 'test.example' });
+    await post(sequencer, '/commit', {
+      did: 'did:example:test',
+      commitCid: COMMIT_CID,
+      rev: '3l4example22a',
+      data: JSON.stringify({ did: 'did:example:test', version: 3, data: MST_ROOT, rev: '3l4example22a', prev: null }),
+      sig: btoa('sig'),
+      ops: [],
+    });
+    await post(sequencer, '/account', { did: 'did:example:test', active: false, status: 'deactivated' });
+
+    const rows: any = await env.DB.prepare('SELECT seq, type FROM event_log ORDER BY seq').all();
+    expect(rows.results.map((r: any) => [r.seq, r.type])).toEqual([[1, 'identity'], [2, 'commit'], [3, 'account']]);
+
+    // A fresh instance replays from the log, not its (empty) buffer
+    const state = makeState();
+    const restarted = new Sequencer(state as any, env as any);
+    await state.ready;
+    const ws = fakeSocket(0);
+    await (restarted as any).replayFromCursor(ws, 0);
+    const frames = ws.sent.map(decodeFrame);
+    expect(frames.map((f) => [f.body.seq, f.type])).toEqual([[1, '#identity'], [2, '#commit'], [3, '#account']]);
+    expect(frames[0].body.handle).toBe('test.example');
+    expect(frames[2].body.status).toBe('deactivated');
+
+    // New events continue after the persisted seq
+    await post(restarted, '/identity', { did: 'did:example:test' });
+    const last: any = await env.DB.prepare('SELECT MAX(seq) AS seq FROM event_log').first();
+    expect(last.seq).toBe(4);
+  });
+
+  test('re-notifying a commit does not sequence it twice', async () => {
+    const { env, sequencer } = await makeSequencer();
+    const body = {
+      did: 'did:example:test',
+      commitCid: COMMIT_CID,
+      rev: '3l4example22a',
+      data: JSON.stringify({ did: 'did:example:test', version: 3, data: MST_ROOT, rev: '3l4example22a', prev: null }),
+      sig: btoa('sig'),
+    };
+    await post(sequencer, '/commit', body);
+    await post(sequencer, '/commit', body);
+    const count: any = await env.DB.prepare('SELECT COUNT(*) AS n FROM event_log').first();
+    expect(count.n).toBe(1);
+  });
+
+  test('commits of a taken-down repo are not sequenced or replayed', async () => {
+    const { env, sequencer } = await makeSequencer();
+    const commit = {
+      did: 'did:example:test',
+      commitCid: COMMIT_CID,
+      rev: '3l4example22a',
+      data: JSON.stringify({ did: 'did:example:test', version: 3, data: MST_ROOT, rev: '3l4example22a', prev: null }),
+      sig: btoa('sig'),
+    };
+    await post(sequencer, '/commit', commit);
+    await post(sequencer, '/account', { did: 'did:example:test', active: false, status: 'takendown' });
+    await post(sequencer, '/commit', { ...commit, commitCid: MST_ROOT });
+
+    const rows: any = await env.DB.prepare('SELECT seq, type FROM event_log ORDER BY seq').all();
+    expect(rows.results.map((r: any) => [r.seq, r.type])).toEqual([[1, 'commit'], [2, 'account']]);
+
+    const ws = fakeSocket(0);
+    await (sequencer as any).replayFromCursor(ws, 0);
+    expect(ws.sent.map(decodeFrame).map((f) => f.type)).toEqual(['#account']);
+
+    // Lifting the takedown restores the repo's events
+    await post(sequencer, '/account', { did: 'did:example:test', active: true });
+    const replay = fakeSocket(0);
+    await (sequencer as any).replayFromCursor(replay, 0);
+    expect(replay.sent.map(decodeFrame).map((f) => f.type)).toEqual(['#commit', '#account', '#account']);
+  });
+
+  test('an event the log cannot store fails the notification and is not broadcast', async () => {
+    const { env, state, sequencer } = await makeSequencer();
+    const ws = fakeSocket(0);
+    state.sockets.push(ws);
+
+    await env.DB.exec("CREATE TRIGGER fail_event_log BEFORE INSERT ON event_log BEGIN SELECT RAISE(ABORT, 'disk full'); END");
+    const res = await post(sequencer, '/identity', { did: 'did:example:test', handle: 'test.example' });
+    expect(res.status).toBe(503);
+    expect(ws.sent).toEqual([]);
+    await env.DB.exec('DROP TRIGGER fail_event_log');
+
+    // The seq was handed back: the next event takes it and replay has no hole
+    expect((await post(sequencer, '/identity', { did: 'did:example:test' })).status).toBe(200);
+    expect(ws.sent.map(decodeFrame).map((f) => f.body.seq)).toEqual([1]);
+    const rows: any = await env.DB.prepare('SELECT seq FROM event_log').all();
+    expect(rows.results.map((r: any) => r.seq)).toEqual([1]);
+  });
+
+  test('a commit after its predecessor was pruned from the event log still carries since and prevData', async () => {
+    const { env, state, sequencer } = await makeSequencer();
+    const did = 'did:example:test';
+    await post(sequencer, '/commit', {
+      did,
+      commitCid: COMMIT_CID,
+      rev: '3l4example22a',
+      data: JSON.stringify({ did, version: 3, data: MST_ROOT, rev: '3l4example22a', prev: null }),
+      sig: btoa('sig'),
+      ops: [],
+    });
+    await env.DB.prepare('INSERT INTO repo_root (did, commit_cid, rev) VALUES (?, ?, ?)').bind(did, COMMIT_CID, '3l4example22a').run();
+
+    // Another account stays busy until the quiet repo's commit falls out of the window
+    for (let i = 0; i < 3; i++) {
+      await env.DB.prepare('INSERT INTO commit_log (cid, rev, data, sig, ts) VALUES (?, ?, ?, ?, ?)').bind(`busy-${i}`, `rev${i}`, '{}', '', 0).run();
+      await post(sequencer, '/identity', { did: 'did:example:busy' });
+    }
+    await pruneOldCommits(env, 2);
+    const commits: any = await env.DB.prepare("SELECT COUNT(*) AS n FROM event_log WHERE type = 'commit'").first();
+    expect(commits.n).toBe(0);
+
+    const ws = fakeSocket(0);
+    state.sockets.push(ws);
+    await post(sequencer, '/commit', {
+      did,
+      commitCid: MST_ROOT,
+      rev: '3l4example33a',
+      data: JSON.stringify({ did, version: 3, data: COMMIT_CID, rev: '3l4example33a', prev: COMMIT_CID }),
+      sig: btoa('sig'),
+      ops: [],
+    });
+    const [frame] = ws.sent.map(decodeFrame);
+    expect(frame.type).toBe('#commit');
+    expect(frame.body.since).toBe('3l4example22a');
+    expect(String(frame.body.prevData)).toBe(MST_ROOT);
+  });
+
+  describe('cursor replay', () => {
+    async function seedIdentityEvents(env: any, count: number) {
+      await env.DB.prepare(
+        `WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < ?)
+         INSERT INTO event_log (seq, type, did, payload, ts) SELECT i, 'identity', 'did:example:test', '{}', 0 FROM n`,
+      ).bind(count).run();
+    }
+
+    test('pages through the whole log', async () => {
+      const { env } = await makeSequencer();
+      await seedIdentityEvents(env, 1200);
+      const state = makeState();
+      const sequencer = new Sequencer(state as any, env as any);
+      await state.ready;
+
+      const ws = fakeSocket(0);
+      await (sequencer as any).replayFromCursor(ws, 0);
+      const seqs = ws.sent.map(decodeFrame).map((f) => f.body.seq);
+      expect(seqs).toHaveLength(1200);
+      expect(seqs.every((seq, i) => seq === i + 1)).toBe(true);
+    });
+
+    test('sends #info OutdatedCursor when the cursor predates the pruned horizon', async () => {
+      const { env } = await makeSequencer();
+      await seedIdentityEvents(env, 20);
+      await env.DB.prepare('DELETE FROM event_log WHERE seq < 10').run();
+      const state = makeState();
+      const sequencer = new Sequencer(state as any, env as any);
+      await state.ready;
+
+      const ws = fakeSocket(2);
+      await (sequencer as any).replayFromCursor(ws, 2);
+      const frames = ws.sent.map(decodeFrame);
+      expect(frames[0].type).toBe('#info');
+      expect(frames[0].body.name).toBe('OutdatedCursor');
+      expect(frames.slice(1).map((f) => f.body.seq)).toEqual(Array.from({ length: 11 }, (_, i) => i + 10));
+
+      // A cursor inside the retained window gets no #info
+      const inside = fakeSocket(12);
+      await (sequencer as any).replayFromCursor(inside, 12);
+      expect(inside.sent.map(decodeFrame)[0].type).toBe('#identity');
+    });
+
+    test('queues live events that arrive mid-replay', async () => {
+      const { env } = await makeSequencer();
+      await seedIdentityEvents(env, 1200);
+      const state = makeState();
+      const sequencer = new Sequencer(state as any, env as any);
+      await state.ready;
+
+      const ws = fakeSocket(0);
+      state.sockets.push(ws);
+      const replay = (sequencer as any).replayFromCursor(ws, 0);
+      await post(sequencer, '/identity', { did: 'did:example:test', handle: 'live.example' });
+      await replay;
+
+      const frames = ws.sent.map(decodeFrame);
+      expect(frames.map((f) => f.body.seq)).toEqual(Array.from({ length: 1201 }, (_, i) => i + 1));
+      expect(frames[1200].body.handle).toBe('live.example');
+
+      // Once caught up, events go straight to the socket
+      await post(sequencer, '/identity', { did: 'did:example:test' });
+      expect(decodeFrame(ws.sent[ws.sent.length - 1]).body.seq).toBe(1202);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Signing Key Rotation Tests
+ * The PLC document, stored key and head commit all move to the new key together
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { CID } from 'multiformats/cid';
+import { Secp256k1Keypair } from '@atproto/crypto';
+import { makeMigratedEnv } from './helpers/env';
+import { recordingSequencer } from './helpers/sequencer';
+import { toHex } from './helpers/xrpc';
+import type { Env } from '../src/env';
+import { createEmailToken } from '../src/db/account';
+import { bumpRoot } from '../src/db/repo';
+import { verifyCommit, type SignedCommit } from '../src/lib/commit';
+import { XRPCError } from '../src/lib/errors';
+import { getRepoSigningKey } from '../src/lib/signing-key';
+import { rotateSigningKey } from '../src/lib/signing-key-rotation';
+
+const DID = 'did:plc:alice';
+
+async function setup() {
+  const oldKey = await Secp256k1Keypair.create({ exportable: true });
+  const rotationKey = await Secp256k1Keypair.create({ exportable: true });
+  const sequencer = recordingSequencer();
+  const env = await makeMigratedEnv({
+    PDS_DID: DID,
+    REPO_SIGNING_KEY: toHex(await oldKey.export()),
+    PDS_PLC_ROTATION_KEY: toHex(await rotationKey.export()),
+    SEQUENCER: sequencer.binding,
+  } as any);
+
+  const plcData = {
+    rotationKeys: [rotationKey.did()],
+    verificationMethods: { atproto: oldKey.did() },
+    alsoKnownAs: ['at://alice.example.com'],
+    services: { atproto_pds: { type: 'AtprotoPersonalDataServer', endpoint: 'https://pds.example.com' } },
+  };
+  return { env, events: sequencer.events, oldKey, plcData };
+}
+
+/** Fake plc.directory: serves `data`, records submitted operations, rejects them when `reject` is set */
+async function withPlc<T>(data: unknown, fn: (submitted: any[]) => Promise<T>, reject = false): Promise<T> {
+  const submitted: any[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+    if (url.hostname !== 'plc.directory') return new Response('not found', { status: 404 });
+    if (init?.method === 'POST') {
+      if (reject) return new Response('invalid signature', { status: 400 });
+      submitted.push(JSON.parse(String(init.body)));
+      return new Response('ok');
+    }
+    if (url.pathname.endsWith('/log/last')) return Response.json({ type: 'plc_operation', ...(data as object), prev: null, sig: 'x' });
+    if (url.pathname.endsWith('/data')) return Response.json(data);
+    return new Response('not found', { status: 404 });
+  }) as any;
+  try {
+    return await fn(submitted);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+/** An emailed PLC operation token, as requestPlcOperationSignature would send */
+async function plcToken(env: Env): Promise<string> {
+  await createEmailToken(env, DID, 'plc_operation', 'ABCDE-FGHIJ');
+  return 'ABCDE-FGHIJ';
+}
+
+/** Rebuild the signed commit from what bumpRoot returns */
+function signedCommit(head: { commitData: string; sig: string }): SignedCommit {
+  const data = JSON.parse(head.commitData);
+  return {
+    did: data.did,
+    version: data.version,
+    data: CID.parse(data.data),
+    rev: data.rev,
+    prev: data.prev ? CID.parse(data.prev) : null,
+    sig: Uint8Array.from(atob(head.sig), (c) => c.charCodeAt(0)),
+  };
+}
+
+describe('Signing key rotation', () => {
+  test('dry run reports the new verification methods without signing or changing anything', async () => {
+    const { env, events, oldKey, plcData } = await setup();
+    const result = await withPlc(plcData, async (submitted) => {
+      const rotation = await rotateSigningKey(env, DID, { dryRun: true });
+      expect(submitted).toEqual([]);
+      return rotation;
+    });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.previousKey).toBe(oldKey.did());
+    expect(result.verificationMethods).toEqual({ atproto: result.newKey });
+    // No token was given: a signed operation could be posted to the directory by the caller
+    expect(result.plcOperation).toBeNull();
+    expect(JSON.stringify(result)).not.toContain('"sig"');
+    expect(result.commit).toBeNull();
+    expect(await getRepoSigningKey(env)).toBe(env.REPO_SIGNING_KEY as string);
+    expect(events).toEqual([]);
+  }, 30000);
+
+  test('new commits are signed with the new key only', async () => {
+    const { env, events, oldKey, plcData } = await setup();
+    const before = await bumpRoot(env, undefined, undefined, { ops: [] });
+    expect(await verifyCommit(signedCommit(before), oldKey.did())).toBe(true);
+
+    const newKey = await Secp256k1Keypair.create({ exportable: true });
+    const rotation = await withPlc(plcData, async (submitted) => {
+      const result = await rotateSigningKey(env, DID, { privateKey: toHex(await newKey.export()), token: await plcToken(env) });
+      expect(submitted).toHaveLength(1);
+      expect(submitted[0].verificationMethods.atproto).toBe(newKey.did());
+      return result;
+    });
+    expect(rotation.newKey).toBe(newKey.did());
+    expect(events.map((e) => e.path)).toEqual(['/identity', '/sync']);
+    expect(events[1].body.commitCid).toBe(rotation.commit?.cid);
+
+    const after = await bumpRoot(env, undefined, undefined, { ops: [] });
+    expect(await verifyCommit(signedCommit(after), newKey.did())).toBe(true);
+    expect(await verifyCommit(signedCommit(after), oldKey.did())).toBe(false);
+  }, 30000);
+
+  test('a rejected PLC operation keeps the old key', async () => {
+    const { env, events, plcData } = await setup();
+    const token = await plcToken(env);
+    const error = await withPlc(plcData, () => rotateSigningKey(env, DID, { token }).catch((e) => e), true);
+    expect(error).toBeInstanceOf(XRPCError);
+    expect(error.code).toBe('PlcOperationFailed');
+    expect(await getRepoSigningKey(env)).toBe(env.REPO_SIGNING_KEY as string);
+    expect(events).toEqual([]);
+  }, 30000);
+
+  test('a PLC rotation needs the emailed token', async () => {
+    const { env, events, plcData } = await setup();
+    await createEmailToken(env, DID, 'plc_operation', 'ABCDE-FGHIJ');
+    await withPlc(plcData, async (submitted) => {
+      const missing = await rotateSigningKey(env, DID).catch((e) => e);
+      expect(missing.code).toBe('InvalidRequest');
+      const wrong = await rotateSigningKey(env, DID, { token: 'ZZZZZ-ZZZZZ' }).catch((e) => e);
+      expect(wrong.code).toBe('InvalidToken');
+      expect(submitted).toEqual([]);
+    });
+    expect(await getRepoSigningKey(env)).toBe(env.REPO_SIGNING_KEY as string);
+    expect(events).toEqual([]);
+  }, 30000);
+
+  test('a key that cannot be stored puts the PLC document back', async () => {
+    const { env, events, oldKey, plcData } = await setup();
+    const token = await plcToken(env);
+    await env.DB.prepare(
+      "CREATE TRIGGER fail_secret BEFORE INSERT ON secret BEGIN SELECT RAISE(ABORT, 'storage unavailable'); END",
+    ).run();
+
+    const error = await withPlc(plcData, async (submitted) => {
+      const e = await rotateSigningKey(env, DID, { token }).catch((e) => e);
+      expect(submitted).toHaveLength(2);
+      expect(submitted[0].verificationMethods.atproto).not.toBe(oldKey.did());
+      expect(submitted[1].verificationMethods).toEqual({ atproto: oldKey.did() });
+      return e;
+    });
+    expect(error).toBeInstanceOf(XRPCError);
+    expect(error.code).toBe('SigningKeyNotStored');
+    expect(await getRepoSigningKey(env)).toBe(env.REPO_SIGNING_KEY as string);
+    expect(events).toEqual([]);
+  }, 30000);
+});
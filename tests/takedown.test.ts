@@ -0,0 +1,160 @@
+/**
+ * Takedown Tests
+ * Taken-down records and blobs are withheld from repo and sync read paths
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { Secp256k1Keypair } from '@atproto/crypto';
+import { makeMigratedEnv } from './helpers/env';
+import { recordingSequencer } from './helpers/sequencer';
+import { call, toHex } from './helpers/xrpc';
+import { createAccount } from '../src/db/account';
+import { createAccountState, putBlobRef } from '../src/db/dal';
+import { bumpRoot } from '../src/db/repo';
+import { parseCarFile } from '../src/lib/car-reader';
+import { getWithheldBlockCids, setTakedownStatus } from '../src/lib/moderation';
+import { issueSessionTokens } from '../src/lib/session-tokens';
+import { buildRecordProofCar, buildRepoCar } from '../src/services/car';
+import * as CreateRecord from '../src/pages/xrpc/com.atproto.repo.createRecord';
+import * as GetBlob from '../src/pages/xrpc/com.atproto.sync.getBlob';
+import * as GetBlocks from '../src/pages/xrpc/com.atproto.sync.getBlocks';
+import * as GetCheckout from '../src/pages/xrpc/com.atproto.sync.getCheckout';
+import * as GetCheckoutJson from '../src/pages/xrpc/com.atproto.sync.getCheckout.json';
+import * as GetRecord from '../src/pages/xrpc/com.atproto.repo.getRecord';
+import * as GetRepo from '../src/pages/xrpc/com.atproto.sync.getRepo';
+import * as GetRepoJson from '../src/pages/xrpc/com.atproto.sync.getRepo.json';
+import * as ListBlobs from '../src/pages/xrpc/com.atproto.sync.listBlobs';
+import * as ListRecords from '../src/pages/xrpc/com.atproto.repo.listRecords';
+import * as SyncGetRecord from '../src/pages/xrpc/com.atproto.sync.getRecord';
+
+const DID = 'did:example:test';
+const BLOB_A = 'bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku';
+const BLOB_B = 'bafkreie5cvv4h45feadgeuwhbcutmh6t2ceseocckahdoe6uat64zmz454';
+
+async function setup() {
+  const signingKey = await Secp256k1Keypair.create({ exportable: true });
+  const env = await makeMigratedEnv({
+    PDS_HOSTNAME: 'pds.example.com',
+    REPO_SIGNING_KEY: toHex(await signingKey.export()),
+    SEQUENCER: recordingSequencer().binding,
+  } as any);
+
+  await createAccount(env, { did: DID, handle: 'alice.pds.example.com', passwordScrypt: null });
+  await createAccountState(env, DID, true);
+  await bumpRoot(env, undefined, undefined, { ops: [], did: DID });
+
+  const { accessJwt } = await issueSessionTokens(env, DID);
+  const posts: Array<{ uri: string; cid: string; rkey: string }> = [];
+  for (const text of ['visible', 'hidden']) {
+    const res = await call(CreateRecord, 'POST', env, {
+      token: accessJwt,
+      body: { collection: 'app.bsky.feed.post', record: { $type: 'app.bsky.feed.post', text, createdAt: new Date().toISOString() } },
+    });
+    const body: any = await res.json();
+    posts.push({ uri: body.uri, cid: body.cid, rkey: body.uri.split('/').pop() });
+  }
+  const [visible, hidden] = posts;
+  await setTakedownStatus(env, { $type: 'com.atproto.repo.strongRef', uri: hidden.uri, cid: hidden.cid }, { applied: true });
+  return { env, visible, hidden };
+}
+
+describe('Record takedowns', () => {
+  test('repo.getRecord answers RecordNotFound', async () => {
+    const { env, visible, hidden } = await setup();
+    expect((await call(GetRecord, 'GET', env, { query: `?repo=${DID}&collection=app.bsky.feed.post&rkey=${visible.rkey}` })).status).toBe(200);
+    const res = await call(GetRecord, 'GET', env, { query: `?repo=${DID}&collection=app.bsky.feed.post&rkey=${hidden.rkey}` });
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as any).error).toBe('RecordNotFound');
+  });
+
+  test('repo.listRecords leaves the record out', async () => {
+    const { env, visible } = await setup();
+    const res = await call(ListRecords, 'GET', env, { query: `?repo=${DID}&collection=app.bsky.feed.post` });
+    const body: any = await res.json();
+    expect(body.records.map((r: any) => r.uri)).toEqual([visible.uri]);
+  });
+
+  test('sync.getRecord answers RecordNotFound and the proof CAR omits the record block', async () => {
+    const { env, visible, hidden } = await setup();
+    expect((await call(SyncGetRecord, 'GET', env, { query: `?did=${DID}&collection=app.bsky.feed.post&rkey=${visible.rkey}` })).status).toBe(200);
+    const res = await call(SyncGetRecord, 'GET', env, { query: `?did=${DID}&collection=app.bsky.feed.post&rkey=${hidden.rkey}` });
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as any).error).toBe('RecordNotFound');
+
+    const { bytes } = await buildRecordProofCar(env, DID, 'app.bsky.feed.post', hidden.rkey);
+    const cids = parseCarFile(bytes).blocks.map((block) => block.cid.toString());
+    expect(cids).not.toContain(hidden.cid);
+  });
+
+  test('sync.getRepo keeps the MST but omits the record block', async () => {
+    const { env, visible, hidden } = await setup();
+    const res = await call(GetRepo, 'GET', env, { query: `?did=${DID}` });
+    expect(res.status).toBe(200);
+    const cids = parseCarFile(new Uint8Array(await res.arrayBuffer())).blocks.map((block) => block.cid.toString());
+    expect(cids).toContain(visible.cid);
+    expect(cids).not.toContain(hidden.cid);
+
+    await setTakedownStatus(env, { $type: 'com.atproto.repo.strongRef', uri: hidden.uri, cid: hidden.cid }, { applied: false });
+    const restored = (await buildRepoCar(env, DID)).blocks.map((block) => block.cid.toString());
+    expect(restored).toContain(hidden.cid);
+  });
+
+  test('sync.getCheckout omits the record block and the JSON listings leave the record out', async () => {
+    const { env, visible, hidden } = await setup();
+    const checkout = await call(GetCheckout, 'GET', env, { query: `?did=${DID}` });
+    expect(checkout.status).toBe(200);
+    const cids = parseCarFile(new Uint8Array(await checkout.arrayBuffer())).blocks.map((block) => block.cid.toString());
+    expect(cids).toContain(visible.cid);
+    expect(cids).not.toContain(hidden.cid);
+
+    for (const mod of [GetRepoJson, GetCheckoutJson]) {
+      const body: any = await (await call(mod, 'GET', env, { query: `?did=${DID}` })).json();
+      expect(body.records.map((r: any) => r.uri)).toEqual([visible.uri]);
+    }
+  });
+
+  test('sync.getBlocks reports the record block as missing', async () => {
+    const { env, visible, hidden } = await setup();
+    expect((await call(GetBlocks, 'GET', env, { query: `?did=${DID}&cids=${visible.cid}` })).status).toBe(200);
+    const res = await call(GetBlocks, 'GET', env, { query: `?did=${DID}&cids=${visible.cid},${hidden.cid}` });
+    expect(res.status).toBe(404);
+    expect(((await res.json()) as any).details.missingCids).toEqual([hidden.cid]);
+  });
+});
+
+describe('Repo takedowns', () => {
+  test('every sync read of the repo answers RepoTakendown', async () => {
+    const { env, visible } = await setup();
+    await setTakedownStatus(env, { $type: 'com.atproto.admin.defs#repoRef', did: DID }, { applied: true });
+
+    for (const [mod, query] of [
+      [GetRepo, `?did=${DID}`],
+      [GetCheckout, `?did=${DID}`],
+      [GetRepoJson, `?did=${DID}`],
+      [GetCheckoutJson, `?did=${DID}`],
+      [GetBlocks, `?did=${DID}&cids=${visible.cid}`],
+    ] as const) {
+      const res = await call(mod, 'GET', env, { query });
+      expect(res.status).toBe(400);
+      expect(((await res.json()) as any).error).toBe('RepoTakendown');
+    }
+    // Asked for through another repo, its record blocks are still withheld
+    expect([...(await getWithheldBlockCids(env, [visible.cid]))]).toEqual([visible.cid]);
+  });
+});
+
+describe('Blob takedowns', () => {
+  test('sync.getBlob answers BlobNotFound and listBlobs leaves the blob out', async () => {
+    const { env } = await setup();
+    await putBlobRef(env, DID, BLOB_A, `blobs/${BLOB_A}`, 'image/png', 10);
+    await putBlobRef(env, DID, BLOB_B, `blobs/${BLOB_B}`, 'image/png', 10);
+    await setTakedownStatus(env, { $type: 'com.atproto.admin.defs#repoBlobRef', did: DID, cid: BLOB_B }, { applied: true });
+
+    const blob = await call(GetBlob, 'GET', env, { query: `?did=${DID}&cid=${BLOB_B}` });
+    expect(blob.status).toBe(400);
+    expect(((await blob.json()) as any).error).toBe('BlobNotFound');
+
+    const list: any = await (await call(ListBlobs, 'GET', env, { query: `?did=${DID}` })).json();
+    expect(list.cids).toEqual([BLOB_A]);
+  });
+});
@@ -5,6 +5,7 @@ import type {
   DurableObjectNamespace,
   ExecutionContext,
   R2Bucket,
+  SendEmail,
 } from "@cloudflare/workers-types";
 
 // Minimal Secret Store binding interface. Cloudflare exposes each bound secret
@@ -38,10 +39,21 @@ declare global {
     // secp256k1 signing private key (hex or base64 32 bytes) used for commits and service-auth
     REPO_SIGNING_KEY?: string | SecretsStoreSecret;
     PDS_PLC_ROTATION_KEY?: string | SecretsStoreSecret;
+    // Password for the com.atproto.admin.* API (Basic admin:<password> or Bearer <password>); admin API is off when unset
+    PDS_ADMIN_PASSWORD?: string | SecretsStoreSecret;
     PDS_RATE_LIMIT_PER_MIN?: string;
     PDS_MAX_JSON_BYTES?: string;
     PDS_CORS_ORIGIN?: string;
     PDS_SEQ_WINDOW?: string;
+    PDS_LOOKUP_CACHE?: string; // 'd1' (default) | 'cache-api' | 'memory'; shared tier for DID, handle and client metadata lookups
+    PDS_IMPORT_TIME_BUDGET_MS?: string; // wall-clock budget per importRepo call before it yields
+    PDS_IMPORT_SYNC_MAX_BLOCKS?: string; // CARs with at most this many blocks ignore the budget and import in one call
+    PDS_MULTI_ACCOUNT?: string; // 'true' to host several accounts; default is single-user (PDS_DID only)
+    PDS_USER_DOMAINS?: string; // CSV of handle suffixes createAccount accepts. Default: .PDS_HOSTNAME
+    PDS_INVITE_REQUIRED?: string; // 'false' to allow createAccount without an invite code (multi-account mode). Default: 'true'
+    PDS_INVITE_CODES_PER_ACCOUNT?: string; // single-use codes each account may mint via getAccountInviteCodes. Default: 0
+    PDS_REQUIRE_CONSENT?: string; // '0' to authorize new OAuth clients without the consent screen (sign-in is still required). Default: '1'
+    PDS_OAUTH_EMAIL_CODE?: string; // 'true' to confirm OAuth sign-ins with an emailed code (accounts with a confirmed email). Default: 'false'
     ENVIRONMENT?: string;
     PDS_BSKY_APP_VIEW_URL?: string;
     PDS_BSKY_APP_VIEW_DID?: string;
@@ -53,6 +65,12 @@ declare global {
     PDS_LINK_PRIVACY?: string;
     PDS_LINK_TOS?: string;
     PDS_CONTACT_EMAIL?: string;
+    // Email delivery (see src/lib/email.ts)
+    EMAIL?: SendEmail; // Cloudflare Email Workers send_email binding
+    PDS_EMAIL_TRANSPORT?: string; // 'cloudflare' | 'http' | 'log'; inferred from the settings below when unset ('log' only with ENVIRONMENT development or test)
+    PDS_EMAIL_FROM?: string; // Default: noreply@PDS_HOSTNAME
+    PDS_EMAIL_HTTP_URL?: string; // SMTP-over-HTTP relay endpoint, receives { from, to, subject, text }
+    PDS_EMAIL_HTTP_TOKEN?: string | SecretsStoreSecret; // Bearer token for the relay
     // Relay crawl configuration
     PDS_RELAY_HOSTS?: string; // CSV of relay hostnames (no scheme). Default: bsky.network
     PDS_RELAY_NOTIFY?: string; // 'false' to disable auto notify
@@ -1,8 +1,18 @@
 export {
   createPdsFetchHandler,
+  createPdsScheduledHandler,
   type PdsFetchHandler,
+  type PdsScheduledHandler,
   type CreatePdsFetchHandlerOptions,
+  type CreatePdsScheduledHandlerOptions,
 } from '../src/worker/runtime';
+export {
+  DEFAULT_MAINTENANCE_JOBS,
+  runMaintenance,
+  type MaintenanceJob,
+  type MaintenanceRun,
+  type MaintenanceResult,
+} from '../src/lib/maintenance';
 export { Sequencer } from '../src/worker/sequencer';
 export { onRequest } from '../src/middleware';
 export { seed } from '../src/db/seed';